@@ -1,6 +1,8 @@
 import { onRequest } from "firebase-functions/v2/https";
 import { defineSecret } from "firebase-functions/params";
 import { exchangeToken, refreshToken, googleClientId, googleClientSecret } from "./oauth";
+// Copied from server/proxy.ts by the prebuild script
+import { handleProxyRequest } from "./proxy";
 
 // Define secrets for API keys
 const airLabsApiKey = defineSecret("AIRLABS_API_KEY");
@@ -259,6 +261,30 @@ export const rssProxy = onRequest(
   }
 );
 
+// Boxento fetch proxy (/api/proxy?url=...), shared with the self-hosted server.
+// Allowlist, private hosts and limits come from the BOXENTO_PROXY_* variables in functions/.env.
+// Rate limits and the response cache are per function instance.
+export const fetchProxy = onRequest(
+  {
+    cors: true,
+    invoker: "public"
+  },
+  async (req, res) => {
+    const headers = new Headers();
+    ["Accept", "Cache-Control"].forEach((name) => {
+      const value = req.get(name);
+      if (value) headers.set(name, value);
+    });
+
+    const request = new Request(`https://${req.hostname}${req.originalUrl}`, { method: req.method, headers });
+    const response = await handleProxyRequest(request, req.ip || "unknown");
+
+    res.status(response.status);
+    response.headers.forEach((value, name) => res.set(name, value));
+    res.send(Buffer.from(await response.arrayBuffer()));
+  }
+);
+
 // Proxy for currency exchange rates using Frankfurter API (completely free, no key needed)
 // Centralizes currency data so users don't need their own API keys
 export const currencyProxy = onRequest(
@@ -1,5 +1,32 @@
-const CACHE_NAME = 'boxento-cache-v1';
-const urlsToCache = [
+/*
+ * Boxento service worker
+ *
+ * - The app shell (index.html, the entry bundle, its CSS and static files) is
+ *   precached per build, so the dashboard opens offline.
+ * - Page loads go to the network first, so a new deployment is picked up right
+ *   away, and fall back to the cached shell offline.
+ * - Lazy widget chunks are network-first and cached as they load.
+ * - Widget API calls on the allowlist below go to the network first. The last
+ *   response is only shown when the network fails or is too slow, e.g. offline.
+ *   Calls made with a credential are never cached.
+ *
+ * A new build installs alongside the old one and waits; the app offers a reload,
+ * which tells it to take over (see src/lib/serviceWorker.ts). Caches of older
+ * builds are deleted once the new worker activates.
+ */
+
+// Replaced at build time by the service worker plugin in vite.config.ts
+const BUILD_VERSION = 'dev';
+const PRECACHE_URLS = [];
+
+const CACHE_PREFIX = 'boxento-';
+const PRECACHE = `${CACHE_PREFIX}precache-${BUILD_VERSION}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime-${BUILD_VERSION}`;
+// API responses don't depend on the build, so this cache outlives deployments.
+// v1 may hold responses fetched with credentials, so it's dropped.
+const API_CACHE = `${CACHE_PREFIX}api-v2`;
+
+const STATIC_URLS = [
   '/',
   '/index.html',
   '/favicon.ico',
@@ -10,59 +37,148 @@ const urlsToCache = [
   '/icons/icon-512x512.png'
 ];
 
+// Widget data that may be shown stale: weather, feeds (through the Boxento proxy) and currency rates
+const API_ORIGINS = [
+  'https://api.open-meteo.com',
+  'https://geocoding-api.open-meteo.com'
+];
+const API_PATHS = ['/api/currency', '/api/mindicador', '/api/proxy'];
+
+// Responses kept per API cache before the oldest are dropped
+const MAX_API_ENTRIES = 100;
+// How long an API call may take before the cached response is shown instead
+const API_TIMEOUT_MS = 5000;
+
+const isApiRequest = (url) =>
+  API_ORIGINS.includes(url.origin) ||
+  (url.origin === self.location.origin && API_PATHS.some((path) => url.pathname.startsWith(path)));
+
+// Responses fetched with a vault credential or an Authorization header belong
+// to whoever holds the secret, so they stay out of the cache
+const usesCredentials = (request, url) =>
+  request.headers.has('Authorization') || url.searchParams.has('credential');
+
+/**
+ * What a request allows the cache to do, from fetch's cache option or its
+ * Cache-Control / Pragma headers: 'no-store' skips the cache, 'no-cache' needs
+ * a live answer that may still be kept, null allows a cached answer
+ */
+const getCacheDirective = (request) => {
+  const header = `${request.headers.get('Cache-Control') || ''},${request.headers.get('Pragma') || ''}`.toLowerCase();
+  if (request.cache === 'no-store' || /\bno-store\b/.test(header)) return 'no-store';
+  if (request.cache === 'no-cache' || request.cache === 'reload' || /\bno-cache\b|\bmax-age=0\b/.test(header)) {
+    return 'no-cache';
+  }
+  return null;
+};
+
+const isPrecached = (url) =>
+  url.origin === self.location.origin && PRECACHE_URLS.includes(url.pathname);
+
+const isLazyChunk = (url) =>
+  url.origin === self.location.origin && url.pathname.startsWith('/assets/') && url.pathname.endsWith('.js');
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(keys.length - maxEntries, 0)).map((key) => cache.delete(key)));
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  return cached || fetch(request);
+};
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request) || (fallbackUrl && await caches.match(fallbackUrl));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Fetch an API response and keep it for when the network fails
+const fetchAndStore = async (request) => {
+  const response = await fetch(request);
+  // Opaque responses can't be checked, so only successful ones are kept
+  if (response.ok) {
+    const cache = await caches.open(API_CACHE);
+    await cache.put(request, response.clone());
+    await trimCache(API_CACHE, MAX_API_ENTRIES);
+  }
+  return response;
+};
+
+// Answer from the network, or from the cache when the network fails or takes
+// longer than API_TIMEOUT_MS. A late response is still stored for next time.
+const networkFirstWithTimeout = async (event) => {
+  const refresh = fetchAndStore(event.request);
+  // Keep the worker alive until a late response is stored
+  event.waitUntil(refresh.catch(() => undefined));
+
+  let timeoutId;
+  const timeout = new Promise((resolve) => {
+    timeoutId = setTimeout(() => resolve(null), API_TIMEOUT_MS);
+  });
+  const response = await Promise.race([refresh, timeout])
+    .catch(() => null)
+    .finally(() => clearTimeout(timeoutId));
+  if (response) return response;
+
+  const cache = await caches.open(API_CACHE);
+  const cached = await cache.match(event.request);
+  // Nothing cached: wait for the network after all, failing like it does
+  return cached || refresh;
+};
+
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => {
-        return cache.addAll(urlsToCache);
-      })
-  );
-});
-
-self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        // Cache hit - return the response from the cached version
-        if (response) {
-          return response;
-        }
-        
-        // Not in cache - fetch and cache the result
-        return fetch(event.request).then(
-          (response) => {
-            // Check if we received a valid response
-            if (!response || response.status !== 200 || response.type !== 'basic') {
-              return response;
-            }
-
-            // Clone the response as it's a stream that can only be consumed once
-            const responseToCache = response.clone();
-
-            caches.open(CACHE_NAME)
-              .then((cache) => {
-                cache.put(event.request, responseToCache);
-              });
-
-            return response;
-          }
-        );
-      })
+    caches.open(PRECACHE).then((cache) => cache.addAll([...new Set([...STATIC_URLS, ...PRECACHE_URLS])]))
   );
 });
 
-// Clean up old caches
 self.addEventListener('activate', (event) => {
-  const cacheWhitelist = [CACHE_NAME];
+  const currentCaches = [PRECACHE, RUNTIME_CACHE, API_CACHE];
   event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheWhitelist.indexOf(cacheName) === -1) {
-            return caches.delete(cacheName);
-          }
-        })
-      );
-    })
+    caches.keys()
+      .then((cacheNames) => Promise.all(
+        cacheNames
+          .filter((cacheName) => !currentCaches.includes(cacheName))
+          .map((cacheName) => caches.delete(cacheName))
+      ))
+      .then(() => self.clients.claim())
   );
-}); 
\ No newline at end of file
+});
+
+// The app asks a waiting worker to take over once the user agrees to reload
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, RUNTIME_CACHE, '/index.html'));
+  } else if (isApiRequest(url) && !usesCredentials(request, url) && getCacheDirective(request) !== 'no-store') {
+    // no-store requests (e.g. uptime checks) skip the cache, no-cache ones (e.g. refreshes) its fallback
+    event.respondWith(getCacheDirective(request) === 'no-cache' ? fetchAndStore(request) : networkFirstWithTimeout(event));
+  } else if (isPrecached(url)) {
+    event.respondWith(cacheFirst(request));
+  } else if (isLazyChunk(url)) {
+    event.respondWith(networkFirst(request, RUNTIME_CACHE));
+  }
+  // Anything else (sync data, auth, third-party widgets) goes straight to the network
+});
@@ -0,0 +1,37 @@
+/**
+ * Token authentication for the self-hosted Boxento server
+ *
+ * There are no user accounts: a client authenticates with a sync token sent as
+ * a Bearer token, and every device using the same token shares the same data.
+ * The user ID is derived from the token so the token itself is never stored.
+ *
+ * Set BOXENTO_API_TOKENS (comma separated) to only accept specific tokens.
+ */
+
+const MIN_TOKEN_LENGTH = 16;
+
+const allowedTokens = new Set(
+  (process.env.BOXENTO_API_TOKENS || '')
+    .split(',')
+    .map(token => token.trim())
+    .filter(Boolean)
+);
+
+/**
+ * Resolve the user ID for a request
+ *
+ * @returns The user ID, or null if the request has no valid token
+ */
+export const authenticate = (req: Request): string | null => {
+  const header = req.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+
+  const token = match[1].trim();
+  if (token.length < MIN_TOKEN_LENGTH) return null;
+  if (allowedTokens.size > 0 && !allowedTokens.has(token)) return null;
+
+  const hasher = new Bun.CryptoHasher('sha256');
+  hasher.update(token);
+  return hasher.digest('hex');
+};
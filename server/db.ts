@@ -0,0 +1,245 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import path from 'path';
+
+/**
+ * SQLite persistence for the self-hosted Boxento server
+ *
+ * User data is stored as JSON documents addressed by (user, collection, doc),
+ * mirroring the Firestore layout used by the hosted version:
+ * - dashboard/layouts, dashboard/widget-list, dashboard/app-settings, dashboard/keyring
+ * - widget-configs/{widgetId}
+ *
+ * Vault credentials live in their own table, with the secret encrypted (see vault.ts).
+ */
+
+export const DATA_DIR = process.env.BOXENTO_DATA_DIR || path.resolve(process.cwd(), 'data');
+
+mkdirSync(DATA_DIR, { recursive: true });
+
+export const db = new Database(path.join(DATA_DIR, 'boxento.sqlite'), { create: true });
+
+db.exec('PRAGMA journal_mode = WAL;');
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS documents (
+    user_id TEXT NOT NULL,
+    collection TEXT NOT NULL,
+    doc_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, collection, doc_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS public_dashboards (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS credentials (
+    user_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    hosts TEXT NOT NULL,
+    scheme TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, id)
+  );
+`);
+
+type JsonObject = Record<string, unknown>;
+
+const revisionOf = (data: string): string => {
+  const hasher = new Bun.CryptoHasher('sha256');
+  hasher.update(data);
+  return hasher.digest('hex');
+};
+
+const getDocumentQuery = db.query<{ data: string }, [string, string, string]>(
+  'SELECT data FROM documents WHERE user_id = ? AND collection = ? AND doc_id = ?'
+);
+const listDocumentsQuery = db.query<{ doc_id: string; data: string }, [string, string]>(
+  'SELECT doc_id, data FROM documents WHERE user_id = ? AND collection = ?'
+);
+const upsertDocumentQuery = db.query<unknown, [string, string, string, string, string]>(`
+  INSERT INTO documents (user_id, collection, doc_id, data, updated_at)
+  VALUES (?, ?, ?, ?, ?)
+  ON CONFLICT (user_id, collection, doc_id)
+  DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+`);
+const deleteDocumentQuery = db.query<unknown, [string, string, string]>(
+  'DELETE FROM documents WHERE user_id = ? AND collection = ? AND doc_id = ?'
+);
+
+const getPublicDashboardQuery = db.query<{ owner_id: string; data: string }, [string]>(
+  'SELECT owner_id, data FROM public_dashboards WHERE id = ?'
+);
+const upsertPublicDashboardQuery = db.query<unknown, [string, string, string, string]>(`
+  INSERT INTO public_dashboards (id, owner_id, data, updated_at)
+  VALUES (?, ?, ?, ?)
+  ON CONFLICT (id)
+  DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+`);
+const deletePublicDashboardQuery = db.query<unknown, [string]>(
+  'DELETE FROM public_dashboards WHERE id = ?'
+);
+
+export const documentStore = {
+  get: (userId: string, collection: string, docId: string): JsonObject | null => {
+    const row = getDocumentQuery.get(userId, collection, docId);
+    return row ? JSON.parse(row.data) as JsonObject : null;
+  },
+
+  list: (userId: string, collection: string): Record<string, JsonObject> => {
+    const result: Record<string, JsonObject> = {};
+    for (const row of listDocumentsQuery.all(userId, collection)) {
+      result[row.doc_id] = JSON.parse(row.data) as JsonObject;
+    }
+    return result;
+  },
+
+  set: (userId: string, collection: string, docId: string, data: JsonObject): void => {
+    upsertDocumentQuery.run(userId, collection, docId, JSON.stringify(data), new Date().toISOString());
+  },
+
+  /**
+   * Write several documents of one collection in a single transaction
+   */
+  setMany: (userId: string, collection: string, docs: Record<string, JsonObject>): void => {
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      for (const [docId, data] of Object.entries(docs)) {
+        upsertDocumentQuery.run(userId, collection, docId, JSON.stringify(data), now);
+      }
+    })();
+  },
+
+  delete: (userId: string, collection: string, docId: string): void => {
+    deleteDocumentQuery.run(userId, collection, docId);
+  },
+
+  /**
+   * Revision of a document, a hash of its content, or null if it doesn't exist.
+   * Clients send it back with a write to only replace the version they read.
+   */
+  getRevision: (userId: string, collection: string, docId: string): string | null => {
+    const row = getDocumentQuery.get(userId, collection, docId);
+    return row ? revisionOf(row.data) : null;
+  },
+
+  /**
+   * Change a document if it is still at `revision` (null: doesn't exist yet)
+   *
+   * @param update - Builds the new document from the stored one
+   * @returns false, without writing, when the document is at another revision
+   */
+  updateAtRevision: (
+    userId: string,
+    collection: string,
+    docId: string,
+    revision: string | null,
+    update: (existing: JsonObject | null) => JsonObject
+  ): boolean => db.transaction(() => {
+    const row = getDocumentQuery.get(userId, collection, docId);
+    if ((row ? revisionOf(row.data) : null) !== revision) return false;
+    const data = update(row ? JSON.parse(row.data) as JsonObject : null);
+    upsertDocumentQuery.run(userId, collection, docId, JSON.stringify(data), new Date().toISOString());
+    return true;
+  })(),
+};
+
+export const publicDashboardStore = {
+  get: (id: string): { ownerId: string; data: JsonObject } | null => {
+    const row = getPublicDashboardQuery.get(id);
+    return row ? { ownerId: row.owner_id, data: JSON.parse(row.data) as JsonObject } : null;
+  },
+
+  set: (id: string, ownerId: string, data: JsonObject): void => {
+    upsertPublicDashboardQuery.run(id, ownerId, JSON.stringify(data), new Date().toISOString());
+  },
+
+  delete: (id: string): void => {
+    deletePublicDashboardQuery.run(id);
+  },
+};
+
+export interface StoredCredential {
+  id: string;
+  name: string;
+  /** Hosts the credential may be sent to */
+  hosts: string[];
+  /** Authorization scheme, e.g. Bearer */
+  scheme: string;
+  /** Encrypted secret */
+  secret: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CredentialRow {
+  id: string;
+  name: string;
+  hosts: string;
+  scheme: string;
+  secret: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const toCredential = (row: CredentialRow): StoredCredential => ({
+  id: row.id,
+  name: row.name,
+  hosts: JSON.parse(row.hosts) as string[],
+  scheme: row.scheme,
+  secret: row.secret,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const listCredentialsQuery = db.query<CredentialRow, [string]>(
+  'SELECT * FROM credentials WHERE user_id = ? ORDER BY name'
+);
+const getCredentialQuery = db.query<CredentialRow, [string, string]>(
+  'SELECT * FROM credentials WHERE user_id = ? AND id = ?'
+);
+const upsertCredentialQuery = db.query<unknown, [string, string, string, string, string, string, string, string]>(`
+  INSERT INTO credentials (user_id, id, name, hosts, scheme, secret, created_at, updated_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT (user_id, id)
+  DO UPDATE SET name = excluded.name, hosts = excluded.hosts, scheme = excluded.scheme,
+    secret = excluded.secret, updated_at = excluded.updated_at
+`);
+const deleteCredentialQuery = db.query<unknown, [string, string]>(
+  'DELETE FROM credentials WHERE user_id = ? AND id = ?'
+);
+
+export const credentialStore = {
+  list: (userId: string): StoredCredential[] =>
+    listCredentialsQuery.all(userId).map(toCredential),
+
+  get: (userId: string, id: string): StoredCredential | null => {
+    const row = getCredentialQuery.get(userId, id);
+    return row ? toCredential(row) : null;
+  },
+
+  set: (userId: string, credential: StoredCredential): void => {
+    upsertCredentialQuery.run(
+      userId,
+      credential.id,
+      credential.name,
+      JSON.stringify(credential.hosts),
+      credential.scheme,
+      credential.secret,
+      credential.createdAt,
+      credential.updatedAt
+    );
+  },
+
+  delete: (userId: string, id: string): void => {
+    deleteCredentialQuery.run(userId, id);
+  },
+};
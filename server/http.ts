@@ -0,0 +1,75 @@
+/**
+ * HTTP helpers shared by the server routes
+ */
+
+const CORS_ORIGIN = process.env.BOXENTO_CORS_ORIGIN || '*';
+
+/** Maximum accepted request body size (5 MB) */
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+export const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': CORS_ORIGIN,
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Cache-Control',
+};
+
+export const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+
+export const error = (message: string, status: number): Response => json({ error: message }, status);
+
+export const noContent = (): Response => new Response(null, { status: 204, headers: corsHeaders });
+
+/**
+ * Thrown by route handlers to return an error response
+ */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read a JSON object body, enforcing the size limit
+ */
+export const readJsonBody = async (req: Request): Promise<Record<string, unknown>> => {
+  const length = Number(req.headers.get('Content-Length') || 0);
+  if (length > MAX_BODY_BYTES) {
+    throw new HttpError(413, 'Request body too large');
+  }
+
+  const text = await req.text();
+  if (text.length > MAX_BODY_BYTES) {
+    throw new HttpError(413, 'Request body too large');
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+
+  if (!isRecord(body)) {
+    throw new HttpError(400, 'Expected a JSON object');
+  }
+  return body;
+};
+
+/**
+ * Read a required object-valued field from a request body
+ */
+export const requireObject = (body: Record<string, unknown>, field: string): Record<string, unknown> => {
+  const value = body[field];
+  if (!isRecord(value)) {
+    throw new HttpError(400, `Missing or invalid "${field}"`);
+  }
+  return value;
+};
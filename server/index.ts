@@ -0,0 +1,86 @@
+import { handleStorageRequest } from './storage';
+import { handleProxyRequest } from './proxy';
+import { resolveCredential } from './vault';
+import { corsHeaders, error, HttpError, json } from './http';
+
+/**
+ * Self-hosted Boxento server
+ *
+ * Serves the storage API used when the app is built or configured with the
+ * "rest" storage backend, with its credential vault (see vault.ts), and the
+ * fetch proxy widgets use for sites without CORS (see proxy.ts). Run with
+ * `bun server/index.ts`; the Docker image starts it next to the Vite preview
+ * server, which proxies /api/storage and /api/proxy here.
+ *
+ * Environment:
+ * - BOXENTO_SERVER_PORT: port to listen on (default 3100)
+ * - BOXENTO_DATA_DIR: directory holding the SQLite database (default ./data)
+ * - BOXENTO_API_TOKENS: optional comma separated list of accepted sync tokens
+ * - BOXENTO_CORS_ORIGIN: allowed origin for cross-origin clients (default *)
+ * - BOXENTO_PROXY_*: fetch proxy settings, see proxy.ts
+ * - BOXENTO_VAULT_KEY: optional master key for vault credentials, see vault.ts
+ */
+
+const PORT = Number(process.env.BOXENTO_SERVER_PORT || 3100);
+const STORAGE_PREFIX = '/api/storage';
+const PROXY_PATH = '/api/proxy';
+
+const isLoopback = (address: string | undefined): boolean =>
+  address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+
+/**
+ * Identify the client for rate limiting. Behind Vite's proxy every request
+ * comes from localhost, with the browser's address appended to X-Forwarded-For.
+ */
+const getClientId = (req: Request, address: string | undefined): string => {
+  const forwarded = req.headers.get('X-Forwarded-For');
+  if (forwarded && isLoopback(address)) {
+    return forwarded.split(',').pop()?.trim() || 'unknown';
+  }
+  return address || 'unknown';
+};
+
+const withCors = (response: Response): Response => {
+  Object.entries(corsHeaders).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+};
+
+const server = Bun.serve({
+  port: PORT,
+  // Proxied fetches may take up to 10 seconds; Bun closes idle connections after 10 by default
+  idleTimeout: 30,
+  async fetch(req, server) {
+    const url = new URL(req.url);
+
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    try {
+      if (url.pathname === '/health' || url.pathname === `${STORAGE_PREFIX}/health`) {
+        return json({ status: 'ok' });
+      }
+
+      if (url.pathname === STORAGE_PREFIX || url.pathname.startsWith(`${STORAGE_PREFIX}/`)) {
+        return await handleStorageRequest(req, url.pathname.slice(STORAGE_PREFIX.length));
+      }
+
+      if (url.pathname === PROXY_PATH) {
+        const response = await handleProxyRequest(req, getClientId(req, server.requestIP(req)?.address), {
+          resolveCredential: (credentialId) => resolveCredential(req, credentialId),
+        });
+        return withCors(response);
+      }
+
+      return error('Not found', 404);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return error(err.message, err.status);
+      }
+      console.error('Unhandled server error:', err);
+      return error('Internal server error', 500);
+    }
+  },
+});
+
+console.warn(`Boxento server listening on port ${server.port}`);
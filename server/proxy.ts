@@ -0,0 +1,477 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+/**
+ * Boxento fetch proxy
+ *
+ * Lets widgets read feeds, calendars and websites that don't allow
+ * cross-origin requests: `GET /api/proxy?url=<encoded target URL>` fetches the
+ * target and returns its status, Content-Type and body.
+ *
+ * Safeguards:
+ * - Only http(s) targets, only GET unless a credential is used, and only hosts
+ *   on the allowlist. Without one, only the hosts the built-in widgets use by
+ *   default can be fetched, so the proxy is never an open relay by accident
+ * - Targets resolving to private, loopback or link-local addresses are refused
+ *   unless opted in, and every redirect is checked the same way
+ * - Responses larger than the size limit are refused
+ * - Each client may make a limited number of requests per minute
+ * - Successful responses are cached briefly; send `Cache-Control: no-cache`
+ *   to skip the cache (e.g. for uptime checks)
+ *
+ * Errors raised by the proxy itself carry the X-Boxento-Proxy-Error header, so
+ * clients can tell them apart from the target's own error statuses.
+ *
+ * The proxy is served from the app's origin, so responses are sandboxed and sent
+ * as downloads: a proxied page opened in a tab can't run script as the app.
+ *
+ * With `&credential=<id>`, the proxy asks the host (e.g. the self-hosted
+ * server's vault) for that credential and adds its headers, but only to
+ * requests for the credential's hosts. Such requests may also use POST, PUT,
+ * PATCH and DELETE, and are never cached.
+ *
+ * This module only depends on Node built-ins and web APIs: the Bun server
+ * mounts it, and the Firebase functions build copies it into functions/src.
+ *
+ * Environment:
+ * - BOXENTO_PROXY_ALLOWED_HOSTS: comma separated hosts the proxy may fetch,
+ *   `*.example.com` for subdomains, `*` for any public host, `default` for the
+ *   built-in widgets' hosts. Empty allows only those
+ * - BOXENTO_PROXY_PRIVATE_HOSTS: comma separated hosts, IPs or IPv4 CIDR ranges
+ *   on the local network that may be fetched anyway, e.g. `nas.lan,192.168.1.0/24`
+ * - BOXENTO_PROXY_MAX_BYTES: largest response passed on (default 5 MB)
+ * - BOXENTO_PROXY_CACHE_TTL: seconds to cache successful responses (default 300, 0 disables)
+ * - BOXENTO_PROXY_RATE_LIMIT: requests per client per minute (default 120)
+ */
+
+const parseList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+
+// Hosts the built-in widgets fetch out of the box: the suggested RSS feeds,
+// YouTube channel feeds, and the usual calendar and spreadsheet exports
+const DEFAULT_ALLOWED_HOSTS = [
+  'news.ycombinator.com',
+  'rss.nytimes.com',
+  'www.wired.com',
+  'www.youtube.com',
+  'calendar.google.com',
+  'outlook.office365.com',
+  'outlook.live.com',
+  '*.icloud.com',
+  'docs.google.com',
+  'raw.githubusercontent.com',
+];
+
+const parseAllowedHosts = (value: string | undefined): string[] => {
+  const hosts = parseList(value);
+  if (hosts.length === 0) return DEFAULT_ALLOWED_HOSTS;
+  return hosts.flatMap(host => host === 'default' ? DEFAULT_ALLOWED_HOSTS : [host]);
+};
+
+const ALLOWED_HOSTS = parseAllowedHosts(process.env.BOXENTO_PROXY_ALLOWED_HOSTS);
+const ALLOWS_ANY_HOST = ALLOWED_HOSTS.includes('*');
+const PRIVATE_HOSTS = parseList(process.env.BOXENTO_PROXY_PRIVATE_HOSTS);
+const MAX_RESPONSE_BYTES = Number(process.env.BOXENTO_PROXY_MAX_BYTES || 5 * 1024 * 1024);
+const CACHE_TTL_MS = Number(process.env.BOXENTO_PROXY_CACHE_TTL ?? 300) * 1000;
+const RATE_LIMIT = Number(process.env.BOXENTO_PROXY_RATE_LIMIT || 120);
+
+const MAX_REQUEST_BYTES = 1024 * 1024;
+const RATE_WINDOW_MS = 60 * 1000;
+const TIMEOUT_MS = 10 * 1000;
+const MAX_REDIRECTS = 5;
+const MAX_CACHE_ENTRIES = 200;
+const USER_AGENT = 'Boxento-Proxy/1.0';
+
+export const PROXY_ERROR_HEADER = 'X-Boxento-Proxy-Error';
+const CACHE_HEADER = 'X-Boxento-Proxy-Cache';
+
+// Statuses whose responses may not have a body
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+// Methods allowed for requests with a credential; anything else is read-only
+const CREDENTIAL_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Headers to add for a credential, and the hosts they may be sent to
+ */
+export interface ProxyCredential {
+  hosts: string[];
+  headers: Record<string, string>;
+}
+
+export interface ProxyOptions {
+  /**
+   * Look up a credential named by the `credential` parameter for this request.
+   * Resolves null when it doesn't exist or the request may not use it.
+   */
+  resolveCredential?: (credentialId: string) => Promise<ProxyCredential | null>;
+}
+
+interface TargetRequest {
+  method: string;
+  accept: string | null;
+  contentType: string | null;
+  body?: Uint8Array;
+  credential: ProxyCredential | null;
+}
+
+class ProxyError extends Error {
+  constructor(public status: number, message: string, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+interface CachedResponse {
+  status: number;
+  contentType: string;
+  retryAfter: string | null;
+  body: Uint8Array;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CachedResponse>();
+const rateLimits = new Map<string, { count: number; resetAt: number }>();
+
+// --- Target checks ---
+
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const ipv4ToNumber = (address: string): number =>
+  address.split('.').reduce((result, part) => result * 256 + Number(part), 0);
+
+const isInIpv4Range = (address: string, base: string, bits: number): boolean => {
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+  return ((ipv4ToNumber(address) & mask) >>> 0) === ((ipv4ToNumber(base) & mask) >>> 0);
+};
+
+// IPv4 address embedded in an IPv4-mapped IPv6 address (::ffff:a.b.c.d or ::ffff:xxxx:xxxx)
+const getMappedIpv4 = (address: string): string | null => {
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return dotted[1];
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) return null;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+};
+
+const isPrivateAddress = (address: string): boolean => {
+  const normalized = address.toLowerCase();
+  const ipv4 = isIP(normalized) === 4 ? normalized : getMappedIpv4(normalized);
+  if (ipv4) return PRIVATE_IPV4_RANGES.some(([base, bits]) => isInIpv4Range(ipv4, base, bits));
+
+  return normalized === '::'
+    || normalized === '::1'
+    || /^f[cd]/.test(normalized) // unique local fc00::/7
+    || /^fe[89ab]/.test(normalized) // link-local fe80::/10
+    || normalized.startsWith('ff'); // multicast
+};
+
+// Host name of a URL, without the brackets around IPv6 addresses
+const getHostname = (url: URL): string => url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+
+const matchesHost = (hostname: string, patterns: string[]): boolean =>
+  patterns.some(pattern => pattern.startsWith('*.')
+    ? hostname.endsWith(pattern.slice(1))
+    : hostname === pattern);
+
+const isOptedInPrivate = (hostname: string, address: string): boolean =>
+  matchesHost(hostname, PRIVATE_HOSTS) || PRIVATE_HOSTS.some(pattern => {
+    if (!pattern.includes('/')) return pattern === address;
+    const [base, bits] = pattern.split('/');
+    return isIP(base) === 4 && isIP(address) === 4 && isInIpv4Range(address, base, Number(bits));
+  });
+
+const resolveAddresses = async (hostname: string): Promise<string[]> => {
+  if (isIP(hostname)) return [hostname];
+  try {
+    const results = await lookup(hostname, { all: true });
+    return results.map(result => result.address);
+  } catch {
+    throw new ProxyError(502, `Could not resolve ${hostname}`);
+  }
+};
+
+/**
+ * Refuse targets the proxy must not fetch. The addresses are checked when
+ * resolved here; the fetch resolves the host again, so pair the proxy with a
+ * DNS resolver that doesn't hand out private addresses for public names if
+ * rebinding is a concern.
+ */
+const checkTarget = async (url: URL): Promise<void> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ProxyError(400, 'Only http and https URLs can be proxied');
+  }
+  if (url.username || url.password) {
+    throw new ProxyError(400, 'URLs with credentials cannot be proxied');
+  }
+
+  const hostname = getHostname(url);
+  if (!ALLOWS_ANY_HOST && !matchesHost(hostname, ALLOWED_HOSTS)) {
+    throw new ProxyError(403, `${hostname} is not on the proxy's allowlist; add it to BOXENTO_PROXY_ALLOWED_HOSTS to allow it`);
+  }
+
+  const addresses = await resolveAddresses(hostname);
+  if (addresses.some(address => isPrivateAddress(address) && !isOptedInPrivate(hostname, address))) {
+    throw new ProxyError(403, `${hostname} is on a private network; add it to BOXENTO_PROXY_PRIVATE_HOSTS to allow it`);
+  }
+};
+
+const parseTarget = (value: string | null): URL => {
+  if (!value) throw new ProxyError(400, 'Missing "url" parameter');
+  try {
+    return new URL(value);
+  } catch {
+    throw new ProxyError(400, 'Invalid "url" parameter');
+  }
+};
+
+// --- Rate limiting ---
+
+/**
+ * Count a request for a client
+ *
+ * @returns Seconds until the client may try again when over the limit
+ */
+const takeRateLimit = (clientId: string): number | undefined => {
+  const now = Date.now();
+  if (rateLimits.size > 1000) {
+    rateLimits.forEach((limit, id) => {
+      if (limit.resetAt <= now) rateLimits.delete(id);
+    });
+  }
+
+  let limit = rateLimits.get(clientId);
+  if (!limit || limit.resetAt <= now) {
+    limit = { count: 0, resetAt: now + RATE_WINDOW_MS };
+    rateLimits.set(clientId, limit);
+  }
+  limit.count += 1;
+  return limit.count > RATE_LIMIT ? Math.ceil((limit.resetAt - now) / 1000) : undefined;
+};
+
+// --- Fetching ---
+
+const fetchTarget = async (target: URL, request: TargetRequest, signal: AbortSignal): Promise<Response> => {
+  let url = target;
+  let { method, body } = request;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await checkTarget(url);
+    // Redirects elsewhere go out without the credential
+    const credentialHeaders = request.credential && matchesHost(getHostname(url), request.credential.hosts)
+      ? request.credential.headers
+      : {};
+    const response = await fetch(url, {
+      method,
+      body,
+      redirect: 'manual',
+      signal,
+      headers: {
+        'Accept': request.accept || '*/*',
+        'User-Agent': USER_AGENT,
+        ...(body && request.contentType ? { 'Content-Type': request.contentType } : {}),
+        ...credentialHeaders,
+      },
+    });
+
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    await response.body?.cancel();
+    url = new URL(location, url);
+    // Like browsers, follow 303s and POST redirects other than 307/308 with a GET
+    if (response.status === 303 || (method === 'POST' && response.status !== 307 && response.status !== 308)) {
+      method = 'GET';
+      body = undefined;
+    }
+  }
+  throw new ProxyError(502, 'Too many redirects');
+};
+
+const readRequestBody = async (req: Request): Promise<Uint8Array | undefined> => {
+  if (req.method === 'GET' || req.method === 'DELETE') return undefined;
+  if (Number(req.headers.get('Content-Length') || 0) > MAX_REQUEST_BYTES) {
+    throw new ProxyError(413, 'Request body too large');
+  }
+  const body = new Uint8Array(await req.arrayBuffer());
+  if (body.byteLength > MAX_REQUEST_BYTES) {
+    throw new ProxyError(413, 'Request body too large');
+  }
+  return body.byteLength > 0 ? body : undefined;
+};
+
+const resolveRequestCredential = async (
+  credentialId: string | null,
+  target: URL,
+  options: ProxyOptions
+): Promise<ProxyCredential | null> => {
+  if (!credentialId) return null;
+  if (!options.resolveCredential) {
+    throw new ProxyError(400, 'This proxy has no credential vault');
+  }
+
+  const credential = await options.resolveCredential(credentialId);
+  if (!credential) {
+    throw new ProxyError(403, 'Unknown credential, or it belongs to another sync token');
+  }
+  if (!matchesHost(getHostname(target), credential.hosts)) {
+    throw new ProxyError(403, `The credential may not be sent to ${getHostname(target)}`);
+  }
+  return credential;
+};
+
+const readBody = async (response: Response): Promise<Uint8Array> => {
+  if (Number(response.headers.get('Content-Length') || 0) > MAX_RESPONSE_BYTES) {
+    await response.body?.cancel();
+    throw new ProxyError(502, 'Response is larger than the proxy allows');
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_RESPONSE_BYTES) {
+      await reader.cancel();
+      throw new ProxyError(502, 'Response is larger than the proxy allows');
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return body;
+};
+
+const isCacheable = (response: Response): boolean =>
+  CACHE_TTL_MS > 0 && response.status === 200
+  && !/no-store|private/i.test(response.headers.get('Cache-Control') || '');
+
+const storeInCache = (key: string, entry: CachedResponse): void => {
+  cache.delete(key);
+  cache.set(key, entry);
+  // Maps keep insertion order, so the first key is the oldest entry
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+};
+
+// --- Responses ---
+
+const EXPOSED_HEADERS = { 'Access-Control-Expose-Headers': `${PROXY_ERROR_HEADER}, ${CACHE_HEADER}, Retry-After` };
+
+// Widgets read responses with fetch; a browser navigating to one gets an inert download
+const SANDBOX_HEADERS = {
+  'Content-Security-Policy': 'sandbox',
+  'X-Content-Type-Options': 'nosniff',
+  'Content-Disposition': 'attachment',
+};
+
+const errorResponse = (err: ProxyError): Response =>
+  new Response(JSON.stringify({ error: err.message }), {
+    status: err.status,
+    headers: {
+      'Content-Type': 'application/json',
+      [PROXY_ERROR_HEADER]: 'true',
+      ...(err.retryAfterSeconds !== undefined ? { 'Retry-After': String(err.retryAfterSeconds) } : {}),
+      ...EXPOSED_HEADERS,
+      ...SANDBOX_HEADERS,
+    },
+  });
+
+const toResponse = (entry: CachedResponse, cacheStatus: 'HIT' | 'MISS'): Response =>
+  new Response(NULL_BODY_STATUSES.has(entry.status) ? null : entry.body, {
+    status: entry.status,
+    headers: {
+      'Content-Type': entry.contentType,
+      'Cache-Control': 'no-cache',
+      [CACHE_HEADER]: cacheStatus,
+      ...(entry.retryAfter ? { 'Retry-After': entry.retryAfter } : {}),
+      ...EXPOSED_HEADERS,
+      ...SANDBOX_HEADERS,
+    },
+  });
+
+/**
+ * Handle a proxy request
+ *
+ * @param req - The incoming request, with the target in the `url` query parameter
+ * @param clientId - Identifies the client for rate limiting, usually its IP address
+ * @param options - Hooks for the host, e.g. to look up credentials
+ * @returns The target's response, or a JSON error marked with X-Boxento-Proxy-Error
+ */
+export const handleProxyRequest = async (
+  req: Request,
+  clientId: string,
+  options: ProxyOptions = {}
+): Promise<Response> => {
+  try {
+    const params = new URL(req.url).searchParams;
+    const credentialId = params.get('credential');
+    if (req.method !== 'GET' && !(credentialId && CREDENTIAL_METHODS.includes(req.method))) {
+      throw new ProxyError(405, 'Method not allowed');
+    }
+
+    const retryAfter = takeRateLimit(clientId);
+    if (retryAfter !== undefined) {
+      throw new ProxyError(429, 'Too many proxy requests, slow down', retryAfter);
+    }
+
+    const target = parseTarget(params.get('url'));
+    const credential = await resolveRequestCredential(credentialId, target, options);
+    const key = target.href;
+    // Responses fetched with a credential belong to its owner, so they stay out of the cache
+    const skipCache = !!credential || /no-cache|no-store/i.test(req.headers.get('Cache-Control') || '');
+
+    const cached = skipCache ? undefined : cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return toResponse(cached, 'HIT');
+    }
+
+    const signal = AbortSignal.timeout(TIMEOUT_MS);
+    const response = await fetchTarget(target, {
+      method: req.method,
+      accept: req.headers.get('Accept'),
+      contentType: req.headers.get('Content-Type'),
+      body: await readRequestBody(req),
+      credential,
+    }, signal);
+    const entry: CachedResponse = {
+      status: response.status,
+      contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+      retryAfter: response.headers.get('Retry-After'),
+      body: await readBody(response),
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    };
+    if (!skipCache && isCacheable(response)) storeInCache(key, entry);
+
+    return toResponse(entry, 'MISS');
+  } catch (err) {
+    if (err instanceof ProxyError) return errorResponse(err);
+    if (err instanceof Error && err.name === 'TimeoutError') {
+      return errorResponse(new ProxyError(504, 'The target did not respond in time'));
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    return errorResponse(new ProxyError(502, `Could not reach the target: ${message}`));
+  }
+};
@@ -0,0 +1,274 @@
+import { authenticate } from './auth';
+import { documentStore, publicDashboardStore } from './db';
+import { HttpError, json, noContent, readJsonBody, requireObject } from './http';
+import { handleCredentialsRequest } from './vault';
+
+/**
+ * Storage API for the self-hosted backend (src/lib/storage/restBackend.ts)
+ *
+ * GET    /me                       -> { userId }
+ * GET    /layouts                  -> { layouts, revision }
+ * PUT    /layouts                  <- { layouts, revision? }   (409 if no longer at revision)
+ * GET    /widgets                  -> { widgets, revision }
+ * PUT    /widgets                  <- { widgets, revision? }   (409 if no longer at revision)
+ * GET    /widget-configs           -> { configs }
+ * PUT    /widget-configs           <- { configs }
+ * GET    /widget-configs/:id       -> { config }
+ * PUT    /widget-configs/:id       <- { config }
+ * DELETE /widget-configs/:id
+ * GET    /app-settings             -> { settings }
+ * PUT    /app-settings             <- { settings }
+ * GET    /keyring                  -> { keyring }     (passphrase encryption, wrapped keys only)
+ * PUT    /keyring                  <- { keyring }
+ * DELETE /keyring
+ * GET    /snapshots?dashboardId=   -> { snapshots }
+ * PUT    /snapshots/:id            <- { snapshot }
+ * DELETE /snapshots/:id
+ * GET    /public-dashboards/:id    -> { dashboard }   (no auth if public, else owner only)
+ * PUT    /public-dashboards/:id    <- { dashboard }   (owner only)
+ * PATCH  /public-dashboards/:id    <- { content }     (owner only)
+ * DELETE /public-dashboards/:id                      (owner only)
+ * GET    /credentials              -> { credentials }  (vault, see vault.ts)
+ * PUT    /credentials/:id          <- { credential }
+ * DELETE /credentials/:id
+ *
+ * Missing documents return 404, which the client treats as "no data yet".
+ * A write with a revision (null for a document that doesn't exist yet) only
+ * succeeds if nobody wrote the document since that revision was read.
+ */
+
+const DASHBOARD = 'dashboard';
+const WIDGET_CONFIGS = 'widget-configs';
+const SNAPSHOTS = 'snapshots';
+
+const notFound = () => json({ error: 'Not found' }, 404);
+
+/**
+ * Write a dashboard document, checking the revision the client read it at
+ * when the body has one
+ */
+const writeDocument = (
+  userId: string,
+  docId: string,
+  body: Record<string, unknown>,
+  update: (existing: Record<string, unknown> | null) => Record<string, unknown>
+): void => {
+  if (!('revision' in body)) {
+    documentStore.set(userId, DASHBOARD, docId, update(documentStore.get(userId, DASHBOARD, docId)));
+    return;
+  }
+  const { revision } = body;
+  if (revision !== null && typeof revision !== 'string') throw new HttpError(400, 'Invalid "revision"');
+  if (!documentStore.updateAtRevision(userId, DASHBOARD, docId, revision, update)) {
+    throw new HttpError(409, 'The document was changed by another device');
+  }
+};
+
+const requireUser = (req: Request): string => {
+  const userId = authenticate(req);
+  if (!userId) throw new HttpError(401, 'Invalid or missing sync token');
+  return userId;
+};
+
+const handlePublicDashboard = async (req: Request, dashboardId: string): Promise<Response> => {
+  if (req.method === 'GET') {
+    const stored = publicDashboardStore.get(dashboardId);
+    if (!stored) return notFound();
+    // Team dashboards list members by email, which sync tokens can't prove,
+    // so only the owner can read anything that isn't public
+    if (stored.data.visibility !== 'public' && requireUser(req) !== stored.ownerId) {
+      throw new HttpError(403, 'You do not have access to this dashboard');
+    }
+    return json({ dashboard: stored.data });
+  }
+
+  const userId = requireUser(req);
+  const existing = publicDashboardStore.get(dashboardId);
+  if (existing && existing.ownerId !== userId) {
+    throw new HttpError(403, 'Only the owner can modify this dashboard');
+  }
+
+  if (req.method === 'PUT') {
+    const dashboard = requireObject(await readJsonBody(req), 'dashboard');
+    // The owner is always the authenticated user, whatever the client sends
+    publicDashboardStore.set(dashboardId, userId, { ...dashboard, id: dashboardId, ownerId: userId });
+    return noContent();
+  }
+
+  if (req.method === 'PATCH') {
+    if (!existing) return notFound();
+    // Sync tokens carry no email, so the editor share role can't be verified
+    // here - only the owner may update the content
+    const content = requireObject(await readJsonBody(req), 'content');
+    const { widgets, layouts, widgetConfigs, updatedAt } = content;
+    publicDashboardStore.set(dashboardId, userId, {
+      ...existing.data,
+      widgets,
+      layouts,
+      widgetConfigs,
+      updatedAt,
+      updatedBy: userId,
+    });
+    return noContent();
+  }
+
+  if (req.method === 'DELETE') {
+    if (existing) publicDashboardStore.delete(dashboardId);
+    return noContent();
+  }
+
+  throw new HttpError(405, 'Method not allowed');
+};
+
+/**
+ * Handle a request under /api/storage
+ *
+ * @param req - The incoming request
+ * @param path - Request path relative to /api/storage (e.g. "/layouts")
+ */
+export const handleStorageRequest = async (req: Request, path: string): Promise<Response> => {
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  const [resource, id] = segments;
+
+  if (segments.length > 2) return notFound();
+
+  if (resource === 'public-dashboards' && id) {
+    return handlePublicDashboard(req, id);
+  }
+
+  const userId = requireUser(req);
+  const { method } = req;
+
+  switch (resource) {
+    case 'me':
+      return json({ userId });
+
+    case 'layouts': {
+      if (method === 'GET') {
+        const layouts = documentStore.get(userId, DASHBOARD, 'layouts');
+        return layouts
+          ? json({ layouts, revision: documentStore.getRevision(userId, DASHBOARD, 'layouts') })
+          : notFound();
+      }
+      if (method === 'PUT') {
+        const body = await readJsonBody(req);
+        const layouts = requireObject(body, 'layouts');
+        // Merge per breakpoint, like the Firestore backend's merge writes
+        writeDocument(userId, 'layouts', body, existing => ({ ...existing, ...layouts }));
+        return noContent();
+      }
+      break;
+    }
+
+    case 'widgets': {
+      if (method === 'GET') {
+        const doc = documentStore.get(userId, DASHBOARD, 'widget-list');
+        return doc
+          ? json({ widgets: doc.widgets, revision: documentStore.getRevision(userId, DASHBOARD, 'widget-list') })
+          : notFound();
+      }
+      if (method === 'PUT') {
+        const body = await readJsonBody(req);
+        if (!Array.isArray(body.widgets)) throw new HttpError(400, 'Missing or invalid "widgets"');
+        writeDocument(userId, 'widget-list', body, () => ({ widgets: body.widgets }));
+        return noContent();
+      }
+      break;
+    }
+
+    case 'widget-configs': {
+      if (!id) {
+        if (method === 'GET') {
+          const docs = documentStore.list(userId, WIDGET_CONFIGS);
+          const configs: Record<string, unknown> = {};
+          for (const [widgetId, doc] of Object.entries(docs)) {
+            configs[widgetId] = doc.config || {};
+          }
+          return json({ configs });
+        }
+        if (method === 'PUT') {
+          const configs = requireObject(await readJsonBody(req), 'configs');
+          const docs: Record<string, Record<string, unknown>> = {};
+          for (const [widgetId, config] of Object.entries(configs)) {
+            docs[widgetId] = { config };
+          }
+          documentStore.setMany(userId, WIDGET_CONFIGS, docs);
+          return noContent();
+        }
+        break;
+      }
+
+      if (method === 'GET') {
+        const doc = documentStore.get(userId, WIDGET_CONFIGS, id);
+        return doc ? json({ config: doc.config }) : notFound();
+      }
+      if (method === 'PUT') {
+        const config = requireObject(await readJsonBody(req), 'config');
+        documentStore.set(userId, WIDGET_CONFIGS, id, { config });
+        return noContent();
+      }
+      if (method === 'DELETE') {
+        documentStore.delete(userId, WIDGET_CONFIGS, id);
+        return noContent();
+      }
+      break;
+    }
+
+    case 'app-settings': {
+      if (method === 'GET') {
+        const doc = documentStore.get(userId, DASHBOARD, 'app-settings');
+        return doc ? json({ settings: doc.settings }) : notFound();
+      }
+      if (method === 'PUT') {
+        const settings = requireObject(await readJsonBody(req), 'settings');
+        documentStore.set(userId, DASHBOARD, 'app-settings', { settings });
+        return noContent();
+      }
+      break;
+    }
+
+    case 'keyring': {
+      if (method === 'GET') {
+        const doc = documentStore.get(userId, DASHBOARD, 'keyring');
+        return doc ? json({ keyring: doc.keyring }) : notFound();
+      }
+      if (method === 'PUT') {
+        const keyring = requireObject(await readJsonBody(req), 'keyring');
+        documentStore.set(userId, DASHBOARD, 'keyring', { keyring });
+        return noContent();
+      }
+      if (method === 'DELETE') {
+        documentStore.delete(userId, DASHBOARD, 'keyring');
+        return noContent();
+      }
+      break;
+    }
+
+    case 'snapshots': {
+      if (!id && method === 'GET') {
+        const dashboardId = new URL(req.url).searchParams.get('dashboardId');
+        const snapshots = Object.values(documentStore.list(userId, SNAPSHOTS))
+          .filter(snapshot => !dashboardId || snapshot.dashboardId === dashboardId);
+        return json({ snapshots });
+      }
+      if (id && method === 'PUT') {
+        const snapshot = requireObject(await readJsonBody(req), 'snapshot');
+        documentStore.set(userId, SNAPSHOTS, id, { ...snapshot, id });
+        return noContent();
+      }
+      if (id && method === 'DELETE') {
+        documentStore.delete(userId, SNAPSHOTS, id);
+        return noContent();
+      }
+      break;
+    }
+
+    case 'credentials':
+      return handleCredentialsRequest(req, userId, id);
+
+    default:
+      return notFound();
+  }
+
+  throw new HttpError(405, 'Method not allowed');
+};
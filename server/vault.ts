@@ -0,0 +1,216 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { authenticate } from './auth';
+import { credentialStore, DATA_DIR, StoredCredential } from './db';
+import { HttpError, json, noContent, readJsonBody, requireObject } from './http';
+import type { ProxyCredential } from './proxy';
+
+/**
+ * Credential vault for the self-hosted Boxento server
+ *
+ * Widgets can keep API tokens here instead of in their config. The browser
+ * only ever sees a credential's ID, name and hosts: the proxy looks the
+ * credential up for the sync token making the request and adds the
+ * Authorization header itself, and only for the credential's hosts.
+ *
+ * Secrets are encrypted with AES-256-GCM under a key derived per user from
+ * the vault master key, which is BOXENTO_VAULT_KEY (32 bytes, base64) or,
+ * when unset, a key generated into the data directory on first use. Back the
+ * key up with the database: without it the stored secrets can't be read.
+ *
+ * Routes, under /api/storage:
+ * GET    /credentials        -> { credentials }   (without secrets)
+ * PUT    /credentials/:id    <- { credential: { name, hosts, scheme, secret? } }
+ *                                (secret required to add hosts or change the scheme)
+ * DELETE /credentials/:id
+ */
+
+/** Authorization schemes the vault can send */
+const SCHEMES = ['Bearer', 'Token'];
+
+const ID_PATTERN = /^[\w-]{1,64}$/;
+// Host names, optionally as *.example.com (at least two labels after the
+// wildcard), or IPv4 addresses
+const HOST_PATTERN = /^(\*\.[a-z0-9-]+(\.[a-z0-9-]+)+|[a-z0-9-]+(\.[a-z0-9-]+)*)$/;
+// Suffixes under which anyone can register or host a site, so a wildcard over
+// one would send the credential to other people's servers
+const SHARED_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'com.au', 'net.au', 'org.au', 'co.nz', 'co.jp', 'co.in',
+  'co.za', 'com.br', 'com.cn', 'com.mx', 'com.tr',
+  'github.io', 'gitlab.io', 'herokuapp.com', 'vercel.app', 'netlify.app', 'pages.dev', 'workers.dev',
+  'web.app', 'firebaseapp.com', 'appspot.com', 'azurewebsites.net', 'cloudfront.net', 'amazonaws.com',
+  'blogspot.com', 'onrender.com', 'fly.dev', 'glitch.me', 'ngrok.io', 'ngrok-free.app',
+]);
+const MAX_NAME_LENGTH = 100;
+const MAX_SECRET_LENGTH = 4096;
+const MAX_HOSTS = 10;
+
+const KEY_FILE = path.join(DATA_DIR, 'vault.key');
+const ENCRYPTION_VERSION = 'v1';
+
+let masterKey: Buffer | null = null;
+
+const getMasterKey = (): Buffer => {
+  if (masterKey) return masterKey;
+
+  const configured = process.env.BOXENTO_VAULT_KEY;
+  if (configured) {
+    masterKey = Buffer.from(configured, 'base64');
+    if (masterKey.length !== 32) {
+      throw new Error('BOXENTO_VAULT_KEY must be 32 bytes, base64 encoded');
+    }
+  } else if (existsSync(KEY_FILE)) {
+    masterKey = Buffer.from(readFileSync(KEY_FILE, 'utf-8').trim(), 'base64');
+  } else {
+    masterKey = randomBytes(32);
+    writeFileSync(KEY_FILE, masterKey.toString('base64'), { mode: 0o600 });
+  }
+  return masterKey;
+};
+
+const getUserKey = (userId: string): Buffer =>
+  Buffer.from(hkdfSync('sha256', getMasterKey(), userId, 'boxento-credential-vault', 32));
+
+// The ciphertext is bound to its user and credential, so it can't be moved to another one
+const getAdditionalData = (userId: string, credentialId: string): Buffer =>
+  Buffer.from(`${userId}:${credentialId}`);
+
+const encryptSecret = (userId: string, credentialId: string, secret: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getUserKey(userId), iv);
+  cipher.setAAD(getAdditionalData(userId, credentialId));
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf-8'), cipher.final()]);
+  return [ENCRYPTION_VERSION, iv, cipher.getAuthTag(), encrypted]
+    .map(part => typeof part === 'string' ? part : part.toString('base64'))
+    .join(':');
+};
+
+const decryptSecret = (userId: string, credentialId: string, payload: string): string => {
+  const [version, iv, tag, encrypted] = payload.split(':');
+  if (version !== ENCRYPTION_VERSION) throw new Error(`Unknown credential encryption ${version}`);
+  const decipher = createDecipheriv('aes-256-gcm', getUserKey(userId), Buffer.from(iv, 'base64'));
+  decipher.setAAD(getAdditionalData(userId, credentialId));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf-8');
+};
+
+// What the browser gets to see of a credential
+const toPublicCredential = ({ secret: _secret, ...credential }: StoredCredential) => credential;
+
+const readName = (value: unknown): string => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new HttpError(400, `"name" must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+};
+
+const isValidHost = (host: string): boolean =>
+  HOST_PATTERN.test(host) && !(host.startsWith('*.') && SHARED_SUFFIXES.has(host.slice(2)));
+
+const readHosts = (value: unknown): string[] => {
+  const hosts = Array.isArray(value)
+    ? value.map(host => typeof host === 'string' ? host.trim().toLowerCase() : '').filter(Boolean)
+    : [];
+  if (hosts.length === 0 || hosts.length > MAX_HOSTS || !hosts.every(isValidHost)) {
+    throw new HttpError(400, `"hosts" must list 1 to ${MAX_HOSTS} host names, wildcards only below a domain like *.example.com`);
+  }
+  return [...new Set(hosts)];
+};
+
+const readScheme = (value: unknown): string => {
+  if (typeof value !== 'string' || !SCHEMES.includes(value)) {
+    throw new HttpError(400, `"scheme" must be one of ${SCHEMES.join(', ')}`);
+  }
+  return value;
+};
+
+const readSecret = (value: unknown): string | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string' || value.length > MAX_SECRET_LENGTH || /[\r\n]/.test(value)) {
+    throw new HttpError(400, 'Invalid "secret"');
+  }
+  return value.trim();
+};
+
+/**
+ * Handle a request under /api/storage/credentials
+ *
+ * @param req - The incoming request
+ * @param userId - The authenticated user
+ * @param credentialId - Credential addressed by the path, if any
+ */
+export const handleCredentialsRequest = async (
+  req: Request,
+  userId: string,
+  credentialId: string | undefined
+): Promise<Response> => {
+  if (!credentialId) {
+    if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed');
+    return json({ credentials: credentialStore.list(userId).map(toPublicCredential) });
+  }
+
+  if (!ID_PATTERN.test(credentialId)) throw new HttpError(400, 'Invalid credential ID');
+
+  if (req.method === 'PUT') {
+    const body = requireObject(await readJsonBody(req), 'credential');
+    const existing = credentialStore.get(userId, credentialId);
+    const hosts = readHosts(body.hosts);
+    const scheme = readScheme(body.scheme);
+    // Leaving out the secret keeps the stored one, so the name can be edited and
+    // hosts removed on their own. Sending it somewhere new takes the secret again,
+    // or a stolen sync token could redirect it to any host.
+    const secret = readSecret(body.secret);
+    if (secret === undefined && existing &&
+        (scheme !== existing.scheme || hosts.some(host => !existing.hosts.includes(host)))) {
+      throw new HttpError(400, 'Enter the secret again to add hosts or change the scheme');
+    }
+    const encryptedSecret = secret !== undefined ? encryptSecret(userId, credentialId, secret) : existing?.secret;
+    if (!encryptedSecret) throw new HttpError(400, 'Missing "secret"');
+    const now = new Date().toISOString();
+
+    credentialStore.set(userId, {
+      id: credentialId,
+      name: readName(body.name),
+      hosts,
+      scheme,
+      secret: encryptedSecret,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    });
+    return noContent();
+  }
+
+  if (req.method === 'DELETE') {
+    credentialStore.delete(userId, credentialId);
+    return noContent();
+  }
+
+  throw new HttpError(405, 'Method not allowed');
+};
+
+/**
+ * Look up a credential for a proxy request, as the owner of the request's sync token
+ *
+ * @returns The hosts and headers to inject, or null when the request has no
+ * valid sync token or the user has no such credential
+ */
+export const resolveCredential = async (req: Request, credentialId: string): Promise<ProxyCredential | null> => {
+  const userId = authenticate(req);
+  if (!userId) return null;
+
+  const credential = credentialStore.get(userId, credentialId);
+  if (!credential) return null;
+
+  try {
+    const secret = decryptSecret(userId, credentialId, credential.secret);
+    return {
+      hosts: credential.hosts,
+      headers: { Authorization: `${credential.scheme} ${secret}` },
+    };
+  } catch (err) {
+    console.error(`Could not decrypt credential ${credentialId}:`, err);
+    return null;
+  }
+};
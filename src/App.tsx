@@ -1,12 +1,12 @@
 import React, { useState, useEffect, useRef, Suspense } from 'react'
-import { Plus, Moon, Sun, Cloud, CloudOff, Loader2 } from 'lucide-react'
+import { Plus, Moon, Sun, Cloud, CloudOff, CloudUpload, AlertTriangle, Loader2, LayoutGrid, LayoutDashboard, Settings, Lock, LockOpen, Pin } from 'lucide-react'
 // Import GridLayout components - direct imports to avoid runtime issues
 
 // @ts-expect-error - The types don't correctly represent the module structure
 import { Responsive, WidthProvider } from 'react-grid-layout'
 import 'react-grid-layout/css/styles.css'
 import 'react-resizable/css/styles.css'
-import { getWidgetComponent, getWidgetConfigByType, WIDGET_REGISTRY } from '@/components/widgets'
+import { getWidgetComponent, getDefaultWidgetConfig, getWidgetConfigByType, getWidgetDisplayName, WIDGET_REGISTRY } from '@/components/widgets'
 import { 
   WidgetConfig, 
   Widget,
@@ -16,8 +16,8 @@ import WidgetErrorBoundary from '@/components/widgets/common/WidgetErrorBoundary
 import WidgetSelector from '@/components/widgets/common/WidgetSelector'
 import { configManager } from '@/lib/configManager'
 import { UserMenuButton } from '@/components/auth/UserMenuButton'
-import { auth } from '@/lib/firebase'
-import { userDashboardService, publicDashboardService } from '@/lib/firestoreService'
+import { storageBackend } from '@/lib/storage'
+import { userDashboardService, publicDashboardService, PublicDashboardData } from '@/lib/firestoreService'
 import { TIMING, STORAGE_KEYS } from '@/lib/constants'
 import { useSync } from '@/lib/SyncContext'
 import { Button } from './components/ui/button'
@@ -29,19 +29,53 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { PasteDetectionLayer } from '@/components/clipboard/PasteDetectionLayer'
-import { Toaster } from 'sonner'
+import { Toaster, toast } from 'sonner'
 import { UrlMatchResult } from '@/lib/services/clipboard/urlDetector'
 import { faviconService } from '@/lib/services/favicon'
 import { useAppSettings } from '@/context/AppSettingsContext'
 import { DashboardContextMenu } from '@/components/dashboard/DashboardContextMenu'
 import { DashboardSwitcher, Dashboard, DashboardVisibility } from '@/components/dashboard/DashboardSwitcher'
-import { breakpoints, cols, createDefaultLayoutItem } from '@/lib/layoutUtils'
+import { CommandPalette, PaletteCommand, SearchableDashboard } from '@/components/dashboard/CommandPalette'
+import { breakpoints, cols, createDefaultLayoutItem, moveLayoutItem, resizeLayoutItem } from '@/lib/layoutUtils'
 import { useNetworkStatus } from '@/lib/useNetworkStatus'
+import { useUndoHistory } from '@/lib/useUndoHistory'
+import { useCustomWidgets } from '@/lib/useCustomWidgets'
+import { useKioskMode } from '@/lib/useKioskMode'
+import type { CustomWidgetStatus } from '@/lib/customWidgets'
+import { snapshotService, DashboardSnapshot } from '@/lib/dashboardSnapshots'
+import { dashboardBundleUtils, DashboardBundle, SensitiveFieldMode } from '@/lib/dashboardBundle'
+import { dashboardTemplateUtils, DashboardTemplate } from '@/lib/dashboardTemplates'
+import { findSecrets, getSecretFields } from '@/lib/sensitiveFields'
+import { getStackChildren, getStackDropTargetAt, getWidgetIdsWithChildren, StackDropTarget, STACK_WIDGET_TYPE, UNSTACK_WIDGET_EVENT, UnstackWidgetDetail } from '@/lib/widgetStacks'
+import { StackDropTargets } from '@/components/dashboard/StackDropTargets'
+import { localStore } from '@/lib/localStore'
+import { writeQueue } from '@/lib/writeQueue'
+import { registerServiceWorker } from '@/lib/serviceWorker'
+import { SyncConflictDialog } from '@/components/dashboard/SyncConflictDialog'
+import { UnlockEncryptionDialog } from '@/components/auth/UnlockEncryptionDialog'
+import { keyring } from '@/lib/keyring'
+import { AlertCenter } from '@/components/dashboard/AlertCenter'
+import { classifyRemoteConfig, fingerprintConfig, getRevision, syncBase } from '@/lib/syncRevisions'
+import { syncState, SyncConflict } from '@/lib/syncState'
 
 interface WidgetCategory {
   [category: string]: WidgetConfig[];
 }
 
+// State captured in the undo/redo history
+interface DashboardHistorySnapshot {
+  widgets: Widget[];
+  layouts: { [key: string]: LayoutItem[] };
+}
+
+// Arrow keys for moving and resizing a focused widget
+const ARROW_DIRECTIONS: Record<string, 'left' | 'right' | 'up' | 'down'> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+};
+
 // Create responsive grid layout with width provider - once, outside the component
 // This is important for performance as it prevents recreation on each render
 const ResponsiveReactGridLayout = WidthProvider(Responsive);
@@ -79,6 +113,8 @@ type WidgetRendererProps = {
   isReadOnly: boolean;
   onDeleteWidget: (widgetId: string) => void;
   onUpdateWidget: (widgetId: string, newConfig: Record<string, unknown>) => void;
+  /** Load state of custom widget modules - a widget may belong to one still loading */
+  customWidgetStatuses: Record<string, CustomWidgetStatus>;
 };
 
 const WidgetRenderer = React.memo(function WidgetRenderer({
@@ -88,6 +124,7 @@ const WidgetRenderer = React.memo(function WidgetRenderer({
   isReadOnly,
   onDeleteWidget,
   onUpdateWidget,
+  customWidgetStatuses,
 }: WidgetRendererProps) {
   const WidgetComponent = getWidgetComponent(widget.type);
 
@@ -107,6 +144,14 @@ const WidgetRenderer = React.memo(function WidgetRenderer({
     };
   }, [widget.config, widget.id, isReadOnly, onDeleteWidget, onUpdateWidget]);
 
+  if (!WidgetComponent && Object.values(customWidgetStatuses).some(status => status.state === 'loading')) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-card rounded-lg">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
   if (!WidgetComponent) {
     return (
       <div className="widget-error">
@@ -138,37 +183,22 @@ const prepareWidgetConfigForSave = (config: Record<string, unknown>): Record<str
   return configToSave;
 };
 
-const loadFromLocalStorage = <T,>(key: string, defaultValue: T): T => {
+const loadFromLocalStore = <T,>(key: string, defaultValue: T): T => {
   if (typeof window === 'undefined') return defaultValue;
   
   try {
-    const savedItem = localStorage.getItem(key);
+    const savedItem = localStore.getItem(key);
     if (savedItem) {
       return JSON.parse(savedItem);
     }
   } catch (error) {
-    console.error(`Error loading ${key} from localStorage:`, error);
+    console.error(`Error loading ${key} from the local store:`, error);
   }
   
   return defaultValue;
 };
 
 function App() {
-  // Register service worker for PWA functionality
-  useEffect(() => {
-    if ('serviceWorker' in navigator) {
-      window.addEventListener('load', () => {
-        navigator.serviceWorker.register('/service-worker.js')
-          .then(() => {
-            // ServiceWorker registration successful
-          })
-          .catch(error => {
-            console.error('ServiceWorker registration failed: ', error);
-          });
-      });
-    }
-  }, []);
-
   // Track online status for PWA functionality with toast notifications
   const { isOnline } = useNetworkStatus();
 
@@ -231,22 +261,22 @@ function App() {
     {
       id: 'default-todo',
       type: 'todo',
-      config: getWidgetConfigByType('todo') || {}
+      config: getDefaultWidgetConfig('todo')
     },
     {
       id: 'default-weather',
       type: 'weather',
-      config: getWidgetConfigByType('weather') || {}
+      config: getDefaultWidgetConfig('weather')
     },
     {
       id: 'default-quick-links',
       type: 'quick-links',
-      config: getWidgetConfigByType('quick-links') || {}
+      config: getDefaultWidgetConfig('quick-links')
     },
     {
       id: 'default-notes',
       type: 'notes',
-      config: getWidgetConfigByType('notes') || {}
+      config: getDefaultWidgetConfig('notes')
     }
   ];
   
@@ -272,7 +302,7 @@ function App() {
       const dashboardKey = `boxento-layouts-${dashboardId}`;
 
       // Try dashboard-specific storage first
-      const dashboardLayouts = localStorage.getItem(dashboardKey);
+      const dashboardLayouts = localStore.getItem(dashboardKey);
       if (dashboardLayouts) {
         const parsed = JSON.parse(dashboardLayouts);
         if (Object.keys(parsed).length > 0) {
@@ -282,7 +312,7 @@ function App() {
 
       // Fall back to legacy storage only for personal dashboard
       if (dashboardId === 'personal') {
-        const savedLayouts = loadFromLocalStorage(STORAGE_KEYS.LAYOUTS, {});
+        const savedLayouts = loadFromLocalStore(STORAGE_KEYS.LAYOUTS, {});
         if (Object.keys(savedLayouts).length > 0) {
           return validateLayouts(savedLayouts);
         }
@@ -304,7 +334,7 @@ function App() {
       const dashboardKey = `boxento-widgets-${dashboardId}`;
 
       // Try dashboard-specific storage first
-      const dashboardWidgets = localStorage.getItem(dashboardKey);
+      const dashboardWidgets = localStore.getItem(dashboardKey);
       if (dashboardWidgets) {
         const parsed = JSON.parse(dashboardWidgets);
         if (parsed.length > 0) {
@@ -314,7 +344,7 @@ function App() {
 
       // Fall back to legacy storage only for personal dashboard
       if (dashboardId === 'personal') {
-        const savedWidgets = loadFromLocalStorage(STORAGE_KEYS.WIDGETS, []);
+        const savedWidgets = loadFromLocalStore(STORAGE_KEYS.WIDGETS, []);
         if (savedWidgets.length > 0) {
           return savedWidgets;
         }
@@ -329,11 +359,24 @@ function App() {
   
   const [windowWidth, setWindowWidth] = useState<number>(typeof window !== 'undefined' ? window.innerWidth - 40 : 1200);
   const [widgetSelectorOpen, setWidgetSelectorOpen] = useState<boolean>(false);
+  const [commandPaletteOpen, setCommandPaletteOpen] = useState<boolean>(false);
+  // Widget scrolled to and highlighted after picking it in the command palette
+  const [highlightedWidgetId, setHighlightedWidgetId] = useState<string | null>(null);
+  // Bumped on each kiosk refresh so widgets remount and fetch fresh data
+  const [kioskRefreshCount, setKioskRefreshCount] = useState(0);
   const [currentBreakpoint, setCurrentBreakpoint] = useState<string>('lg');
   const [isLayoutReady, setIsLayoutReady] = useState(false);
   const [isTransitionsEnabled, setIsTransitionsEnabled] = useState(false);
   const [isDataLoaded, setIsDataLoaded] = useState<boolean>(false);
 
+  // Send writes queued while offline once the connection is back
+  useEffect(() => {
+    if (!isOnline || !isDataLoaded || !storageBackend.isAuthenticated()) return;
+    userDashboardService.replayQueuedWrites().catch(error => {
+      console.error('Error replaying offline writes:', error);
+    });
+  }, [isOnline, isDataLoaded]);
+
   // Default dashboard to ensure there's always at least one
   const defaultDashboard: Dashboard = {
     id: 'personal',
@@ -403,18 +446,18 @@ function App() {
   // Save current dashboard's widgets and layouts before switching
   const saveCurrentDashboardData = () => {
     const keys = getDashboardStorageKeys(currentDashboardId);
-    localStorage.setItem(keys.widgets, JSON.stringify(widgets));
-    localStorage.setItem(keys.layouts, JSON.stringify(layouts));
+    localStore.setItem(keys.widgets, JSON.stringify(widgets));
+    localStore.setItem(keys.layouts, JSON.stringify(layouts));
   };
 
   // Helper to generate fresh widgets with unique IDs
   const generateFreshDefaultWidgets = () => {
     const timestamp = Date.now();
     return [
-      { id: `todo-${timestamp}`, type: 'todo', config: getWidgetConfigByType('todo') || {} },
-      { id: `weather-${timestamp + 1}`, type: 'weather', config: getWidgetConfigByType('weather') || {} },
-      { id: `quick-links-${timestamp + 2}`, type: 'quick-links', config: getWidgetConfigByType('quick-links') || {} },
-      { id: `notes-${timestamp + 3}`, type: 'notes', config: getWidgetConfigByType('notes') || {} },
+      { id: `todo-${timestamp}`, type: 'todo', config: getDefaultWidgetConfig('todo') },
+      { id: `weather-${timestamp + 1}`, type: 'weather', config: getDefaultWidgetConfig('weather') },
+      { id: `quick-links-${timestamp + 2}`, type: 'quick-links', config: getDefaultWidgetConfig('quick-links') },
+      { id: `notes-${timestamp + 3}`, type: 'notes', config: getDefaultWidgetConfig('notes') },
     ] as Widget[];
   };
 
@@ -457,8 +500,8 @@ function App() {
     const keys = getDashboardStorageKeys(dashboardId);
 
     // Try to load from dashboard-specific storage
-    const savedWidgets = localStorage.getItem(keys.widgets);
-    const savedLayouts = localStorage.getItem(keys.layouts);
+    const savedWidgets = localStore.getItem(keys.widgets);
+    const savedLayouts = localStore.getItem(keys.layouts);
 
     let widgetsToLoad: Widget[];
     let layoutsToLoad: { [key: string]: LayoutItem[] };
@@ -469,15 +512,15 @@ function App() {
       layoutsToLoad = JSON.parse(savedLayouts);
     } else if (dashboardId === 'personal') {
       // Personal dashboard falls back to legacy storage
-      widgetsToLoad = loadFromLocalStorage(STORAGE_KEYS.WIDGETS, getDefaultWidgets());
-      layoutsToLoad = loadFromLocalStorage(STORAGE_KEYS.LAYOUTS, getDefaultLayouts());
+      widgetsToLoad = loadFromLocalStore(STORAGE_KEYS.WIDGETS, getDefaultWidgets());
+      layoutsToLoad = loadFromLocalStore(STORAGE_KEYS.LAYOUTS, getDefaultLayouts());
     } else {
       // Non-personal dashboards without storage get fresh widgets with unique IDs
       widgetsToLoad = generateFreshDefaultWidgets();
       layoutsToLoad = generateLayoutsForWidgets(widgetsToLoad);
       // Save immediately so they persist
-      localStorage.setItem(keys.widgets, JSON.stringify(widgetsToLoad));
-      localStorage.setItem(keys.layouts, JSON.stringify(layoutsToLoad));
+      localStore.setItem(keys.widgets, JSON.stringify(widgetsToLoad));
+      localStore.setItem(keys.layouts, JSON.stringify(layoutsToLoad));
     }
 
     // Load configs for these widgets
@@ -509,7 +552,86 @@ function App() {
     await loadDashboardData(dashboard.id);
   };
 
-  const handleCreateDashboard = async (name: string, visibility: DashboardVisibility) => {
+  const isKiosk = useKioskMode({
+    dashboards,
+    currentDashboardId,
+    onSwitchDashboard: (dashboard) => void handleSwitchDashboard(dashboard),
+    onRefresh: async () => {
+      await loadDashboardData(currentDashboardId);
+      setKioskRefreshCount(count => count + 1);
+    },
+  });
+
+  // Register service worker for PWA functionality. Kiosks can't click, so they update on their own.
+  const isKioskRef = useRef(isKiosk);
+  useEffect(() => {
+    isKioskRef.current = isKiosk;
+  });
+
+  useEffect(() => {
+    registerServiceWorker(applyUpdate => {
+      if (isKioskRef.current) {
+        applyUpdate();
+        return;
+      }
+      toast('Update available', {
+        description: 'A new version of Boxento is ready.',
+        duration: Infinity,
+        action: { label: 'Reload', onClick: applyUpdate },
+      });
+    });
+  }, []);
+
+  /**
+   * Add a dashboard built from a bundle (an import or a template) and switch to it.
+   * Widgets get fresh IDs, and configs are saved through configManager, which
+   * re-encrypts any sensitive fields with the current user's key.
+   */
+  const addDashboardFromBundle = async (bundle: DashboardBundle, name: string, visibility: DashboardVisibility) => {
+    // Save current dashboard's data first
+    saveCurrentDashboardData();
+
+    const imported = dashboardBundleUtils.prepareImport(bundle);
+
+    // Persist configs before switching
+    for (const [widgetId, config] of Object.entries(imported.configs)) {
+      const widgetType = imported.widgets.find(w => w.id === widgetId)?.type;
+      await configManager.saveWidgetConfig(widgetId, widgetType ? { ...config, type: widgetType } : config);
+    }
+
+    const newDashboard: Dashboard = {
+      id: `dashboard-${Date.now()}`,
+      name,
+      visibility,
+      sharedWith: [],
+      isDefault: false,
+      createdAt: new Date().toISOString(),
+    };
+    const importedLayouts = validateLayouts(imported.layouts);
+
+    setDashboards(prev => [...prev, newDashboard]);
+    setCurrentDashboardId(newDashboard.id);
+    setWidgets(imported.widgets);
+    setLayouts(importedLayouts);
+
+    // Store widget metadata only - configs live in configManager
+    const keys = getDashboardStorageKeys(newDashboard.id);
+    localStore.setItem(keys.widgets, JSON.stringify(imported.widgets.map(w => ({ id: w.id, type: w.type }))));
+    localStore.setItem(keys.layouts, JSON.stringify(importedLayouts));
+
+    if (visibility !== 'private') {
+      syncPublicDashboard(newDashboard, imported.widgets, importedLayouts);
+    }
+
+    return imported;
+  };
+
+  const handleCreateDashboard = async (name: string, visibility: DashboardVisibility, template?: DashboardTemplate) => {
+    if (template) {
+      await addDashboardFromBundle(template.bundle, name, visibility);
+      return;
+    }
+
     // Save current dashboard's data first
     saveCurrentDashboardData();
 
@@ -534,8 +656,8 @@ function App() {
 
     // Save to the new dashboard's storage immediately
     const keys = getDashboardStorageKeys(newDashboard.id);
-    localStorage.setItem(keys.widgets, JSON.stringify(freshWidgets));
-    localStorage.setItem(keys.layouts, JSON.stringify(freshLayouts));
+    localStore.setItem(keys.widgets, JSON.stringify(freshWidgets));
+    localStore.setItem(keys.layouts, JSON.stringify(freshLayouts));
 
     // Sync to Firestore if the dashboard is public or team
     if (visibility !== 'private') {
@@ -553,18 +675,139 @@ function App() {
     }
   };
 
+  const isLayoutLocked = currentDashboard.layoutLocked === true;
+
+  /**
+   * Lock or unlock the current dashboard's layout. The lock is a local editing
+   * preference, so it isn't synced to shared dashboards.
+   */
+  const handleToggleLayoutLock = () => {
+    setDashboards(prev => prev.map(d => d.id === currentDashboardId ? { ...d, layoutLocked: !isLayoutLocked } : d));
+    toast(isLayoutLocked ? 'Layout unlocked' : 'Layout locked', {
+      description: isLayoutLocked ? undefined : 'Widgets can\'t be dragged or resized until you unlock it.',
+      duration: 3000,
+    });
+  };
+
+  /**
+   * Export the current dashboard as a versioned JSON bundle
+   *
+   * @param sensitiveFieldMode - Whether API keys/tokens are stripped or included in plain text
+   */
+  const handleExportDashboard = async (sensitiveFieldMode: SensitiveFieldMode) => {
+    try {
+      const allConfigs = await configManager.getConfigs(true);
+      const bundle = dashboardBundleUtils.createBundle(
+        currentDashboard,
+        widgets,
+        layouts,
+        allConfigs,
+        sensitiveFieldMode
+      );
+      dashboardBundleUtils.downloadBundle(bundle);
+    } catch (error) {
+      console.error('Error exporting dashboard:', error);
+      toast.error('Export failed', {
+        description: 'The dashboard could not be exported.',
+        duration: 5000,
+      });
+    }
+  };
+
+  /**
+   * Import a dashboard bundle as a new private dashboard
+   * Widget IDs are remapped so imported widgets never collide with existing ones
+   */
+  const handleImportDashboard = async (bundle: DashboardBundle) => {
+    const imported = await addDashboardFromBundle(bundle, bundle.dashboard.name, 'private');
+
+    toast.success('Dashboard imported', {
+      description: bundle.includesSensitiveFields
+        ? `"${imported.name}" was added with ${imported.widgets.length} widgets.`
+        : `"${imported.name}" was added. Re-enter any API keys in widget settings.`,
+      duration: 5000,
+    });
+  };
+
+  /**
+   * Save the current dashboard as a personal template. API keys and tokens are left out.
+   */
+  const handleSaveAsTemplate = async (name: string, description: string) => {
+    try {
+      const allConfigs = await configManager.getConfigs(true);
+      const template = dashboardTemplateUtils.createTemplate(name, description, currentDashboard, widgets, layouts, allConfigs);
+      updateSettings({ dashboardTemplates: [...(settings.dashboardTemplates || []), template] });
+      toast.success('Template saved', {
+        description: `"${name}" can now be picked when creating a dashboard.`,
+      });
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error('Template not saved', {
+        description: 'The dashboard could not be saved as a template.',
+      });
+    }
+  };
+
+  const handleDeleteTemplate = (templateId: string) => {
+    updateSettings({
+      dashboardTemplates: (settings.dashboardTemplates || []).filter(template => template.id !== templateId),
+    });
+  };
+
+  /**
+   * Take a manual snapshot of the current dashboard
+   */
+  const handleCreateSnapshot = async () => {
+    try {
+      await snapshotService.createSnapshot(currentDashboard, widgets, layouts, 'manual');
+      toast.success('Snapshot saved');
+    } catch (error) {
+      console.error('Error saving snapshot:', error);
+      toast.error('Snapshot failed', {
+        description: 'The dashboard snapshot could not be saved.',
+      });
+    }
+  };
+
+  /**
+   * Restore the current dashboard to a snapshot.
+   * The current state is snapshotted first and recorded in the undo history.
+   */
+  const handleRestoreSnapshot = async (snapshot: DashboardSnapshot) => {
+    try {
+      await snapshotService.createSnapshot(currentDashboard, widgets, layouts, 'pre-restore');
+
+      const restoredWidgets = await snapshotService.getRestorableWidgets(snapshot);
+      await snapshotService.restoreStackChildConfigs(snapshot);
+      history.record('Restore snapshot', getHistorySnapshot());
+      restoreHistorySnapshot({
+        widgets: restoredWidgets,
+        layouts: validateLayouts(snapshot.layouts),
+      });
+
+      toast.success('Dashboard restored', {
+        description: `Restored to ${new Date(snapshot.createdAt).toLocaleString()}.`,
+      });
+    } catch (error) {
+      console.error('Error restoring snapshot:', error);
+      toast.error('Restore failed', {
+        description: 'The snapshot could not be restored.',
+      });
+    }
+  };
+
   const handleDeleteDashboard = async (dashboardId: string) => {
     const dashboard = dashboards.find(d => d.id === dashboardId);
     if (dashboard?.isDefault) return; // Can't delete default
 
     // Clean up storage for deleted dashboard
     const keys = getDashboardStorageKeys(dashboardId);
-    localStorage.removeItem(keys.widgets);
-    localStorage.removeItem(keys.layouts);
+    localStore.removeItem(keys.widgets);
+    localStore.removeItem(keys.layouts);
     localStorage.removeItem(keys.configs);
 
     // Delete from public-dashboards collection if it was public/team
-    if (dashboard?.visibility !== 'private' && auth?.currentUser) {
+    if (dashboard?.visibility !== 'private' && storageBackend.isAuthenticated()) {
       try {
         await publicDashboardService.deleteDashboard(dashboardId);
       } catch (error) {
@@ -601,7 +844,8 @@ function App() {
   const publicDashboardSyncTimeout = useRef<number | null>(null);
 
   // Get sync status from context
-  const { isSyncing, syncStatus } = useSync();
+  const { isSyncing, syncStatus, conflicts } = useSync();
+  const [isConflictDialogOpen, setIsConflictDialogOpen] = useState(false);
 
   /**
    * Sync public/team dashboard to Firestore for sharing
@@ -618,7 +862,7 @@ function App() {
     }
 
     // Only sync if user is logged in
-    if (!auth?.currentUser) {
+    if (!storageBackend.isAuthenticated()) {
       console.warn('Cannot sync public dashboard: user not logged in');
       return;
     }
@@ -648,11 +892,201 @@ function App() {
     }, 2000); // 2 second debounce for public dashboard sync
   };
   
-  // Track the last created widget for undo functionality
-  const [lastCreatedWidgetId, setLastCreatedWidgetId] = useState<string | null>(null);
-  
+  // Undo/redo history of dashboard edits. Snapshots hold widgets (with configs) and layouts.
+  const history = useUndoHistory<DashboardHistorySnapshot>();
+
+  // Third-party widgets from app settings; re-renders as their modules load
+  const customWidgetStatuses = useCustomWidgets();
+
   /**
-   * Save widgets to storage (localStorage and Firestore if logged in)
+   * Capture the current dashboard state for the undo history.
+   * Layouts are deep-cloned because some edits push into the existing arrays.
+   */
+  const getHistorySnapshot = (): DashboardHistorySnapshot => ({
+    widgets: widgets.map(widget => ({ ...widget, config: widget.config ? { ...widget.config } : widget.config })),
+    layouts: JSON.parse(JSON.stringify(layouts)),
+  });
+
+  // History only applies to the dashboard it was recorded on
+  const clearHistory = history.clear;
+  useEffect(() => {
+    clearHistory();
+  }, [currentDashboardId, clearHistory]);
+
+  // Periodic snapshots of the open dashboard (skipped when nothing changed)
+  const periodicSnapshotRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    periodicSnapshotRef.current = () => {
+      snapshotService.createSnapshotIfChanged(currentDashboard, widgets, layouts).catch(error => {
+        console.error('Error saving periodic snapshot:', error);
+      });
+    };
+  });
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+
+    const initialTimeout = window.setTimeout(() => periodicSnapshotRef.current(), TIMING.SNAPSHOT_INITIAL_DELAY_MS);
+    const interval = window.setInterval(() => periodicSnapshotRef.current(), TIMING.SNAPSHOT_INTERVAL_MS);
+    return () => {
+      clearTimeout(initialTimeout);
+      clearInterval(interval);
+    };
+  }, [isDataLoaded, currentDashboardId]);
+
+  // Pick up changes that editors saved through the share link since the owner's last sync
+  const applySharedEditsRef = useRef<(shared: PublicDashboardData) => void>(() => {});
+  useEffect(() => {
+    applySharedEditsRef.current = (shared) => {
+      history.record('Apply shared edits', getHistorySnapshot());
+      restoreHistorySnapshot({
+        widgets: shared.widgets.map(widget => {
+          // Secrets were redacted before publishing - keep the owner's copies
+          const localConfig = widgets.find(w => w.id === widget.id)?.config || {};
+          const secrets = Object.fromEntries(
+            getSecretFields(widget.type, localConfig).map(field => [field, localConfig[field]])
+          );
+          return {
+            ...widget,
+            config: configManager.restoreDates({ ...shared.widgetConfigs[widget.id], ...secrets }),
+          };
+        }),
+        layouts: validateLayouts(shared.layouts),
+      });
+      // Stack children aren't on the widget list, their configs go to configManager
+      shared.widgets
+        .filter(widget => widget.type === STACK_WIDGET_TYPE)
+        .flatMap(stack => getStackChildren(shared.widgetConfigs[stack.id]))
+        .filter(child => shared.widgetConfigs[child.id])
+        .forEach(async child => {
+          try {
+            const localConfig = await configManager.getWidgetConfig(child.id) || {};
+            const secrets = Object.fromEntries(
+              getSecretFields(child.type, localConfig).map(field => [field, localConfig[field]])
+            );
+            await configManager.saveWidgetConfig(child.id, { ...shared.widgetConfigs[child.id], ...secrets, type: child.type });
+          } catch (error) {
+            console.error('Error applying shared edits to a stacked widget:', error);
+          }
+        });
+      toast('Dashboard updated', {
+        description: 'Loaded changes made by people you shared this dashboard with.',
+      });
+    };
+  });
+
+  useEffect(() => {
+    if (!isDataLoaded || currentDashboard.visibility === 'private' || !storageBackend.isAuthenticated()) {
+      return;
+    }
+
+    let cancelled = false;
+    publicDashboardService.loadDashboard(currentDashboardId)
+      .then(shared => {
+        if (cancelled || !shared) return;
+        // Only the owner merges edits back, and only when someone else saved last
+        const userId = storageBackend.getUserId();
+        if (shared.ownerId !== userId || !shared.updatedBy || shared.updatedBy === userId) return;
+        applySharedEditsRef.current(shared);
+      })
+      .catch(error => {
+        console.error('Error checking for shared dashboard edits:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isDataLoaded, currentDashboardId, currentDashboard.visibility]);
+
+  // Show widget settings changed on other devices, unless this device changed them too
+  const applyRemoteConfigRef = useRef<(widgetId: string, storedConfig: Record<string, unknown>) => Promise<void>>(async () => {});
+  useEffect(() => {
+    applyRemoteConfigRef.current = async (widgetId, storedConfig) => {
+      // Only the personal dashboard is stored per user
+      if (currentDashboardId !== 'personal') return;
+      const widget = widgets.find(w => w.id === widgetId);
+      if (!widget) return;
+
+      const remote = await configManager.decryptStoredConfig(storedConfig);
+      const local = prepareWidgetConfigForSave({ ...widget.config, type: widget.type });
+      const change = classifyRemoteConfig(syncBase.getConfig(widgetId), local, remote);
+      if (change === 'conflict') {
+        syncState.addConflict({
+          widgetId,
+          widgetType: widget.type,
+          local,
+          remote,
+          remoteRevision: getRevision(storedConfig),
+          detectedAt: new Date().toISOString(),
+        });
+        return;
+      }
+
+      syncBase.setConfig(widgetId, fingerprintConfig(remote));
+      if (change === 'apply') {
+        setWidgets(prev => prev.map(w => w.id === widgetId ? { ...w, config: { ...w.config, ...remote } } : w));
+      }
+    };
+  });
+
+  useEffect(() => {
+    return syncState.subscribeRemoteConfigs((widgetId, storedConfig) => {
+      applyRemoteConfigRef.current(widgetId, storedConfig).catch(error => {
+        console.error('Error applying widget config from another device:', error);
+      });
+    });
+  }, []);
+
+  // Point out new conflicts; they stay listed behind the sync indicator until resolved
+  const conflictCountRef = useRef(0);
+  useEffect(() => {
+    if (conflicts.length > conflictCountRef.current) {
+      const latest = conflicts[conflicts.length - 1];
+      const name = getWidgetDisplayName({ id: latest.widgetId, type: latest.widgetType, config: latest.local });
+      toast.warning('Sync conflict', {
+        description: `${name} was changed on this device and another one.`,
+        action: { label: 'Resolve', onClick: () => setIsConflictDialogOpen(true) },
+      });
+    }
+    conflictCountRef.current = conflicts.length;
+  }, [conflicts]);
+
+  const handleResolveConflict = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    try {
+      const config = await configManager.resolveConflict(conflict.widgetId, keep);
+      if (config && keep === 'remote') {
+        setWidgets(prev => prev.map(w => w.id === conflict.widgetId ? { ...w, config: { ...w.config, ...config } } : w));
+      }
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      toast.error('Could not resolve the conflict');
+    }
+  };
+
+  /**
+   * Show the widgets another device added or removed, once a save merged them in.
+   * Skipped when the widgets changed again meanwhile - the next save merges them.
+   *
+   * @param sentWidgets - Widgets this device saved
+   * @param savedWidgets - Widget list as stored after the merge
+   */
+  const applyMergedWidgets = async (sentWidgets: Widget[], savedWidgets: { id: string; type: string }[]) => {
+    const sentIds = new Set(sentWidgets.map(w => w.id));
+    const savedIds = new Set(savedWidgets.map(w => w.id));
+    const added = savedWidgets.filter(w => !sentIds.has(w.id));
+    if (added.length === 0 && sentWidgets.every(w => savedIds.has(w.id))) return;
+
+    const addedWidgets: Widget[] = await Promise.all(added.map(async ({ id, type }) => ({
+      id,
+      type,
+      config: { ...getDefaultWidgetConfig(type), ...(await configManager.getWidgetConfig(id)) },
+    })));
+    const mergedWidgets = [...sentWidgets.filter(w => savedIds.has(w.id)), ...addedWidgets];
+    setWidgets(prev => (prev === sentWidgets ? mergedWidgets : prev));
+  };
+
+  /**
+   * Save widgets to storage (the local store and Firestore if logged in)
    *
    * @param updatedWidgets - Array of widgets to save
    * @param debounce - If true, Firestore save is scheduled for 500ms later and function returns immediately.
@@ -662,29 +1096,30 @@ function App() {
   const saveWidgets = async (updatedWidgets: Widget[], debounce = true): Promise<void> => {
     setWidgets(updatedWidgets);
 
-    // Save to per-dashboard localStorage
+    // Save to the per-dashboard local store
     const keys = getDashboardStorageKeys(currentDashboardId);
-    localStorage.setItem(keys.widgets, JSON.stringify(updatedWidgets));
+    localStore.setItem(keys.widgets, JSON.stringify(updatedWidgets));
 
     // Save each widget's configuration separately using configManager
     updatedWidgets.forEach(widget => {
       if (widget.config && widget.id) {
-        const configToSave = prepareWidgetConfigForSave(widget.config);
+        // The type tells configManager which config migrations apply
+        const configToSave = prepareWidgetConfigForSave({ ...widget.config, type: widget.type });
         configManager.saveWidgetConfig(widget.id, configToSave);
       }
     });
 
     // Save widgets to Firestore when user is logged in
-    if (auth?.currentUser) {
+    if (storageBackend.isAuthenticated()) {
       // IMPORTANT: Only save to user's global Firestore storage for the personal dashboard
-      // Non-personal dashboards use localStorage + public-dashboards collection only
+      // Non-personal dashboards use the local store + public-dashboards collection only
       // This prevents overwriting personal dashboard data when editing other dashboards
       if (currentDashboardId === 'personal') {
         // Extract Firestore save logic to avoid duplication
         const saveToFirestore = async () => {
           try {
-            await userDashboardService.saveWidgets(updatedWidgets);
-            // Widget metadata saved to Firestore
+            const savedWidgets = await userDashboardService.saveWidgets(updatedWidgets);
+            await applyMergedWidgets(updatedWidgets, savedWidgets);
           } catch (error) {
             console.error('Error saving widgets to Firestore:', error);
           }
@@ -711,7 +1146,7 @@ function App() {
   };
   
   /**
-   * Save layouts to storage (localStorage and Firestore if logged in)
+   * Save layouts to storage (the local store and Firestore if logged in)
    *
    * @param updatedLayouts - Layout configuration for all breakpoints
    * @param debounce - If true, Firestore save is scheduled for 500ms later and function returns immediately.
@@ -722,21 +1157,24 @@ function App() {
     // Update state
     setLayouts(updatedLayouts);
 
-    // Save to per-dashboard localStorage
+    // Save to the per-dashboard local store
     const keys = getDashboardStorageKeys(currentDashboardId);
-    localStorage.setItem(keys.layouts, JSON.stringify(updatedLayouts));
+    localStore.setItem(keys.layouts, JSON.stringify(updatedLayouts));
 
     // Save to Firestore if logged in
-    if (auth?.currentUser) {
+    if (storageBackend.isAuthenticated()) {
       // IMPORTANT: Only save to user's global Firestore storage for the personal dashboard
-      // Non-personal dashboards use localStorage + public-dashboards collection only
+      // Non-personal dashboards use the local store + public-dashboards collection only
       // This prevents overwriting personal dashboard data when editing other dashboards
       if (currentDashboardId === 'personal') {
         // Extract Firestore save logic to avoid duplication
         const saveToFirestore = async () => {
           try {
-            await userDashboardService.saveLayouts(updatedLayouts);
-            // Layouts saved to Firestore
+            const savedLayouts = await userDashboardService.saveLayouts(updatedLayouts);
+            // Show positions merged in from other devices, unless the layouts changed again meanwhile
+            if (JSON.stringify(savedLayouts) !== JSON.stringify(updatedLayouts)) {
+              setLayouts(prev => (prev === updatedLayouts ? savedLayouts : prev));
+            }
           } catch (error) {
             console.error('Error saving layouts to Firestore:', error);
           }
@@ -866,6 +1304,7 @@ function App() {
 
   // Auto-arrange widgets to fill empty space compactly
   const handleAutoArrange = (): void => {
+    history.record('Auto-arrange', getHistorySnapshot());
     const updatedLayouts: { [key: string]: LayoutItem[] } = {};
 
     // Process each breakpoint
@@ -906,9 +1345,15 @@ function App() {
         }
       };
 
-      // Place each widget in the first available position
+      // Pinned widgets stay where they are; the others flow around them
       const newLayout: LayoutItem[] = [];
-      for (const item of sortedItems) {
+      for (const item of sortedItems.filter(item => item.static)) {
+        newLayout.push(item);
+        placeItem(item.x, item.y, item.w, item.h);
+      }
+
+      // Place each widget in the first available position
+      for (const item of sortedItems.filter(item => !item.static)) {
         let placed = false;
         // Try each row, then each column
         for (let y = 0; !placed && y < grid.length; y++) {
@@ -931,31 +1376,40 @@ function App() {
     });
 
     saveLayouts(updatedLayouts);
+
+    toast('Widgets arranged', {
+      action: { label: 'Undo', onClick: () => handleUndoRef.current() },
+      duration: 5000,
+    });
   };
 
-  // Add widget function - refactored to reduce duplication
-  const addWidget = (type: string): void => {
-    // Generate unique ID for this widget instance
-    const widgetId = `${type}-${Date.now()}`;
-    
-    // Create new widget instance
-    const newWidget: Widget = {
-      id: widgetId,
-      type,
-      config: getWidgetConfigByType(type) || {}
-    };
-    
-    // Add new widget to state
-    const updatedWidgets = [...widgets, newWidget];
-    
-    // For each breakpoint, create a layout item
-    const updatedLayouts = { ...layouts };
+  /**
+   * Pin or unpin a widget on every breakpoint. Pinned (static) widgets can't be
+   * dragged or resized, and compaction and auto-arrange leave them in place.
+   */
+  const handleTogglePin = (widgetId: string): void => {
+    const isPinned = layouts[currentBreakpoint]?.find(item => item.i === widgetId)?.static === true;
+    history.record(isPinned ? 'Unpin widget' : 'Pin widget', getHistorySnapshot());
+
+    const updatedLayouts: { [key: string]: LayoutItem[] } = {};
+    Object.keys(layouts).forEach(breakpoint => {
+      updatedLayouts[breakpoint] = layouts[breakpoint].map(item =>
+        item.i === widgetId ? { ...item, static: !isPinned } : item
+      );
+    });
+
+    saveLayouts(updatedLayouts, false);
+  };
+
+  /**
+   * Layouts with an item for a new widget on every breakpoint, placed at the
+   * first free position
+   */
+  const addDefaultLayoutItems = (currentLayouts: { [key: string]: LayoutItem[] }, widgetId: string): { [key: string]: LayoutItem[] } => {
+    const updatedLayouts = { ...currentLayouts };
     
-    // For each breakpoint, add a layout item
     Object.keys(breakpoints).forEach((breakpoint) => {
-      if (!updatedLayouts[breakpoint]) {
-        updatedLayouts[breakpoint] = [];
-      }
+      updatedLayouts[breakpoint] = [...(updatedLayouts[breakpoint] || [])];
       
       // Calculate column count for this breakpoint
       const colCount = cols[breakpoint as keyof typeof cols];
@@ -981,11 +1435,31 @@ function App() {
       
       updatedLayouts[breakpoint].push(defaultItem);
     });
+
+    return updatedLayouts;
+  };
+
+  // Add widget function - refactored to reduce duplication
+  const addWidget = (type: string): void => {
+    history.record('Add widget', getHistorySnapshot());
+
+    // Generate unique ID for this widget instance
+    const widgetId = `${type}-${Date.now()}`;
+    
+    // Create new widget instance
+    const newWidget: Widget = {
+      id: widgetId,
+      type,
+      config: getDefaultWidgetConfig(type)
+    };
+    
+    // Add new widget to state
+    const updatedWidgets = [...widgets, newWidget];
+    const updatedLayouts = addDefaultLayoutItems(layouts, widgetId);
     
     // Update states and save data
     setWidgets(updatedWidgets);
     setLayouts(updatedLayouts);
-    setLastCreatedWidgetId(widgetId);
     
     // Save changes
     saveWidgets(updatedWidgets);
@@ -999,6 +1473,9 @@ function App() {
   
   // Delete widget function - refactored to reduce duplication
   const deleteWidget = async (widgetId: string): Promise<void> => {
+    const deletedWidget = widgets.find(widget => widget.id === widgetId);
+    history.record('Delete widget', getHistorySnapshot());
+
     // Remove widget config from storage
     await configManager.clearConfig(widgetId);
     
@@ -1018,8 +1495,117 @@ function App() {
     // Save changes
     saveWidgets(updatedWidgets);
     saveLayouts(updatedLayouts, false);
+
+    const widgetName = WIDGET_REGISTRY.find(w => w.type === deletedWidget?.type)?.name || 'Widget';
+    toast(`${widgetName} deleted`, {
+      action: { label: 'Undo', onClick: () => handleUndoRef.current() },
+      duration: 5000,
+    });
   };
   
+  /**
+   * Move a widget from the grid into a stack. The widget keeps its config under
+   * its own ID; the stack lists it as a child and shows it.
+   *
+   * @param snapshot - Dashboard state before the drag, recorded as the undo step
+   */
+  const moveWidgetIntoStack = (widgetId: string, stackId: string, snapshot: DashboardHistorySnapshot): void => {
+    const widget = widgets.find(w => w.id === widgetId);
+    const stack = widgets.find(w => w.id === stackId);
+    if (!widget || !stack) return;
+
+    history.record('Move widget into stack', snapshot);
+
+    // Drop the layout change from the drag itself
+    if (layoutUpdateTimeout.current !== null) {
+      clearTimeout(layoutUpdateTimeout.current);
+      layoutUpdateTimeout.current = null;
+    }
+
+    configManager.saveWidgetConfig(widgetId, prepareWidgetConfigForSave({ ...widget.config, type: widget.type }));
+
+    const updatedWidgets = widgets
+      .filter(w => w.id !== widgetId)
+      .map(w => w.id === stackId
+        ? {
+            ...w,
+            config: {
+              ...w.config,
+              children: [...getStackChildren(w.config), { id: widgetId, type: widget.type }],
+              activeChildId: widgetId,
+            },
+          }
+        : w
+      );
+
+    const updatedLayouts: { [key: string]: LayoutItem[] } = {};
+    Object.keys(snapshot.layouts).forEach(breakpoint => {
+      updatedLayouts[breakpoint] = snapshot.layouts[breakpoint].filter(item => item.i !== widgetId);
+    });
+
+    setLayouts(updatedLayouts);
+    saveWidgets(updatedWidgets);
+    saveLayouts(updatedLayouts, false);
+
+    toast(`${getWidgetDisplayName(widget)} moved into ${getWidgetDisplayName(stack)}`, {
+      action: { label: 'Undo', onClick: () => handleUndoRef.current() },
+      duration: 5000,
+    });
+  };
+
+  /**
+   * Move a stack's child back onto the grid, at the first free position
+   */
+  const moveWidgetOutOfStack = async ({ stackId, childId }: UnstackWidgetDetail): Promise<void> => {
+    const stack = widgets.find(w => w.id === stackId);
+    const children = getStackChildren(stack?.config);
+    const child = children.find(c => c.id === childId);
+    if (!stack || !child) return;
+
+    const storedConfig = await configManager.getWidgetConfig(childId);
+    history.record('Move widget out of stack', getHistorySnapshot());
+
+    const newWidget: Widget = {
+      id: child.id,
+      type: child.type,
+      config: { ...getDefaultWidgetConfig(child.type), ...storedConfig },
+    };
+
+    const updatedWidgets = [
+      ...widgets.map(w => w.id === stackId
+        ? {
+            ...w,
+            config: {
+              ...w.config,
+              children: children.filter(c => c.id !== childId),
+              activeChildId: w.config?.activeChildId === childId ? undefined : w.config?.activeChildId,
+            },
+          }
+        : w
+      ),
+      newWidget,
+    ];
+    const updatedLayouts = addDefaultLayoutItems(layouts, child.id);
+
+    setLayouts(updatedLayouts);
+    saveWidgets(updatedWidgets);
+    saveLayouts(updatedLayouts, false);
+  };
+
+  // Stacks ask for a child to be moved out with a document event
+  const moveWidgetOutOfStackRef = useRef(moveWidgetOutOfStack);
+  useEffect(() => {
+    moveWidgetOutOfStackRef.current = moveWidgetOutOfStack;
+  });
+
+  useEffect(() => {
+    const handleUnstackWidget = (event: Event) => {
+      void moveWidgetOutOfStackRef.current((event as CustomEvent<UnstackWidgetDetail>).detail);
+    };
+    document.addEventListener(UNSTACK_WIDGET_EVENT, handleUnstackWidget);
+    return () => document.removeEventListener(UNSTACK_WIDGET_EVENT, handleUnstackWidget);
+  }, []);
+
   // Update layout function - refactored to reduce duplication
   const handleLayoutChange = (currentLayout: LayoutItem[], allLayouts?: { [key: string]: LayoutItem[] }): void => {
     const validatedLayout = validateLayout(currentLayout);
@@ -1052,6 +1638,16 @@ function App() {
   
   // Update widget config - refactored to be more maintainable
   const updateWidgetConfig = (widgetId: string, newConfig: Record<string, unknown>): void => {
+    // Record an undo step only for real changes - widgets may echo their config back on mount
+    const currentWidget = widgets.find(widget => widget.id === widgetId);
+    const currentConfig = currentWidget?.config || {};
+    const hasChanges = Object.entries(newConfig).some(
+      ([key, value]) => typeof value !== 'function' && JSON.stringify(currentConfig[key]) !== JSON.stringify(value)
+    );
+    if (hasChanges) {
+      history.record('Update widget settings', getHistorySnapshot(), `config:${widgetId}`);
+    }
+
     // Update widget in state
     const updatedWidgets = widgets.map(widget => 
       widget.id === widgetId 
@@ -1062,11 +1658,13 @@ function App() {
     setWidgets(updatedWidgets);
     
     // Save to configManager - excluding function properties
-    const configToSave = prepareWidgetConfigForSave(newConfig);
+    const configToSave = prepareWidgetConfigForSave(
+      currentWidget ? { ...newConfig, type: currentWidget.type } : newConfig
+    );
     configManager.saveWidgetConfig(widgetId, configToSave);
     
     // Save to Firestore if logged in
-    if (auth?.currentUser) {
+    if (storageBackend.isAuthenticated()) {
       saveWidgets(updatedWidgets);
     }
   };
@@ -1120,17 +1718,19 @@ function App() {
     
     // Determine if we're in read-only mode (viewing someone else's dashboard)
     // For now, check if dashboard has an ownerId that doesn't match current user
-    const isReadOnly = currentDashboard.ownerId !== undefined &&
-                       auth?.currentUser?.uid !== currentDashboard.ownerId;
+    const isReadOnly = isKiosk || (currentDashboard.ownerId !== undefined &&
+                       storageBackend.getUserId() !== currentDashboard.ownerId);
 
     return (
       <WidgetRenderer
+        key={`${widget.id}-${kioskRefreshCount}`}
         widget={widget}
         width={width}
         height={height}
         isReadOnly={isReadOnly}
         onDeleteWidget={stableDeleteWidget}
         onUpdateWidget={stableUpdateWidgetConfig}
+        customWidgetStatuses={customWidgetStatuses}
       />
     );
   };
@@ -1140,16 +1740,42 @@ function App() {
   const [draggedWidgetId, setDraggedWidgetId] = useState<string | null>(null);
   const lastMousePos = useRef<{ x: number, y: number } | null>(null);
   const dragThreshold = 5; // Minimum mouse movement to determine direction
+
+  // Dashboard state before the current drag/resize, recorded as an undo step once it ends
+  const preInteractionSnapshot = useRef<DashboardHistorySnapshot | null>(null);
+
+  // Stacks the dragged widget can be dropped into
+  const [stackDropTargets, setStackDropTargets] = useState<StackDropTarget[]>([]);
+  const [activeStackTargetId, setActiveStackTargetId] = useState<string | null>(null);
+
+  const getStackDropTargets = (draggedId: string): StackDropTarget[] => {
+    const dragged = widgets.find(widget => widget.id === draggedId);
+    if (!dragged || dragged.type === STACK_WIDGET_TYPE) return [];
+
+    return widgets
+      .filter(widget => widget.type === STACK_WIDGET_TYPE)
+      .flatMap(widget => {
+        const element = document.querySelector<HTMLElement>(`.widget-wrapper[data-widget-id="${widget.id}"]`);
+        return element ? [{ stackId: widget.id, name: getWidgetDisplayName(widget), rect: element.getBoundingClientRect() }] : [];
+      });
+  };
   
   const handleDragStart = (_layout: LayoutItem[], _oldItem: LayoutItem, newItem: LayoutItem, _placeholder: LayoutItem, event: MouseEvent): void => {
+    preInteractionSnapshot.current = getHistorySnapshot();
     document.body.classList.add('dragging', 'react-grid-layout--dragging');
     setDraggedWidgetId(newItem.i);
+    setStackDropTargets(getStackDropTargets(newItem.i));
     lastMousePos.current = { x: event.clientX, y: event.clientY };
     setDragDirection(null);
     // Drag started
   };
   
   const handleDrag = (_layout: LayoutItem[], _oldItem: LayoutItem, _newItem: LayoutItem, _placeholder: LayoutItem, event: MouseEvent): void => {
+    const stackTargetId = getStackDropTargetAt(stackDropTargets, event.clientX, event.clientY)?.stackId ?? null;
+    if (stackTargetId !== activeStackTargetId) {
+      setActiveStackTargetId(stackTargetId);
+    }
+
     // Skip if no mouse position
     if (!lastMousePos.current) return;
     
@@ -1170,7 +1796,19 @@ function App() {
     }
   };
   
-  const handleDragStop = (): void => {
+  const handleDragStop = (_layout: LayoutItem[], oldItem: LayoutItem, newItem: LayoutItem, _placeholder: LayoutItem, event: MouseEvent): void => {
+    const stackTarget = getStackDropTargetAt(stackDropTargets, event.clientX, event.clientY);
+    setStackDropTargets([]);
+    setActiveStackTargetId(null);
+
+    const snapshot = preInteractionSnapshot.current;
+    preInteractionSnapshot.current = null;
+
+    // Only moves that actually changed position are undoable
+    if (!stackTarget && snapshot && (oldItem.x !== newItem.x || oldItem.y !== newItem.y)) {
+      history.record('Move widget', snapshot);
+    }
+
     // Apply rebound class before removing direction class
     if (draggedWidgetId) {
       // Find the widget that was being dragged by ID
@@ -1192,6 +1830,11 @@ function App() {
     
     // Remove classes
     document.body.classList.remove('dragging', 'react-grid-layout--dragging');
+
+    if (stackTarget && snapshot) {
+      moveWidgetIntoStack(newItem.i, stackTarget.stackId, snapshot);
+      return;
+    }
     
     // Save the layout
     saveLayouts(layouts, false);
@@ -1237,6 +1880,7 @@ function App() {
 
   // Handle resize events
   const handleResizeStart = (_layout: LayoutItem[], _oldItem: LayoutItem, newItem: LayoutItem): void => {
+    preInteractionSnapshot.current = getHistorySnapshot();
     document.body.classList.add('react-grid-layout--resizing');
     setResizingWidgetId(newItem.i);
     lastResizeSize.current = { w: newItem.w, h: newItem.h };
@@ -1275,7 +1919,12 @@ function App() {
     lastResizeSize.current = { w: newItem.w, h: newItem.h };
   };
 
-  const handleResizeStop = (_layout: LayoutItem[], _oldItem: LayoutItem, newItem: LayoutItem): void => {
+  const handleResizeStop = (_layout: LayoutItem[], oldItem: LayoutItem, newItem: LayoutItem): void => {
+    if (preInteractionSnapshot.current && (oldItem.w !== newItem.w || oldItem.h !== newItem.h)) {
+      history.record('Resize widget', preInteractionSnapshot.current);
+    }
+    preInteractionSnapshot.current = null;
+
     document.body.classList.remove('react-grid-layout--resizing');
 
     // Apply bounce effect to the resized widget
@@ -1295,6 +1944,96 @@ function App() {
     saveLayouts(layouts, false);
   };
   
+  // Screen reader announcement for keyboard edits; the ID re-announces repeated messages
+  const [gridAnnouncement, setGridAnnouncement] = useState<{ id: number; text: string } | null>(null);
+  const announce = (text: string): void => {
+    setGridAnnouncement(prev => ({ id: (prev?.id ?? 0) + 1, text }));
+  };
+
+  const describeLayoutItem = (item: LayoutItem): string =>
+    `column ${item.x + 1}, row ${item.y + 1}, ${item.w} by ${item.h}`;
+
+  // Keyboard editing of the focused widget: arrows move it, Shift+arrows resize it,
+  // Enter opens its settings and Delete removes it
+  const handleWidgetKeyDown = (event: React.KeyboardEvent<HTMLDivElement>, widget: Widget): void => {
+    // Keys pressed inside the widget (inputs, buttons) belong to the widget
+    if (event.target !== event.currentTarget || event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const name = getWidgetDisplayName(widget);
+    const element = event.currentTarget;
+
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      const settingsButton = element.querySelector<HTMLElement>('.settings-button');
+      if (settingsButton) {
+        settingsButton.click();
+      } else {
+        announce(`${name} has no settings`);
+      }
+      return;
+    }
+
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      // Keep keyboard focus on the dashboard
+      const wrappers = Array.from(document.querySelectorAll<HTMLElement>('.widget-wrapper[data-widget-id]'));
+      const index = wrappers.indexOf(element);
+      const nextFocus = wrappers[index + 1] || wrappers[index - 1];
+      void deleteWidget(widget.id);
+      announce(`${name} removed. Press Ctrl+Z to undo.`);
+      nextFocus?.focus();
+      return;
+    }
+
+    if (event.key === 'p' || event.key === 'P') {
+      event.preventDefault();
+      const isPinned = layouts[currentBreakpoint]?.find(item => item.i === widget.id)?.static === true;
+      handleTogglePin(widget.id);
+      announce(`${name} ${isPinned ? 'unpinned' : 'pinned'}`);
+      return;
+    }
+
+    const direction = ARROW_DIRECTIONS[event.key];
+    if (!direction) return;
+    event.preventDefault();
+
+    const currentLayout = layouts[currentBreakpoint] || [];
+    if (isLayoutLocked) {
+      announce('The layout is locked');
+      return;
+    }
+    if (currentLayout.find(item => item.i === widget.id)?.static) {
+      announce(`${name} is pinned. Press P to unpin it.`);
+      return;
+    }
+    const colCount = cols[currentBreakpoint as keyof typeof cols];
+    const isResize = event.shiftKey;
+    const updatedLayout = isResize
+      ? resizeLayoutItem(
+          currentLayout,
+          widget.id,
+          direction === 'left' ? -1 : direction === 'right' ? 1 : 0,
+          direction === 'up' ? -1 : direction === 'down' ? 1 : 0,
+          colCount
+        )
+      : moveLayoutItem(currentLayout, widget.id, direction, colCount);
+
+    if (!updatedLayout) {
+      announce(isResize ? `${name} can't be resized that way` : `${name} can't move ${direction}`);
+      return;
+    }
+
+    // Repeated key presses on the same widget form one undo step
+    history.record(isResize ? 'Resize widget' : 'Move widget', getHistorySnapshot(), `keyboard-${isResize ? 'resize' : 'move'}:${widget.id}`);
+    handleLayoutChange(updatedLayout);
+
+    const movedItem = updatedLayout.find(item => item.i === widget.id);
+    if (movedItem) {
+      announce(`${name} ${isResize ? 'resized' : 'moved'}: ${describeLayoutItem(movedItem)}`);
+    }
+    requestAnimationFrame(() => element.scrollIntoView({ block: 'nearest' }));
+  };
+
   // Toggle widget selector
   const toggleWidgetSelector = (): void => {
     setWidgetSelectorOpen(!widgetSelectorOpen);
@@ -1321,8 +2060,10 @@ function App() {
         w: layoutItem?.w ?? defaultWidth,
         h: isMobile ? 5 : (layoutItem?.h ?? defaultHeight),
         minW: layoutItem?.minW ?? 2,
-        minH: isMobile ? 3 : (layoutItem?.minH ?? 2)
+        minH: isMobile ? 3 : (layoutItem?.minH ?? 2),
+        static: layoutItem?.static
       };
+      const isPinned = layoutItem?.static === true;
       
       // Add different classes based on screen size
       const isTablet = currentBreakpoint === 'sm';
@@ -1331,12 +2072,30 @@ function App() {
       return (
         <div 
           key={widget.id} 
-          className={`widget-wrapper ${sizeClass} app-widget`} 
+          className={`widget-wrapper ${sizeClass} app-widget ${highlightedWidgetId === widget.id ? 'widget-highlight' : ''} ${isPinned ? 'widget-pinned' : ''}`} 
           data-grid={dataGrid}
+          data-widget-id={widget.id}
+          // Kiosk dashboards can't be edited, so widgets aren't keyboard targets there
+          tabIndex={isKiosk ? undefined : 0}
+          role={isKiosk ? undefined : 'group'}
+          aria-label={isKiosk ? undefined : `${getWidgetDisplayName(widget)}, ${describeLayoutItem(dataGrid)}${isPinned ? ', pinned' : ''}`}
+          aria-describedby={isKiosk ? undefined : 'widget-keyboard-help'}
+          onKeyDown={isKiosk ? undefined : (event) => handleWidgetKeyDown(event, widget)}
           data-breakpoint={currentBreakpoint}
           style={isMobile ? { marginBottom: '16px', height: 'auto' } : undefined}
         >
           {renderWidget(widget, isMobile)}
+          {isPinned && !isKiosk && (
+            <button
+              type="button"
+              className="widget-pin-badge"
+              onClick={() => handleTogglePin(widget.id)}
+              aria-label={`Unpin ${getWidgetDisplayName(widget)}`}
+              title="Pinned. Click to unpin."
+            >
+              <Pin className="h-3 w-3" />
+            </button>
+          )}
         </div>
       );
     });
@@ -1349,7 +2108,8 @@ function App() {
         {widgets.map(widget => (
           <div 
             key={widget.id} 
-            className="mobile-widget-item"
+            className={`mobile-widget-item ${highlightedWidgetId === widget.id ? 'widget-highlight' : ''}`}
+            data-widget-id={widget.id}
           >
             {renderWidget(widget, true)}
           </div>
@@ -1363,22 +2123,22 @@ function App() {
     const personalKeys = getDashboardStorageKeys('personal');
 
     // Check if we need to migrate legacy data to personal dashboard
-    const hasLegacyData = localStorage.getItem(STORAGE_KEYS.WIDGETS);
-    const hasPersonalDashboardData = localStorage.getItem(personalKeys.widgets);
+    const hasLegacyData = localStore.getItem(STORAGE_KEYS.WIDGETS);
+    const hasPersonalDashboardData = localStore.getItem(personalKeys.widgets);
 
     // If we have legacy data but no personal dashboard data, migrate
     if (hasLegacyData && !hasPersonalDashboardData) {
-      localStorage.setItem(personalKeys.widgets, hasLegacyData);
-      const legacyLayouts = localStorage.getItem(STORAGE_KEYS.LAYOUTS);
+      localStore.setItem(personalKeys.widgets, hasLegacyData);
+      const legacyLayouts = localStore.getItem(STORAGE_KEYS.LAYOUTS);
       if (legacyLayouts) {
-        localStorage.setItem(personalKeys.layouts, legacyLayouts);
+        localStore.setItem(personalKeys.layouts, legacyLayouts);
       }
     }
 
     // Load from dashboard-specific storage
     const keys = getDashboardStorageKeys(currentDashboardId);
-    const dashboardWidgets = localStorage.getItem(keys.widgets);
-    const dashboardLayouts = localStorage.getItem(keys.layouts);
+    const dashboardWidgets = localStore.getItem(keys.widgets);
+    const dashboardLayouts = localStore.getItem(keys.layouts);
 
     // Load widgets and layouts together to ensure they match
     let localWidgets: Widget[];
@@ -1390,8 +2150,8 @@ function App() {
       localLayouts = JSON.parse(dashboardLayouts);
     } else if (currentDashboardId === 'personal') {
       // Personal dashboard can fall back to legacy storage
-      localWidgets = loadFromLocalStorage(STORAGE_KEYS.WIDGETS, getDefaultWidgets());
-      localLayouts = loadFromLocalStorage(STORAGE_KEYS.LAYOUTS, getDefaultLayouts());
+      localWidgets = loadFromLocalStore(STORAGE_KEYS.WIDGETS, getDefaultWidgets());
+      localLayouts = loadFromLocalStore(STORAGE_KEYS.LAYOUTS, getDefaultLayouts());
     } else {
       // Non-personal dashboards without storage get fresh widgets with unique IDs
       // AND matching layouts to ensure they work together
@@ -1399,13 +2159,13 @@ function App() {
       localLayouts = generateLayoutsForWidgets(localWidgets);
       // Save immediately so they persist
       const keys = getDashboardStorageKeys(currentDashboardId);
-      localStorage.setItem(keys.widgets, JSON.stringify(localWidgets));
-      localStorage.setItem(keys.layouts, JSON.stringify(localLayouts));
+      localStore.setItem(keys.widgets, JSON.stringify(localWidgets));
+      localStore.setItem(keys.layouts, JSON.stringify(localLayouts));
     }
 
     setLayouts(localLayouts);
 
-    // Load and decrypt widget configs from localStorage
+    // Load and decrypt widget configs from the local store
     const localConfigs = await configManager.getConfigs(true);
 
     // Merge configs into widgets
@@ -1425,6 +2185,21 @@ function App() {
     setWidgets(widgetsWithConfigs);
   };
 
+  /**
+   * Let the user know when stored widget settings couldn't be upgraded to the current format
+   * The affected widgets keep their settings as they were and are retried on the next load
+   */
+  const reportConfigMigrationErrors = () => {
+    const errors = configManager.takeMigrationErrors();
+    if (errors.length === 0) return;
+
+    const widgetNames = [...new Set(errors.map(error => getWidgetConfigByType(error.widgetType)?.name || error.widgetType))];
+    toast.warning('Some widget settings could not be upgraded', {
+      description: `${widgetNames.join(', ')} may not work as expected until this is fixed.`,
+      duration: 8000,
+    });
+  };
+
   /**
    * Migrate widget-specific localStorage keys to unified storage
    * This cleans up old Calendar widget configs that were stored with widget-specific keys
@@ -1461,7 +2236,7 @@ function App() {
 
       // Save back to unified storage if we made changes
       if (hasChanges) {
-        localStorage.setItem(STORAGE_KEYS.WIDGET_CONFIGS, JSON.stringify(unifiedConfigs));
+        localStore.setItem(STORAGE_KEYS.WIDGET_CONFIGS, JSON.stringify(unifiedConfigs));
         console.warn('Migrated widget-specific localStorage keys to unified storage');
       }
     } catch (e) {
@@ -1473,6 +2248,9 @@ function App() {
   const loadUserData = async (): Promise<void> => {
     try {
       let userHasFirestoreData = false;
+
+      // Writes queued while offline go out before the stored data is read back
+      await userDashboardService.replayQueuedWrites();
       
       // Migrate any legacy layout data structure first
       await userDashboardService.migrateLayoutDataStructure();
@@ -1485,33 +2263,11 @@ function App() {
         if (firestoreWidgets !== null && firestoreWidgets !== undefined) {
           // Widget metadata loaded from Firestore
           
-          // 2. Load all widget configurations from Firestore
-          const firestoreConfigs = await configManager.getConfigs(true);
-
-          // 3. Also load localStorage configs in case there are unsaved local changes
-          const localConfigs = configManager.getConfigsFromLocalStorage();
-
-          // 4. Merge configs: prefer local over Firestore for each widget
+          // 2. Load all widget configurations, keeping local changes that never reached Firestore
           // This handles the case where user made changes but refreshed before debounce completed
-          const mergedConfigs: Record<string, Record<string, unknown>> = {};
-
-          // Start with Firestore configs as base
-          Object.keys(firestoreConfigs).forEach(widgetId => {
-            mergedConfigs[widgetId] = firestoreConfigs[widgetId];
-          });
-
-          // Merge in local configs (will override Firestore if exists)
-          Object.keys(localConfigs).forEach(widgetId => {
-            if (mergedConfigs[widgetId]) {
-              // Merge local changes over Firestore config
-              mergedConfigs[widgetId] = { ...mergedConfigs[widgetId], ...localConfigs[widgetId] };
-            } else {
-              // Use local config if no Firestore config exists
-              mergedConfigs[widgetId] = localConfigs[widgetId];
-            }
-          });
+          const mergedConfigs = await configManager.loadSyncedConfigs();
 
-          // 5. Merge the widget metadata with their respective configurations
+          // 3. Merge the widget metadata with their respective configurations
           const typedWidgets = Array.isArray(firestoreWidgets) ? firestoreWidgets.map(widget => {
             const widgetId = widget.id as string;
             return {
@@ -1521,20 +2277,24 @@ function App() {
             } as Widget;
           }) : [];
 
-          // 6. Validate and fix layouts based on the widgets
+          // 4. Validate and fix layouts based on the widgets
           const validatedLayouts = await userDashboardService.validateAndFixLayouts(
             typedWidgets.map(w => ({ id: w.id, type: w.type }))
           );
 
-          // 7. Update localStorage for personal dashboard
+          // Later saves merge against what was loaded, to keep changes from other devices
+          syncBase.setWidgets(typedWidgets.map(w => ({ id: w.id, type: w.type })));
+          syncBase.setLayouts(validatedLayouts);
+
+          // 5. Update the local store for personal dashboard
           const personalKeys = getDashboardStorageKeys('personal');
-          localStorage.setItem(personalKeys.widgets, JSON.stringify(typedWidgets));
-          localStorage.setItem(personalKeys.layouts, JSON.stringify(validatedLayouts));
+          localStore.setItem(personalKeys.widgets, JSON.stringify(typedWidgets));
+          localStore.setItem(personalKeys.layouts, JSON.stringify(validatedLayouts));
           // Also save to legacy keys for backwards compatibility
-          localStorage.setItem(STORAGE_KEYS.WIDGETS, JSON.stringify(typedWidgets));
-          localStorage.setItem(STORAGE_KEYS.LAYOUTS, JSON.stringify(validatedLayouts));
+          localStore.setItem(STORAGE_KEYS.WIDGETS, JSON.stringify(typedWidgets));
+          localStore.setItem(STORAGE_KEYS.LAYOUTS, JSON.stringify(validatedLayouts));
 
-          // 8. IMPORTANT: Only apply Firestore data to state if on personal dashboard
+          // 6. IMPORTANT: Only apply Firestore data to state if on personal dashboard
           // This prevents overwriting other dashboard data with personal dashboard data
           if (currentDashboardId === 'personal') {
             setWidgets(typedWidgets);
@@ -1543,11 +2303,11 @@ function App() {
 
           userHasFirestoreData = true;
         } else if (!userHasFirestoreData) {
-          // Fall back to localStorage if no Firestore data
+          // Fall back to local data if no Firestore data
           await loadLocalData();
 
           // Migrate to Firestore if logged in
-          if (auth?.currentUser && widgets.length > 0) {
+          if (storageBackend.isAuthenticated() && widgets.length > 0) {
             try {
               // Use debounce=false to ensure sequential saves complete before proceeding
               await saveWidgets(widgets, false);
@@ -1559,14 +2319,14 @@ function App() {
         }
       } catch (error) {
         console.error('Error loading widgets from Firestore:', error);
-        // Only fall back to localStorage if we haven't loaded Firestore data
+        // Only fall back to local data if we haven't loaded Firestore data
         if (!userHasFirestoreData) {
           await loadLocalData();
         }
       }
     } catch (error) {
       console.error('Error loading user data from Firestore:', error);
-      // Fallback to localStorage
+      // Fallback to local data
       await loadLocalData();
     }
   };
@@ -1575,6 +2335,14 @@ function App() {
   useEffect(() => {
     let unsubscribe: (() => void) | undefined;
 
+    // Widgets loaded while the keyring was locked are missing their secrets, so load them again once it's unlocked
+    let keyringStatus = keyring.getSnapshot().status;
+    const unsubscribeKeyring = keyring.subscribe(() => {
+      const wasLocked = keyringStatus === 'locked';
+      keyringStatus = keyring.getSnapshot().status;
+      if (wasLocked && keyringStatus === 'unlocked') void loadUserData();
+    });
+
     // Use async IIFE to properly await migrations before loading data
     const initializeApp = async () => {
       // Handle OAuth callback params BEFORE loading data
@@ -1608,29 +2376,35 @@ function App() {
         console.error('Failed to migrate encryption:', err);
       }
 
-      // ALWAYS load from localStorage first - this prevents blocking on Firebase auth
+      // ALWAYS load from the local store first - this prevents blocking on Firebase auth
       // and ensures the dashboard shows quickly
       try {
         await loadLocalData();
       } catch (error) {
         console.error('Error loading local data:', error);
       }
+      reportConfigMigrationErrors();
 
       // Show the dashboard immediately with local data
       setIsDataLoaded(true);
 
-      // If Firebase auth is configured, set up listener to sync with Firestore
+      // Set up a listener to sync with the storage backend (Firestore or self-hosted)
       // This runs in the background AFTER the dashboard is already visible
-      if (auth) {
-        unsubscribe = auth.onAuthStateChanged(async (user) => {
-          if (user) {
-            // User is signed in, load their data from Firestore
-            // This will merge/override local data with Firestore data
-            await loadUserData();
-          }
-          // If user is null (logged out), we already loaded local data above
-        });
-      }
+      unsubscribe = storageBackend.onAuthStateChanged(async (isAuthenticated) => {
+        // The offline write queue is per user
+        writeQueue.refresh();
+        if (isAuthenticated) {
+          // Secrets in the remote configs can only be decrypted once the keyring is loaded
+          await keyring.load();
+          // User is signed in, load their data from the storage backend
+          // This will merge/override local data with remote data
+          await loadUserData();
+          reportConfigMigrationErrors();
+        } else {
+          // If logged out, we already loaded local data above
+          keyring.reset();
+        }
+      });
     };
 
     initializeApp();
@@ -1640,6 +2414,7 @@ function App() {
       if (unsubscribe) {
         unsubscribe();
       }
+      unsubscribeKeyring();
     };
   }, []);
   
@@ -1727,13 +2502,15 @@ function App() {
 
     switch (result.type) {
       case 'youtube':
+        history.record('Add widget', getHistorySnapshot());
+
         // Create YouTube widget
         widgetId = `youtube-${Date.now()}`;
         newWidget = {
           id: widgetId,
           type: 'youtube',
           config: {
-            ...getWidgetConfigByType('youtube'),
+            ...getDefaultWidgetConfig('youtube'),
             videoId: result.data.videoId
           }
         };
@@ -1773,7 +2550,6 @@ function App() {
         // Update states
         setWidgets(updatedWidgets);
         setLayouts(updatedLayouts);
-        setLastCreatedWidgetId(widgetId);
         
         // Save changes
         saveWidgets(updatedWidgets);
@@ -1793,14 +2569,212 @@ function App() {
     }
   };
   
-  // Handle undo of last widget creation
-  const handleUndoLastWidget = () => {
-    if (lastCreatedWidgetId) {
-      deleteWidget(lastCreatedWidgetId);
-      setLastCreatedWidgetId(null);
-    }
+  /**
+   * Restore a snapshot from the undo history.
+   * Configs of widgets that no longer exist in the snapshot, on the grid or in a
+   * stack, are cleared; saveWidgets
+   * re-saves the configs of every restored widget.
+   */
+  const restoreHistorySnapshot = (snapshot: DashboardHistorySnapshot): void => {
+    // Stack children keep their configs too
+    const restoredIds = getWidgetIdsWithChildren(snapshot.widgets);
+    widgets
+      .filter(widget => !restoredIds.has(widget.id))
+      .forEach(widget => {
+        void configManager.clearConfig(widget.id);
+      });
+
+    saveWidgets(snapshot.widgets);
+    saveLayouts(snapshot.layouts, false);
   };
+
+  const handleUndo = (): void => {
+    const entry = history.undo(getHistorySnapshot());
+    if (!entry) return;
+
+    restoreHistorySnapshot(entry.snapshot);
+    toast(`Undo: ${entry.label}`, {
+      action: { label: 'Redo', onClick: () => handleRedoRef.current() },
+      duration: 3000,
+    });
+  };
+
+  const handleRedo = (): void => {
+    const entry = history.redo(getHistorySnapshot());
+    if (!entry) return;
+
+    restoreHistorySnapshot(entry.snapshot);
+    toast(`Redo: ${entry.label}`, {
+      action: { label: 'Undo', onClick: () => handleUndoRef.current() },
+      duration: 3000,
+    });
+  };
+
+  // Keep toast actions and the keyboard listener pointed at the latest state
+  const handleUndoRef = useRef(handleUndo);
+  const handleRedoRef = useRef(handleRedo);
+  useEffect(() => {
+    handleUndoRef.current = handleUndo;
+    handleRedoRef.current = handleRedo;
+  });
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) and Ctrl+Y for dashboard undo/redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+
+      // Leave native text undo alone, and don't change the dashboard behind an open dialog
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (document.querySelector('[role="dialog"]')) return;
+
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) {
+        handleRedoRef.current();
+      } else {
+        handleUndoRef.current();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
   
+  // Ctrl+K (Cmd+K on macOS) toggles the command palette
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.shiftKey) return;
+      if (event.key.toLowerCase() !== 'k') return;
+
+      event.preventDefault();
+      // Don't open over another dialog, e.g. widget settings
+      setCommandPaletteOpen(open => (open ? false : !document.querySelector('[role="dialog"]')));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Widgets of every dashboard for the command palette: the current one from state,
+  // the others as last saved, with their stored configs
+  const loadSearchableDashboards = async (): Promise<SearchableDashboard[]> => {
+    const configs = await configManager.getConfigs();
+
+    return dashboards.map(dashboard => {
+      if (dashboard.id === currentDashboardId) {
+        return { id: dashboard.id, name: dashboard.name, widgets };
+      }
+
+      const keys = getDashboardStorageKeys(dashboard.id);
+      // The personal dashboard may still be in legacy storage
+      const fallbackWidgets = dashboard.id === 'personal' ? loadFromLocalStore<Widget[]>(STORAGE_KEYS.WIDGETS, []) : [];
+      const storedWidgets = loadFromLocalStore<Widget[]>(keys.widgets, fallbackWidgets);
+      return {
+        id: dashboard.id,
+        name: dashboard.name,
+        widgets: storedWidgets.map(widget => ({
+          ...widget,
+          config: { ...widget.config, ...configs[widget.id] },
+        })),
+      };
+    });
+  };
+
+  // Stable so the palette only reloads when it opens
+  const loadSearchableDashboardsRef = useRef(loadSearchableDashboards);
+  useEffect(() => {
+    loadSearchableDashboardsRef.current = loadSearchableDashboards;
+  });
+  const stableLoadSearchableDashboards = React.useCallback(() => loadSearchableDashboardsRef.current(), []);
+
+  const handleSelectSearchResult = async (dashboardId: string, widgetId: string) => {
+    if (dashboardId !== currentDashboardId) {
+      const dashboard = dashboards.find(d => d.id === dashboardId);
+      if (!dashboard) return;
+      await handleSwitchDashboard(dashboard);
+    }
+    setHighlightedWidgetId(widgetId);
+  };
+
+  // Scroll to the highlighted widget once it's rendered, then fade the highlight out
+  useEffect(() => {
+    if (!highlightedWidgetId || !isLayoutReady) return;
+
+    // Both the grid and the mobile list render every widget; only one of them is visible
+    const element = Array.from(document.querySelectorAll<HTMLElement>(`[data-widget-id="${highlightedWidgetId}"]`))
+      .find(candidate => candidate.offsetParent !== null);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    const timer = setTimeout(() => setHighlightedWidgetId(null), TIMING.WIDGET_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedWidgetId, isLayoutReady, widgets]);
+
+  const paletteCommands: PaletteCommand[] = [
+    {
+      id: 'add-widget',
+      label: 'Add widget...',
+      group: 'Dashboard',
+      icon: Plus,
+      keywords: 'new create',
+      onSelect: () => setWidgetSelectorOpen(true),
+    },
+    // A locked layout can't be rearranged
+    ...(isLayoutLocked ? [] : [{
+      id: 'auto-arrange',
+      label: 'Auto-arrange widgets',
+      group: 'Dashboard',
+      icon: LayoutGrid,
+      keywords: 'layout compact tidy',
+      onSelect: handleAutoArrange,
+    }]),
+    {
+      id: 'toggle-layout-lock',
+      label: isLayoutLocked ? 'Unlock layout' : 'Lock layout',
+      group: 'Dashboard',
+      icon: isLayoutLocked ? LockOpen : Lock,
+      keywords: 'freeze pin prevent drag resize move',
+      onSelect: handleToggleLayoutLock,
+    },
+    {
+      id: 'toggle-theme',
+      label: theme === 'dark' ? 'Switch to light theme' : 'Switch to dark theme',
+      group: 'Dashboard',
+      icon: theme === 'dark' ? Sun : Moon,
+      keywords: 'toggle theme appearance dark light mode',
+      onSelect: toggleTheme,
+    },
+    {
+      id: 'app-settings',
+      label: 'Open app settings',
+      group: 'Dashboard',
+      icon: Settings,
+      keywords: 'preferences options',
+      onSelect: () => document.dispatchEvent(new CustomEvent('boxento:openAppSettings')),
+    },
+    ...dashboards
+      .filter(dashboard => dashboard.id !== currentDashboardId)
+      .map((dashboard): PaletteCommand => ({
+        id: `switch-dashboard-${dashboard.id}`,
+        label: dashboard.name,
+        group: 'Switch Dashboard',
+        icon: LayoutDashboard,
+        keywords: 'dashboard go to open',
+        onSelect: () => void handleSwitchDashboard(dashboard),
+      })),
+    ...WIDGET_REGISTRY.map((widgetConfig): PaletteCommand => ({
+      id: `add-widget-${widgetConfig.type}`,
+      label: `Add ${widgetConfig.name}`,
+      group: 'Add Widget',
+      icon: Plus,
+      keywords: `widget new ${widgetConfig.category} ${widgetConfig.description}`,
+      searchOnly: true,
+      onSelect: () => addWidget(widgetConfig.type),
+    })),
+  ];
+
   // Show skeleton dashboard while loading data
   if (!isDataLoaded) {
     return (
@@ -1851,8 +2825,52 @@ function App() {
     );
   }
   
+  // Hide grid completely until layout is ready to prevent position animation
+  const dashboardGrid = (
+    <div className={`${isLayoutReady ? '' : 'hidden'} ${isLayoutLocked ? 'layout-locked' : ''}`}>
+      <ResponsiveReactGridLayout
+        className={`layout ${!isTransitionsEnabled ? 'layout-loading' : ''}`}
+        layouts={layouts}
+        breakpoints={breakpoints}
+        cols={cols}
+        rowHeight={rowHeight}
+        onLayoutChange={handleLayoutChange}
+        onBreakpointChange={(newBreakpoint: string) => {
+          if (newBreakpoint !== currentBreakpoint) {
+            // Breakpoint changed
+            setCurrentBreakpoint(newBreakpoint);
+          }
+        }}
+        onDragStart={handleDragStart}
+        onDrag={handleDrag}
+        onDragStop={handleDragStop}
+        onResizeStart={handleResizeStart}
+        onResize={handleResize}
+        onResizeStop={handleResizeStop}
+        margin={[15, 15]}
+        containerPadding={[10, 10]}
+        draggableHandle=".widget-drag-handle"
+        draggableCancel=".settings-button"
+        useCSSTransforms={true}
+        measureBeforeMount={false}
+        compactType="vertical"
+        verticalCompact={true}
+        preventCollision={false}
+        isResizable={!isKiosk && !isLayoutLocked}
+        isDraggable={!isKiosk && !isLayoutLocked}
+        isBounded={false}
+        autoSize={true}
+        transformScale={1}
+        style={{ width: '100%', minHeight: '100%' }}
+      >
+        {renderWidgetItems()}
+      </ResponsiveReactGridLayout>
+      <StackDropTargets targets={stackDropTargets} activeStackId={activeStackTargetId} />
+    </div>
+  );
+
   return (
-    <div className={`app ${theme === 'dark' ? 'dark' : ''} app-background`} data-theme={theme}>
+    <div className={`app ${theme === 'dark' ? 'dark' : ''} ${isKiosk ? 'read-only-dashboard kiosk-mode' : ''} app-background`} data-theme={theme}>
       {/* Add Toaster */}
       <Toaster 
         position="bottom-right"
@@ -1860,110 +2878,171 @@ function App() {
         closeButton
       />
       
-      {/* Add PasteDetectionLayer */}
-      <PasteDetectionLayer 
-        onUrlDetected={handleUrlDetected}
-        onUndo={handleUndoLastWidget}
-        className="z-0"
-      />
+      {!isKiosk && (
+        <>
+          <CommandPalette
+            open={commandPaletteOpen}
+            onOpenChange={setCommandPaletteOpen}
+            commands={paletteCommands}
+            loadDashboards={stableLoadSearchableDashboards}
+            currentDashboardId={currentDashboardId}
+            onSelectWidget={(dashboardId, widgetId) => void handleSelectSearchResult(dashboardId, widgetId)}
+          />
+
+          <UnlockEncryptionDialog />
+
+          <SyncConflictDialog
+            open={isConflictDialogOpen}
+            onOpenChange={setIsConflictDialogOpen}
+            conflicts={conflicts}
+            onResolve={handleResolveConflict}
+          />
+
+          {/* Add PasteDetectionLayer */}
+          <PasteDetectionLayer 
+            onUrlDetected={handleUrlDetected}
+            onUndo={handleUndo}
+            className="z-0"
+          />
       
-      {/* Header */}
-      <div className="fixed top-0 z-50 w-full backdrop-blur-sm app-header">
-        <div className="px-2 sm:px-4 py-3 flex items-center justify-between"> {/* Use px-2 for xs, px-4 for sm+ */}
-          <div className="flex items-center">
-            <div className="mr-2 sm:mr-3">
-              <DashboardSwitcher
-                dashboards={dashboards}
-                currentDashboard={currentDashboard}
-                onSwitchDashboard={handleSwitchDashboard}
-                onCreateDashboard={handleCreateDashboard}
-                onUpdateDashboard={handleUpdateDashboard}
-                onDeleteDashboard={handleDeleteDashboard}
-              />
-            </div>
-            {/* Sync indicator */}
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <div className="flex items-center">
-                    {!isOnline ? (
-                      <CloudOff className="h-5 w-5 text-yellow-500 dark:text-yellow-400" />
-                    ) : auth?.currentUser ? (
-                      isSyncing ? (
-                        <Loader2 className="h-5 w-5 text-green-500 dark:text-green-400" />
-                      ) : syncStatus === 'success' ? (
-                        <Cloud className="h-5 w-5 text-green-500 dark:text-green-400" />
-                      ) : syncStatus === 'error' ? (
-                        <Cloud className="h-5 w-5 text-red-500 dark:text-red-400" />
-                      ) : (
-                        <Cloud className="h-5 w-5 text-gray-500 dark:text-gray-400" />
-                      )
-                    ) : (
-                      <Cloud className="h-5 w-5 text-gray-400 dark:text-gray-500" />
-                    )}
-                  </div>
-                </TooltipTrigger>
-                <TooltipContent side="bottom" sideOffset={5} className="max-w-[300px] bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 shadow-lg">
-                  <div>
-                    <p className="font-semibold">
-                      {!isOnline ? (
-                        "You are offline. Some features may be limited."
-                      ) : auth?.currentUser ? (
-                        isSyncing ? "Syncing..." : 
-                        syncStatus === 'success' ? "Everything is synced!" :
-                        syncStatus === 'error' ? "Sync error" :
-                        "Ready to sync"
-                      ) : (
-                        "Sign up to sync (saved locally for now)"
-                      )}
-                    </p>
-                  </div>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
-          </div>
+          {/* Header */}
+          <div className="fixed top-0 z-50 w-full backdrop-blur-sm app-header">
+            <div className="px-2 sm:px-4 py-3 flex items-center justify-between"> {/* Use px-2 for xs, px-4 for sm+ */}
+              <div className="flex items-center">
+                <div className="mr-2 sm:mr-3">
+                  <DashboardSwitcher
+                    dashboards={dashboards}
+                    currentDashboard={currentDashboard}
+                    onSwitchDashboard={handleSwitchDashboard}
+                    onCreateDashboard={handleCreateDashboard}
+                    onUpdateDashboard={handleUpdateDashboard}
+                    onDeleteDashboard={handleDeleteDashboard}
+                    onExportDashboard={handleExportDashboard}
+                    onImportDashboard={handleImportDashboard}
+                    onCreateSnapshot={handleCreateSnapshot}
+                    onRestoreSnapshot={handleRestoreSnapshot}
+                    templates={settings.dashboardTemplates || []}
+                    onSaveAsTemplate={handleSaveAsTemplate}
+                    onDeleteTemplate={handleDeleteTemplate}
+                    secretsToRedact={findSecrets(widgets)}
+                  />
+                </div>
+                {/* Sync indicator */}
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <div className="flex items-center">
+                        {!isOnline ? (
+                          <CloudOff className="h-5 w-5 text-yellow-500 dark:text-yellow-400" />
+                        ) : storageBackend.isAuthenticated() ? (
+                          isSyncing ? (
+                            <Loader2 className="h-5 w-5 text-green-500 dark:text-green-400" />
+                          ) : syncStatus === 'conflict' ? (
+                            <button
+                              type="button"
+                              onClick={() => setIsConflictDialogOpen(true)}
+                              aria-label="Resolve sync conflicts"
+                              className="flex items-center"
+                            >
+                              <AlertTriangle className="h-5 w-5 text-amber-500 dark:text-amber-400" />
+                            </button>
+                          ) : syncStatus === 'pending' ? (
+                            <CloudUpload className="h-5 w-5 text-green-500 dark:text-green-400" />
+                          ) : syncStatus === 'success' ? (
+                            <Cloud className="h-5 w-5 text-green-500 dark:text-green-400" />
+                          ) : syncStatus === 'error' ? (
+                            <Cloud className="h-5 w-5 text-red-500 dark:text-red-400" />
+                          ) : (
+                            <Cloud className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+                          )
+                        ) : (
+                          <Cloud className="h-5 w-5 text-gray-400 dark:text-gray-500" />
+                        )}
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom" sideOffset={5} className="max-w-[300px] bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 shadow-lg">
+                      <div>
+                        <p className="font-semibold">
+                          {!isOnline ? (
+                            "You are offline. Some features may be limited."
+                          ) : storageBackend.isAuthenticated() ? (
+                            isSyncing ? "Syncing..." : 
+                            syncStatus === 'conflict' ? `${conflicts.length === 1 ? 'A widget was' : `${conflicts.length} widgets were`} changed on another device too - click to resolve` :
+                            syncStatus === 'pending' ? "Saving changes..." :
+                            syncStatus === 'success' ? "Everything is synced!" :
+                            syncStatus === 'error' ? "Sync error" :
+                            "Ready to sync"
+                          ) : storageBackend.name === 'rest' ? (
+                            "Add a sync token in Settings to sync (saved locally for now)"
+                          ) : (
+                            "Sign up to sync (saved locally for now)"
+                          )}
+                        </p>
+                      </div>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
 
-          <div className="flex items-center space-x-1 sm:space-x-2"> {/* Use space-x-1 for xs, space-x-2 for sm+ */}
-            <Button
-              onClick={toggleWidgetSelector}
-              aria-label="Add widget"
-              className="rounded-full h-9 transition-colors"
-              size="sm"
-              variant="outline"
-            >
-              <Plus className="h-4 w-4 sm:mr-2" /> {/* Remove margin on xs */}
-              <span className="hidden sm:inline">Add Widget</span> {/* Hide text on xs */}
-            </Button>
-
-            <Button
-              onClick={toggleTheme}
-              className="rounded-full h-9 w-9 p-0 flex items-center justify-center transition-colors"
-              size="sm"
-              aria-label="Toggle theme"
-              variant="outline"
-            >
-              {theme === 'dark' ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
-            </Button>
+              <div className="flex items-center space-x-1 sm:space-x-2"> {/* Use space-x-1 for xs, space-x-2 for sm+ */}
+                <Button
+                  onClick={toggleWidgetSelector}
+                  aria-label="Add widget"
+                  className="rounded-full h-9 transition-colors"
+                  size="sm"
+                  variant="outline"
+                >
+                  <Plus className="h-4 w-4 sm:mr-2" /> {/* Remove margin on xs */}
+                  <span className="hidden sm:inline">Add Widget</span> {/* Hide text on xs */}
+                </Button>
+
+                <Button
+                  onClick={handleToggleLayoutLock}
+                  className="rounded-full h-9 w-9 p-0 flex items-center justify-center transition-colors"
+                  size="sm"
+                  aria-label={isLayoutLocked ? 'Unlock layout' : 'Lock layout'}
+                  aria-pressed={isLayoutLocked}
+                  title={isLayoutLocked ? 'Unlock layout' : 'Lock layout'}
+                  variant={isLayoutLocked ? 'secondary' : 'outline'}
+                >
+                  {isLayoutLocked ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+                </Button>
+
+                <AlertCenter />
+
+                <Button
+                  onClick={toggleTheme}
+                  className="rounded-full h-9 w-9 p-0 flex items-center justify-center transition-colors"
+                  size="sm"
+                  aria-label="Toggle theme"
+                  variant="outline"
+                >
+                  {theme === 'dark' ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+                </Button>
             
 
-            <div className="flex items-center">
-              {/* UserMenuButton is now responsive internally */}
-              <UserMenuButton className="h-9" />
+                <div className="flex items-center">
+                  {/* UserMenuButton is now responsive internally */}
+                  <UserMenuButton className="h-9" />
+                </div>
+              </div>
             </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
       
       {/* Main */}
       <div className="min-h-screen overflow-x-hidden app-background">
-        <main className="pt-16 md:pt-20">
-          <WidgetSelector 
-            isOpen={widgetSelectorOpen}
-            onClose={toggleWidgetSelector}
-            onAddWidget={addWidget}
-            widgetRegistry={WIDGET_REGISTRY}
-            widgetCategories={widgetCategories}
-          />
+        <main className={isKiosk ? 'pt-2' : 'pt-16 md:pt-20'}>
+          {!isKiosk && (
+            <WidgetSelector 
+              isOpen={widgetSelectorOpen}
+              onClose={toggleWidgetSelector}
+              onAddWidget={addWidget}
+              widgetRegistry={WIDGET_REGISTRY}
+              widgetCategories={widgetCategories}
+            />
+          )}
           
           <div className="w-full">
             <div className="mobile-view-container">
@@ -1992,48 +3071,29 @@ function App() {
                   </div>
                 </div>
               )}
-              {/* Hide grid completely until layout is ready to prevent position animation */}
-              <DashboardContextMenu onAddWidget={toggleWidgetSelector} onAutoArrange={handleAutoArrange}>
-                <div className={isLayoutReady ? '' : 'hidden'}>
-                  <ResponsiveReactGridLayout
-                    className={`layout ${!isTransitionsEnabled ? 'layout-loading' : ''}`}
-                    layouts={layouts}
-                    breakpoints={breakpoints}
-                    cols={cols}
-                    rowHeight={rowHeight}
-                    onLayoutChange={handleLayoutChange}
-                    onBreakpointChange={(newBreakpoint: string) => {
-                      if (newBreakpoint !== currentBreakpoint) {
-                        // Breakpoint changed
-                        setCurrentBreakpoint(newBreakpoint);
-                      }
-                    }}
-                    onDragStart={handleDragStart}
-                    onDrag={handleDrag}
-                    onDragStop={handleDragStop}
-                    onResizeStart={handleResizeStart}
-                    onResize={handleResize}
-                    onResizeStop={handleResizeStop}
-                    margin={[15, 15]}
-                    containerPadding={[10, 10]}
-                    draggableHandle=".widget-drag-handle"
-                    draggableCancel=".settings-button"
-                    useCSSTransforms={true}
-                    measureBeforeMount={false}
-                    compactType="vertical"
-                    verticalCompact={true}
-                    preventCollision={false}
-                    isResizable={true}
-                    isDraggable={true}
-                    isBounded={false}
-                    autoSize={true}
-                    transformScale={1}
-                    style={{ width: '100%', minHeight: '100%' }}
-                  >
-                    {renderWidgetItems()}
-                  </ResponsiveReactGridLayout>
-                </div>
-              </DashboardContextMenu>
+              <p id="widget-keyboard-help" className="sr-only">
+                Arrow keys move the widget, Shift with arrow keys resizes it, P pins it in place, Enter opens its settings and Delete removes it.
+              </p>
+              <div role="status" aria-live="polite" className="sr-only">
+                {gridAnnouncement && <span key={gridAnnouncement.id}>{gridAnnouncement.text}</span>}
+              </div>
+              {/* Kiosk mode shows the grid without the dashboard context menu */}
+              {isKiosk ? dashboardGrid : (
+                <DashboardContextMenu
+                  onAddWidget={toggleWidgetSelector}
+                  onAutoArrange={isLayoutLocked ? undefined : handleAutoArrange}
+                  isLayoutLocked={isLayoutLocked}
+                  onToggleLayoutLock={handleToggleLayoutLock}
+                  isWidgetPinned={(widgetId) => layouts[currentBreakpoint]?.find(item => item.i === widgetId)?.static === true}
+                  onTogglePin={handleTogglePin}
+                  onOpenCommandPalette={() => setCommandPaletteOpen(true)}
+                  onUndo={history.canUndo ? handleUndo : undefined}
+                  onRedo={history.canRedo ? handleRedo : undefined}
+                  dashboards={dashboards}
+                >
+                  {dashboardGrid}
+                </DashboardContextMenu>
+              )}
             </div>
           </div>
         </main>
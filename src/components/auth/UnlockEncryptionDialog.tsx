@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { keyring } from '@/lib/keyring';
+import { useKeyring } from '@/lib/useKeyring';
+
+/**
+ * Asks for the encryption passphrase when the signed in user's secrets are
+ * locked on this device. Widgets keep showing until then, just without their
+ * API keys; closing the dialog leaves unlocking to App Settings → Security.
+ */
+export function UnlockEncryptionDialog() {
+  const { status } = useKeyring();
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [remember, setRemember] = useState(true);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    try {
+      await keyring.unlock(passphrase, remember);
+      setPassphrase('');
+      toast.success('Secrets unlocked');
+    } catch (error) {
+      toast.error('Failed to unlock', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const openRecovery = () => {
+    setIsDismissed(true);
+    document.dispatchEvent(new CustomEvent('boxento:openAppSettings', { detail: { tab: 'security' } }));
+  };
+
+  return (
+    <Dialog open={status === 'locked' && !isDismissed} onOpenChange={(open) => !open && setIsDismissed(true)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Unlock your secrets</DialogTitle>
+          <DialogDescription>
+            Your widgets' API keys are encrypted with your passphrase. Enter it to use them on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleUnlock();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="unlock-passphrase">Passphrase</Label>
+            <Input
+              id="unlock-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete="current-password"
+              autoFocus
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="unlock-remember">Remember on this device</Label>
+            <Switch id="unlock-remember" checked={remember} onCheckedChange={setRemember} />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Button type="button" variant="link" size="sm" className="px-0" onClick={openRecovery}>
+              Use recovery key
+            </Button>
+            <Button type="submit" disabled={!passphrase || isUnlocking}>
+              {isUnlocking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,9 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '@/lib/useAuth';
 import type { AuthContextType } from '@/lib/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
-import { User, LogOut, Mail } from 'lucide-react';
+import { User, LogOut, Mail, Server } from 'lucide-react';
 import { AuthForm } from './AuthForm';
 import { 
   DropdownMenu, 
@@ -15,6 +15,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { isFirebaseInitialized } from '@/lib/firebase';
+import { storageBackend } from '@/lib/storage';
 
 interface UserMenuButtonProps {
   className?: string;
@@ -23,6 +24,32 @@ interface UserMenuButtonProps {
 export function UserMenuButton({ className }: UserMenuButtonProps) {
   const [open, setOpen] = useState(false);
   const { currentUser, logout } = useAuth() as AuthContextType;
+  const [isSyncConnected, setIsSyncConnected] = useState(storageBackend.isAuthenticated());
+
+  useEffect(() => {
+    if (storageBackend.name !== 'rest') return;
+    return storageBackend.onAuthStateChanged(setIsSyncConnected);
+  }, []);
+
+  // Self-hosted sync uses a sync token instead of an account
+  if (storageBackend.name === 'rest') {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => document.dispatchEvent(
+          new CustomEvent('boxento:openAppSettings', { detail: { tab: 'storage' } })
+        )}
+        className={`rounded-full transition-colors ${className} flex items-center gap-2`}
+      >
+        <Server className="h-4 w-4" />
+        {/* Hide text on xs screens, show on sm and larger */}
+        <span className="hidden sm:inline">
+          {isSyncConnected ? 'Self-hosted' : 'Connect'}
+        </span>
+      </Button>
+    );
+  }
 
   // Show local-only mode indicator if Firebase is not configured
   if (!isFirebaseInitialized) {
@@ -0,0 +1,145 @@
+import { useState, useSyncExternalStore } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, BellOff, AlertTriangle, CheckCircle2, Info, X, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAppSettings } from '@/context/AppSettingsContext';
+import {
+  AlertSeverity,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  notificationService,
+  WidgetAlert,
+} from '@/lib/notifications';
+
+const SEVERITY_ICONS: Record<AlertSeverity, React.ReactNode> = {
+  info: <Info className="h-4 w-4 text-blue-500" />,
+  success: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  warning: <AlertTriangle className="h-4 w-4 text-amber-500" />,
+  error: <XCircle className="h-4 w-4 text-red-500" />,
+};
+
+/**
+ * Header button listing the alerts widgets raised, with a badge for unread ones.
+ * Alerts are marked read when the list is closed, so new ones stand out while it's open.
+ */
+export function AlertCenter() {
+  const [open, setOpen] = useState(false);
+  const alerts = useSyncExternalStore(notificationService.subscribe, notificationService.getSnapshot);
+  const { settings, updateSettings } = useAppSettings();
+
+  const notifications = { ...DEFAULT_NOTIFICATION_SETTINGS, ...settings.notifications };
+  const unreadCount = alerts.filter(alert => !alert.read).length;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) notificationService.markAllRead();
+  };
+
+  const isMuted = (widgetId: string) => notifications.mutedWidgets.some(muted => muted.widgetId === widgetId);
+
+  const toggleMute = (alert: WidgetAlert) => {
+    if (!alert.widgetId) return;
+    const mutedWidgets = isMuted(alert.widgetId)
+      ? notifications.mutedWidgets.filter(muted => muted.widgetId !== alert.widgetId)
+      : [...notifications.mutedWidgets, { widgetId: alert.widgetId, label: alert.source }];
+    updateSettings({ notifications: { ...notifications, mutedWidgets } });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          className="relative rounded-full h-9 w-9 p-0 flex items-center justify-center transition-colors"
+          size="sm"
+          aria-label={unreadCount > 0 ? `Alerts (${unreadCount} unread)` : 'Alerts'}
+          title="Alerts"
+          variant="outline"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="text-sm font-semibold">Alerts</span>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => {
+                setOpen(false);
+                notificationService.markAllRead();
+                document.dispatchEvent(new CustomEvent('boxento:openAppSettings', { detail: { tab: 'notifications' } }));
+              }}
+            >
+              Settings
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={alerts.length === 0}
+              onClick={notificationService.clear}
+            >
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        {alerts.length === 0 ? (
+          <p className="px-4 py-8 text-sm text-center text-muted-foreground">
+            No alerts yet. Widgets post here when a site goes down, a timer ends and the like.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {alerts.map(alert => (
+              <div
+                key={alert.id}
+                className={`group flex gap-3 px-4 py-3 ${alert.read ? '' : 'bg-muted/50'}`}
+              >
+                <div className="pt-0.5 shrink-0">{SEVERITY_ICONS[alert.severity]}</div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium break-words">{alert.title}</p>
+                  {alert.body && (
+                    <p className="text-xs text-muted-foreground break-words">{alert.body}</p>
+                  )}
+                  <p className="mt-1 text-[11px] text-muted-foreground truncate">
+                    {alert.source} · {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+                    {alert.silenced && ' · silenced'}
+                  </p>
+                </div>
+                <div className="flex flex-col gap-1 shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <button
+                    type="button"
+                    onClick={() => notificationService.remove(alert.id)}
+                    aria-label="Dismiss alert"
+                    title="Dismiss"
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                  {alert.widgetId && (
+                    <button
+                      type="button"
+                      onClick={() => toggleMute(alert)}
+                      aria-label={isMuted(alert.widgetId) ? `Unmute ${alert.source}` : `Mute ${alert.source}`}
+                      title={isMuted(alert.widgetId) ? 'Unmute widget' : 'Mute widget'}
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      {isMuted(alert.widgetId) ? <Bell className="h-3.5 w-3.5" /> : <BellOff className="h-3.5 w-3.5" />}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
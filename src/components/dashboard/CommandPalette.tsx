@@ -0,0 +1,294 @@
+import { useState, useEffect, useMemo, useRef, type KeyboardEvent } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Box, Loader2, Search } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { getWidgetConfigByType, getWidgetDisplayName } from '@/components/widgets';
+import { widgetSearchIndex, matchesQuery, WidgetSearchItem } from '@/lib/widgetSearch';
+import { cn } from '@/lib/utils';
+import type { Widget } from '@/types';
+
+// Content results are capped so a broad query stays fast on large dashboards
+const MAX_CONTENT_RESULTS = 50;
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  /** Heading the command is listed under */
+  group: string;
+  icon: LucideIcon;
+  /** Extra words the command can be found by */
+  keywords?: string;
+  /** Only listed once something is typed, for long lists like one command per widget type */
+  searchOnly?: boolean;
+  onSelect: () => void;
+}
+
+/**
+ * A dashboard and its widgets, with their stored configs
+ */
+export interface SearchableDashboard {
+  id: string;
+  name: string;
+  widgets: Widget[];
+}
+
+interface ContentResult {
+  dashboardId: string;
+  dashboardName: string;
+  widgetId: string;
+  widgetTitle: string;
+  item: WidgetSearchItem;
+}
+
+type PaletteResult =
+  | { kind: 'command'; key: string; group: string; command: PaletteCommand }
+  | { kind: 'content'; key: string; group: string; content: ContentResult };
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: PaletteCommand[];
+  /** Loads every dashboard's widgets; called each time the palette opens */
+  loadDashboards: () => Promise<SearchableDashboard[]>;
+  currentDashboardId: string;
+  /** Show a widget, switching dashboards if needed */
+  onSelectWidget: (dashboardId: string, widgetId: string) => void;
+}
+
+/**
+ * Searchable content of a widget: what its config holds plus what it reported at runtime
+ */
+const getWidgetSearchItems = (widget: Widget): WidgetSearchItem[] => {
+  const registryConfig = getWidgetConfigByType(widget.type);
+  let configItems: WidgetSearchItem[] = [];
+  try {
+    configItems = registryConfig?.getSearchItems?.(widget.config || {}) || [];
+  } catch (error) {
+    console.warn(`Could not index widget ${widget.id}:`, error);
+  }
+  return [...configItems, ...widgetSearchIndex.getRuntimeItems(widget.id)];
+};
+
+const searchWidgetContent = (dashboards: SearchableDashboard[], query: string): ContentResult[] => {
+  const results: ContentResult[] = [];
+
+  for (const dashboard of dashboards) {
+    for (const widget of dashboard.widgets) {
+      for (const item of getWidgetSearchItems(widget)) {
+        if (!matchesQuery(`${item.text} ${item.detail ?? ''}`, query)) continue;
+
+        results.push({
+          dashboardId: dashboard.id,
+          dashboardName: dashboard.name,
+          widgetId: widget.id,
+          widgetTitle: getWidgetDisplayName(widget),
+          item,
+        });
+        if (results.length >= MAX_CONTENT_RESULTS) return results;
+      }
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Ctrl+K palette for running dashboard commands and finding widget content
+ * across all dashboards
+ */
+export function CommandPalette({
+  open,
+  onOpenChange,
+  commands,
+  loadDashboards,
+  currentDashboardId,
+  onSelectWidget,
+}: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dashboards, setDashboards] = useState<SearchableDashboard[]>([]);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Load fresh widget content each time the palette opens
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setQuery('');
+    setActiveIndex(0);
+    setIsIndexing(true);
+    loadDashboards()
+      .then(loaded => {
+        if (cancelled) return;
+        // Results from the current dashboard come first
+        setDashboards([
+          ...loaded.filter(dashboard => dashboard.id === currentDashboardId),
+          ...loaded.filter(dashboard => dashboard.id !== currentDashboardId),
+        ]);
+      })
+      .catch(error => {
+        console.error('Error loading dashboards for search:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsIndexing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, loadDashboards, currentDashboardId]);
+
+  const results = useMemo<PaletteResult[]>(() => {
+    const trimmedQuery = query.trim();
+    const matchingCommands = trimmedQuery
+      ? commands.filter(command =>
+          matchesQuery(`${command.label} ${command.group} ${command.keywords ?? ''}`, trimmedQuery)
+        )
+      : commands.filter(command => !command.searchOnly);
+
+    const commandResults: PaletteResult[] = matchingCommands.map(command => ({
+      kind: 'command',
+      key: `command-${command.id}`,
+      group: command.group,
+      command,
+    }));
+
+    if (!trimmedQuery) return commandResults;
+
+    const contentResults: PaletteResult[] = searchWidgetContent(dashboards, trimmedQuery).map((content, index) => ({
+      kind: 'content',
+      key: `content-${content.widgetId}-${index}`,
+      group: 'Widget Content',
+      content,
+    }));
+
+    return [...commandResults, ...contentResults];
+  }, [query, commands, dashboards]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the active result visible while moving through the list with the keyboard
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const selectResult = (result: PaletteResult) => {
+    onOpenChange(false);
+    if (result.kind === 'command') {
+      result.command.onSelect();
+    } else {
+      onSelectWidget(result.content.dashboardId, result.content.widgetId);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (results.length ? (index + 1) % results.length : 0));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (results.length ? (index - 1 + results.length) % results.length : 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const result = results[activeIndex];
+      if (result) selectResult(result);
+    }
+  };
+
+  const activeResult = results[activeIndex];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl p-0 gap-0 overflow-hidden top-[15%] translate-y-0">
+        <DialogTitle className="sr-only">Command Palette</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search commands and the content of your widgets on every dashboard
+        </DialogDescription>
+
+        <div className="flex items-center gap-2 border-b px-4 pr-10">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search commands, tasks, notes, links..."
+            className="h-12 w-full bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="command-palette-results"
+            aria-activedescendant={activeResult ? `command-palette-${activeResult.key}` : undefined}
+            aria-autocomplete="list"
+            autoFocus
+          />
+          {isIndexing && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />}
+        </div>
+
+        <div
+          ref={listRef}
+          id="command-palette-results"
+          role="listbox"
+          aria-label="Results"
+          className="max-h-[60vh] overflow-y-auto p-2"
+        >
+          {results.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {isIndexing ? 'Indexing widgets...' : 'No results found.'}
+            </p>
+          ) : (
+            results.map((result, index) => {
+              const Icon = result.kind === 'command' ? result.command.icon : Box;
+              const showHeading = index === 0 || results[index - 1].group !== result.group;
+
+              return (
+                <div key={result.key}>
+                  {showHeading && (
+                    <div className="px-2 pt-2 pb-1 text-xs font-medium text-muted-foreground" role="presentation">
+                      {result.group}
+                    </div>
+                  )}
+                  <div
+                    id={`command-palette-${result.key}`}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    data-index={index}
+                    onMouseMove={() => setActiveIndex(index)}
+                    onClick={() => selectResult(result)}
+                    className={cn(
+                      'flex cursor-pointer items-center gap-3 rounded-md px-2 py-2 text-sm',
+                      index === activeIndex && 'bg-accent text-accent-foreground'
+                    )}
+                  >
+                    <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    {result.kind === 'command' ? (
+                      <span className="truncate">{result.command.label}</span>
+                    ) : (
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate">{result.content.item.text}</div>
+                        <div className="truncate text-xs text-muted-foreground">
+                          {result.content.widgetTitle}
+                          {result.content.dashboardId !== currentDashboardId && ` · ${result.content.dashboardName}`}
+                          {result.content.item.detail && ` · ${result.content.item.detail}`}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex items-center gap-4 border-t px-4 py-2 text-xs text-muted-foreground">
+          <span><kbd className="font-sans">↑↓</kbd> to navigate</span>
+          <span><kbd className="font-sans">Enter</kbd> to select</span>
+          <span><kbd className="font-sans">Esc</kbd> to close</span>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
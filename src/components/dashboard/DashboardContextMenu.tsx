@@ -6,27 +6,69 @@ import {
   ContextMenuItem,
   ContextMenuSeparator,
   ContextMenuGroup,
-  ContextMenuLabel
+  ContextMenuLabel,
+  ContextMenuShortcut
 } from '@/components/ui/context-menu';
 import { AppSettingsModal } from '@/components/settings/AppSettingsModal';
+import type { AppSettingsTab } from '@/components/settings/AppSettingsModal';
+import type { Dashboard } from '@/components/dashboard/DashboardSwitcher';
 import {
   Plus,
   Settings,
-  LayoutGrid
+  LayoutGrid,
+  Undo2,
+  Redo2,
+  Search,
+  Lock,
+  LockOpen,
+  Pin,
+  PinOff
 } from 'lucide-react';
 
 interface DashboardContextMenuProps {
   children: React.ReactNode;
   onAddWidget: () => void;
   onAutoArrange?: () => void;
+  isLayoutLocked?: boolean;
+  /** Lock or unlock dragging and resizing on the dashboard */
+  onToggleLayoutLock?: () => void;
+  isWidgetPinned?: (widgetId: string) => boolean;
+  /** Pin or unpin the widget the menu was opened on */
+  onTogglePin?: (widgetId: string) => void;
+  /** Open the command palette */
+  onOpenCommandPalette?: () => void;
+  /** Undo the last dashboard edit (omit when there is nothing to undo) */
+  onUndo?: () => void;
+  /** Redo the last undone edit (omit when there is nothing to redo) */
+  onRedo?: () => void;
+  /** Dashboards listed in the kiosk settings */
+  dashboards: Dashboard[];
 }
 
-export function DashboardContextMenu({ children, onAddWidget, onAutoArrange }: DashboardContextMenuProps) {
+export function DashboardContextMenu({
+  children,
+  onAddWidget,
+  onAutoArrange,
+  isLayoutLocked,
+  onToggleLayoutLock,
+  isWidgetPinned,
+  onTogglePin,
+  onOpenCommandPalette,
+  onUndo,
+  onRedo,
+  dashboards,
+}: DashboardContextMenuProps) {
   const [showAppSettings, setShowAppSettings] = useState(false);
+  // Widget the menu was opened on, if any
+  const [menuWidgetId, setMenuWidgetId] = useState<string | null>(null);
+  const isMenuWidgetPinned = menuWidgetId ? isWidgetPinned?.(menuWidgetId) === true : false;
+  const [appSettingsTab, setAppSettingsTab] = useState<AppSettingsTab>('appearance');
 
-  // Listen for the custom event to open app settings
+  // Listen for the custom event to open app settings (optionally on a specific tab)
   React.useEffect(() => {
-    const handleOpenAppSettings = () => {
+    const handleOpenAppSettings = (event: Event) => {
+      const tab = (event as CustomEvent<{ tab?: AppSettingsTab } | undefined>).detail?.tab;
+      setAppSettingsTab(tab || 'appearance');
       setShowAppSettings(true);
     };
     
@@ -40,7 +82,13 @@ export function DashboardContextMenu({ children, onAddWidget, onAutoArrange }: D
   return (
     <>
       <ContextMenu>
-        <ContextMenuTrigger className="h-full w-full outline-none">
+        <ContextMenuTrigger
+          className="h-full w-full outline-none"
+          onContextMenu={(event) => {
+            const widgetElement = (event.target as HTMLElement).closest<HTMLElement>('[data-widget-id]');
+            setMenuWidgetId(widgetElement?.dataset.widgetId ?? null);
+          }}
+        >
           {children}
         </ContextMenuTrigger>
         <ContextMenuContent 
@@ -74,6 +122,72 @@ export function DashboardContextMenu({ children, onAddWidget, onAutoArrange }: D
                 </div>
               </ContextMenuItem>
             )}
+            {onToggleLayoutLock && (
+              <ContextMenuItem
+                onClick={onToggleLayoutLock}
+                className="cursor-pointer group py-2.5 px-3 text-sm hover:bg-primary/10 focus:bg-primary/10 transition-colors data-[highlighted]:bg-primary/10 context-menu-highlight"
+              >
+                <div className="flex items-center">
+                  <div className="bg-primary/10 rounded-full p-1.5 mr-3 group-hover:bg-primary/20 group-focus:bg-primary/20 transition-colors">
+                    {isLayoutLocked ? <LockOpen className="h-4 w-4 text-primary" /> : <Lock className="h-4 w-4 text-primary" />}
+                  </div>
+                  <span>{isLayoutLocked ? 'Unlock Layout' : 'Lock Layout'}</span>
+                </div>
+              </ContextMenuItem>
+            )}
+            {onTogglePin && menuWidgetId && (
+              <ContextMenuItem
+                onClick={() => onTogglePin(menuWidgetId)}
+                className="cursor-pointer group py-2.5 px-3 text-sm hover:bg-primary/10 focus:bg-primary/10 transition-colors data-[highlighted]:bg-primary/10 context-menu-highlight"
+              >
+                <div className="flex items-center">
+                  <div className="bg-primary/10 rounded-full p-1.5 mr-3 group-hover:bg-primary/20 group-focus:bg-primary/20 transition-colors">
+                    {isMenuWidgetPinned ? <PinOff className="h-4 w-4 text-primary" /> : <Pin className="h-4 w-4 text-primary" />}
+                  </div>
+                  <span>{isMenuWidgetPinned ? 'Unpin Widget' : 'Pin Widget'}</span>
+                </div>
+              </ContextMenuItem>
+            )}
+            {onOpenCommandPalette && (
+              <ContextMenuItem
+                onClick={onOpenCommandPalette}
+                className="cursor-pointer group py-2.5 px-3 text-sm hover:bg-primary/10 focus:bg-primary/10 transition-colors data-[highlighted]:bg-primary/10 context-menu-highlight"
+              >
+                <div className="flex items-center">
+                  <div className="bg-primary/10 rounded-full p-1.5 mr-3 group-hover:bg-primary/20 group-focus:bg-primary/20 transition-colors">
+                    <Search className="h-4 w-4 text-primary" />
+                  </div>
+                  <span>Search</span>
+                </div>
+                <ContextMenuShortcut>Ctrl+K</ContextMenuShortcut>
+              </ContextMenuItem>
+            )}
+            <ContextMenuItem
+              onClick={onUndo}
+              disabled={!onUndo}
+              className="cursor-pointer group py-2.5 px-3 text-sm hover:bg-primary/10 focus:bg-primary/10 transition-colors data-[highlighted]:bg-primary/10 context-menu-highlight"
+            >
+              <div className="flex items-center">
+                <div className="bg-primary/10 rounded-full p-1.5 mr-3 group-hover:bg-primary/20 group-focus:bg-primary/20 transition-colors">
+                  <Undo2 className="h-4 w-4 text-primary" />
+                </div>
+                <span>Undo</span>
+              </div>
+              <ContextMenuShortcut>Ctrl+Z</ContextMenuShortcut>
+            </ContextMenuItem>
+            <ContextMenuItem
+              onClick={onRedo}
+              disabled={!onRedo}
+              className="cursor-pointer group py-2.5 px-3 text-sm hover:bg-primary/10 focus:bg-primary/10 transition-colors data-[highlighted]:bg-primary/10 context-menu-highlight"
+            >
+              <div className="flex items-center">
+                <div className="bg-primary/10 rounded-full p-1.5 mr-3 group-hover:bg-primary/20 group-focus:bg-primary/20 transition-colors">
+                  <Redo2 className="h-4 w-4 text-primary" />
+                </div>
+                <span>Redo</span>
+              </div>
+              <ContextMenuShortcut>Ctrl+Shift+Z</ContextMenuShortcut>
+            </ContextMenuItem>
           </ContextMenuGroup>
           
           <ContextMenuSeparator className="my-1.5 opacity-50" />
@@ -83,7 +197,10 @@ export function DashboardContextMenu({ children, onAddWidget, onAutoArrange }: D
               Configuration
             </ContextMenuLabel>
             <ContextMenuItem 
-              onClick={() => setShowAppSettings(true)} 
+              onClick={() => {
+                setAppSettingsTab('appearance');
+                setShowAppSettings(true);
+              }}
               className="cursor-pointer group py-2.5 px-3 text-sm hover:bg-primary/10 focus:bg-primary/10 transition-colors data-[highlighted]:bg-primary/10 context-menu-highlight"
             >
               <div className="flex items-center">
@@ -100,6 +217,8 @@ export function DashboardContextMenu({ children, onAddWidget, onAutoArrange }: D
       <AppSettingsModal 
         open={showAppSettings} 
         onClose={() => setShowAppSettings(false)} 
+        defaultTab={appSettingsTab}
+        dashboards={dashboards}
       />
     </>
   );
@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useState, useRef } from 'react';
+import { toast } from 'sonner';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -24,7 +25,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { ChevronDown, Plus, Settings, Lock, Globe, Users, Copy, Check, Trash2 } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { ChevronDown, Plus, Settings, Lock, Globe, Users, Copy, Check, Trash2, Download, Upload, AlertTriangle, LayoutTemplate } from 'lucide-react';
+import { dashboardBundleUtils, DashboardBundle, SensitiveFieldMode } from '@/lib/dashboardBundle';
+import type { DashboardSnapshot } from '@/lib/dashboardSnapshots';
+import type { SecretFinding } from '@/lib/sensitiveFields';
+import type { DashboardTemplate } from '@/lib/dashboardTemplates';
+import { SnapshotBrowser } from './SnapshotBrowser';
+import { SharedUsersEditor } from './SharedUsersEditor';
+import { TemplateGallery } from './TemplateGallery';
 
 export type DashboardVisibility = 'private' | 'team' | 'public';
 export type ShareRole = 'viewer' | 'editor';
@@ -42,15 +51,28 @@ export interface Dashboard {
   isDefault?: boolean;
   createdAt: string;
   ownerId?: string;
+  /** Widgets can't be dragged or resized while the layout is locked */
+  layoutLocked?: boolean;
 }
 
 interface DashboardSwitcherProps {
   dashboards: Dashboard[];
   currentDashboard: Dashboard;
   onSwitchDashboard: (dashboard: Dashboard) => void;
-  onCreateDashboard: (name: string, visibility: DashboardVisibility) => void;
+  /** Create a dashboard, from a template or with the default widgets */
+  onCreateDashboard: (name: string, visibility: DashboardVisibility, template?: DashboardTemplate) => void;
   onUpdateDashboard: (dashboard: Dashboard) => void;
   onDeleteDashboard: (dashboardId: string) => void;
+  onExportDashboard: (sensitiveFieldMode: SensitiveFieldMode) => void;
+  onImportDashboard: (bundle: DashboardBundle) => void;
+  onCreateSnapshot: () => Promise<void>;
+  onRestoreSnapshot: (snapshot: DashboardSnapshot) => Promise<void>;
+  /** Secrets in the current dashboard's widgets, removed when it is published */
+  secretsToRedact: SecretFinding[];
+  /** Personal templates saved by the user */
+  templates: DashboardTemplate[];
+  onSaveAsTemplate: (name: string, description: string) => Promise<void>;
+  onDeleteTemplate: (templateId: string) => void;
 }
 
 const VisibilityIcon = ({ visibility }: { visibility: DashboardVisibility }) => {
@@ -72,27 +94,75 @@ export function DashboardSwitcher({
   onCreateDashboard,
   onUpdateDashboard,
   onDeleteDashboard,
+  onExportDashboard,
+  onImportDashboard,
+  onCreateSnapshot,
+  onRestoreSnapshot,
+  secretsToRedact,
+  templates,
+  onSaveAsTemplate,
+  onDeleteTemplate,
 }: DashboardSwitcherProps) {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
   const [newDashboardName, setNewDashboardName] = useState('');
   const [newDashboardVisibility, setNewDashboardVisibility] = useState<DashboardVisibility>('private');
+  const [newDashboardTemplate, setNewDashboardTemplate] = useState<DashboardTemplate | null>(null);
+  const [showSaveTemplateDialog, setShowSaveTemplateDialog] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [templateDescription, setTemplateDescription] = useState('');
   const [editName, setEditName] = useState('');
   const [editVisibility, setEditVisibility] = useState<DashboardVisibility>('private');
+  const [editSharedWith, setEditSharedWith] = useState<SharedUser[]>([]);
   const [copied, setCopied] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [includeSensitiveFields, setIncludeSensitiveFields] = useState(false);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
 
   const handleCreateDashboard = () => {
     if (newDashboardName.trim()) {
-      onCreateDashboard(newDashboardName.trim(), newDashboardVisibility);
+      onCreateDashboard(newDashboardName.trim(), newDashboardVisibility, newDashboardTemplate ?? undefined);
       setNewDashboardName('');
       setNewDashboardVisibility('private');
+      setNewDashboardTemplate(null);
       setShowCreateDialog(false);
     }
   };
 
+  const handleSelectTemplate = (template: DashboardTemplate | null) => {
+    // Suggest the template's name until the user types their own
+    const previousName = newDashboardTemplate?.name ?? '';
+    if (template && (newDashboardName.trim() === '' || newDashboardName === previousName)) {
+      setNewDashboardName(template.name);
+    }
+    setNewDashboardTemplate(template);
+  };
+
+  const handleDeleteTemplate = (template: DashboardTemplate) => {
+    if (confirm(`Delete the template "${template.name}"? Dashboards created from it are kept.`)) {
+      onDeleteTemplate(template.id);
+      if (newDashboardTemplate?.id === template.id) {
+        setNewDashboardTemplate(null);
+      }
+    }
+  };
+
+  const handleOpenSaveTemplate = () => {
+    setTemplateName(currentDashboard.name);
+    setTemplateDescription('');
+    setShowSaveTemplateDialog(true);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) return;
+    await onSaveAsTemplate(templateName.trim(), templateDescription.trim());
+    setShowSaveTemplateDialog(false);
+  };
+
   const handleOpenSettings = () => {
     setEditName(currentDashboard.name);
     setEditVisibility(currentDashboard.visibility);
+    setEditSharedWith(currentDashboard.sharedWith || []);
     setShowSettingsDialog(true);
   };
 
@@ -101,6 +171,7 @@ export function DashboardSwitcher({
       ...currentDashboard,
       name: editName.trim() || currentDashboard.name,
       visibility: editVisibility,
+      sharedWith: editSharedWith,
     });
     setShowSettingsDialog(false);
   };
@@ -119,6 +190,29 @@ export function DashboardSwitcher({
     }
   };
 
+  const handleExportDashboard = () => {
+    onExportDashboard(includeSensitiveFields ? 'include' : 'strip');
+    setIncludeSensitiveFields(false);
+    setShowExportDialog(false);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still triggers onChange
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const bundle = dashboardBundleUtils.parseBundle(await file.text());
+      onImportDashboard(bundle);
+    } catch (error) {
+      toast.error('Import failed', {
+        description: error instanceof Error ? error.message : 'Could not read the dashboard file.',
+        duration: 5000,
+      });
+    }
+  };
+
   const otherDashboards = dashboards.filter(d => d.id !== currentDashboard.id);
 
   return (
@@ -173,12 +267,88 @@ export function DashboardSwitcher({
             <Settings className="h-4 w-4 mr-2" />
             Dashboard Settings
           </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={handleOpenSaveTemplate}
+            className="cursor-pointer"
+          >
+            <LayoutTemplate className="h-4 w-4 mr-2" />
+            Save as Template
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setShowExportDialog(true)}
+            className="cursor-pointer"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export Dashboard
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => importInputRef.current?.click()}
+            className="cursor-pointer"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import Dashboard
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
 
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        aria-hidden="true"
+        onChange={handleImportFile}
+      />
+
+      {/* Export Dashboard Dialog */}
+      <Dialog open={showExportDialog} onOpenChange={setShowExportDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Export Dashboard</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <p className="text-sm text-muted-foreground">
+              Download "{currentDashboard.name}" with all widgets, layouts and settings as a JSON file.
+              It can be imported as a new dashboard on any Boxento instance.
+            </p>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="export-sensitive">Include API keys and tokens</Label>
+              <Switch
+                id="export-sensitive"
+                checked={includeSensitiveFields}
+                onCheckedChange={setIncludeSensitiveFields}
+              />
+            </div>
+            {includeSensitiveFields ? (
+              <div className="flex gap-2 rounded-md border border-yellow-500/50 bg-yellow-50 dark:bg-yellow-900/20 p-3 text-xs text-yellow-800 dark:text-yellow-200">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                <span>
+                  Secrets are written to the file in plain text. They are re-encrypted when imported,
+                  but anyone holding the file can read them.
+                </span>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                API keys and tokens are removed. They need to be re-entered after import.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowExportDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExportDashboard}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Create Dashboard Dialog */}
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Create New Dashboard</DialogTitle>
           </DialogHeader>
@@ -222,6 +392,15 @@ export function DashboardSwitcher({
                 {newDashboardVisibility === 'public' && 'Anyone with the link can view'}
               </p>
             </div>
+            <div className="space-y-2">
+              <Label>Start From</Label>
+              <TemplateGallery
+                templates={templates}
+                selectedTemplateId={newDashboardTemplate?.id ?? null}
+                onSelectTemplate={handleSelectTemplate}
+                onDeleteTemplate={handleDeleteTemplate}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
@@ -234,6 +413,48 @@ export function DashboardSwitcher({
         </DialogContent>
       </Dialog>
 
+      {/* Save as Template Dialog */}
+      <Dialog open={showSaveTemplateDialog} onOpenChange={setShowSaveTemplateDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <p className="text-sm text-muted-foreground">
+              Save the widgets, layout and settings of "{currentDashboard.name}" so new dashboards can start from them.
+              API keys and tokens are not saved.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Template Name</Label>
+              <Input
+                id="template-name"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveTemplate()}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Input
+                id="template-description"
+                placeholder="e.g., Standup board for the platform team"
+                value={templateDescription}
+                onChange={(e) => setTemplateDescription(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveTemplate()}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveTemplateDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Dashboard Settings Dialog */}
       <Dialog open={showSettingsDialog} onOpenChange={setShowSettingsDialog}>
         <DialogContent className="sm:max-w-md">
@@ -266,6 +487,12 @@ export function DashboardSwitcher({
                         <span>Private</span>
                       </div>
                     </SelectItem>
+                    <SelectItem value="team">
+                      <div className="flex items-center gap-2">
+                        <Users className="h-4 w-4" />
+                        <span>Team</span>
+                      </div>
+                    </SelectItem>
                     <SelectItem value="public">
                       <div className="flex items-center gap-2">
                         <Globe className="h-4 w-4" />
@@ -276,12 +503,37 @@ export function DashboardSwitcher({
                 </Select>
                 <p className="text-xs text-muted-foreground">
                   {editVisibility === 'private' && 'Only you can view this dashboard'}
+                  {editVisibility === 'team' && 'Only you and the people below can open the link'}
                   {editVisibility === 'public' && 'Anyone with the link can view'}
                 </p>
             </div>
 
-            {/* Share link for public dashboards */}
-            {editVisibility === 'public' && (
+            {editVisibility !== 'private' && secretsToRedact.length > 0 && (
+              <div className="flex gap-2 rounded-md border border-yellow-500/50 bg-yellow-50 dark:bg-yellow-900/20 p-3 text-xs text-yellow-800 dark:text-yellow-200">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                <div className="space-y-1">
+                  <p>These secrets are removed before publishing. The widgets using them show a placeholder to viewers:</p>
+                  <ul className="list-disc pl-4">
+                    {secretsToRedact.map(secret => (
+                      <li key={`${secret.widgetId}-${secret.field}`}>
+                        {secret.widgetName}: <code>{secret.field}</code>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+
+            {editVisibility !== 'private' && (
+              <SharedUsersEditor
+                dashboardId={currentDashboard.id}
+                sharedWith={editSharedWith}
+                onChange={setEditSharedWith}
+              />
+            )}
+
+            {/* Share link for public and team dashboards */}
+            {editVisibility !== 'private' && (
               <div className="space-y-2">
                 <Label>Share Link</Label>
                 <div className="flex gap-2">
@@ -304,6 +556,12 @@ export function DashboardSwitcher({
                 </div>
               </div>
             )}
+
+            <SnapshotBrowser
+              dashboard={currentDashboard}
+              onCreateSnapshot={onCreateSnapshot}
+              onRestoreSnapshot={onRestoreSnapshot}
+            />
           </div>
           <DialogFooter className="flex justify-between sm:justify-between">
             {!currentDashboard.isDefault && (
@@ -1,26 +1,67 @@
-import { useState, useEffect, Suspense } from 'react';
+import { useState, useEffect, useRef, useCallback, Suspense } from 'react';
 import { useParams } from 'react-router-dom';
 // @ts-expect-error - The types don't correctly represent the module structure
 import { Responsive, WidthProvider } from 'react-grid-layout';
 import { publicDashboardService, PublicDashboardData } from '@/lib/firestoreService';
-import { getWidgetComponent } from '@/components/widgets';
+import { getWidgetComponent, getWidgetConfigByType, getDefaultWidgetConfig, WIDGET_REGISTRY } from '@/components/widgets';
 import WidgetErrorBoundary from '@/components/widgets/common/WidgetErrorBoundary';
-import { breakpoints, cols } from '@/lib/layoutUtils';
-import { Loader2, Lock, AlertCircle, Moon, Sun } from 'lucide-react';
+import WidgetSelector from '@/components/widgets/common/WidgetSelector';
+import { breakpoints, cols, createDefaultLayoutItem } from '@/lib/layoutUtils';
+import { Loader2, Lock, AlertCircle, Moon, Sun, Pencil, Check, Plus, Send, KeyRound, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { auth } from '@/lib/firebase';
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/useAuth';
+import type { AuthContextType } from '@/lib/AuthContext';
+import { storageBackend, AccessDeniedError } from '@/lib/storage';
+import { TIMING } from '@/lib/constants';
+import { getStackChildren, STACK_WIDGET_TYPE } from '@/lib/widgetStacks';
+import { useCustomWidgets } from '@/lib/useCustomWidgets';
 import { UserMenuButton } from '@/components/auth/UserMenuButton';
+import { AuthForm } from '@/components/auth/AuthForm';
+import { LayoutItem, WidgetConfig } from '@/types';
 import 'react-grid-layout/css/styles.css';
 import 'react-resizable/css/styles.css';
 
 const ResponsiveGridLayout = WidthProvider(Responsive);
 
+/**
+ * Why a dashboard couldn't be shown
+ * - 'sign-in': not signed in, the dashboard may be shared with the user's account
+ * - 'request-access': signed in, but not on the dashboard's sharedWith list
+ */
+type AccessState = 'granted' | 'sign-in' | 'request-access';
+
+// Widget selector categories, grouped the same way as in the main app.
+// Built on demand because custom widgets join the registry at runtime.
+const getWidgetCategories = (): { [category: string]: WidgetConfig[] } => {
+  const categories: { [category: string]: WidgetConfig[] } = {};
+  WIDGET_REGISTRY.forEach(widget => {
+    const category = widget.category || 'Other';
+    if (!categories[category]) {
+      categories[category] = [];
+    }
+    categories[category].push(widget);
+  });
+  return categories;
+};
+
 export function SharedDashboardView() {
   const { dashboardId } = useParams<{ dashboardId: string }>();
   const [dashboard, setDashboard] = useState<PublicDashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentBreakpoint, setCurrentBreakpoint] = useState('lg');
+  const [isEditing, setIsEditing] = useState(false);
+  const [widgetSelectorOpen, setWidgetSelectorOpen] = useState(false);
+  const [accessState, setAccessState] = useState<AccessState>('granted');
+  const [requestStatus, setRequestStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const { currentUser, logout } = useAuth() as AuthContextType;
+  // The viewer's own custom widgets; re-renders as their modules load
+  useCustomWidgets();
+  const currentUserId = currentUser?.uid;
+  // Latest dashboard state, read by the debounced save
+  const dashboardRef = useRef<PublicDashboardData | null>(null);
+  const saveTimeoutRef = useRef<number | null>(null);
   const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     if (typeof window !== 'undefined') {
@@ -80,7 +121,10 @@ export function SharedDashboardView() {
         return;
       }
 
+      setLoading(true);
+      setError(null);
       try {
+        // Visibility and sharedWith are enforced by the storage backend
         const data = await publicDashboardService.loadDashboard(dashboardId);
 
         if (!data) {
@@ -89,27 +133,187 @@ export function SharedDashboardView() {
           return;
         }
 
-        // Check access for team dashboards
-        if (data.visibility === 'team') {
-          const userEmail = auth?.currentUser?.email;
-          if (!publicDashboardService.hasAccess(data, userEmail)) {
-            setError('You do not have access to this dashboard');
-            setLoading(false);
-            return;
-          }
-        }
-
         setDashboard(data);
+        setAccessState('granted');
         setLoading(false);
       } catch (err) {
-        console.error('Error loading dashboard:', err);
-        setError('Failed to load dashboard');
+        if (err instanceof AccessDeniedError) {
+          setDashboard(null);
+          setAccessState(storageBackend.isAuthenticated() ? 'request-access' : 'sign-in');
+        } else {
+          console.error('Error loading dashboard:', err);
+          setError('Failed to load dashboard');
+        }
         setLoading(false);
       }
     };
 
     loadDashboard();
-  }, [dashboardId]);
+    setRequestStatus('idle');
+  }, [dashboardId, currentUserId]);
+
+  const handleRequestAccess = async () => {
+    if (!dashboardId) return;
+    setRequestStatus('sending');
+    try {
+      await publicDashboardService.requestAccess(dashboardId);
+      setRequestStatus('sent');
+    } catch (err) {
+      console.error('Error requesting access:', err);
+      toast.error('Could not send the request');
+      setRequestStatus('idle');
+    }
+  };
+
+  useEffect(() => {
+    dashboardRef.current = dashboard;
+  }, [dashboard]);
+
+  // Users shared with the editor role can edit here; owners edit from their own
+  // dashboard. The security rules only accept editors with a verified email.
+  const canEdit = !!dashboard
+    && dashboard.ownerId !== storageBackend.getUserId()
+    && publicDashboardService.isEditor(dashboard, currentUser?.emailVerified ? currentUser.email : null);
+
+  const flushSave = useCallback(async () => {
+    if (saveTimeoutRef.current !== null) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    const current = dashboardRef.current;
+    if (!current) return;
+
+    try {
+      await publicDashboardService.saveSharedContent(
+        current.id,
+        current.widgets,
+        current.layouts,
+        current.widgetConfigs
+      );
+    } catch {
+      toast.error('Could not save changes', {
+        description: 'You may no longer have editor access to this dashboard.',
+      });
+    }
+  }, []);
+
+  /**
+   * Apply an edit locally and save it to the shared dashboard after a short delay
+   */
+  const applyEdit = (changes: Partial<PublicDashboardData>) => {
+    const current = dashboardRef.current;
+    if (!current) return;
+
+    const updated = { ...current, ...changes };
+    dashboardRef.current = updated;
+    setDashboard(updated);
+
+    if (saveTimeoutRef.current !== null) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    saveTimeoutRef.current = window.setTimeout(flushSave, TIMING.SAVE_DEBOUNCE_MS);
+  };
+
+  // Don't lose a pending save when leaving the page
+  useEffect(() => {
+    return () => {
+      if (saveTimeoutRef.current !== null) {
+        void flushSave();
+      }
+    };
+  }, [flushSave]);
+
+  const handleLayoutChange = (_currentLayout: LayoutItem[], allLayouts: { [key: string]: LayoutItem[] }) => {
+    if (!isEditing || !dashboard) return;
+    // The grid also reports layouts on mount and breakpoint changes
+    if (JSON.stringify(allLayouts) === JSON.stringify(dashboard.layouts)) return;
+    applyEdit({ layouts: allLayouts });
+  };
+
+  const handleUpdateWidget = (widgetId: string, newConfig: Record<string, unknown>) => {
+    const current = dashboardRef.current;
+    if (!current) return;
+
+    // Widgets may echo their config back on mount - only save real changes
+    const currentConfig = current.widgetConfigs[widgetId] || {};
+    const hasChanges = Object.entries(newConfig).some(
+      ([key, value]) => typeof value !== 'function' && JSON.stringify(currentConfig[key]) !== JSON.stringify(value)
+    );
+    if (!hasChanges) return;
+
+    applyEdit({
+      widgetConfigs: {
+        ...current.widgetConfigs,
+        // JSON round trip drops the callbacks widgets pass along
+        [widgetId]: JSON.parse(JSON.stringify({ ...currentConfig, ...newConfig })),
+      },
+    });
+  };
+
+  // Children of stacks keep their configs in the dashboard's widgetConfigs too
+  const handleUpdateStackChild = (childId: string, childConfig: Record<string, unknown> | null) => {
+    if (childConfig) {
+      handleUpdateWidget(childId, childConfig);
+      return;
+    }
+
+    const current = dashboardRef.current;
+    if (!current?.widgetConfigs[childId]) return;
+    const { [childId]: _removed, ...widgetConfigs } = current.widgetConfigs;
+    applyEdit({ widgetConfigs });
+  };
+
+  const handleDeleteWidget = (widgetId: string) => {
+    const current = dashboardRef.current;
+    if (!current) return;
+
+    const layouts: { [key: string]: LayoutItem[] } = {};
+    for (const [breakpoint, items] of Object.entries(current.layouts)) {
+      layouts[breakpoint] = items.filter(item => item.i !== widgetId);
+    }
+    const widgetConfigs = { ...current.widgetConfigs };
+    getStackChildren(widgetConfigs[widgetId]).forEach(child => delete widgetConfigs[child.id]);
+    delete widgetConfigs[widgetId];
+
+    applyEdit({
+      widgets: current.widgets.filter(w => w.id !== widgetId),
+      layouts,
+      widgetConfigs,
+    });
+  };
+
+  const handleAddWidget = (type: string) => {
+    const current = dashboardRef.current;
+    if (!current) return;
+
+    const widgetId = `${type}-${Date.now()}`;
+    const layouts = { ...current.layouts };
+    Object.keys(breakpoints).forEach(breakpoint => {
+      const existing = layouts[breakpoint] || [];
+      const colCount = cols[breakpoint as keyof typeof cols];
+      layouts[breakpoint] = [
+        ...existing,
+        createDefaultLayoutItem(widgetId, existing.length, colCount, breakpoint, existing),
+      ];
+    });
+
+    applyEdit({
+      widgets: [...current.widgets, { id: widgetId, type, config: {} }],
+      layouts,
+      widgetConfigs: {
+        ...current.widgetConfigs,
+        [widgetId]: JSON.parse(JSON.stringify(getDefaultWidgetConfig(type))),
+      },
+    });
+    setWidgetSelectorOpen(false);
+  };
+
+  const toggleEditing = () => {
+    if (isEditing && saveTimeoutRef.current !== null) {
+      void flushSave();
+    }
+    setIsEditing(!isEditing);
+  };
 
   const renderWidget = (widget: { id: string; type: string }) => {
     const WidgetComponent = getWidgetComponent(widget.type);
@@ -122,6 +326,33 @@ export function SharedDashboardView() {
       );
     }
 
+    // Widgets whose API keys or tokens were redacted can't load their data here
+    const redacted = dashboard?.redactedFields?.[widget.id] || [];
+    if (redacted.length > 0) {
+      const widgetName = getWidgetConfigByType(widget.type)?.name || widget.type;
+      return (
+        <div className="h-full w-full flex flex-col bg-card rounded-lg border text-muted-foreground">
+          <div className={`${isEditing ? 'widget-drag-handle ' : ''}flex items-center justify-between px-3 py-2 text-sm font-medium text-foreground`}>
+            <span className="truncate">{widgetName}</span>
+            {isEditing && (
+              <button
+                type="button"
+                onClick={() => handleDeleteWidget(widget.id)}
+                className="rounded p-1 hover:bg-muted"
+                aria-label={`Remove ${widgetName}`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+          <div className="flex-1 flex flex-col items-center justify-center gap-2 p-3 text-center text-xs">
+            <KeyRound className="h-6 w-6" />
+            <span>This widget uses credentials that aren't included in shared dashboards.</span>
+          </div>
+        </div>
+      );
+    }
+
     const layoutItem = dashboard?.layouts[currentBreakpoint]?.find(item => item.i === widget.id);
     const width = layoutItem?.w || 2;
     const height = layoutItem?.h || 2;
@@ -129,7 +360,20 @@ export function SharedDashboardView() {
     const widgetConfig = {
       ...dashboard?.widgetConfigs[widget.id],
       id: widget.id,
-      readOnly: true,
+      readOnly: !isEditing,
+      // Stacks show their children from the published configs, not the viewer's own
+      ...(widget.type === STACK_WIDGET_TYPE
+        ? {
+            childConfigs: dashboard?.widgetConfigs,
+            ...(isEditing ? { onChildUpdate: handleUpdateStackChild } : {}),
+          }
+        : {}),
+      ...(isEditing
+        ? {
+            onDelete: () => handleDeleteWidget(widget.id),
+            onUpdate: (newConfig: Record<string, unknown>) => handleUpdateWidget(widget.id, newConfig),
+          }
+        : {}),
     };
 
     return (
@@ -160,20 +404,76 @@ export function SharedDashboardView() {
     );
   }
 
-  if (error) {
+  if (accessState === 'sign-in') {
     return (
       <div className="min-h-screen flex items-center justify-center app-background">
-        <div className="text-center max-w-md mx-auto p-6">
-          {error.includes('access') ? (
+        <div className="w-full max-w-md mx-auto p-6">
+          <div className="text-center mb-6">
             <Lock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-xl font-semibold mb-2">Sign in to view this dashboard</h1>
+            <p className="text-muted-foreground">
+              This dashboard is only shared with specific people.
+            </p>
+          </div>
+          {storageBackend.name === 'firestore' ? (
+            <div className="rounded-xl border bg-card p-4">
+              <AuthForm />
+            </div>
           ) : (
-            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <p className="text-center text-muted-foreground">
+              Connect this device with the owner's sync token in App Settings to open it.
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (accessState === 'request-access') {
+    return (
+      <div className="min-h-screen flex items-center justify-center app-background">
+        <div className="text-center max-w-md mx-auto p-6">
+          <Lock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h1 className="text-xl font-semibold mb-2">You do not have access to this dashboard</h1>
+          <p className="text-muted-foreground mb-2">
+            {currentUser?.email
+              ? `You are signed in as ${currentUser.email}.`
+              : 'This dashboard is only shared with specific people.'}
+          </p>
+          {currentUser && !currentUser.emailVerified && (
+            <p className="text-muted-foreground mb-2">
+              Verify your email address to open dashboards shared with you.
+            </p>
           )}
+          <div className="flex flex-col items-center gap-3 mt-6">
+            {storageBackend.name === 'firestore' && (
+              <Button onClick={handleRequestAccess} disabled={requestStatus !== 'idle'}>
+                {requestStatus === 'sent' ? <Check className="h-4 w-4 mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+                {requestStatus === 'sent' ? 'Request sent' : 'Request access'}
+              </Button>
+            )}
+            {currentUser && (
+              <Button variant="ghost" size="sm" onClick={() => void logout()}>
+                Use a different account
+              </Button>
+            )}
+            <a href="/" className="text-primary hover:underline">
+              Go to Boxento
+            </a>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center app-background">
+        <div className="text-center max-w-md mx-auto p-6">
+          <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
           <h1 className="text-xl font-semibold mb-2">{error}</h1>
           <p className="text-muted-foreground mb-6">
-            {error.includes('access')
-              ? 'This dashboard is only shared with specific people.'
-              : 'The dashboard you are looking for does not exist or has been removed.'}
+            The dashboard you are looking for does not exist or has been removed.
           </p>
           <a href="/" className="text-primary hover:underline">
             Go to Boxento
@@ -188,17 +488,39 @@ export function SharedDashboardView() {
   }
 
   return (
-    <div className={`min-h-screen app-background read-only-dashboard flex flex-col ${theme === 'dark' ? 'dark' : ''}`} data-theme={theme}>
+    <div className={`min-h-screen app-background ${isEditing ? '' : 'read-only-dashboard'} flex flex-col ${theme === 'dark' ? 'dark' : ''}`} data-theme={theme}>
       {/* Header - fixed like main app */}
       <div className="fixed top-0 z-50 w-full backdrop-blur-sm app-header">
         <div className="px-2 sm:px-4 py-3 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <h1 className="text-lg font-semibold">{dashboard.name}</h1>
             <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
-              View only
+              {isEditing ? 'Editing' : canEdit ? 'Can edit' : 'View only'}
             </span>
           </div>
           <div className="flex items-center space-x-1 sm:space-x-2">
+            {isEditing && (
+              <Button
+                onClick={() => setWidgetSelectorOpen(true)}
+                className="h-9"
+                size="sm"
+                variant="outline"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Widget
+              </Button>
+            )}
+            {canEdit && (
+              <Button
+                onClick={toggleEditing}
+                className="h-9"
+                size="sm"
+                variant={isEditing ? 'default' : 'outline'}
+              >
+                {isEditing ? <Check className="h-4 w-4 mr-1" /> : <Pencil className="h-4 w-4 mr-1" />}
+                {isEditing ? 'Done' : 'Edit'}
+              </Button>
+            )}
             <Button
               onClick={toggleTheme}
               className="rounded-full h-9 w-9 p-0 flex items-center justify-center transition-colors"
@@ -225,8 +547,10 @@ export function SharedDashboardView() {
           breakpoints={breakpoints}
           cols={cols}
           rowHeight={rowHeight}
-          isDraggable={false}
-          isResizable={false}
+          isDraggable={isEditing}
+          isResizable={isEditing}
+          draggableHandle=".widget-drag-handle"
+          onLayoutChange={handleLayoutChange}
           onBreakpointChange={(bp: string) => setCurrentBreakpoint(bp)}
           margin={[15, 15]}
           containerPadding={[10, 10]}
@@ -240,25 +564,13 @@ export function SharedDashboardView() {
           ))}
         </ResponsiveGridLayout>
       </main>
-      {/* CSS to hide interactive elements in read-only mode */}
-      <style>{`
-        .read-only-dashboard .widget-drag-handle,
-        .read-only-dashboard .settings-button,
-        .read-only-dashboard .widget-settings-trigger,
-        .read-only-dashboard [data-add-button],
-        .read-only-dashboard .add-task-input,
-        .read-only-dashboard .add-link-button {
-          display: none !important;
-        }
-        .read-only-dashboard .widget-card input:not([type="checkbox"]),
-        .read-only-dashboard .widget-card textarea {
-          pointer-events: none;
-          user-select: none;
-        }
-        .read-only-dashboard .widget-card input[type="checkbox"] {
-          pointer-events: none;
-        }
-      `}</style>
+      <WidgetSelector
+        isOpen={widgetSelectorOpen}
+        onClose={() => setWidgetSelectorOpen(false)}
+        onAddWidget={handleAddWidget}
+        widgetRegistry={WIDGET_REGISTRY}
+        widgetCategories={getWidgetCategories()}
+      />
     </div>
   );
 }
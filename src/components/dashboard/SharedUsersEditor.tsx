@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { UserPlus, X, Check } from 'lucide-react';
+import { publicDashboardService, DashboardAccessRequest } from '@/lib/firestoreService';
+import type { SharedUser, ShareRole } from './DashboardSwitcher';
+
+interface SharedUsersEditorProps {
+  /** Dashboard whose pending access requests are listed */
+  dashboardId: string;
+  sharedWith: SharedUser[];
+  onChange: (sharedWith: SharedUser[]) => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Role selector shared by the "add person" row and each listed person
+ */
+function RoleSelect({ value, onChange }: { value: ShareRole; onChange: (role: ShareRole) => void }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ShareRole)}>
+      <SelectTrigger className="w-28">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="viewer">Viewer</SelectItem>
+        <SelectItem value="editor">Editor</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Pending requests from people who opened the share link without access
+ */
+function AccessRequestList({ dashboardId, onApprove }: { dashboardId: string; onApprove: (email: string) => void }) {
+  const [requests, setRequests] = useState<DashboardAccessRequest[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    publicDashboardService.listAccessRequests(dashboardId)
+      .then(result => {
+        if (!cancelled) setRequests(result);
+      })
+      .catch(error => {
+        // Dashboards that were never published have no requests to read
+        console.warn('Could not load access requests:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dashboardId]);
+
+  const resolveRequest = async (request: DashboardAccessRequest, approve: boolean) => {
+    try {
+      await publicDashboardService.deleteAccessRequest(dashboardId, request.userId);
+      setRequests(prev => prev.filter(r => r.userId !== request.userId));
+      if (approve) onApprove(request.email);
+    } catch (error) {
+      console.error('Error resolving access request:', error);
+      toast.error('Could not update the access request');
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="space-y-1 rounded-md border p-2">
+      <p className="text-xs font-medium text-muted-foreground">Access requests</p>
+      <ul className="space-y-1">
+        {requests.map(request => (
+          <li key={request.userId} className="flex items-center gap-2">
+            <span className="flex-1 truncate text-sm">{request.email}</span>
+            <Button variant="outline" size="sm" onClick={() => resolveRequest(request, true)}>
+              <Check className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => resolveRequest(request, false)}
+              aria-label={`Dismiss request from ${request.email}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Manage the people a dashboard is shared with and their roles
+ */
+export function SharedUsersEditor({ dashboardId, sharedWith, onChange }: SharedUsersEditorProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShareRole>('viewer');
+
+  // Approved requesters join as viewers; the change is applied on Save
+  const handleApprove = (requestEmail: string) => {
+    if (sharedWith.some(u => u.email.toLowerCase() === requestEmail)) return;
+    onChange([...sharedWith, { email: requestEmail, role: 'viewer' }]);
+  };
+
+  const normalizedEmail = email.trim().toLowerCase();
+  const isDuplicate = sharedWith.some(u => u.email.toLowerCase() === normalizedEmail);
+  const canAdd = EMAIL_PATTERN.test(normalizedEmail) && !isDuplicate;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onChange([...sharedWith, { email: normalizedEmail, role }]);
+    setEmail('');
+    setRole('viewer');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="share-email">People</Label>
+      <AccessRequestList dashboardId={dashboardId} onApprove={handleApprove} />
+      <div className="flex gap-2">
+        <Input
+          id="share-email"
+          type="email"
+          placeholder="name@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          className="text-sm"
+        />
+        <RoleSelect value={role} onChange={setRole} />
+        <Button variant="outline" size="icon" onClick={handleAdd} disabled={!canAdd} aria-label="Add person">
+          <UserPlus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {sharedWith.length > 0 && (
+        <ul className="space-y-1">
+          {sharedWith.map(user => (
+            <li key={user.email} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-sm">{user.email}</span>
+              <RoleSelect
+                value={user.role}
+                onChange={(newRole) => onChange(
+                  sharedWith.map(u => u.email === user.email ? { ...u, role: newRole } : u)
+                )}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(sharedWith.filter(u => u.email !== user.email))}
+                aria-label={`Remove ${user.email}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Editors can move, add, remove and configure widgets from the share link after signing in with a verified email.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, Camera, RotateCcw, Trash2, Loader2 } from 'lucide-react';
+import { WIDGET_REGISTRY } from '@/components/widgets';
+import { snapshotService, DashboardSnapshot, SnapshotTrigger } from '@/lib/dashboardSnapshots';
+import { cols } from '@/lib/layoutUtils';
+import type { Dashboard } from './DashboardSwitcher';
+
+interface SnapshotBrowserProps {
+  dashboard: Dashboard;
+  /** Take a manual snapshot of the dashboard's current state */
+  onCreateSnapshot: () => Promise<void>;
+  /** Replace the dashboard's widgets, layouts and configs with a snapshot */
+  onRestoreSnapshot: (snapshot: DashboardSnapshot) => Promise<void>;
+}
+
+const TRIGGER_LABELS: Record<SnapshotTrigger, string> = {
+  auto: 'Automatic',
+  manual: 'Manual',
+  'pre-restore': 'Before restore',
+};
+
+const getWidgetName = (type: string): string =>
+  WIDGET_REGISTRY.find(w => w.type === type)?.name || type;
+
+/**
+ * Scaled-down view of a snapshot's desktop layout
+ */
+function SnapshotPreview({ snapshot }: { snapshot: DashboardSnapshot }) {
+  const layout = snapshot.layouts.lg || [];
+  const colCount = cols.lg;
+  const rowCount = Math.max(...layout.map(item => item.y + item.h), 1);
+  const widgetTypes = new Map(snapshot.widgets.map(w => [w.id, w.type]));
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="relative w-full rounded-md border bg-muted/40"
+        style={{ aspectRatio: `${colCount} / ${Math.max(rowCount, 4)}` }}
+      >
+        {layout.filter(item => widgetTypes.has(item.i)).map(item => (
+          <div
+            key={item.i}
+            className="absolute p-0.5"
+            style={{
+              left: `${(item.x / colCount) * 100}%`,
+              top: `${(item.y / Math.max(rowCount, 4)) * 100}%`,
+              width: `${(item.w / colCount) * 100}%`,
+              height: `${(item.h / Math.max(rowCount, 4)) * 100}%`,
+            }}
+          >
+            <div className="h-full w-full rounded-sm bg-primary/15 border border-primary/30 overflow-hidden px-1 text-[10px] leading-tight text-muted-foreground">
+              {getWidgetName(widgetTypes.get(item.i) as string)}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {snapshot.widgets.length} widget{snapshot.widgets.length === 1 ? '' : 's'}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Version history for a dashboard: lists snapshots, previews one and restores it
+ */
+export function SnapshotBrowser({ dashboard, onCreateSnapshot, onRestoreSnapshot }: SnapshotBrowserProps) {
+  const [snapshots, setSnapshots] = useState<DashboardSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadSnapshots = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSnapshots(await snapshotService.listSnapshots(dashboard.id));
+    } catch (error) {
+      console.error('Error loading snapshots:', error);
+      toast.error('Could not load version history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dashboard.id]);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  const selected = snapshots.find(s => s.id === selectedId) || null;
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    try {
+      await onCreateSnapshot();
+      await loadSnapshots();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    const date = new Date(selected.createdAt).toLocaleString();
+    if (!confirm(`Restore "${dashboard.name}" to ${date}? The current state is saved as a snapshot first.`)) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await onRestoreSnapshot(selected);
+      setSelectedId(null);
+      await loadSnapshots();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    setIsBusy(true);
+    try {
+      await snapshotService.deleteSnapshot(dashboard.id, selected.id);
+      setSelectedId(null);
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Error deleting snapshot:', error);
+      toast.error('Could not delete snapshot');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Version History
+        </Label>
+        <Button variant="outline" size="sm" onClick={handleCreate} disabled={isBusy}>
+          <Camera className="h-4 w-4 mr-2" />
+          Save Snapshot
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : snapshots.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No snapshots yet. Snapshots are saved automatically while you use this dashboard.
+        </p>
+      ) : (
+        <ScrollArea className="h-36 rounded-md border">
+          <div className="p-1">
+            {snapshots.map(snapshot => (
+              <button
+                key={snapshot.id}
+                type="button"
+                onClick={() => setSelectedId(snapshot.id === selectedId ? null : snapshot.id)}
+                className={`w-full flex items-center justify-between rounded px-2 py-1.5 text-left text-sm hover:bg-muted ${
+                  snapshot.id === selectedId ? 'bg-muted' : ''
+                }`}
+              >
+                <span>{new Date(snapshot.createdAt).toLocaleString()}</span>
+                <span className="text-xs text-muted-foreground">{TRIGGER_LABELS[snapshot.trigger]}</span>
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      {selected && (
+        <div className="space-y-2">
+          <SnapshotPreview snapshot={selected} />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={handleDelete} disabled={isBusy}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+            <Button size="sm" onClick={handleRestore} disabled={isBusy}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { Layers } from 'lucide-react';
+import type { StackDropTarget } from '@/lib/widgetStacks';
+import { cn } from '@/lib/utils';
+
+interface StackDropTargetsProps {
+  targets: StackDropTarget[];
+  /** Stack under the pointer, highlighted as the drop target */
+  activeStackId: string | null;
+}
+
+/**
+ * Drop zones over the stack widgets while another widget is dragged.
+ * Dropping on one moves the dragged widget into that stack.
+ */
+export function StackDropTargets({ targets, activeStackId }: StackDropTargetsProps) {
+  if (targets.length === 0) return null;
+
+  return (
+    <div className="pointer-events-none fixed inset-0 z-40" aria-hidden="true">
+      {targets.map(({ stackId, name, rect }) => (
+        <div
+          key={stackId}
+          className={cn(
+            'absolute flex items-center justify-center rounded-lg border-2 border-dashed transition-colors',
+            stackId === activeStackId
+              ? 'border-primary bg-primary/15'
+              : 'border-muted-foreground/40 bg-background/40'
+          )}
+          style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+        >
+          <span className="flex items-center gap-1.5 rounded-md bg-background/90 px-2 py-1 text-xs font-medium shadow-sm">
+            <Layers className="h-3.5 w-3.5" />
+            Add to {name}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getWidgetDisplayName } from '@/components/widgets';
+import { isSensitiveField } from '@/lib/sensitiveFields';
+import { getChangedConfigFields } from '@/lib/syncRevisions';
+import type { SyncConflict } from '@/lib/syncState';
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflicts: SyncConflict[];
+  /** Keep one version of a widget's settings and drop the other */
+  onResolve: (conflict: SyncConflict, keep: 'local' | 'remote') => Promise<void>;
+}
+
+// Long values are cut short, the full config is one click away in the widget's settings
+const MAX_VALUE_LENGTH = 60;
+
+const formatValue = (widgetType: string, field: string, value: unknown): string => {
+  if (value === undefined || value === '') return '(empty)';
+  if (isSensitiveField(widgetType, field)) return '••••••';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+function ConflictItem({ conflict, onResolve }: { conflict: SyncConflict; onResolve: SyncConflictDialogProps['onResolve'] }) {
+  const [isBusy, setIsBusy] = useState(false);
+  const fields = getChangedConfigFields(conflict.local, conflict.remote);
+  const name = getWidgetDisplayName({ id: conflict.widgetId, type: conflict.widgetType, config: conflict.local });
+  const changedAt = conflict.remoteRevision
+    ? new Date(conflict.remoteRevision.updatedAt).toLocaleString()
+    : null;
+
+  const resolve = async (keep: 'local' | 'remote') => {
+    setIsBusy(true);
+    try {
+      await onResolve(conflict, keep);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div>
+        <p className="text-sm font-medium">{name}</p>
+        <p className="text-xs text-muted-foreground">
+          {changedAt ? `Changed on another device on ${changedAt}` : 'Changed on another device'}
+        </p>
+      </div>
+
+      {fields.length > 0 && (
+        <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-xs">
+          <span />
+          <span className="font-medium text-muted-foreground">This device</span>
+          <span className="font-medium text-muted-foreground">Other device</span>
+          {fields.map(field => (
+            <div key={field} className="contents">
+              <span className="font-mono">{field}</span>
+              <span className="break-all">{formatValue(conflict.widgetType, field, conflict.local[field])}</span>
+              <span className="break-all">{formatValue(conflict.widgetType, field, conflict.remote[field])}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {isBusy && <Loader2 className="h-4 w-4 animate-spin self-center text-muted-foreground" />}
+        <Button variant="outline" size="sm" onClick={() => resolve('remote')} disabled={isBusy}>
+          Use other device's
+        </Button>
+        <Button size="sm" onClick={() => resolve('local')} disabled={isBusy}>
+          Keep this device's
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Widgets whose settings were changed on this device and another one since they
+ * last synced. Nothing is written for a widget until one version is picked.
+ */
+export function SyncConflictDialog({ open, onOpenChange, conflicts, onResolve }: SyncConflictDialogProps) {
+  return (
+    <Dialog open={open && conflicts.length > 0} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Sync Conflicts
+          </DialogTitle>
+          <DialogDescription>
+            These widgets were changed on another device too. Pick the version to keep for each.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+          {conflicts.map(conflict => (
+            <ConflictItem key={conflict.widgetId} conflict={conflict} onResolve={onResolve} />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
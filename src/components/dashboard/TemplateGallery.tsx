@@ -0,0 +1,120 @@
+import { Code, LayoutTemplate, Plane, Plus, Server, Sunrise, X } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { dashboardTemplateUtils, DashboardTemplate } from '@/lib/dashboardTemplates';
+import { cn } from '@/lib/utils';
+
+const TEMPLATE_ICONS: Record<string, LucideIcon> = {
+  homelab: Server,
+  developer: Code,
+  'morning-routine': Sunrise,
+  traveler: Plane,
+};
+
+interface TemplateGalleryProps {
+  /** Personal templates saved by the user */
+  templates: DashboardTemplate[];
+  /** Selected template, null for the default widgets */
+  selectedTemplateId: string | null;
+  onSelectTemplate: (template: DashboardTemplate | null) => void;
+  onDeleteTemplate: (template: DashboardTemplate) => void;
+}
+
+interface TemplateCardProps {
+  icon: LucideIcon;
+  name: string;
+  description: string;
+  isSelected: boolean;
+  onSelect: () => void;
+  onDelete?: () => void;
+}
+
+function TemplateCard({ icon: Icon, name, description, isSelected, onSelect, onDelete }: TemplateCardProps) {
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={onSelect}
+        aria-pressed={isSelected}
+        className={cn(
+          'flex h-full w-full flex-col items-start gap-1 rounded-md border p-3 text-left transition-colors hover:bg-accent',
+          isSelected && 'border-primary ring-1 ring-primary'
+        )}
+      >
+        <span className="flex items-center gap-2 pr-6 text-sm font-medium">
+          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+          {name}
+        </span>
+        <span className="text-xs text-muted-foreground">{description}</span>
+      </button>
+      {onDelete && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute right-1 top-1 h-6 w-6"
+          onClick={onDelete}
+          aria-label={`Delete template ${name}`}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Template picker for new dashboards: the default widgets, the built-in
+ * templates and the user's own templates
+ */
+export function TemplateGallery({
+  templates,
+  selectedTemplateId,
+  onSelectTemplate,
+  onDeleteTemplate,
+}: TemplateGalleryProps) {
+  const describe = (template: DashboardTemplate) =>
+    template.description || `${template.bundle.widgets.length} widgets`;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <TemplateCard
+          icon={Plus}
+          name="Default"
+          description="A to-do list, weather, links and notes"
+          isSelected={selectedTemplateId === null}
+          onSelect={() => onSelectTemplate(null)}
+        />
+        {dashboardTemplateUtils.getBuiltInTemplates().map(template => (
+          <TemplateCard
+            key={template.id}
+            icon={TEMPLATE_ICONS[template.id] || LayoutTemplate}
+            name={template.name}
+            description={describe(template)}
+            isSelected={selectedTemplateId === template.id}
+            onSelect={() => onSelectTemplate(template)}
+          />
+        ))}
+      </div>
+
+      {templates.length > 0 && (
+        <>
+          <p className="text-xs font-medium text-muted-foreground">Your Templates</p>
+          <div className="grid grid-cols-2 gap-2">
+            {templates.map(template => (
+              <TemplateCard
+                key={template.id}
+                icon={LayoutTemplate}
+                name={template.name}
+                description={describe(template)}
+                isSelected={selectedTemplateId === template.id}
+                onSelect={() => onSelectTemplate(template)}
+                onDelete={() => onDeleteTemplate(template)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,29 +3,41 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Palette, Image } from 'lucide-react';
+import { Palette, Image, Database, Puzzle, Tv, Bell, KeyRound } from 'lucide-react';
+import { StorageSettings } from './StorageSettings';
+import { CustomWidgetsSettings } from './CustomWidgetsSettings';
+import { KioskSettings } from './KioskSettings';
+import { NotificationSettings } from './NotificationSettings';
+import { EncryptionSettings } from './EncryptionSettings';
+import type { Dashboard } from '@/components/dashboard/DashboardSwitcher';
 
 // Import types
 type FaviconMode = 'simple' | 'smart';
 type ThemeMode = 'light' | 'dark' | 'system';
 
+export type AppSettingsTab = 'appearance' | 'favicon' | 'storage' | 'widgets' | 'kiosk' | 'notifications' | 'security';
+
 interface AppSettingsModalProps {
   open: boolean;
   onClose: () => void;
+  /** Tab to show when the modal opens */
+  defaultTab?: AppSettingsTab;
+  /** Dashboards kiosk mode can rotate through */
+  dashboards: Dashboard[];
 }
 
-export function AppSettingsModal({ open, onClose }: AppSettingsModalProps) {
+export function AppSettingsModal({ open, onClose, defaultTab = 'appearance', dashboards }: AppSettingsModalProps) {
   const { settings, updateSettings } = useAppSettings();
   
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-2xl">
         <DialogHeader>
           <DialogTitle>App Settings</DialogTitle>
         </DialogHeader>
         
-        <Tabs defaultValue="appearance">
-          <TabsList className="grid grid-cols-2">
+        <Tabs defaultValue={defaultTab}>
+          <TabsList className="grid grid-cols-7">
             <TabsTrigger value="appearance" className="flex items-center gap-2">
               <Palette className="h-4 w-4" />
               <span>Appearance</span>
@@ -34,6 +46,26 @@ export function AppSettingsModal({ open, onClose }: AppSettingsModalProps) {
               <Image className="h-4 w-4" />
               <span>Favicon</span>
             </TabsTrigger>
+            <TabsTrigger value="storage" className="flex items-center gap-2">
+              <Database className="h-4 w-4" />
+              <span>Storage</span>
+            </TabsTrigger>
+            <TabsTrigger value="widgets" className="flex items-center gap-2">
+              <Puzzle className="h-4 w-4" />
+              <span>Widgets</span>
+            </TabsTrigger>
+            <TabsTrigger value="kiosk" className="flex items-center gap-2">
+              <Tv className="h-4 w-4" />
+              <span>Kiosk</span>
+            </TabsTrigger>
+            <TabsTrigger value="notifications" className="flex items-center gap-2">
+              <Bell className="h-4 w-4" />
+              <span>Alerts</span>
+            </TabsTrigger>
+            <TabsTrigger value="security" className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              <span>Security</span>
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="appearance" className="space-y-4 py-4">
@@ -85,6 +117,26 @@ export function AppSettingsModal({ open, onClose }: AppSettingsModalProps) {
               </p>
             </div>
           </TabsContent>
+
+          <TabsContent value="storage" className="space-y-4 py-4">
+            <StorageSettings />
+          </TabsContent>
+
+          <TabsContent value="widgets" className="space-y-4 py-4">
+            <CustomWidgetsSettings />
+          </TabsContent>
+
+          <TabsContent value="kiosk" className="space-y-4 py-4">
+            <KioskSettings dashboards={dashboards} />
+          </TabsContent>
+
+          <TabsContent value="notifications" className="space-y-4 py-4">
+            <NotificationSettings />
+          </TabsContent>
+
+          <TabsContent value="security" className="space-y-4 py-4">
+            <EncryptionSettings />
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CREDENTIAL_PRESETS,
+  CredentialScheme,
+  credentialVault,
+  VaultCredential,
+} from '@/lib/credentialVault';
+import { useVaultCredentials } from '@/lib/useVaultCredentials';
+
+interface CredentialForm {
+  /** ID of the credential being edited; null when adding one */
+  id: string | null;
+  name: string;
+  hosts: string;
+  scheme: CredentialScheme;
+  secret: string;
+}
+
+const EMPTY_FORM: CredentialForm = { id: null, name: '', hosts: '', scheme: 'Bearer', secret: '' };
+
+/**
+ * Generate an ID for a new credential
+ */
+const generateCredentialId = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const parseHosts = (hosts: string): string[] =>
+  hosts.split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+
+/**
+ * Credential vault settings: API tokens kept encrypted on the self-hosted
+ * server, which widgets can use without the token reaching the browser again.
+ */
+export function CredentialVaultSettings() {
+  const { credentials, isLoading } = useVaultCredentials();
+  const [form, setForm] = useState<CredentialForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateForm = (updates: Partial<CredentialForm>) => {
+    setForm(prev => prev && { ...prev, ...updates });
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = CREDENTIAL_PRESETS.find(p => p.id === presetId);
+    if (!preset) return;
+    updateForm({ name: preset.label, hosts: preset.hosts.join(', '), scheme: preset.scheme });
+  };
+
+  const editCredential = (credential: VaultCredential) => {
+    setForm({
+      id: credential.id,
+      name: credential.name,
+      hosts: credential.hosts.join(', '),
+      scheme: credential.scheme,
+      secret: '',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      await credentialVault.save(form.id ?? generateCredentialId(), {
+        name: form.name.trim(),
+        hosts: parseHosts(form.hosts),
+        scheme: form.scheme,
+        // Leaving the token empty while editing keeps the stored one
+        ...(form.secret.trim() ? { secret: form.secret.trim() } : {}),
+      });
+      toast.success(form.id ? 'Credential updated' : 'Credential added');
+      setForm(null);
+    } catch (error) {
+      toast.error('Failed to save credential', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (credential: VaultCredential) => {
+    try {
+      await credentialVault.remove(credential.id);
+      toast.success(`Removed ${credential.name}`, {
+        description: 'Widgets using it need a new token.',
+      });
+    } catch (error) {
+      toast.error('Failed to remove credential', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  // The server keeps the saved token only while it goes to the same hosts, the same way
+  const editedCredential = form?.id ? credentials.find(credential => credential.id === form.id) : undefined;
+  const needsSecret = !!form && (!editedCredential ||
+    form.scheme !== editedCredential.scheme ||
+    parseHosts(form.hosts).some(host => !editedCredential.hosts.includes(host)));
+  const canSave = !!form && !!form.name.trim() && parseHosts(form.hosts).length > 0 &&
+    (!needsSecret || !!form.secret.trim());
+
+  return (
+    <div className="space-y-2">
+      <Label>Credential Vault</Label>
+      <p className="text-sm text-muted-foreground">
+        Tokens saved here are stored encrypted on your server and only sent to the hosts you list.
+        Widgets pick them under Token Source instead of keeping the token in this browser.
+      </p>
+
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Loading credentials...</p>
+      ) : credentials.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No credentials yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {credentials.map(credential => (
+            <div key={credential.id} className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm truncate">{credential.name}</p>
+                <p className="text-xs text-muted-foreground truncate">{credential.hosts.join(', ')}</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" size="sm" onClick={() => editCredential(credential)}>
+                  Edit
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => void handleDelete(credential)}>
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {form ? (
+        <div className="space-y-3 rounded-md border p-3">
+          {!form.id && (
+            <div className="space-y-2">
+              <Label htmlFor="credential-preset">Service</Label>
+              <Select onValueChange={applyPreset}>
+                <SelectTrigger id="credential-preset">
+                  <SelectValue placeholder="Fill in for a widget" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CREDENTIAL_PRESETS.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="credential-name">Name</Label>
+            <Input
+              id="credential-name"
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="credential-hosts">Hosts</Label>
+            <Input
+              id="credential-hosts"
+              value={form.hosts}
+              onChange={(e) => updateForm({ hosts: e.target.value })}
+              placeholder="api.example.com, *.example.org"
+            />
+            <p className="text-xs text-muted-foreground">
+              Comma separated. The token is never sent anywhere else, even after a redirect.
+              Wildcards need a domain of their own, like *.example.com.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="credential-scheme">Authorization</Label>
+            <Select value={form.scheme} onValueChange={(scheme) => updateForm({ scheme: scheme as CredentialScheme })}>
+              <SelectTrigger id="credential-scheme">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Bearer">Bearer &lt;token&gt;</SelectItem>
+                <SelectItem value="Token">Token &lt;token&gt;</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="credential-secret">Token</Label>
+            <Input
+              id="credential-secret"
+              type="password"
+              value={form.secret}
+              onChange={(e) => updateForm({ secret: e.target.value })}
+              placeholder={needsSecret
+                ? form.id ? 'Enter the token again for the new hosts or scheme' : 'Paste the API token'
+                : 'Leave empty to keep the saved token'}
+              autoComplete="off"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => void handleSave()} disabled={!canSave || isSaving}>
+              {form.id ? 'Update' : 'Add'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setForm(EMPTY_FORM)}>
+          Add credential
+        </Button>
+      )}
+    </div>
+  );
+}
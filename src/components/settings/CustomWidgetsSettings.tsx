@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CheckCircle2, Loader2, Plus, X } from 'lucide-react';
+import { useAppSettings } from '@/context/AppSettingsContext';
+import { useCustomWidgets } from '@/lib/useCustomWidgets';
+import { isValidModuleUrl, CustomWidgetStatus } from '@/lib/customWidgets';
+
+/**
+ * Load state of a module, shown under its URL
+ */
+function ModuleStatus({ status }: { status?: CustomWidgetStatus }) {
+  if (!status || status.state === 'loading') {
+    return (
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading...
+      </span>
+    );
+  }
+  if (status.state === 'error') {
+    return (
+      <span className="flex items-center gap-1 text-xs text-destructive">
+        <AlertTriangle className="h-3 w-3 shrink-0" />
+        {status.message}
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+      <CheckCircle2 className="h-3 w-3 text-green-600" />
+      {status.name} ({status.type})
+    </span>
+  );
+}
+
+/**
+ * Custom widget settings: register third-party widget modules by URL.
+ * The list is part of the app settings, so it syncs across devices.
+ */
+export function CustomWidgetsSettings() {
+  const { settings, updateSettings } = useAppSettings();
+  const statuses = useCustomWidgets();
+  const [url, setUrl] = useState('');
+
+  const sources = settings.customWidgets || [];
+  const trimmedUrl = url.trim();
+  const isDuplicate = sources.some(source => source.url === trimmedUrl);
+  const canAdd = isValidModuleUrl(trimmedUrl) && !isDuplicate;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    updateSettings({ customWidgets: [...sources, { url: trimmedUrl, addedAt: new Date().toISOString() }] });
+    setUrl('');
+  };
+
+  const handleRemove = (removedUrl: string) => {
+    updateSettings({ customWidgets: sources.filter(source => source.url !== removedUrl) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="custom-widget-url">Widget Module URL</Label>
+        <div className="flex gap-2">
+          <Input
+            id="custom-widget-url"
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="https://example.com/widgets/status.js"
+          />
+          <Button variant="outline" size="icon" onClick={handleAdd} disabled={!canAdd} aria-label="Add custom widget">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        {trimmedUrl !== '' && !isValidModuleUrl(trimmedUrl) && (
+          <p className="text-xs text-destructive">Use an https URL (http is only allowed for localhost).</p>
+        )}
+      </div>
+
+      {sources.length > 0 && (
+        <ul className="space-y-2">
+          {sources.map(source => (
+            <li key={source.url} className="flex items-start gap-2 rounded-md border p-2">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="truncate text-sm" title={source.url}>{source.url}</p>
+                <ModuleStatus status={statuses[source.url]} />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(source.url)}
+                aria-label={`Remove ${source.url}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        Custom widgets run with full access to this page, including your dashboards and API keys.
+        Only add modules from sources you trust. Removing a module keeps its widgets on your
+        dashboards until you add it again or delete them.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { storageBackend } from '@/lib/storage';
+import { keyring, MIN_PASSPHRASE_LENGTH } from '@/lib/keyring';
+import { useKeyring } from '@/lib/useKeyring';
+
+/** What the passphrase form below the status does when submitted */
+type EncryptionAction = 'enable' | 'unlock' | 'recover' | 'change' | 'rotate' | 'recovery-key' | 'disable';
+
+const ACTION_LABELS: Record<EncryptionAction, string> = {
+  enable: 'Turn on',
+  unlock: 'Unlock',
+  recover: 'Unlock',
+  change: 'Change passphrase',
+  rotate: 'Rotate key',
+  'recovery-key': 'Create recovery key',
+  disable: 'Turn off',
+};
+
+const describeFailed = (failed: number): string | undefined =>
+  failed > 0 ? `${failed} secret${failed === 1 ? '' : 's'} couldn't be decrypted and must be entered again.` : undefined;
+
+/**
+ * Passphrase encryption settings: encrypt widget secrets with a key only the
+ * user's passphrase or recovery key can unlock, instead of one derived from
+ * their user ID.
+ */
+export function EncryptionSettings() {
+  const { status, isRemembered } = useKeyring();
+  const [action, setAction] = useState<EncryptionAction | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [recoveryKeyInput, setRecoveryKeyInput] = useState('');
+  const [remember, setRemember] = useState(true);
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const startAction = (next: EncryptionAction | null) => {
+    setAction(next);
+    setPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setRecoveryKeyInput('');
+  };
+
+  if (!storageBackend.isAuthenticated()) {
+    return (
+      <div className="space-y-2">
+        <Label>Passphrase Encryption</Label>
+        <p className="text-sm text-muted-foreground">
+          Sign in to encrypt your widget secrets with a passphrase.
+        </p>
+      </div>
+    );
+  }
+
+  // Status decides the form when there's only one thing to do
+  const currentAction = status === 'off' ? 'enable' : status === 'locked' && action !== 'recover' ? 'unlock' : action;
+  const needsNewPassphrase = currentAction === 'enable' || currentAction === 'recover' || currentAction === 'change';
+  const needsPassphrase = currentAction !== 'enable' && currentAction !== 'recover';
+  const canSubmit = !isWorking &&
+    (!needsPassphrase || !!passphrase) &&
+    (!needsNewPassphrase || (newPassphrase.length >= MIN_PASSPHRASE_LENGTH && newPassphrase === confirmPassphrase)) &&
+    (currentAction !== 'recover' || !!recoveryKeyInput.trim());
+
+  const handleSubmit = async () => {
+    if (!currentAction) return;
+    setIsWorking(true);
+    try {
+      switch (currentAction) {
+        case 'enable': {
+          const result = await keyring.enable(newPassphrase, remember);
+          setRecoveryKey(result.recoveryKey);
+          toast.success('Passphrase encryption is on', { description: describeFailed(result.failed) });
+          break;
+        }
+        case 'unlock':
+          await keyring.unlock(passphrase, remember);
+          toast.success('Secrets unlocked');
+          break;
+        case 'recover':
+          await keyring.unlockWithRecoveryKey(recoveryKeyInput, newPassphrase, remember);
+          toast.success('Secrets unlocked', { description: 'Use your new passphrase from now on.' });
+          break;
+        case 'change':
+          await keyring.changePassphrase(passphrase, newPassphrase);
+          toast.success('Passphrase changed', { description: 'Other devices keep working until they are locked.' });
+          break;
+        case 'rotate': {
+          const result = await keyring.rotate(passphrase);
+          setRecoveryKey(result.recoveryKey);
+          toast.success('Encryption key rotated', {
+            description: describeFailed(result.failed) ?? 'Reload Boxento on your other devices.',
+          });
+          break;
+        }
+        case 'recovery-key':
+          setRecoveryKey(await keyring.newRecoveryKey(passphrase));
+          toast.success('New recovery key created', { description: 'The old one no longer works.' });
+          break;
+        case 'disable': {
+          const failed = await keyring.disable(passphrase);
+          setRecoveryKey(null);
+          toast.success('Passphrase encryption is off', { description: describeFailed(failed) });
+          break;
+        }
+      }
+      startAction(null);
+    } catch (error) {
+      toast.error(`Failed to ${ACTION_LABELS[currentAction].toLowerCase()}`, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const copyRecoveryKey = async () => {
+    if (!recoveryKey) return;
+    try {
+      await navigator.clipboard.writeText(recoveryKey);
+      toast.success('Recovery key copied');
+    } catch {
+      toast.error('Failed to copy the recovery key');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Passphrase Encryption</Label>
+        <p className="text-sm text-muted-foreground">
+          API keys, tokens and passwords in your widgets are encrypted before they are stored.
+          With a passphrase only you can decrypt them, not whoever runs the storage. Neither the
+          passphrase nor the recovery key leaves this browser.
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Status:{' '}
+          {status === 'off'
+            ? 'Off'
+            : status === 'locked'
+              ? 'Locked on this device'
+              : isRemembered
+                ? 'Unlocked, remembered on this device'
+                : 'Unlocked until the page is closed'}
+        </p>
+      </div>
+
+      {recoveryKey && (
+        <div className="space-y-2 rounded-md border p-3">
+          <Label>Recovery Key</Label>
+          <p className="text-xs text-muted-foreground">
+            Keep this somewhere safe. It unlocks your secrets if you forget the passphrase; without
+            either, they can't be recovered. It won't be shown again.
+          </p>
+          <p className="font-mono text-sm break-all">{recoveryKey}</p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => void copyRecoveryKey()}>
+              Copy
+            </Button>
+            <Button size="sm" onClick={() => setRecoveryKey(null)}>
+              I saved it
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {status === 'unlocked' && !action && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => startAction('change')}>
+            Change passphrase
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => startAction('rotate')}>
+            Rotate key
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => startAction('recovery-key')}>
+            New recovery key
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => keyring.lock()}>
+            Lock on this device
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => startAction('disable')}>
+            Turn off
+          </Button>
+        </div>
+      )}
+
+      {currentAction && (
+        <div className="space-y-3 rounded-md border p-3">
+          {currentAction === 'rotate' && (
+            <p className="text-xs text-muted-foreground">
+              Every secret is encrypted again with a new key, and you get a new recovery key.
+              Shared credentials on your other devices have to be entered again there.
+            </p>
+          )}
+          {currentAction === 'disable' && (
+            <p className="text-xs text-muted-foreground">
+              Secrets go back to being encrypted with a key derived from your account.
+            </p>
+          )}
+          {currentAction === 'recover' && (
+            <div className="space-y-2">
+              <Label htmlFor="encryption-recovery-key">Recovery key</Label>
+              <Input
+                id="encryption-recovery-key"
+                value={recoveryKeyInput}
+                onChange={(e) => setRecoveryKeyInput(e.target.value)}
+                placeholder="XXXX-XXXX-..."
+                autoComplete="off"
+              />
+            </div>
+          )}
+          {needsPassphrase && (
+            <div className="space-y-2">
+              <Label htmlFor="encryption-passphrase">
+                {currentAction === 'change' ? 'Current passphrase' : 'Passphrase'}
+              </Label>
+              <Input
+                id="encryption-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="current-password"
+              />
+            </div>
+          )}
+          {needsNewPassphrase && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="encryption-new-passphrase">
+                  {currentAction === 'enable' ? 'Passphrase' : 'New passphrase'}
+                </Label>
+                <Input
+                  id="encryption-new-passphrase"
+                  type="password"
+                  value={newPassphrase}
+                  onChange={(e) => setNewPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                />
+                <p className="text-xs text-muted-foreground">
+                  At least {MIN_PASSPHRASE_LENGTH} characters. Use a different one than your account password.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="encryption-confirm-passphrase">Confirm passphrase</Label>
+                <Input
+                  id="encryption-confirm-passphrase"
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+            </>
+          )}
+          {(currentAction === 'enable' || currentAction === 'unlock' || currentAction === 'recover') && (
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="encryption-remember">Remember on this device</Label>
+                <p className="text-xs text-muted-foreground">
+                  Unlock automatically here. Turn off on shared computers.
+                </p>
+              </div>
+              <Switch id="encryption-remember" checked={remember} onCheckedChange={setRemember} />
+            </div>
+          )}
+          <div className="flex justify-between gap-2">
+            <div>
+              {currentAction === 'unlock' && (
+                <Button variant="link" size="sm" className="px-0" onClick={() => startAction('recover')}>
+                  Forgot the passphrase?
+                </Button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {action && (
+                <Button variant="outline" size="sm" onClick={() => startAction(null)}>
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" onClick={() => void handleSubmit()} disabled={!canSubmit}>
+                {isWorking ? 'Working...' : ACTION_LABELS[currentAction]}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useSyncExternalStore } from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useAppSettings } from '@/context/AppSettingsContext';
+import { DEFAULT_KIOSK_SETTINGS, kioskDevice, KioskSettings as KioskSettingsValues } from '@/lib/kioskMode';
+import type { Dashboard } from '@/components/dashboard/DashboardSwitcher';
+
+interface KioskSettingsProps {
+  dashboards: Dashboard[];
+}
+
+/**
+ * Kiosk mode settings: whether this device is a kiosk, and which dashboards
+ * it rotates through. Only the latter syncs across devices.
+ */
+export function KioskSettings({ dashboards }: KioskSettingsProps) {
+  const { settings, updateSettings } = useAppSettings();
+  const isDeviceKiosk = useSyncExternalStore(kioskDevice.subscribe, kioskDevice.isEnabled);
+
+  const kiosk = { ...DEFAULT_KIOSK_SETTINGS, ...settings.kiosk };
+
+  const updateKiosk = (updates: Partial<KioskSettingsValues>) => {
+    updateSettings({ kiosk: { ...kiosk, ...updates } });
+  };
+
+  const toggleDashboard = (dashboardId: string, checked: boolean) => {
+    // Keep the rotation in the order dashboards are listed
+    const dashboardIds = dashboards
+      .map(dashboard => dashboard.id)
+      .filter(id => (id === dashboardId ? checked : kiosk.dashboardIds.includes(id)));
+    updateKiosk({ dashboardIds });
+  };
+
+  const parseNumber = (value: string): number => Math.max(0, Math.floor(Number(value) || 0));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="kiosk-device">Use kiosk mode on this device</Label>
+          <p className="text-xs text-muted-foreground">
+            Hides the header and editing controls and keeps the screen on. Press Esc to leave until the page is reloaded.
+          </p>
+        </div>
+        <Switch
+          id="kiosk-device"
+          checked={isDeviceKiosk}
+          onCheckedChange={kioskDevice.setEnabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Dashboards to show</Label>
+        <div className="space-y-2">
+          {dashboards.map(dashboard => (
+            <div key={dashboard.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`kiosk-dashboard-${dashboard.id}`}
+                checked={kiosk.dashboardIds.includes(dashboard.id)}
+                onCheckedChange={(checked) => toggleDashboard(dashboard.id, checked === true)}
+              />
+              <Label htmlFor={`kiosk-dashboard-${dashboard.id}`} className="font-normal">
+                {dashboard.name}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          None selected shows the current dashboard only.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="kiosk-rotate">Seconds per dashboard</Label>
+          <Input
+            id="kiosk-rotate"
+            type="number"
+            min={0}
+            value={kiosk.rotateSeconds}
+            onChange={(e) => updateKiosk({ rotateSeconds: parseNumber(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="kiosk-refresh">Minutes between reloads</Label>
+          <Input
+            id="kiosk-refresh"
+            type="number"
+            min={0}
+            value={kiosk.refreshMinutes}
+            onChange={(e) => updateKiosk({ refreshMinutes: parseNumber(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Set either to 0 to turn it off. To open kiosk mode on any device without changing
+        this setting, add <code>?kiosk</code> to the dashboard URL.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { useAppSettings } from '@/context/AppSettingsContext';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  notificationService,
+  NotificationSettings as NotificationSettingsValues,
+} from '@/lib/notifications';
+
+/**
+ * Alert settings: browser notifications, quiet hours and muted widgets.
+ * Whether the browser allows notifications is up to each device.
+ */
+export function NotificationSettings() {
+  const { settings, updateSettings } = useAppSettings();
+  const [permission, setPermission] = useState(notificationService.getPermission);
+
+  const notifications = { ...DEFAULT_NOTIFICATION_SETTINGS, ...settings.notifications };
+
+  const updateNotifications = (updates: Partial<NotificationSettingsValues>) => {
+    updateSettings({ notifications: { ...notifications, ...updates } });
+  };
+
+  const updateQuietHours = (updates: Partial<NotificationSettingsValues['quietHours']>) => {
+    updateNotifications({ quietHours: { ...notifications.quietHours, ...updates } });
+  };
+
+  const toggleBrowserNotifications = async (checked: boolean) => {
+    if (checked) {
+      const result = await notificationService.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    updateNotifications({ browserNotifications: checked });
+  };
+
+  const unmuteWidget = (widgetId: string) => {
+    updateNotifications({ mutedWidgets: notifications.mutedWidgets.filter(muted => muted.widgetId !== widgetId) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="browser-notifications">Browser notifications</Label>
+          <p className="text-xs text-muted-foreground">
+            {permission === 'unsupported'
+              ? 'This browser does not support notifications.'
+              : permission === 'denied'
+                ? 'Notifications are blocked for this site in the browser settings.'
+                : 'Show alerts as system notifications while the dashboard is in the background.'}
+          </p>
+        </div>
+        <Switch
+          id="browser-notifications"
+          checked={notifications.browserNotifications && permission === 'granted'}
+          disabled={permission === 'unsupported' || permission === 'denied'}
+          onCheckedChange={(checked) => void toggleBrowserNotifications(checked)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="quiet-hours">Quiet hours</Label>
+            <p className="text-xs text-muted-foreground">
+              Alerts are only recorded in the alert center, without sounds or notifications.
+            </p>
+          </div>
+          <Switch
+            id="quiet-hours"
+            checked={notifications.quietHours.enabled}
+            onCheckedChange={(enabled) => updateQuietHours({ enabled })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="quiet-hours-start">From</Label>
+            <Input
+              id="quiet-hours-start"
+              type="time"
+              value={notifications.quietHours.start}
+              disabled={!notifications.quietHours.enabled}
+              onChange={(e) => e.target.value && updateQuietHours({ start: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quiet-hours-end">Until</Label>
+            <Input
+              id="quiet-hours-end"
+              type="time"
+              value={notifications.quietHours.end}
+              disabled={!notifications.quietHours.enabled}
+              onChange={(e) => e.target.value && updateQuietHours({ end: e.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Muted widgets</Label>
+        {notifications.mutedWidgets.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            None. Mute a widget from its alerts in the alert center.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {notifications.mutedWidgets.map(muted => (
+              <div key={muted.widgetId} className="flex items-center justify-between gap-4">
+                <span className="text-sm truncate">{muted.label}</span>
+                <Button variant="outline" size="sm" onClick={() => unmuteWidget(muted.widgetId)}>
+                  Unmute
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
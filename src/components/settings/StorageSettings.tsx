@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  storageBackend,
+  getConfiguredBackendName,
+  setConfiguredBackendName,
+  getSyncToken,
+  setSyncToken,
+  StorageBackendName
+} from '@/lib/storage';
+import { credentialVault } from '@/lib/credentialVault';
+import { CredentialVaultSettings } from './CredentialVaultSettings';
+
+/**
+ * Generate a random sync token for the self-hosted server
+ */
+const generateSyncToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Storage settings: choose between Firebase and a self-hosted Boxento server.
+ * Changes are stored per device and applied after a reload.
+ */
+export function StorageSettings() {
+  const [backend, setBackend] = useState<StorageBackendName>(getConfiguredBackendName());
+  const [token, setToken] = useState(getSyncToken() || '');
+
+  const hasChanges = backend !== getConfiguredBackendName() ||
+    (backend === 'rest' && token !== (getSyncToken() || ''));
+
+  const handleApply = () => {
+    setConfiguredBackendName(backend);
+    if (backend === 'rest') {
+      setSyncToken(token.trim() || null);
+    }
+    window.location.reload();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Sync Backend</Label>
+        <RadioGroup
+          value={backend}
+          onValueChange={(value) => setBackend(value as StorageBackendName)}
+          className="flex flex-col space-y-1"
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="firestore" id="storage-firestore" />
+            <Label htmlFor="storage-firestore">Boxento Cloud (Firebase account)</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="rest" id="storage-rest" />
+            <Label htmlFor="storage-rest">Self-hosted server</Label>
+          </div>
+        </RadioGroup>
+      </div>
+
+      {backend === 'rest' && (
+        <div className="space-y-2">
+          <Label htmlFor="storage-token">Sync Token</Label>
+          <div className="flex gap-2">
+            <Input
+              id="storage-token"
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="Paste the token used on your other devices"
+              autoComplete="off"
+            />
+            <Button variant="outline" onClick={() => setToken(generateSyncToken())}>
+              Generate
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Devices using the same token share the same dashboards. Keep it secret - it also protects
+            your encrypted API keys.
+          </p>
+          {storageBackend.name === 'rest' && (
+            <p className="text-sm text-muted-foreground">
+              Status: {storageBackend.isAuthenticated() ? 'Connected' : 'Not connected'}
+            </p>
+          )}
+        </div>
+      )}
+
+      <Button onClick={handleApply} disabled={!hasChanges} className="w-full">
+        Save and Reload
+      </Button>
+
+      {credentialVault.isAvailable() && storageBackend.isAuthenticated() && <CredentialVaultSettings />}
+    </div>
+  );
+}
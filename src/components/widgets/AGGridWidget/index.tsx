@@ -22,6 +22,7 @@ import {
   DialogDescription
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { fetchThroughProxy } from '@/lib/proxy';
 
 // Register all Community features
 ModuleRegistry.registerModules([AllCommunityModule]);
@@ -225,8 +226,8 @@ const AGGridWidget: React.FC<AGGridWidgetProps> = ({ config }) => {
       try {
         response = await fetch(url);
       } catch {
-        console.warn("Direct fetch failed, trying CORS proxy...");
-        response = await fetch(`https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`);
+        console.warn("Direct fetch failed, trying the Boxento proxy...");
+        response = await fetchThroughProxy(url);
       }
 
       if (!response.ok) {
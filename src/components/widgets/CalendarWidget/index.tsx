@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react'
 import { toast } from 'sonner'
-import { useVisibilityRefresh } from '../../../lib/useVisibilityRefresh'
+import { useQuery } from '../../../lib/useQuery'
+import { HttpError, parseRetryAfter } from '../../../lib/queryCache'
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Loader2 } from 'lucide-react'
 import { encryptionUtils } from '@/lib/encryption'
 import {
@@ -18,10 +19,14 @@ import {
   SelectValue,
 } from "../../ui/select"
 import WidgetHeader from '../../widgets/common/WidgetHeader'
+import LastUpdated from '../common/LastUpdated'
 import { CalendarWidgetProps, CalendarWidgetConfig, CalendarEvent, CalendarSource } from './types'
 import { Button } from '../../ui/button'
 import { Label } from '../../ui/label'
 import { Checkbox } from '../../ui/checkbox';
+import WidgetLinkSelect from '../common/WidgetLinkSelect'
+import { widgetEventBus } from '@/lib/widgetEvents'
+import { useWidgetSearchItems } from '@/lib/useWidgetSearchItems'
 
 interface GoogleCalendarEvent {
   id: string;
@@ -45,6 +50,8 @@ interface GoogleCalendarSource {
   primary?: boolean;
 }
 
+const NO_EVENTS: CalendarEvent[] = []
+
 /**
  * Calendar Widget Component
  * 
@@ -97,6 +104,36 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
     });
   }, [config]);
 
+  /**
+   * Props that make an event start a countdown in the linked Countdown widget.
+   * Events are plain list items when no widget is linked.
+   */
+  const getEventLinkProps = (event: CalendarEvent): React.HTMLAttributes<HTMLDivElement> => {
+    if (!localConfig.widgetLinks?.['start-countdown'] || !event.start) return {};
+
+    const startCountdown = () => {
+      widgetEventBus.publishToLink(localConfig.widgetLinks, 'start-countdown', {
+        title: event.title,
+        targetDate: new Date(event.start as Date | string).toISOString(),
+      });
+    };
+    return {
+      role: 'button',
+      tabIndex: 0,
+      title: 'Start a countdown to this event',
+      onClick: (e) => {
+        e.stopPropagation();
+        startCountdown();
+      },
+      onKeyDown: (e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          startCountdown();
+        }
+      },
+    };
+  };
+
   // Helper function to format time ranges more compactly
   const formatTimeRange = (timeRange?: string): React.ReactNode => {
     if (!timeRange?.includes(' - ')) return timeRange || 'All day';
@@ -130,8 +167,7 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
   
   // Simplified settings state
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false)
-  const [events, setEvents] = useState<CalendarEvent[]>([])
-  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [isConnecting, setIsConnecting] = useState<boolean>(false)
   const [isGoogleConnected, setIsGoogleConnected] = useState<boolean>(false)
   
   // Google OAuth configuration
@@ -231,7 +267,6 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
       googleCalendarConnected: false,
       calendars: []
     });
-    setEvents([]);
   }, [localConfig, getTokenKeys, updateConfig])
   
   /**
@@ -322,131 +357,140 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
     }
   }, [getTokenKeys, refreshAccessToken, disconnectGoogleCalendar]);
   
+  // Calendars whose events are shown
+  const selectedCalendars = React.useMemo(
+    () => localConfig.calendars?.filter(cal => cal.selected) || [],
+    [localConfig.calendars]
+  );
+
   /**
-   * Fetches events from Google Calendar
+   * Fetches events of the selected calendars from Google Calendar
    */
-  const fetchEvents = React.useCallback(async (silentMode = false) => {
-    if (!isGoogleConnected) {
-      return;
+  const loadEvents = async (): Promise<CalendarEvent[]> => {
+    // Get a valid access token
+    const accessToken = await getValidAccessToken();
+    
+    if (!accessToken) {
+      throw new Error('No valid access token available');
     }
     
+    // Calculate time range (30 days in the past to 30 days in the future)
+    const now = new Date();
+    const timeMin = new Date(now);
+    timeMin.setDate(timeMin.getDate() - 30); // Go back 30 days
+    timeMin.setHours(0, 0, 0, 0);
     
-    try {
-      setIsLoading(true);
-      
-      // Get a valid access token
-      const accessToken = await getValidAccessToken();
+    const timeMax = new Date(now);
+    timeMax.setDate(timeMax.getDate() + 30); // Go forward 30 days
+    timeMax.setHours(23, 59, 59, 999);
+    
+    // Fetch events from all selected calendars
+    const allEvents: CalendarEvent[] = [];
+    
+    for (const calendar of selectedCalendars) {
+      const response = await fetch(
+        `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(calendar.id)}/events?` +
+        new URLSearchParams({
+          timeMin: timeMin.toISOString(),
+          timeMax: timeMax.toISOString(),
+          singleEvents: 'true',
+          orderBy: 'startTime',
+          maxResults: '100'
+        }),
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+          },
+        }
+      );
       
-      if (!accessToken) {
-        throw new Error('No valid access token available');
+      if (response.status === 429) {
+        throw new HttpError(429, 'Google Calendar rate limit reached', parseRetryAfter(response.headers.get('Retry-After')));
       }
-      
-      // Get selected calendars
-      const selectedCalendars = localConfig.calendars?.filter(cal => cal.selected) || [];
-      
-      
-      if (selectedCalendars.length === 0) {
-        setEvents([]);
-        setIsLoading(false);
-        return;
+      if (!response.ok) {
+        console.error(`Failed to fetch events for calendar ${calendar.id}: ${response.statusText}`);
+        continue;
       }
       
-      // Calculate time range (30 days in the past to 30 days in the future)
-      const now = new Date();
-      const timeMin = new Date(now);
-      timeMin.setDate(timeMin.getDate() - 30); // Go back 30 days
-      timeMin.setHours(0, 0, 0, 0);
-      
-      const timeMax = new Date(now);
-      timeMax.setDate(timeMax.getDate() + 30); // Go forward 30 days
-      timeMax.setHours(23, 59, 59, 999);
-      
-      // Fetch events from all selected calendars
-      const allEvents: CalendarEvent[] = [];
+      const data = await response.json();
       
-      for (const calendar of selectedCalendars) {
-        const response = await fetch(
-          `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(calendar.id)}/events?` +
-          new URLSearchParams({
-            timeMin: timeMin.toISOString(),
-            timeMax: timeMax.toISOString(),
-            singleEvents: 'true',
-            orderBy: 'startTime',
-            maxResults: '100'
-          }),
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-            },
-          }
-        );
+      // Convert Google Calendar events to our format
+      const calendarEvents = data.items.map((event: GoogleCalendarEvent) => {
+        // Ensure we have valid date strings before creating Date objects
+        const startDateTime = event.start.dateTime || event.start.date;
+        const endDateTime = event.end.dateTime || event.end.date;
         
-        if (!response.ok) {
-          console.error(`Failed to fetch events for calendar ${calendar.id}: ${response.statusText}`);
-          continue;
+        if (!startDateTime || !endDateTime) {
+          console.error('Invalid event dates:', event);
+          return null;
         }
         
-        const data = await response.json();
+        const start = new Date(startDateTime);
+        const end = new Date(endDateTime);
+        const isAllDay = !event.start.dateTime;
         
-        // Convert Google Calendar events to our format
-        const calendarEvents = data.items.map((event: GoogleCalendarEvent) => {
-          // Ensure we have valid date strings before creating Date objects
-          const startDateTime = event.start.dateTime || event.start.date;
-          const endDateTime = event.end.dateTime || event.end.date;
-          
-          if (!startDateTime || !endDateTime) {
-            console.error('Invalid event dates:', event);
-            return null;
-          }
-          
-          const start = new Date(startDateTime);
-          const end = new Date(endDateTime);
-          const isAllDay = !event.start.dateTime;
+        // Format time string
+        let timeString = '';
+        if (isAllDay) {
+          timeString = 'All day';
+        } else {
+          timeString = start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
           
-          // Format time string
-          let timeString = '';
-          if (isAllDay) {
-            timeString = 'All day';
-          } else {
-            timeString = start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
-            
-            // Add end time if on same day
-            if (start.toDateString() === end.toDateString()) {
-              timeString += ' - ' + end.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
-            }
+          // Add end time if on same day
+          if (start.toDateString() === end.toDateString()) {
+            timeString += ' - ' + end.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
           }
-          
-          return {
-            id: event.id,
-            title: event.summary || 'Untitled Event',
-            start,
-            end,
-            allDay: isAllDay,
-            location: event.location || '',
-            description: event.description || '',
-            color: calendar.color,
-            time: timeString
-          };
-        }).filter((event: CalendarEvent | null): event is CalendarEvent => event !== null);
-        
-        allEvents.push(...calendarEvents);
-      }
-      
-      // Sort events by start time
-      allEvents.sort((a, b) => {
-        if (a.start && b.start) {
-          return new Date(a.start).getTime() - new Date(b.start).getTime();
         }
-        return 0;
-      });
+        
+        return {
+          id: event.id,
+          title: event.summary || 'Untitled Event',
+          start,
+          end,
+          allDay: isAllDay,
+          location: event.location || '',
+          description: event.description || '',
+          color: calendar.color,
+          time: timeString
+        };
+      }).filter((event: CalendarEvent | null): event is CalendarEvent => event !== null);
       
-      setEvents(allEvents);
-      setIsLoading(false);
-    } catch (err) {
-      if (!silentMode) console.error('Failed to fetch events', err);
-      setIsLoading(false);
+      allEvents.push(...calendarEvents);
     }
-  }, [isGoogleConnected, localConfig.calendars, getValidAccessToken])
+    
+    // Sort events by start time
+    allEvents.sort((a, b) => {
+      if (a.start && b.start) {
+        return new Date(a.start).getTime() - new Date(b.start).getTime();
+      }
+      return 0;
+    });
+    
+    return allEvents;
+  };
+
+  // Events are refreshed every 5 minutes and when the tab comes back into view
+  const {
+    data: loadedEvents,
+    error: eventsError,
+    isFetching,
+    updatedAt,
+    refresh
+  } = useQuery(
+    isGoogleConnected && selectedCalendars.length > 0
+      ? `calendar-events:${localConfig.id || 'default'}:${selectedCalendars.map(cal => `${cal.id} ${cal.color}`).join(',')}`
+      : null,
+    loadEvents,
+    { refreshInterval: 300000 }
+  );
+  const events = isGoogleConnected && selectedCalendars.length > 0 ? loadedEvents ?? NO_EVENTS : NO_EVENTS;
+
+  // Make the loaded events findable from the command palette
+  const searchItems = React.useMemo(() => events.map(event => ({
+    text: event.title,
+    detail: event.start ? new Date(event.start).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: event.allDay ? undefined : 'short' }) : undefined
+  })), [events])
+  useWidgetSearchItems(config?.id, searchItems)
   
   /**
    * Fetches the user's calendars from Google Calendar API
@@ -485,7 +529,7 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
    */
   const connectGoogleCalendar = React.useCallback(async () => {
     try {
-      setIsLoading(true);
+      setIsConnecting(true);
       
       // Generate and store state parameter to prevent CSRF attacks
       const state = generateStateParam();
@@ -506,7 +550,7 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
       
     } catch (err) {
       console.error('Failed to connect to Google Calendar', err);
-      setIsLoading(false);
+      setIsConnecting(false);
     }
   }, [GOOGLE_CLIENT_ID, GOOGLE_REDIRECT_URI, GOOGLE_SCOPES]);
   
@@ -575,19 +619,16 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
         calendars: calendars,
       });
 
-      // Fetch initial events
-      fetchEvents();
-
-      setIsLoading(false);
+      setIsConnecting(false);
     } catch (err) {
       console.error('Failed to handle OAuth callback', err);
       toast.error('Failed to connect Google Calendar', {
         description: 'Please try connecting again.',
         duration: 5000,
       });
-      setIsLoading(false);
+      setIsConnecting(false);
     }
-  }, [localConfig, fetchEvents, updateConfig, OAUTH_EXCHANGE_URL, GOOGLE_REDIRECT_URI]);
+  }, [localConfig, updateConfig, OAUTH_EXCHANGE_URL, GOOGLE_REDIRECT_URI]);
   
   // Check for OAuth callback - params are stored in sessionStorage by App.tsx
   useEffect(() => {
@@ -609,13 +650,13 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
       sessionStorage.removeItem('googleOAuthState');
 
       // Process the OAuth callback with timeout protection
-      setIsLoading(true);
+      setIsConnecting(true);
 
       // Set a timeout to prevent infinite loading state
       const timeoutId = setTimeout(() => {
         if (oauthProcessingRef.current) {
           oauthProcessingRef.current = false;
-          setIsLoading(false);
+          setIsConnecting(false);
           toast.error('Connection timed out', {
             description: 'Please try connecting again.',
             duration: 5000,
@@ -630,9 +671,6 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
     }
   }, [handleOAuthCallback]);
   
-  // Ref to track initial run state to avoid excessive logging and token checks
-  const isInitialRun = useRef(true);
-
   // Update the initialization code to check both localStorage and configuration
   useEffect(() => {
     // Don't run the check until the component is fully initialized
@@ -675,12 +713,6 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
                 }
               }
             }
-            
-            // Only fetch events on initial run or if explicitly needed
-            if (isInitialRun.current) {
-              // Use silent mode to reduce console noise
-              fetchEvents(true);
-            }
           } catch (err) {
             console.error('Failed to validate tokens', err);
             toast.error('Google Calendar disconnected', {
@@ -700,17 +732,9 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
       } catch (err) {
         console.error('Error checking tokens:', err);
       }
-      
-      // Mark initialization as complete
-      isInitialRun.current = false;
     };
     
     checkTokens();
-    
-    // Return cleanup function
-    return () => {
-      isInitialRun.current = false;
-    };
   }, [localConfig?.id, getTokenKeys, getValidAccessToken, fetchCalendars, disconnectGoogleCalendar]); // Include necessary dependencies, but not ones that change frequently
   
   // Update date every minute
@@ -722,20 +746,6 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
     return () => clearInterval(timer)
   }, [])
   
-  // Initial fetch when connection state changes
-  useEffect(() => {
-    if (!isGoogleConnected) return;
-    fetchEvents(true);
-  }, [isGoogleConnected, fetchEvents]);
-
-  // Auto-refresh when tab becomes visible or every 5 minutes
-  useVisibilityRefresh({
-    onRefresh: () => fetchEvents(true),
-    minHiddenTime: 60000, // Refresh if hidden for 1+ minute
-    refreshInterval: 300000, // Refresh every 5 minutes
-    enabled: isGoogleConnected
-  });
-
   // Scroll the week sidebar to show the selected date (or today if in view)
   useEffect(() => {
     // Small delay to ensure DOM is fully rendered
@@ -895,6 +905,7 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
               sortedEvents.map((event, index) => (
                 <div 
                   key={`event-${index}`}
+                  {...getEventLinkProps(event)}
                   className="p-2 rounded-lg bg-blue-50 dark:bg-blue-900 dark:bg-opacity-20 border border-blue-100 dark:border-blue-800 flex items-start"
                 >
                   <div className="w-12 flex-shrink-0 text-blue-500 text-2xs font-medium mr-1">
@@ -1409,6 +1420,7 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
                           dayEvents.map((event, eventIndex) => (
                             <div 
                               key={eventIndex}
+                              {...getEventLinkProps(event)}
                               className="text-xs p-2 bg-blue-50 dark:bg-blue-900 dark:bg-opacity-20 rounded border border-blue-100 dark:border-blue-800 flex items-start overflow-hidden"
                             >
                               <div className="w-12 flex-shrink-0 text-blue-500 text-2xs font-medium mr-1">
@@ -1464,6 +1476,16 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
             </SelectContent>
           </Select>
         </div>
+
+        <WidgetLinkSelect
+          event="start-countdown"
+          widgetId={localConfig.id}
+          links={localConfig.widgetLinks}
+          onChange={(widgetLinks) => setLocalConfig({...localConfig, widgetLinks})}
+          label="Clicking an event"
+          noneLabel="Does nothing"
+          description="Link a Countdown widget to count down to the event you click."
+        />
         
         <div className="pt-4">
           <h3 className="text-sm font-medium mb-3">Google Calendar</h3>
@@ -1484,7 +1506,7 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
                   variant="ghost"
                   className="text-red-500 hover:text-red-700 dark:hover:text-red-400"
                   onClick={disconnectGoogleCalendar}
-                  disabled={isLoading}
+                  disabled={isConnecting}
                 >
                   Disconnect
                 </Button>
@@ -1528,9 +1550,9 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
                 variant="default"
                 className="w-full"
                 onClick={connectGoogleCalendar}
-                disabled={isLoading}
+                disabled={isConnecting}
               >
-                {isLoading ? (
+                {isConnecting ? (
                   <>
                     <Loader2 size={16} className="mr-2 animate-spin" />
                     Connecting...
@@ -1639,7 +1661,9 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ width = 2, height = 2,
       <WidgetHeader 
         title="Calendar" 
         onSettingsClick={() => setIsSettingsOpen(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={eventsError} onRefresh={refresh} />
+      </WidgetHeader>
       
       <div className="flex-1 overflow-hidden p-2">
         {renderContent()}
@@ -1,4 +1,5 @@
 import { WidgetProps } from '@/types';
+import { WidgetLinks } from '@/lib/widgetEvents';
 
 /**
  * Represents a calendar event
@@ -53,6 +54,7 @@ export interface CalendarSource {
  * @property {boolean} [showWeekNumbers] - Whether to show week numbers
  * @property {boolean} [googleCalendarConnected] - Whether Google Calendar is connected
  * @property {CalendarSource[]} [calendars] - Connected calendar sources
+ * @property {WidgetLinks} [widgetLinks] - Countdown widget that clicked events start
  */
 export interface CalendarWidgetConfig {
   id?: string;
@@ -62,6 +64,7 @@ export interface CalendarWidgetConfig {
   showWeekNumbers?: boolean;
   googleCalendarConnected?: boolean;
   calendars?: CalendarSource[];
+  widgetLinks?: WidgetLinks;
   onUpdate?: (config: CalendarWidgetConfig) => void;
   [key: string]: unknown; // Index signature to satisfy Record<string, unknown>
 }
@@ -9,19 +9,13 @@ import {
   Container
 } from 'lucide-react';
 
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogFooter
-} from '../../ui/dialog';
 import { Button } from '../../ui/button';
-import { Label } from '../../ui/label';
-import { Input } from '../../ui/input';
-import { Checkbox } from '../../ui/checkbox';
 import { ScrollArea } from '../../ui/scroll-area';
 import WidgetHeader from '../common/WidgetHeader';
+import WidgetSettingsDialog from '../common/WidgetSettingsDialog';
+import { getSettingsDefaults } from '../common/settingsSchema';
+import { coolifySettingsSchema } from './settings';
+import { fetchWithCredential } from '@/lib/credentialVault';
 import { 
   CoolifyWidgetProps, 
   CoolifyWidgetConfig, 
@@ -30,12 +24,10 @@ import {
 } from './types';
 
 const CoolifyWidget: React.FC<CoolifyWidgetProps> = ({ width: _width, height: _height, config }) => {
-  const defaultConfig: CoolifyWidgetConfig = {
-    title: 'Coolify Status',
-    apiEndpoint: '/api/coolify/v1',
-    bearerToken: 'jmUZ9TZI6UbymEvWA9l2xVX5vsbL9vzc8mrRc95E7562f211',
-    showDockerInfo: true
-  };
+  const defaultConfig = {
+    bearerToken: '',
+    ...getSettingsDefaults(coolifySettingsSchema)
+  } as CoolifyWidgetConfig;
 
   const [showSettings, setShowSettings] = useState(false);
   const [localConfig, setLocalConfig] = useState<CoolifyWidgetConfig>({
@@ -56,18 +48,25 @@ const CoolifyWidget: React.FC<CoolifyWidgetProps> = ({ width: _width, height: _h
 
   const fetchData = useCallback(async () => {
     if (isRefreshing) return;
+    if (!localConfig.credentialId && !localConfig.bearerToken) {
+      setError('Bearer token not configured');
+      return;
+    }
     setIsRefreshing(true);
     setError(null);
     
     try {
       const endpoint = localConfig.apiEndpoint.replace(/\/$/, '');
+      const auth = {
+        credentialId: localConfig.credentialId,
+        authorization: `Bearer ${localConfig.bearerToken}`
+      };
       const headers = {
-        'Authorization': `Bearer ${localConfig.bearerToken}`,
         'Accept': 'application/json'
       };
 
       // 1. Fetch Servers
-      const serversResponse = await fetch(`${endpoint}/servers`, { headers });
+      const serversResponse = await fetchWithCredential(`${endpoint}/servers`, auth, { headers });
       
       if (!serversResponse.ok) {
         throw new Error(`Coolify API error: ${serversResponse.status} ${serversResponse.statusText}`);
@@ -79,7 +78,7 @@ const CoolifyWidget: React.FC<CoolifyWidgetProps> = ({ width: _width, height: _h
       const enhancedServers = await Promise.all(serversData.map(async (server) => {
         if (localConfig.showDockerInfo) {
           try {
-            const resourcesResponse = await fetch(`${endpoint}/servers/${server.uuid}/resources`, { headers });
+            const resourcesResponse = await fetchWithCredential(`${endpoint}/servers/${server.uuid}/resources`, auth, { headers });
             if (resourcesResponse.ok) {
               const resources: CoolifyResource[] = await resourcesResponse.json();
               return { ...server, resources };
@@ -109,11 +108,12 @@ const CoolifyWidget: React.FC<CoolifyWidgetProps> = ({ width: _width, height: _h
     return () => clearInterval(intervalId);
   }, [fetchData]);
 
-  const saveSettings = () => {
+  const saveSettings = (values: Record<string, unknown>) => {
+    const newConfig = { ...localConfig, ...values };
+    setLocalConfig(newConfig);
     if (config?.onUpdate) {
-      config.onUpdate(localConfig);
+      config.onUpdate(newConfig);
     }
-    setShowSettings(false);
   };
 
   const renderContent = () => {
@@ -225,75 +225,17 @@ const CoolifyWidget: React.FC<CoolifyWidgetProps> = ({ width: _width, height: _h
     );
   };
 
-  const renderSettings = () => {
-    return (
-      <Dialog open={showSettings} onOpenChange={setShowSettings}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle>Coolify Monitor Settings</DialogTitle>
-          </DialogHeader>
-          
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="title">Widget Title</Label>
-              <Input
-                id="title"
-                value={localConfig.title}
-                onChange={(e) => setLocalConfig({ ...localConfig, title: e.target.value })}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="api">API Endpoint</Label>
-              <Input
-                id="api"
-                value={localConfig.apiEndpoint}
-                onChange={(e) => setLocalConfig({ ...localConfig, apiEndpoint: e.target.value })}
-                placeholder="https://app.coolify.io/api/v1"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="token">Bearer Token</Label>
-              <Input
-                id="token"
-                type="password"
-                value={localConfig.bearerToken}
-                onChange={(e) => setLocalConfig({ ...localConfig, bearerToken: e.target.value })}
-              />
-            </div>
-
-            <div className="flex items-center space-x-2">
-              <Checkbox 
-                id="dockerInfo" 
-                checked={localConfig.showDockerInfo}
-                onCheckedChange={(checked) => 
-                  setLocalConfig({ ...localConfig, showDockerInfo: checked === true })
-                }
-              />
-              <Label htmlFor="dockerInfo" className="text-sm font-medium leading-none cursor-pointer">
-                Include Docker information (Resources)
-              </Label>
-            </div>
-          </div>
-          
-          <DialogFooter>
-            <div className="flex justify-between w-full">
-              {config?.onDelete && (
-                <Button
-                  variant="destructive"
-                  onClick={() => config.onDelete?.()}
-                >
-                  Delete
-                </Button>
-              )}
-              <Button onClick={saveSettings}>Save</Button>
-            </div>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-    );
-  };
+  const renderSettings = () => (
+    <WidgetSettingsDialog
+      open={showSettings}
+      onOpenChange={setShowSettings}
+      title="Coolify Monitor Settings"
+      schema={coolifySettingsSchema}
+      config={localConfig}
+      onSave={saveSettings}
+      onDelete={config?.onDelete}
+    />
+  );
 
   return (
     <div className="widget-container h-full flex flex-col">
@@ -0,0 +1,46 @@
+import { WidgetSettingsSchema } from '../common/settingsSchema';
+
+/**
+ * Settings form for the Coolify monitor widget
+ */
+export const coolifySettingsSchema: WidgetSettingsSchema = {
+  fields: [
+    {
+      key: 'title',
+      type: 'text',
+      label: 'Widget Title',
+      default: 'Coolify Status',
+      maxLength: 50,
+    },
+    {
+      key: 'apiEndpoint',
+      type: 'url',
+      label: 'API Endpoint',
+      placeholder: 'https://app.coolify.io/api/v1',
+      default: '/api/coolify/v1',
+      required: true,
+    },
+    {
+      key: 'credentialId',
+      type: 'credential',
+      label: 'Token Source',
+      default: '',
+      replaces: ['bearerToken'],
+    },
+    {
+      key: 'bearerToken',
+      type: 'password',
+      label: 'Bearer Token',
+      description: 'Create an API token in Coolify under Keys & Tokens',
+      required: true,
+      sensitive: true,
+      visibleWhen: { field: 'credentialId', equals: '' },
+    },
+    {
+      key: 'showDockerInfo',
+      type: 'boolean',
+      label: 'Include Docker information (Resources)',
+      default: true,
+    },
+  ],
+};
@@ -4,6 +4,8 @@ export interface CoolifyWidgetConfig {
   title?: string;
   apiEndpoint: string;
   bearerToken: string;
+  /** Vault credential used instead of bearerToken */
+  credentialId?: string;
   showDockerInfo: boolean;
   [key: string]: unknown;
 }
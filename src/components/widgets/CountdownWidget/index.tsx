@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Calendar as CalendarIcon, Clock } from 'lucide-react';
 import { format } from 'date-fns';
 import {
@@ -15,6 +15,8 @@ import { Switch } from '../../ui/switch';
 import { Calendar } from '../../ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '../../ui/popover';
 import WidgetHeader from '../common/WidgetHeader';
+import { useWidgetEvent } from '@/lib/useWidgetEvents';
+import { notificationService } from '@/lib/notifications';
 import type { CountdownWidgetProps, TimeRemaining } from './types';
 
 const CountdownWidget: React.FC<CountdownWidgetProps> = ({ width, height, config }) => {
@@ -47,6 +49,18 @@ const CountdownWidget: React.FC<CountdownWidgetProps> = ({ width, height, config
   });
   const [calendarOpen, setCalendarOpen] = useState(false);
 
+  // Latest alert details for the timer below, which only restarts when the date changes
+  const notifyReachedRef = useRef<() => void>(() => undefined);
+  useEffect(() => {
+    notifyReachedRef.current = () => notificationService.notify({
+      widgetId: config?.id,
+      source: config?.title || 'Countdown',
+      title: eventName ? `${eventName} is here` : 'Countdown finished',
+      severity: 'info',
+      sound: true
+    });
+  });
+
   // Calculate time remaining
   useEffect(() => {
     if (!targetDate) {
@@ -54,12 +68,19 @@ const CountdownWidget: React.FC<CountdownWidgetProps> = ({ width, height, config
       return;
     }
 
+    // Only alert when the countdown runs out while shown, not for dates already past
+    let isCounting = false;
+
     const calculateTimeRemaining = () => {
       const now = new Date().getTime();
       const target = new Date(targetDate).getTime();
       const difference = target - now;
 
       if (difference <= 0) {
+        if (isCounting) {
+          isCounting = false;
+          notifyReachedRef.current();
+        }
         setTimeRemaining({
           days: 0,
           hours: 0,
@@ -75,6 +96,7 @@ const CountdownWidget: React.FC<CountdownWidgetProps> = ({ width, height, config
       const minutes = Math.floor((difference % (1000 * 60 * 60)) / (1000 * 60));
       const seconds = Math.floor((difference % (1000 * 60)) / 1000);
 
+      isCounting = true;
       setTimeRemaining({ days, hours, minutes, seconds, isPast: false });
     };
 
@@ -84,6 +106,20 @@ const CountdownWidget: React.FC<CountdownWidgetProps> = ({ width, height, config
     return () => clearInterval(interval);
   }, [targetDate]);
 
+  // Count down to events sent by linked widgets, e.g. a Calendar event
+  useWidgetEvent('start-countdown', config?.id, config?.title || 'Countdown', ({ title, targetDate: newTargetDate }) => {
+    const date = new Date(newTargetDate);
+    if (isNaN(date.getTime())) return;
+
+    setTargetDate(date.toISOString());
+    setEventName(title);
+    setInputEventName(title);
+    setSelectedDate(date);
+    setSelectedHour(date.getHours().toString().padStart(2, '0'));
+    setSelectedMinute(date.getMinutes().toString().padStart(2, '0'));
+    config?.onUpdate?.({ ...config, targetDate: date.toISOString(), eventName: title });
+  });
+
   // Save settings
   const handleSave = () => {
     // Combine date and time into ISO string
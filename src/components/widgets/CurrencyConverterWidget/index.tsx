@@ -8,6 +8,9 @@ import {
 } from '../../ui/dialog';
 import { Input } from '@/components/ui/input';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
+import { useQuery } from '@/lib/useQuery';
+import { getRequestCache, HttpError, parseRetryAfter, QueryContext } from '@/lib/queryCache';
 import { Button } from '../../ui/button';
 import { Label } from '../../ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
@@ -157,76 +160,49 @@ const POPULAR_CURRENCIES = [
   'KRW', 'SGD', 'NOK', 'MXN', 'INR', 'RUB', 'ZAR', 'TRY', 'BRL', 'TWD'
 ];
 
-// Custom hook for fetching exchange rates - now uses free Frankfurter API (no key needed)
+const NO_RATES: { [key: string]: number } = {};
+
+/**
+ * Load exchange rates for a base currency through our server-side proxy
+ */
+const fetchRates = async (baseCurrency: string, context: QueryContext): Promise<{ [key: string]: number }> => {
+  const response = await fetch(`/api/currency?base=${baseCurrency}`, { cache: getRequestCache(context) });
+
+  if (!response.ok) {
+    const message = response.status === 429
+      ? 'Rate limit exceeded. Please try again later.'
+      : `API error: ${response.status} ${response.statusText}`;
+    throw new HttpError(response.status, message, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+
+  const data = await response.json();
+
+  // Check if we have rates in the response
+  if (!data.rates) {
+    throw new Error('Invalid response from API. Please try again.');
+  }
+  return data.rates;
+};
+
+// Exchange rates from the free Frankfurter API (no key needed), shared by widgets with the same base currency
 const useExchangeRates = (baseCurrency: string = 'USD', autoRefresh: boolean = false, refreshInterval: number = 60) => {
-  const [rates, setRates] = React.useState<{[key: string]: number}>({});
-  const [loading, setLoading] = React.useState<boolean>(false);
-  const [error, setError] = React.useState<string | null>(null);
-  const [lastUpdated, setLastUpdated] = React.useState<Date | null>(null);
-
-  // More robust fetchRates function with better error handling and debugging
-  const fetchRates = React.useCallback(async () => {
-    // Clear previous errors when starting a new fetch
-    setError(null);
-    setLoading(true);
-
-    try {
-      // Use our server-side proxy for currency rates (no API key needed)
-      const url = `/api/currency?base=${baseCurrency}`;
-
-      const response = await fetch(url);
-
-      // Check if the response is OK
-      if (!response.ok) {
-        if (response.status === 429) {
-          setError('Rate limit exceeded. Please try again later.');
-        } else {
-          setError(`API error: ${response.status} ${response.statusText}`);
-        }
-        setLoading(false);
-        return;
-      }
-
-      const data = await response.json();
-
-      // Check if we have rates in the response
-      if (!data.rates) {
-        setError('Invalid response from API. Please try again.');
-        setLoading(false);
-        return;
-      }
-      setRates(data.rates);
-      setLastUpdated(new Date());
-      setError(null);
-    } catch {
-      setError('Failed to fetch rates. Check your connection and try again.');
-    } finally {
-      setLoading(false);
-    }
-  }, [baseCurrency]);
-
-  // Initial fetch when base currency changes
-  React.useEffect(() => {
-    fetchRates();
-  }, [baseCurrency, fetchRates]);
-  
-  // Auto-refresh
-  React.useEffect(() => {
-    if (!autoRefresh) return;
-
-    const intervalId = setInterval(() => {
-      fetchRates();
-    }, refreshInterval * 60 * 1000);
-
-    return () => clearInterval(intervalId);
-  }, [autoRefresh, refreshInterval, fetchRates]);
-  
-  return { 
-    rates, 
-    loading, 
-    error, 
-    lastUpdated,
-    refetch: fetchRates
+  const { data, error, isLoading, isFetching, updatedAt, refresh } = useQuery(
+    `currency-rates:${baseCurrency}`,
+    context => fetchRates(baseCurrency, context),
+    { refreshInterval: autoRefresh ? refreshInterval * 60 * 1000 : 0 }
+  );
+
+  return {
+    rates: data ?? NO_RATES,
+    loading: isLoading,
+    isFetching,
+    // Older rates stay usable when a refresh fails
+    error: error && !data
+      ? error instanceof HttpError ? error.message : 'Failed to fetch rates. Check your connection and try again.'
+      : null,
+    fetchError: error,
+    updatedAt,
+    refetch: refresh
   };
 };
 
@@ -267,7 +243,7 @@ const CurrencyConverterWidget: React.FC<CurrencyConverterWidgetProps> = ({ width
   });
 
   // Use exchange rates hook - no API key needed anymore
-  const { rates, loading, error, refetch } = useExchangeRates(
+  const { rates, loading, isFetching, error, fetchError, updatedAt, refetch } = useExchangeRates(
     localConfig.baseCurrency,
     localConfig.autoRefresh,
     localConfig.refreshInterval
@@ -287,9 +263,7 @@ const CurrencyConverterWidget: React.FC<CurrencyConverterWidgetProps> = ({ width
 
     setShowSettings(false);
     // Refetch with new settings
-    setTimeout(() => {
-      refetch();
-    }, 500);
+    void refetch();
   };
 
   // Handle widget deletion
@@ -722,7 +696,9 @@ const CurrencyConverterWidget: React.FC<CurrencyConverterWidgetProps> = ({ width
       <WidgetHeader 
         title={localConfig.title || 'Currency Converter'} 
         onSettingsClick={() => setShowSettings(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={fetchError} onRefresh={refetch} />
+      </WidgetHeader>
       
       <div className="flex-grow overflow-hidden">
         {error ? (
@@ -737,7 +713,7 @@ const CurrencyConverterWidget: React.FC<CurrencyConverterWidgetProps> = ({ width
             {/* Consistent button styling */}
             <Button
               size="sm"
-              onClick={refetch}
+              onClick={() => void refetch()}
             >
               Retry
             </Button>
@@ -12,7 +12,7 @@ import { Input } from '../../ui/input';
 import { Label } from '../../ui/label';
 import { Switch } from '../../ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../ui/tabs';
-import { AlertCircle, Calendar } from 'lucide-react';
+import { AlertCircle, Calendar, Globe, X } from 'lucide-react';
 import {
   addDays,
   endOfDay,
@@ -22,6 +22,22 @@ import {
   startOfDay,
 } from 'date-fns';
 import type { DailyScheduleEvent, DailyScheduleWidgetConfig, DailyScheduleWidgetProps } from './types';
+import { useWidgetEvent } from '@/lib/useWidgetEvents';
+import { useWidgetSearchItems } from '@/lib/useWidgetSearchItems';
+import { fetchThroughProxy, ProxyHostError } from '@/lib/proxy';
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar day of a date in a timezone, as yyyy-mm-dd
+const getDayKey = (date: Date, timeZone?: string): string =>
+  new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone }).format(date);
 
 const unfoldIcs = (raw: string): string => {
   // RFC 5545: lines may be folded by inserting CRLF followed by a single space or tab.
@@ -233,6 +249,13 @@ const DailyScheduleWidget: React.FC<DailyScheduleWidgetProps> = ({ config }) =>
 
   const widgetRef = useRef<HTMLDivElement | null>(null);
 
+  // Make the loaded meetings findable from the command palette
+  const searchItems = useMemo(
+    () => events.map((ev) => ({ text: ev.summary || 'Untitled meeting', detail: format(ev.start, ev.allDay ? 'PP' : 'PP p') })),
+    [events],
+  );
+  useWidgetSearchItems(config?.id, searchItems);
+
   useEffect(() => {
     setLocalConfig((prev) => ({
       ...prev,
@@ -240,6 +263,22 @@ const DailyScheduleWidget: React.FC<DailyScheduleWidgetProps> = ({ config }) =>
     }));
   }, [config]);
 
+  // Show times in the timezone of a clock clicked in a linked widget
+  useWidgetEvent('select-timezone', config?.id, localConfig.title || 'Daily Schedule', ({ timezone, name }) => {
+    if (!isValidTimeZone(timezone)) return;
+    const updatedConfig = { ...localConfig, timezone, timezoneName: name };
+    setLocalConfig(updatedConfig);
+    config?.onUpdate?.(updatedConfig);
+  });
+
+  const clearTimezone = () => {
+    const updatedConfig = { ...localConfig, timezone: undefined, timezoneName: undefined };
+    setLocalConfig(updatedConfig);
+    config?.onUpdate?.(updatedConfig);
+  };
+
+  const timeZone = localConfig.timezone && isValidTimeZone(localConfig.timezone) ? localConfig.timezone : undefined;
+
   const fetchIcs = React.useCallback(async (configToUse?: DailyScheduleWidgetConfig) => {
     const cfg = configToUse ?? localConfig;
 
@@ -254,13 +293,7 @@ const DailyScheduleWidget: React.FC<DailyScheduleWidgetProps> = ({ config }) =>
     setError(null);
 
     try {
-      const corsProxy = 'https://api.allorigins.win/raw?url=';
-      const response = await fetch(`${corsProxy}${encodeURIComponent(url)}`);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch ICS: ${response.statusText}`);
-      }
-
+      const response = await fetchThroughProxy(url);
       const text = await response.text();
       const parsed = parseIcsEvents(text);
 
@@ -278,7 +311,7 @@ const DailyScheduleWidget: React.FC<DailyScheduleWidgetProps> = ({ config }) =>
       setIsLoading(false);
     } catch (e) {
       console.error('Error fetching/parsing ICS:', e);
-      setError('Failed to load schedule');
+      setError(e instanceof ProxyHostError ? e.message : 'Failed to load schedule');
       setIsLoading(false);
     }
   }, [localConfig]);
@@ -301,31 +334,38 @@ const DailyScheduleWidget: React.FC<DailyScheduleWidgetProps> = ({ config }) =>
   }, [localConfig.refreshInterval, fetchIcs]);
 
   const groupedByDay = useMemo(() => {
-    const groups = new Map<string, { date: Date; items: DailyScheduleEvent[] }>();
+    const groups = new Map<string, { key: string; date: Date; items: DailyScheduleEvent[] }>();
 
     for (const ev of events) {
-      const day = startOfDay(ev.start);
-      const key = day.toISOString();
+      // All-day events are dates, not moments, so they stay on their own day
+      const key = ev.allDay ? getDayKey(ev.start) : getDayKey(ev.start, timeZone);
       const existing = groups.get(key);
       if (existing) {
         existing.items.push(ev);
       } else {
-        groups.set(key, { date: day, items: [ev] });
+        // Noon UTC falls on the same calendar day in every timezone we format in
+        groups.set(key, { key, date: new Date(`${key}T12:00:00Z`), items: [ev] });
       }
     }
 
     return Array.from(groups.values())
       .map((g) => ({
+        key: g.key,
         date: g.date,
         items: g.items.sort((a, b) => a.start.getTime() - b.start.getTime()),
       }))
-      .sort((a, b) => a.date.getTime() - b.date.getTime());
-  }, [events]);
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }, [events, timeZone]);
+
+  const formatTime = (date: Date): string => {
+    if (!timeZone) return format(date, 'p');
+    return date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit', timeZone });
+  };
 
   const renderTimeRange = (ev: DailyScheduleEvent): string => {
     if (ev.allDay) return 'All day';
-    const startStr = format(ev.start, 'p');
-    const endStr = format(ev.end, 'p');
+    const startStr = formatTime(ev.start);
+    const endStr = formatTime(ev.end);
     return `${startStr} – ${endStr}`;
   };
 
@@ -381,11 +421,27 @@ const DailyScheduleWidget: React.FC<DailyScheduleWidgetProps> = ({ config }) =>
 
     return (
       <div className="h-full overflow-y-auto pr-1">
+        {timeZone && (
+          <div className="flex items-center justify-between gap-2 mb-3 text-xs text-gray-600 dark:text-gray-300">
+            <span className="flex items-center gap-1 min-w-0">
+              <Globe size={12} className="shrink-0" />
+              <span className="truncate">Times in {localConfig.timezoneName || timeZone}</span>
+            </span>
+            <button
+              type="button"
+              onClick={clearTimezone}
+              className="shrink-0 p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+              aria-label="Show times in local timezone"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        )}
         <div className="space-y-4">
           {groupedByDay.map((day) => (
-            <div key={day.date.toISOString()} className="space-y-2">
+            <div key={day.key} className="space-y-2">
               <div className="text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wide">
-                {format(day.date, 'EEE, MMM d')}
+                {day.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })}
               </div>
 
               <div className="space-y-2">
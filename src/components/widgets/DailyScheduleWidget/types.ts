@@ -29,6 +29,12 @@ export interface DailyScheduleWidgetConfig {
   /** Show event description (if present). */
   showDescription?: boolean;
 
+  /** IANA timezone to show times in, set from a linked World Clocks widget. Local time when unset. */
+  timezone?: string;
+
+  /** Display name of the timezone, e.g. the clock's city. */
+  timezoneName?: string;
+
   onUpdate?: (config: DailyScheduleWidgetConfig) => void;
   onDelete?: () => void;
   [key: string]: unknown;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Container, 
   ExternalLink, 
@@ -18,12 +18,16 @@ import { Label } from '../../ui/label';
 import { Input } from '../../ui/input';
 import { ScrollArea } from '../../ui/scroll-area';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
 import { 
   DockerMonitorWidgetProps, 
   DockerMonitorWidgetConfig, 
   DockerContainer, 
   ContainerInfo 
 } from './types';
+import { notificationService } from '@/lib/notifications';
+import { useQuery } from '@/lib/useQuery';
+import { fetchOrThrow } from '@/lib/queryCache';
 
 const KANSO_LABELS = {
   NAME: 'kanso.name',
@@ -31,6 +35,44 @@ const KANSO_LABELS = {
   URL: 'kanso.url'
 };
 
+const parseContainer = (container: DockerContainer): ContainerInfo => {
+  const labels = container.Labels || {};
+  
+  // Default name from Docker (removing leading slash)
+  const dockerName = container.Names && container.Names.length > 0 
+    ? container.Names[0].replace(/^\//, '') 
+    : container.Id.substring(0, 12);
+
+  return {
+    id: container.Id,
+    name: labels[KANSO_LABELS.NAME] || dockerName,
+    description: labels[KANSO_LABELS.DESCRIPTION],
+    url: labels[KANSO_LABELS.URL],
+    isRunning: container.State === 'running',
+    status: container.Status,
+    image: container.Image
+  };
+};
+
+/**
+ * List the containers behind a Docker API endpoint, running ones first
+ */
+const loadContainers = async (endpoint: string): Promise<ContainerInfo[]> => {
+  const response = await fetchOrThrow(`${endpoint}/containers/json?all=1`);
+  const data: DockerContainer[] = await response.json();
+  const parsed = data.map(parseContainer);
+
+  // Sort: running first, then by name
+  parsed.sort((a, b) => {
+    if (a.isRunning && !b.isRunning) return -1;
+    if (!a.isRunning && b.isRunning) return 1;
+    return a.name.localeCompare(b.name);
+  });
+  return parsed;
+};
+
+const NO_CONTAINERS: ContainerInfo[] = [];
+
 const DockerMonitorWidget: React.FC<DockerMonitorWidgetProps> = ({ width: _width, height: _height, config }) => {
   const defaultConfig: DockerMonitorWidgetConfig = {
     title: 'Docker Monitor',
@@ -44,9 +86,8 @@ const DockerMonitorWidget: React.FC<DockerMonitorWidgetProps> = ({ width: _width
     ...config
   });
   
-  const [containers, setContainers] = useState<ContainerInfo[]>([]);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Running state per container at the last fetch, null before the first one
+  const wasRunningRef = useRef<Map<string, boolean> | null>(null);
 
   useEffect(() => {
     setLocalConfig(prev => ({
@@ -55,64 +96,39 @@ const DockerMonitorWidget: React.FC<DockerMonitorWidgetProps> = ({ width: _width
     }));
   }, [config]);
 
-  const parseContainer = (container: DockerContainer): ContainerInfo => {
-    const labels = container.Labels || {};
-    
-    // Default name from Docker (removing leading slash)
-    const dockerName = container.Names && container.Names.length > 0 
-      ? container.Names[0].replace(/^\//, '') 
-      : container.Id.substring(0, 12);
-
-    return {
-      id: container.Id,
-      name: labels[KANSO_LABELS.NAME] || dockerName,
-      description: labels[KANSO_LABELS.DESCRIPTION],
-      url: labels[KANSO_LABELS.URL],
-      isRunning: container.State === 'running',
-      status: container.Status,
-      image: container.Image
-    };
-  };
-
-  const fetchContainers = useCallback(async () => {
-    if (isRefreshing) return;
-    setIsRefreshing(true);
-    setError(null);
-    
-    try {
-      const endpoint = localConfig.apiEndpoint || '/api/docker';
-      const response = await fetch(`${endpoint}/containers/json?all=1`);
-      
-      if (!response.ok) {
-        throw new Error(`Docker API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data: DockerContainer[] = await response.json();
-      const parsed = data.map(parseContainer);
-      
-      // Sort: running first, then by name
-      parsed.sort((a, b) => {
-        if (a.isRunning && !b.isRunning) return -1;
-        if (!a.isRunning && b.isRunning) return 1;
-        return a.name.localeCompare(b.name);
-      });
-      
-      setContainers(parsed);
-    } catch (err) {
-      console.error('Failed to fetch Docker containers:', err);
-      setError(err instanceof Error ? err.message : 'Failed to connect to Docker API');
-    } finally {
-      setIsRefreshing(false);
-    }
-  }, [localConfig.apiEndpoint, isRefreshing]);
+  const endpoint = localConfig.apiEndpoint || '/api/docker';
+  const {
+    data,
+    error,
+    isLoading,
+    isFetching,
+    updatedAt,
+    refresh
+  } = useQuery(
+    `docker-containers:${endpoint}`,
+    () => loadContainers(endpoint),
+    // Keep checking in the background, so stopped containers raise alerts
+    { refreshInterval: localConfig.refreshInterval * 1000, refreshWhileHidden: true }
+  );
+  const containers = data ?? NO_CONTAINERS;
 
-  // Initial fetch and interval
+  // Alert when a container that was running has stopped
   useEffect(() => {
-    fetchContainers();
-    
-    const intervalId = setInterval(fetchContainers, localConfig.refreshInterval * 1000);
-    return () => clearInterval(intervalId);
-  }, [localConfig.refreshInterval, fetchContainers]);
+    if (!data) return;
+    const wasRunning = wasRunningRef.current;
+    if (wasRunning) {
+      data
+        .filter(container => !container.isRunning && wasRunning.get(container.id))
+        .forEach(container => notificationService.notify({
+          widgetId: config?.id,
+          source: config?.title || 'Docker Monitor',
+          title: `${container.name} stopped`,
+          body: container.status,
+          severity: 'warning'
+        }));
+    }
+    wasRunningRef.current = new Map(data.map(container => [container.id, container.isRunning]));
+  }, [data, config?.id, config?.title]);
 
   const saveSettings = () => {
     if (config?.onUpdate) {
@@ -122,16 +138,17 @@ const DockerMonitorWidget: React.FC<DockerMonitorWidgetProps> = ({ width: _width
   };
 
   const renderContent = () => {
-    if (error) {
+    // Containers from the last fetch stay listed when a refresh fails
+    if (error && !data) {
       return (
         <div className="flex flex-col items-center justify-center h-full text-center px-4">
           <AlertTriangle className="h-8 w-8 text-yellow-500 mb-2" />
           <p className="text-xs font-medium text-destructive mb-1">Connection Error</p>
-          <p className="text-[10px] text-muted-foreground mb-3">{error}</p>
+          <p className="text-[10px] text-muted-foreground mb-3">{error.message}</p>
           <Button 
             variant="outline" 
             size="sm" 
-            onClick={() => fetchContainers()}
+            onClick={() => void refresh()}
             className="h-8 text-xs"
           >
             <RefreshCw className="h-3 w-3 mr-2" />
@@ -141,7 +158,7 @@ const DockerMonitorWidget: React.FC<DockerMonitorWidgetProps> = ({ width: _width
       );
     }
 
-    if (containers.length === 0 && !isRefreshing) {
+    if (containers.length === 0 && !isLoading) {
       return (
         <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
           <Layers className="h-8 w-8 mb-2 opacity-20" />
@@ -293,15 +310,12 @@ const DockerMonitorWidget: React.FC<DockerMonitorWidgetProps> = ({ width: _width
       <WidgetHeader 
         title={localConfig.title || 'Docker Monitor'} 
         onSettingsClick={() => setShowSettings(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={error} onRefresh={refresh} />
+      </WidgetHeader>
       
-      <div className="flex-grow p-4 overflow-hidden relative">
+      <div className="flex-grow p-4 overflow-hidden">
         {renderContent()}
-        {isRefreshing && (
-          <div className="absolute top-1 right-1">
-            <RefreshCw className="h-2 w-2 animate-spin text-muted-foreground opacity-30" />
-          </div>
-        )}
       </div>
       
       {renderSettings()}
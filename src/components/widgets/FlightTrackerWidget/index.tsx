@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Plane, RefreshCw, AlertCircle, CalendarIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import {
@@ -14,7 +14,11 @@ import { Label } from '../../ui/label';
 import { Calendar } from '../../ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '../../ui/popover';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
 import type { FlightTrackerWidgetProps } from './types';
+import { notificationService } from '@/lib/notifications';
+import { useQuery } from '@/lib/useQuery';
+import { HttpError, parseRetryAfter } from '@/lib/queryCache';
 
 // Flight data interface from AirLabs API
 interface FlightData {
@@ -47,55 +51,69 @@ interface FlightData {
   progress: number;
 }
 
+/**
+ * Look up a flight, on a given date if one is set
+ *
+ * @returns The flight, or null when there's no such flight
+ */
+const loadFlight = async (flight: string, date?: string): Promise<FlightData | null> => {
+  const params = new URLSearchParams({ flight_iata: flight.toUpperCase() });
+  if (date) {
+    params.append('flight_date', date);
+  }
+  const response = await fetch(`/api/flights?${params.toString()}`);
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new HttpError(
+      response.status,
+      result.message || 'Failed to fetch flight',
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+
+  return result.data ?? null;
+};
+
 const FlightTrackerWidget: React.FC<FlightTrackerWidgetProps> = ({ config }) => {
   const [showSettings, setShowSettings] = useState(false);
   const [flightNumber, setFlightNumber] = useState(config?.flightNumber || '');
   const [flightDate, setFlightDate] = useState(config?.flightDate || new Date().toISOString().split('T')[0]);
   const [inputValue, setInputValue] = useState(config?.flightNumber || '');
   const [inputDate, setInputDate] = useState(config?.flightDate || new Date().toISOString().split('T')[0]);
-  const [flightData, setFlightData] = useState<FlightData | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Fetch flight data
-  const fetchFlight = useCallback(async (flight: string, date?: string) => {
-    if (!flight) return;
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const params = new URLSearchParams({ flight_iata: flight.toUpperCase() });
-      if (date) {
-        params.append('flight_date', date);
-      }
-      const response = await fetch(`/api/flights?${params.toString()}`);
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.message || 'Failed to fetch flight');
-      }
-
-      if (!result.data) {
-        setError('Flight not found');
-        setFlightData(null);
-      } else {
-        setFlightData(result.data);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch flight');
-      setFlightData(null);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
 
-  // Fetch on mount if flight number is configured
+  const {
+    data,
+    error: fetchError,
+    isLoading,
+    isFetching,
+    updatedAt,
+    refresh
+  } = useQuery(
+    flightNumber ? `flight:${flightNumber.toUpperCase()}:${flightDate}` : null,
+    () => loadFlight(flightNumber, flightDate)
+  );
+  const flightData = data ?? null;
+  const error = fetchError?.message ?? (data === null ? 'Flight not found' : null);
+
+  // Alert when a refresh shows a new status for the same flight
+  const lastStatusRef = useRef<{ flight: string; status: string } | null>(null);
   useEffect(() => {
-    if (flightNumber) {
-      fetchFlight(flightNumber, flightDate);
+    if (!flightData) return;
+    const flight = `${flightData.flight_iata} ${flightDate}`;
+    const previous = lastStatusRef.current;
+    lastStatusRef.current = { flight, status: flightData.status };
+    if (previous?.flight === flight && previous.status !== flightData.status) {
+      notificationService.notify({
+        widgetId: config?.id,
+        source: config?.title || 'Flight Tracker',
+        title: `${flightData.flight_iata} is now ${flightData.status}`,
+        body: `${flightData.departure.iata} → ${flightData.arrival.iata}, was ${previous.status}`,
+        severity: flightData.status?.toLowerCase() === 'cancelled' ? 'error' : 'info'
+      });
     }
-  }, [flightNumber, flightDate, fetchFlight]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flightData]);
 
   // Format time from "2025-12-27 19:50" to "19:50"
   const formatTime = (dateStr: string | null | undefined) => {
@@ -126,9 +144,6 @@ const FlightTrackerWidget: React.FC<FlightTrackerWidgetProps> = ({ config }) =>
       config.onUpdate({ ...config, flightNumber: newFlightNumber, flightDate: inputDate });
     }
     setShowSettings(false);
-    if (newFlightNumber) {
-      fetchFlight(newFlightNumber, inputDate);
-    }
   };
 
   // Format date for display
@@ -163,7 +178,7 @@ const FlightTrackerWidget: React.FC<FlightTrackerWidgetProps> = ({ config }) =>
       <AlertCircle size={32} className="text-red-500 mb-3" strokeWidth={1.5} />
       <p className="text-sm text-red-500 mb-3">{error}</p>
       <div className="flex gap-2">
-        <Button size="sm" onClick={() => fetchFlight(flightNumber, flightDate)}>
+        <Button size="sm" onClick={() => void refresh()}>
           Retry
         </Button>
         <Button size="sm" variant="outline" onClick={() => setShowSettings(true)}>
@@ -261,15 +276,6 @@ const FlightTrackerWidget: React.FC<FlightTrackerWidgetProps> = ({ config }) =>
             </div>
           </div>
         </div>
-
-        {/* Refresh button */}
-        <button
-          onClick={() => fetchFlight(flightNumber, flightDate)}
-          className="mt-2 text-xs text-gray-400 hover:text-gray-600 flex items-center justify-center gap-1"
-        >
-          <RefreshCw size={12} />
-          Refresh
-        </button>
       </div>
     );
   };
@@ -344,7 +350,7 @@ const FlightTrackerWidget: React.FC<FlightTrackerWidgetProps> = ({ config }) =>
   // Main render
   const renderContent = () => {
     if (!flightNumber) return renderSetup();
-    if (loading && !flightData) return renderLoading();
+    if (isLoading) return renderLoading();
     if (error && !flightData) return renderError();
     if (flightData) return renderFlight();
     return renderSetup();
@@ -355,7 +361,9 @@ const FlightTrackerWidget: React.FC<FlightTrackerWidgetProps> = ({ config }) =>
       <WidgetHeader
         title={flightData?.flight_iata || "Flight Tracker"}
         onSettingsClick={() => setShowSettings(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={fetchError} onRefresh={refresh} />
+      </WidgetHeader>
 
       <div className="flex-grow overflow-hidden">
         {renderContent()}
@@ -1,5 +1,8 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useVisibilityRefresh } from '../../../lib/useVisibilityRefresh';
+import React, { useState, useEffect, useRef } from 'react';
+import { useQuery } from '../../../lib/useQuery';
+import { HttpError, parseRetryAfter } from '../../../lib/queryCache';
+import { hashString } from '../../../lib/utils';
+import { fetchWithCredential } from '../../../lib/credentialVault';
 import {
   Dialog,
   DialogContent,
@@ -8,6 +11,8 @@ import {
   DialogFooter
 } from '../../ui/dialog';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
+import CredentialSelect from '../common/CredentialSelect';
 import { GitHubStreakWidgetProps, GitHubStreakWidgetConfig } from './types';
 import { Button } from '../../ui/button';
 import { Input } from '../../ui/input';
@@ -103,6 +108,15 @@ interface GitHubAPIResponse {
   errors?: GitHubAPIError[];
 }
 
+// Shown until the first fetch succeeds
+const NO_CONTRIBUTIONS: Omit<GitHubContributionData, 'loading' | 'error'> = {
+  username: '',
+  currentStreak: 0,
+  longestStreak: 0,
+  totalContributions: 0,
+  contributionsByDay: []
+};
+
 /**
  * GitHubStreakWidget Component
  * 
@@ -128,16 +142,6 @@ const GitHubStreakWidget: React.FC<GitHubStreakWidgetProps> = ({ width, height,
     ...config
   });
   
-  const [githubData, setGithubData] = useState<GitHubContributionData>({
-    username: '',
-    currentStreak: 0,
-    longestStreak: 0,
-    totalContributions: 0,
-    contributionsByDay: [],
-    loading: false,
-    error: null
-  });
-  
   // Ref for the widget container
   const widgetRef = useRef<HTMLDivElement | null>(null);
   
@@ -149,247 +153,216 @@ const GitHubStreakWidget: React.FC<GitHubStreakWidgetProps> = ({ width, height,
     }));
   }, [config]);
   
-  // Ref to track abort controller for cleanup
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  // Fetch GitHub contribution data
-  const fetchGitHubData = useCallback(async () => {
-    // Skip if no username is provided
-    if (!localConfig.username) {
-      return;
-    }
-
-    // Skip if no token is provided
-    if (!localConfig.personalAccessToken) {
-      setGithubData(prev => ({
-        ...prev,
-        loading: false,
-        error: 'GitHub API requires a Personal Access Token. Please add one in widget settings.'
-      }));
-      return;
-    }
-
-    // Abort any in-flight request
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-    abortControllerRef.current = new AbortController();
-    const signal = abortControllerRef.current.signal;
-
-    setGithubData(prev => ({ ...prev, loading: true, error: null }));
-
-    try {
-      // GitHub contributions API using GitHub's GraphQL API
-      const username = localConfig.username;
-
-      // Fetch contribution data for the last 365 days
-      // Using GitHub GraphQL API
-      const query = `
-        query {
-          user(login: "${username}") {
-            name
-            contributionsCollection {
-              contributionCalendar {
-                totalContributions
-                weeks {
-                  contributionDays {
-                    contributionCount
-                    date
-                  }
+  /**
+   * Fetch a user's contributions for the last year and work out their streaks
+   */
+  const loadContributions = async (
+    username: string,
+    token: string,
+    credentialId?: string
+  ): Promise<Omit<GitHubContributionData, 'loading' | 'error'>> => {
+    // Fetch contribution data for the last 365 days
+    // Using GitHub GraphQL API
+    const query = `
+      query {
+        user(login: "${username}") {
+          name
+          contributionsCollection {
+            contributionCalendar {
+              totalContributions
+              weeks {
+                contributionDays {
+                  contributionCount
+                  date
                 }
               }
             }
           }
         }
-      `;
+      }
+    `;
 
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'Authorization': `bearer ${localConfig.personalAccessToken}`
-      };
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
 
-      const response = await fetch('https://api.github.com/graphql', {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ query }),
-        signal
-      });
+    const response = await fetchWithCredential('https://api.github.com/graphql', {
+      credentialId,
+      authorization: `bearer ${token}`
+    }, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ query })
+    });
 
-      if (!response.ok) {
-        if (response.status === 403) {
-          throw new Error('GitHub API access forbidden. This could be due to rate limiting or an invalid token.');
-        } else if (response.status === 401) {
-          throw new Error('Invalid GitHub Personal Access Token. Please update it in widget settings.');
-        } else {
-          throw new Error(`GitHub API error: ${response.status}`);
-        }
+    if (!response.ok) {
+      // Rate limits come with a Retry-After the shared cache waits for
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      if (response.status === 403) {
+        throw new HttpError(403, 'GitHub API access forbidden. This could be due to rate limiting or an invalid token.', retryAfterMs);
+      } else if (response.status === 401) {
+        throw new HttpError(401, 'Invalid GitHub Personal Access Token. Please update it in widget settings.');
+      } else {
+        throw new HttpError(response.status, `GitHub API error: ${response.status}`, retryAfterMs);
       }
+    }
 
-      const result = await response.json() as GitHubAPIResponse;
+    const result = await response.json() as GitHubAPIResponse;
 
-      // Check for errors in the response
-      if (result.errors && result.errors.length > 0) {
-        throw new Error(result.errors[0].message || 'Error fetching GitHub data');
-      }
+    // Check for errors in the response
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(result.errors[0].message || 'Error fetching GitHub data');
+    }
 
-      if (!result.data || !result.data.user) {
-        throw new Error(`GitHub user "${username}" not found`);
-      }
+    if (!result.data || !result.data.user) {
+      throw new Error(`GitHub user "${username}" not found`);
+    }
 
-      const userData = result.data.user;
-      const contributionData = userData.contributionsCollection.contributionCalendar;
+    const userData = result.data.user;
+    const contributionData = userData.contributionsCollection.contributionCalendar;
 
-      // Extract contribution days from weeks
-      const contributionDays: { date: string; count: number }[] = [];
-      contributionData.weeks.forEach((week: GitHubContributionWeek) => {
-        week.contributionDays.forEach((day: GitHubContributionDay) => {
-          contributionDays.push({
-            date: day.date,
-            count: day.contributionCount
-          });
+    // Extract contribution days from weeks
+    const contributionDays: { date: string; count: number }[] = [];
+    contributionData.weeks.forEach((week: GitHubContributionWeek) => {
+      week.contributionDays.forEach((day: GitHubContributionDay) => {
+        contributionDays.push({
+          date: day.date,
+          count: day.contributionCount
         });
       });
+    });
 
-      // Sort by date
-      contributionDays.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-      // Calculate current streak
-      let currentStreak = 0;
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      // Get yesterday's date for checking if the streak is still active
-      const yesterday = new Date(today);
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split('T')[0];
-
-      // Check if yesterday had contributions to maintain streak
-      const hasYesterdayContribution = contributionDays.some(
-        day => day.date === yesterdayStr && day.count > 0
-      );
-
-      // If no contribution yesterday, streak is broken
-      if (!hasYesterdayContribution) {
-        // Check if there was a contribution today to start a new streak
-        const todayStr = today.toISOString().split('T')[0];
-        const hasTodayContribution = contributionDays.some(
-          day => day.date === todayStr && day.count > 0
-        );
+    // Sort by date
+    contributionDays.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
-        currentStreak = hasTodayContribution ? 1 : 0;
-      } else {
-        // Count consecutive days with contributions
-        // Start from the most recent day (excluding today)
-        for (let i = contributionDays.length - 1; i >= 0; i--) {
-          const dayData = contributionDays[i];
-          const dayDate = new Date(dayData.date);
+    // Calculate current streak
+    let currentStreak = 0;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
 
-          // Skip future days and today
-          if (dayDate > yesterday) continue;
+    // Get yesterday's date for checking if the streak is still active
+    const yesterday = new Date(today);
+    yesterday.setDate(yesterday.getDate() - 1);
+    const yesterdayStr = yesterday.toISOString().split('T')[0];
 
-          // If this day doesn't match the expected next day in streak, break
-          if (i < contributionDays.length - 1) {
-            const prevDate = new Date(contributionDays[i + 1].date);
-            const expectedDate = new Date(prevDate);
-            expectedDate.setDate(expectedDate.getDate() - 1);
+    // Check if yesterday had contributions to maintain streak
+    const hasYesterdayContribution = contributionDays.some(
+      day => day.date === yesterdayStr && day.count > 0
+    );
 
-            if (dayDate.toISOString().split('T')[0] !== expectedDate.toISOString().split('T')[0]) {
-              break;
-            }
-          }
+    // If no contribution yesterday, streak is broken
+    if (!hasYesterdayContribution) {
+      // Check if there was a contribution today to start a new streak
+      const todayStr = today.toISOString().split('T')[0];
+      const hasTodayContribution = contributionDays.some(
+        day => day.date === todayStr && day.count > 0
+      );
 
-          // Add to streak if there were contributions
-          if (dayData.count > 0) {
-            currentStreak++;
-          } else {
+      currentStreak = hasTodayContribution ? 1 : 0;
+    } else {
+      // Count consecutive days with contributions
+      // Start from the most recent day (excluding today)
+      for (let i = contributionDays.length - 1; i >= 0; i--) {
+        const dayData = contributionDays[i];
+        const dayDate = new Date(dayData.date);
+
+        // Skip future days and today
+        if (dayDate > yesterday) continue;
+
+        // If this day doesn't match the expected next day in streak, break
+        if (i < contributionDays.length - 1) {
+          const prevDate = new Date(contributionDays[i + 1].date);
+          const expectedDate = new Date(prevDate);
+          expectedDate.setDate(expectedDate.getDate() - 1);
+
+          if (dayDate.toISOString().split('T')[0] !== expectedDate.toISOString().split('T')[0]) {
             break;
           }
         }
 
-        // Add today if there was a contribution
-        const todayStr = today.toISOString().split('T')[0];
-        const hasTodayContribution = contributionDays.some(
-          day => day.date === todayStr && day.count > 0
-        );
-
-        if (hasTodayContribution) {
+        // Add to streak if there were contributions
+        if (dayData.count > 0) {
           currentStreak++;
+        } else {
+          break;
         }
       }
 
-      // Calculate longest streak
-      let longestStreak = 0;
-      let currentLongestStreak = 0;
+      // Add today if there was a contribution
+      const todayStr = today.toISOString().split('T')[0];
+      const hasTodayContribution = contributionDays.some(
+        day => day.date === todayStr && day.count > 0
+      );
 
-      for (let i = 0; i < contributionDays.length; i++) {
-        if (contributionDays[i].count > 0) {
-          currentLongestStreak++;
+      if (hasTodayContribution) {
+        currentStreak++;
+      }
+    }
 
-          if (i > 0) {
-            // Check if this day is consecutive to the previous one
-            const currentDate = new Date(contributionDays[i].date);
-            const prevDate = new Date(contributionDays[i - 1].date);
+    // Calculate longest streak
+    let longestStreak = 0;
+    let currentLongestStreak = 0;
 
-            const diffTime = Math.abs(currentDate.getTime() - prevDate.getTime());
-            const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    for (let i = 0; i < contributionDays.length; i++) {
+      if (contributionDays[i].count > 0) {
+        currentLongestStreak++;
 
-            // If days are not consecutive, reset streak
-            if (diffDays !== 1) {
-              currentLongestStreak = 1;
-            }
-          }
+        if (i > 0) {
+          // Check if this day is consecutive to the previous one
+          const currentDate = new Date(contributionDays[i].date);
+          const prevDate = new Date(contributionDays[i - 1].date);
 
-          longestStreak = Math.max(longestStreak, currentLongestStreak);
-        } else {
-          currentLongestStreak = 0;
-        }
-      }
+          const diffTime = Math.abs(currentDate.getTime() - prevDate.getTime());
+          const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 
-      // Set the contribution data only if not aborted
-      if (!signal.aborted) {
-        setGithubData({
-          username,
-          currentStreak,
-          longestStreak,
-          totalContributions: contributionData.totalContributions,
-          contributionsByDay: contributionDays,
-          loading: false,
-          error: null
-        });
-      }
+          // If days are not consecutive, reset streak
+          if (diffDays !== 1) {
+            currentLongestStreak = 1;
+          }
+        }
 
-    } catch (error) {
-      // Only update state if not aborted
-      if (!signal.aborted) {
-        console.error('Failed to fetch GitHub data:', error);
-        setGithubData(prev => ({
-          ...prev,
-          loading: false,
-          error: error instanceof Error ? error.message : 'Failed to fetch GitHub data. Please check the username and try again.'
-        }));
+        longestStreak = Math.max(longestStreak, currentLongestStreak);
+      } else {
+        currentLongestStreak = 0;
       }
     }
-  }, [localConfig.username, localConfig.personalAccessToken]);
 
-  // Fetch data on mount and when config changes
-  useEffect(() => {
-    fetchGitHubData();
-
-    // Cleanup function to abort fetch on unmount
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
+    return {
+      username,
+      currentStreak,
+      longestStreak,
+      totalContributions: contributionData.totalContributions,
+      contributionsByDay: contributionDays
     };
-  }, [fetchGitHubData]);
+  };
 
-  // Auto-refresh when tab becomes visible or every 5 minutes
-  useVisibilityRefresh({
-    onRefresh: fetchGitHubData,
-    minHiddenTime: 60000, // Refresh if hidden for 1+ minute
-    refreshInterval: 300000, // Also refresh every 5 minutes
-    enabled: !!localConfig.username && !!localConfig.personalAccessToken
-  });
+  // Refreshed every 5 minutes and shared by widgets showing the same user
+  const hasToken = !!(localConfig.credentialId || localConfig.personalAccessToken);
+  const {
+    data: contributions,
+    error: fetchError,
+    isLoading,
+    isFetching,
+    updatedAt,
+    refresh
+  } = useQuery(
+    localConfig.username
+      // The token is part of the key, hashed, so another token's failures aren't shared
+      ? `github-contributions:${localConfig.username}:${localConfig.credentialId ? `vault:${localConfig.credentialId}` : hashString(localConfig.personalAccessToken || '')}`
+      : null,
+    () => loadContributions(localConfig.username || '', localConfig.personalAccessToken || '', localConfig.credentialId),
+    { refreshInterval: 300000, enabled: hasToken }
+  );
+
+  const githubData: GitHubContributionData = {
+    ...(contributions ?? NO_CONTRIBUTIONS),
+    loading: isLoading,
+    error: !hasToken
+      ? 'GitHub API requires a Personal Access Token. Please add one in widget settings.'
+      : fetchError && !contributions
+        ? fetchError.message || 'Failed to fetch GitHub data. Please check the username and try again.'
+        : null
+  };
   
   /**
    * Determines the appropriate size category based on width and height
@@ -490,7 +463,7 @@ const GitHubStreakWidget: React.FC<GitHubStreakWidgetProps> = ({ width, height,
       );
     }
 
-    if (!localConfig.personalAccessToken) {
+    if (!hasToken) {
       return (
         <div className="h-full flex flex-col items-center justify-center text-center p-4">
           {/* Use Shield icon from Lucide with consistent styling (gray color) */}
@@ -898,7 +871,8 @@ const GitHubStreakWidget: React.FC<GitHubStreakWidgetProps> = ({ width, height,
   // Save settings
   const saveSettings = () => {
     if (config?.onUpdate) {
-      config.onUpdate(localConfig);
+      // A token left next to a vault credential would still be stored
+      config.onUpdate(localConfig.credentialId ? { ...localConfig, personalAccessToken: '' } : localConfig);
     }
     setShowSettings(false);
   };
@@ -941,24 +915,35 @@ const GitHubStreakWidget: React.FC<GitHubStreakWidgetProps> = ({ width, height,
             </div>
           
             {/* Personal Access Token Setting */}
-            <div className="space-y-2">
-              <Label htmlFor="pat" className="text-sm font-medium">
-                Personal Access Token
-                <span className="text-red-500 ml-0.5">*</span>
-              </Label>
-              <Input
-                id="pat"
-                type="password"
-                value={localConfig.personalAccessToken || ''}
-                className="w-full h-10" // Ensure consistent height
-                onChange={e => setLocalConfig(prev => ({ ...prev, personalAccessToken: e.target.value }))}
-                placeholder="Required for GitHub API access"
-              />
-              <div className="text-xs text-gray-500 mt-1">
-                <p>Create a token at <a href="https://github.com/settings/tokens" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">github.com/settings/tokens</a></p>
-                <p>Only needs <span className="font-medium">read-only</span> access to public repositories</p>
+            <CredentialSelect
+              value={localConfig.credentialId || ''}
+              onChange={credentialId => setLocalConfig(prev => ({
+                ...prev,
+                credentialId,
+                personalAccessToken: credentialId ? '' : prev.personalAccessToken,
+              }))}
+              hosts={['api.github.com']}
+            />
+            {!localConfig.credentialId && (
+              <div className="space-y-2">
+                <Label htmlFor="pat" className="text-sm font-medium">
+                  Personal Access Token
+                  <span className="text-red-500 ml-0.5">*</span>
+                </Label>
+                <Input
+                  id="pat"
+                  type="password"
+                  value={localConfig.personalAccessToken || ''}
+                  className="w-full h-10" // Ensure consistent height
+                  onChange={e => setLocalConfig(prev => ({ ...prev, personalAccessToken: e.target.value }))}
+                  placeholder="Required for GitHub API access"
+                />
+                <div className="text-xs text-gray-500 mt-1">
+                  <p>Create a token at <a href="https://github.com/settings/tokens" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">github.com/settings/tokens</a></p>
+                  <p>Only needs <span className="font-medium">read-only</span> access to public repositories</p>
+                </div>
               </div>
-            </div>
+            )}
           
             {/* Days to Show Setting */}
             <div className="space-y-2">
@@ -1019,7 +1004,9 @@ const GitHubStreakWidget: React.FC<GitHubStreakWidgetProps> = ({ width, height,
       <WidgetHeader 
         title={localConfig.title || defaultConfig.title} 
         onSettingsClick={() => setShowSettings(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={fetchError} onRefresh={refresh} />
+      </WidgetHeader>
       
       <div className="flex-grow p-4 overflow-hidden">
         {renderContent()}
@@ -10,6 +10,7 @@ import { WidgetProps } from '@/types';
  * @property {boolean} [showContributionGraph] - Whether to display the contribution graph
  * @property {number} [daysToShow] - Number of past days to display in the graph
  * @property {string} [personalAccessToken] - Optional GitHub personal access token for API authentication
+ * @property {string} [credentialId] - Vault credential used instead of the personal access token
  */
 export interface GitHubStreakWidgetConfig {
   id?: string;
@@ -18,6 +19,7 @@ export interface GitHubStreakWidgetConfig {
   showContributionGraph?: boolean;
   daysToShow?: number;
   personalAccessToken?: string;
+  credentialId?: string;
   onUpdate?: (config: GitHubStreakWidgetConfig) => void;
   onDelete?: () => void;
   [key: string]: unknown; // Index signature to satisfy Record<string, unknown>
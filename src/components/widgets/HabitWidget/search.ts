@@ -0,0 +1,8 @@
+import { WidgetSearchItem } from '@/lib/widgetSearch';
+import { HabitWidgetConfig } from './types';
+
+/**
+ * Searchable content of a Habit Tracker widget: its habit names
+ */
+export const getHabitSearchItems = (config: HabitWidgetConfig): WidgetSearchItem[] =>
+  (config.habits || []).map(habit => ({ text: habit.name }));
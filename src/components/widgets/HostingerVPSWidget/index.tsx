@@ -43,6 +43,8 @@ import {
 } from '@/components/ui/select';
 
 import WidgetHeader from '@/components/widgets/common/WidgetHeader';
+import CredentialSelect from '@/components/widgets/common/CredentialSelect';
+import { fetchWithCredential } from '@/lib/credentialVault';
 import {
   HostingerVPSWidgetProps,
   HostingerVPSWidgetConfig,
@@ -51,10 +53,12 @@ import {
   MetricsDataPoint,
 } from './types';
 
+const HOSTINGER_API_URL = 'https://developers.hostinger.com';
+
 // Use proxy in development, direct API in production
 const DEFAULT_API_URL = import.meta.env.DEV 
   ? '/api/hostinger' 
-  : 'https://developers.hostinger.com';
+  : HOSTINGER_API_URL;
 
 /**
  * Hostinger VPS Widget Component
@@ -107,14 +111,22 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
   );
 
   const apiToken = localConfig.apiToken || '';
-  // Always use the default API URL (proxy in dev, direct in production)
-  const apiUrl = DEFAULT_API_URL;
+  const credentialId = localConfig.credentialId || '';
+  // Either a vault credential or a token saved in the widget
+  const hasToken = !!(credentialId || apiToken);
+  // The default API URL (proxy in dev, direct in production); vault requests
+  // go through the Boxento proxy, which needs the real API
+  const apiUrl = credentialId ? HOSTINGER_API_URL : DEFAULT_API_URL;
+  const auth = useMemo(
+    () => ({ credentialId, authorization: `Bearer ${apiToken}` }),
+    [credentialId, apiToken]
+  );
 
   /**
    * Fetch list of all VPS instances
    */
   const fetchVPSList = useCallback(async () => {
-    if (!apiToken) {
+    if (!hasToken) {
       console.log('No API token provided');
       return;
     }
@@ -124,9 +136,8 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
     console.log('Using API URL:', apiUrl);
 
     try {
-      const response = await fetch(url, {
+      const response = await fetchWithCredential(url, auth, {
         headers: {
-          Authorization: `Bearer ${apiToken}`,
           'Content-Type': 'application/json',
         },
       });
@@ -153,14 +164,14 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
       });
       return [];
     }
-  }, [apiToken, apiUrl]);
+  }, [hasToken, auth, apiUrl]);
 
   /**
    * Fetch metrics for a specific VPS (past 3 hours)
    */
   const fetchVPSMetrics = useCallback(
     async (vpsId: number, hostname: string) => {
-      if (!apiToken) return;
+      if (!hasToken) return;
 
       try {
         // Calculate date range (3 hours ago to now)
@@ -173,11 +184,11 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
           date_to: dateTo.toISOString(),
         });
 
-        const response = await fetch(
+        const response = await fetchWithCredential(
           `${apiUrl}/api/vps/v1/virtual-machines/${vpsId}/metrics?${params}`,
+          auth,
           {
             headers: {
-              Authorization: `Bearer ${apiToken}`,
               'Content-Type': 'application/json',
             },
           }
@@ -244,14 +255,14 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
         console.error(`Error fetching metrics for VPS ${vpsId}:`, error);
       }
     },
-    [apiToken, apiUrl]
+    [hasToken, auth, apiUrl]
   );
 
   /**
    * Fetch all data (VPS list and metrics)
    */
   const fetchAllData = useCallback(async () => {
-    if (!apiToken) {
+    if (!hasToken) {
       setIsSettingsOpen(true);
       return;
     }
@@ -275,7 +286,7 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
     } finally {
       setIsLoading(false);
     }
-  }, [apiToken, fetchVPSList, fetchVPSMetrics]);
+  }, [hasToken, fetchVPSList, fetchVPSMetrics]);
 
   // Initial data fetch
   useEffect(() => {
@@ -345,7 +356,7 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
     const runningCount = vpsList.filter((vps) => vps.state === 'running').length;
     const totalCount = vpsList.length;
 
-    if (!apiToken) {
+    if (!hasToken) {
       return (
         <div className="h-full flex flex-col justify-center items-center text-center p-2">
           <AlertCircle size={24} className="text-yellow-500 mb-2" />
@@ -571,7 +582,7 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
   };
 
   const renderFullView = () => {
-    if (!apiToken) {
+    if (!hasToken) {
       return (
         <div className="h-full flex flex-col justify-center items-center text-center p-4">
           <AlertCircle size={32} className="text-yellow-500 mb-3" />
@@ -739,32 +750,43 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
           </DialogHeader>
 
           <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="api-token">API Token</Label>
-              <Input
-                id="api-token"
-                type="password"
-                value={apiToken}
-                onChange={(e) =>
-                  updateConfig({ ...localConfig, apiToken: e.target.value })
-                }
-                placeholder="Enter your Hostinger API token"
-              />
-              <p className="text-xs text-gray-500">
-                Get your API token from the{' '}
-                <a
-                  href="https://hpanel.hostinger.com/profile/api"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-blue-500 hover:underline"
-                >
-                  Hostinger API page
-                </a>
-              </p>
-              <p className="text-xs text-gray-400">
-                API Endpoint: {apiUrl}
-              </p>
-            </div>
+            <CredentialSelect
+              value={credentialId}
+              onChange={(value) => updateConfig({
+                ...localConfig,
+                credentialId: value,
+                apiToken: value ? '' : localConfig.apiToken,
+              })}
+              hosts={['developers.hostinger.com']}
+            />
+            {!credentialId && (
+              <div className="space-y-2">
+                <Label htmlFor="api-token">API Token</Label>
+                <Input
+                  id="api-token"
+                  type="password"
+                  value={apiToken}
+                  onChange={(e) =>
+                    updateConfig({ ...localConfig, apiToken: e.target.value })
+                  }
+                  placeholder="Enter your Hostinger API token"
+                />
+                <p className="text-xs text-gray-500">
+                  Get your API token from the{' '}
+                  <a
+                    href="https://hpanel.hostinger.com/profile/api"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-500 hover:underline"
+                  >
+                    Hostinger API page
+                  </a>
+                </p>
+                <p className="text-xs text-gray-400">
+                  API Endpoint: {apiUrl}
+                </p>
+              </div>
+            )}
 
             {/* Layout Settings */}
             <div className="space-y-2">
@@ -853,14 +875,18 @@ const HostingerVPSWidget: React.FC<HostingerVPSWidgetProps> = ({
             </Button>
             <Button 
               onClick={() => {
-                // Save is automatic via updateConfig, just close the dialog
+                // Save is automatic via updateConfig, just close the dialog. A token
+                // left next to a vault credential would still be stored.
+                if (credentialId && apiToken) {
+                  updateConfig(prev => ({ ...prev, apiToken: '' }));
+                }
                 setIsSettingsOpen(false);
                 // Fetch data after closing if we have a token
-                if (apiToken) {
+                if (hasToken) {
                   fetchAllData();
                 }
               }} 
-              disabled={!apiToken}
+              disabled={!hasToken}
             >
               Save
             </Button>
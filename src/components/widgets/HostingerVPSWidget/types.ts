@@ -76,6 +76,8 @@ export interface VPSMetrics {
 export interface HostingerVPSWidgetConfig {
   id?: string;
   apiToken?: string;
+  /** Vault credential used instead of apiToken */
+  credentialId?: string;
   apiUrl?: string;
   selectedVPS?: number[];
   layout?: 'vertical' | 'horizontal';
@@ -11,6 +11,7 @@ import { Input } from '../../ui/input';
 import { Button } from '../../ui/button';
 import { Label } from '../../ui/label';
 import WidgetHeader from '../common/WidgetHeader';
+import { useWidgetEvent } from '@/lib/useWidgetEvents';
 import type { IframeWidgetProps } from './types';
 
 const IframeWidget: React.FC<IframeWidgetProps> = ({ config }) => {
@@ -47,6 +48,14 @@ const IframeWidget: React.FC<IframeWidgetProps> = ({ config }) => {
     }
   };
 
+  // Show pages opened from linked widgets, e.g. a Quick Links click
+  useWidgetEvent('open-url', config?.id, title || 'Iframe', ({ url: openedUrl }) => {
+    if (!isValidUrl(openedUrl)) return;
+    setUrl(openedUrl);
+    setInputUrl(openedUrl);
+    config?.onUpdate?.({ ...config, url: openedUrl });
+  });
+
   // Save settings
   const handleSave = () => {
     const trimmedUrl = inputUrl.trim();
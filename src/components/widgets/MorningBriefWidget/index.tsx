@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Sun, AlertCircle, Loader2 } from 'lucide-react';
 import {
   Dialog,
@@ -11,6 +11,9 @@ import { Input } from '../../ui/input';
 import { Button } from '../../ui/button';
 import { Label } from '../../ui/label';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
+import { useQuery } from '../../../lib/useQuery';
+import { fetchOrThrow } from '../../../lib/queryCache';
 import { MorningBriefWidgetProps, MorningBriefWidgetConfig } from './types';
 
 /**
@@ -35,10 +38,6 @@ const MorningBriefWidget: React.FC<MorningBriefWidgetProps> = ({ config }) => {
     ...defaultConfig,
     ...config,
   });
-  const [htmlContent, setHtmlContent] = useState<string>('');
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
   // Refs
   const widgetRef = useRef<HTMLDivElement | null>(null);
@@ -46,35 +45,18 @@ const MorningBriefWidget: React.FC<MorningBriefWidgetProps> = ({ config }) => {
   // Get the effective URL
   const url = localConfig.url || defaultConfig.url!;
 
-  /**
-   * Fetch HTML content from the configured URL
-   */
-  const fetchContent = useCallback(async () => {
-    if (!url) return;
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
-      }
-      const html = await response.text();
-      setHtmlContent(html);
-      setLastUpdated(new Date());
-    } catch (err) {
-      console.error('Error fetching morning brief:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load content');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [url]);
-
-  // Fetch content on mount and when URL changes
-  useEffect(() => {
-    fetchContent();
-  }, [fetchContent]);
+  // Check that the brief loads before showing it, so a broken URL shows an error
+  const {
+    data: htmlContent,
+    error,
+    isLoading,
+    isFetching,
+    updatedAt,
+    refresh
+  } = useQuery(
+    url ? `morning-brief:${url}` : null,
+    () => fetchOrThrow(url).then(response => response.text())
+  );
 
   // Update local config when props change
   useEffect(() => {
@@ -107,13 +89,13 @@ const MorningBriefWidget: React.FC<MorningBriefWidgetProps> = ({ config }) => {
     <div className="h-full flex flex-col items-center justify-center text-center p-4">
       <AlertCircle size={32} className="text-red-500 mb-3" strokeWidth={1.5} />
       <p className="text-sm text-red-500 dark:text-red-400 mb-2">
-        {error}
+        {error?.message}
       </p>
       <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
         Could not load the morning brief from the configured URL.
       </p>
       <div className="flex gap-2">
-        <Button size="sm" onClick={fetchContent}>
+        <Button size="sm" onClick={() => void refresh()}>
           Retry
         </Button>
         <Button size="sm" variant="outline" onClick={() => setShowSettings(true)}>
@@ -138,11 +120,11 @@ const MorningBriefWidget: React.FC<MorningBriefWidgetProps> = ({ config }) => {
 
   // Render HTML content in iframe
   const renderContent = () => {
-    if (isLoading && !htmlContent) {
+    if (isLoading) {
       return renderLoading();
     }
 
-    if (error && !htmlContent) {
+    if (error && htmlContent === undefined) {
       return renderError();
     }
 
@@ -152,12 +134,9 @@ const MorningBriefWidget: React.FC<MorningBriefWidgetProps> = ({ config }) => {
 
     return (
       <div className="h-full w-full relative">
-        {isLoading && htmlContent && (
-          <div className="absolute top-2 right-2 z-10">
-            <Loader2 size={16} className="text-blue-500 animate-spin" />
-          </div>
-        )}
+        {/* Reload the brief along with each refresh */}
         <iframe
+          key={updatedAt}
           src={url}
           className="w-full h-full border-0"
           sandbox="allow-scripts allow-same-origin"
@@ -210,12 +189,6 @@ const MorningBriefWidget: React.FC<MorningBriefWidgetProps> = ({ config }) => {
               URL to fetch the morning brief HTML content from
             </p>
           </div>
-
-          {lastUpdated && (
-            <div className="text-xs text-gray-500 dark:text-gray-400 pt-2 border-t border-gray-200 dark:border-gray-700">
-              Last updated: {lastUpdated.toLocaleTimeString()}
-            </div>
-          )}
         </div>
 
         <DialogFooter>
@@ -247,7 +220,9 @@ const MorningBriefWidget: React.FC<MorningBriefWidgetProps> = ({ config }) => {
       <WidgetHeader
         title={localConfig.title || defaultConfig.title}
         onSettingsClick={() => setShowSettings(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={error} onRefresh={refresh} />
+      </WidgetHeader>
 
       <div className="flex-grow overflow-hidden">{renderContent()}</div>
 
@@ -0,0 +1,12 @@
+import { WidgetSearchItem } from '@/lib/widgetSearch';
+import { NotesWidgetConfig } from './types';
+
+/**
+ * Searchable content of a Notes widget: each non-empty line of the note
+ */
+export const getNotesSearchItems = (config: NotesWidgetConfig): WidgetSearchItem[] =>
+  (config.content || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => ({ text: line }));
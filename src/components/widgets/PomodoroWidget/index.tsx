@@ -13,6 +13,8 @@ import { Label } from '../../ui/label';
 import { Input } from '../../ui/input';
 import { Button } from '../../ui/button';
 import { faviconService } from '@/lib/services/favicon';
+import { useWidgetEvent } from '@/lib/useWidgetEvents';
+import { notificationService } from '@/lib/notifications';
 
 /**
  * Pomodoro Widget Component
@@ -49,6 +51,8 @@ const PomodoroWidget: React.FC<PomodoroWidgetProps> = ({ width, height, config }
   const [isActive, setIsActive] = useState<boolean>(false);
   const [mode, setMode] = useState<TimerMode>(TimerMode.WORK);
   const [cyclesCompleted, setCyclesCompleted] = useState<number>(0);
+  // Task sent from a linked widget (e.g. a Todo item) for the current session
+  const [focusTask, setFocusTask] = useState<string | null>(null);
   
   // Refs
   const widgetRef = useRef<HTMLDivElement | null>(null);
@@ -66,13 +70,7 @@ const PomodoroWidget: React.FC<PomodoroWidgetProps> = ({ width, height, config }
   useEffect(() => {
     if (isActive) {
       timerRef.current = setInterval(() => {
-        setTimeLeft(prev => {
-          if (prev <= 1) {
-            handleTimerComplete();
-            return 0;
-          }
-          return prev - 1;
-        });
+        setTimeLeft(prev => Math.max(prev - 1, 0));
       }, 1000);
     } else if (timerRef.current) {
       clearInterval(timerRef.current);
@@ -85,6 +83,14 @@ const PomodoroWidget: React.FC<PomodoroWidgetProps> = ({ width, height, config }
     };
   }, [isActive]);
 
+  // Move on to the next session once the current one runs out
+  useEffect(() => {
+    if (isActive && timeLeft === 0) {
+      handleTimerComplete();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isActive, timeLeft]);
+
   // Update favicon when timer state changes
   useEffect(() => {
     // Update favicon when timer state changes
@@ -109,10 +115,6 @@ const PomodoroWidget: React.FC<PomodoroWidgetProps> = ({ width, height, config }
     let nextDuration: number;
     let nextCycles = cyclesCompleted;
 
-    // Play notification sound
-    const audio = new Audio('/sounds/bell.mp3');
-    audio.play().catch(() => { /* Audio playback may fail if user hasn't interacted with page */ });
-
     if (mode === TimerMode.WORK) {
       nextCycles = cyclesCompleted + 1;
       setCyclesCompleted(nextCycles);
@@ -129,11 +131,30 @@ const PomodoroWidget: React.FC<PomodoroWidgetProps> = ({ width, height, config }
       nextDuration = (localConfig.workDuration || 25) * 60;
     }
 
+    notificationService.notify({
+      widgetId: config?.id,
+      source: localConfig.title || 'Pomodoro Timer',
+      title: mode === TimerMode.WORK ? 'Focus session finished' : 'Break is over',
+      body: mode === TimerMode.WORK
+        ? `Take a ${nextMode === TimerMode.LONG_BREAK ? 'long ' : ''}break of ${nextDuration / 60} minutes.`
+        : 'Time to focus again.',
+      severity: 'success',
+      sound: true
+    });
+
     setMode(nextMode);
     setTimeLeft(nextDuration);
     setIsActive(true);
   };
 
+  // Start a focus session on a task sent by a linked widget
+  useWidgetEvent('start-focus', config?.id, localConfig.title || 'Pomodoro Timer', ({ task }) => {
+    setFocusTask(task);
+    setMode(TimerMode.WORK);
+    setTimeLeft((localConfig.workDuration || 25) * 60);
+    setIsActive(true);
+  });
+
   // Toggle timer active state
   const toggleTimer = () => {
     setIsActive(!isActive);
@@ -144,6 +165,7 @@ const PomodoroWidget: React.FC<PomodoroWidgetProps> = ({ width, height, config }
     setIsActive(false);
     setMode(TimerMode.WORK);
     setCyclesCompleted(0);
+    setFocusTask(null);
     setTimeLeft((localConfig.workDuration || 25) * 60);
     if (timerRef.current) {
       clearInterval(timerRef.current);
@@ -175,7 +197,7 @@ const PomodoroWidget: React.FC<PomodoroWidgetProps> = ({ width, height, config }
   const getModeDescription = (): string => {
     switch (mode) {
       case TimerMode.WORK:
-        return 'Time to focus on your task';
+        return focusTask || 'Time to focus on your task';
       case TimerMode.BREAK:
         return 'Take a short breather';
       case TimerMode.LONG_BREAK:
@@ -221,6 +243,9 @@ const PomodoroWidget: React.FC<PomodoroWidgetProps> = ({ width, height, config }
           {formatTime(timeLeft)}
         </div>
         <div className="text-sm font-medium">{getModeLabel()}</div>
+        {focusTask && mode === TimerMode.WORK && (
+          <div className="text-xs opacity-75 truncate max-w-full px-2">{focusTask}</div>
+        )}
         <div className="flex space-x-3">
           <button 
             className="p-2 rounded-full bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
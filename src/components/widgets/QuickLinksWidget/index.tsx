@@ -14,6 +14,8 @@ import { Button } from '../../ui/button'
 import { Label } from '../../ui/label'
 import { Switch } from '@/components/ui/switch'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import WidgetLinkSelect from '../common/WidgetLinkSelect'
+import { widgetEventBus, WidgetLinks } from '@/lib/widgetEvents'
 
 /**
  * Fetches metadata from a URL including title and favicon
@@ -118,6 +120,7 @@ const QuickLinksWidget: React.FC<QuickLinksWidgetProps> = ({ config }) => {
   const [displayMode, setDisplayMode] = useState<'regular' | 'compact'>(config?.displayMode || 'regular');
   const [showFavicons, setShowFavicons] = useState<boolean>(config?.showFavicons !== false);
   const [customTitle, setCustomTitle] = useState<string>(config?.customTitle || 'Quick Links');
+  const [widgetLinks, setWidgetLinks] = useState<WidgetLinks>(config?.widgetLinks || {});
   const [isCompact, setIsCompact] = useState(false);
 
   // Detect if widget is in compact mode (small size)
@@ -157,6 +160,9 @@ const QuickLinksWidget: React.FC<QuickLinksWidgetProps> = ({ config }) => {
       if (config.showFavicons !== undefined && config.showFavicons !== showFavicons) {
         setShowFavicons(config.showFavicons);
       }
+      if (config.widgetLinks && JSON.stringify(config.widgetLinks) !== JSON.stringify(widgetLinks)) {
+        setWidgetLinks(config.widgetLinks);
+      }
     }
   }, [config]); // Depend on entire config object
 
@@ -224,6 +230,17 @@ const QuickLinksWidget: React.FC<QuickLinksWidgetProps> = ({ config }) => {
     }
   }
 
+  /**
+   * Opens a link in the linked widget (e.g. an Iframe widget) when there is one,
+   * otherwise lets the browser open it in a new tab
+   */
+  const handleLinkClick = (e: React.MouseEvent, link: LinkItem) => {
+    e.stopPropagation();
+    if (widgetEventBus.publishToLink(widgetLinks, 'open-url', { url: link.url, title: link.title })) {
+      e.preventDefault();
+    }
+  }
+
   /**
    * Starts editing a link or creates a new one
    * 
@@ -250,7 +267,8 @@ const QuickLinksWidget: React.FC<QuickLinksWidgetProps> = ({ config }) => {
           links: linksCopy,
           displayMode,
           showFavicons,
-          customTitle
+          customTitle,
+          widgetLinks
         });
       }, 0);
     }
@@ -409,7 +427,7 @@ const QuickLinksWidget: React.FC<QuickLinksWidgetProps> = ({ config }) => {
                   className={`flex items-center p-1 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 dark:hover:bg-opacity-50 transition-all relative text-gray-800 dark:text-gray-100 group ${
                     loadingLinkIds.includes(link.id) ? 'opacity-50' : ''
                   }`}
-                  onClick={(e: React.MouseEvent) => e.stopPropagation()}
+                  onClick={(e: React.MouseEvent) => handleLinkClick(e, link)}
                   aria-label={`Visit ${link.title} at ${link.url}`}
                 >
                   {showFavicons && (
@@ -466,7 +484,7 @@ const QuickLinksWidget: React.FC<QuickLinksWidgetProps> = ({ config }) => {
                   className={`flex items-center p-2.5 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 dark:hover:bg-opacity-50 transition-all relative text-gray-800 dark:text-gray-100 group ${
                     loadingLinkIds.includes(link.id) ? 'opacity-50' : ''
                   }`}
-                  onClick={(e: React.MouseEvent) => e.stopPropagation()}
+                  onClick={(e: React.MouseEvent) => handleLinkClick(e, link)}
                   aria-label={`Visit ${link.title} at ${link.url}`}
                 >
                   {showFavicons && (
@@ -622,6 +640,16 @@ const QuickLinksWidget: React.FC<QuickLinksWidgetProps> = ({ config }) => {
                   <Label htmlFor="show-favicons">Show website icons</Label>
                 </div>
               </div>
+
+              <WidgetLinkSelect
+                event="open-url"
+                widgetId={config?.id}
+                links={widgetLinks}
+                onChange={setWidgetLinks}
+                label="Open links in"
+                noneLabel="A new browser tab"
+                description="Links can open in an Iframe widget on this dashboard."
+              />
             </div>
             
             <DialogFooter>
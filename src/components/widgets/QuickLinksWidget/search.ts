@@ -0,0 +1,11 @@
+import { WidgetSearchItem } from '@/lib/widgetSearch';
+import { QuickLinksWidgetConfig } from './types';
+
+/**
+ * Searchable content of a Quick Links widget: its links, matched by title or URL
+ */
+export const getQuickLinksSearchItems = (config: QuickLinksWidgetConfig): WidgetSearchItem[] =>
+  (config.links || []).map(link => ({
+    text: link.title || link.url,
+    detail: link.url,
+  }));
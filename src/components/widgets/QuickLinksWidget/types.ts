@@ -1,4 +1,5 @@
 import { WidgetProps } from '@/types';
+import { WidgetLinks } from '@/lib/widgetEvents';
 
 /**
  * Represents a link item in the QuickLinks widget
@@ -25,6 +26,7 @@ export interface LinkItem {
  * @property {string} [customTitle] - Custom title for the widget
  * @property {'regular' | 'compact'} [displayMode] - Display mode for the links
  * @property {boolean} [showFavicons] - Whether to show favicons for links
+ * @property {WidgetLinks} [widgetLinks] - Widget that opens clicked links, instead of a new tab
  * @property {() => void} [onDelete] - Callback to delete the widget
  * @property {(config: QuickLinksWidgetConfig) => void} [onUpdate] - Callback to update widget configuration
  */
@@ -34,6 +36,7 @@ export interface QuickLinksWidgetConfig {
   customTitle?: string;
   displayMode?: 'regular' | 'compact';
   showFavicons?: boolean;
+  widgetLinks?: WidgetLinks;
   onDelete?: () => void;
   onUpdate?: (config: QuickLinksWidgetConfig) => void;
   [key: string]: unknown;
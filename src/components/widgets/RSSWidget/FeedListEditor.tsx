@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import { Rss, Upload, Plus, X } from 'lucide-react';
+import { Input } from '../../ui/input';
+import { Label } from '../../ui/label';
+import { Button } from '../../ui/button';
+import { RSSFeed } from './types';
+import { isValidFeedUrl } from './settings';
+
+interface FeedListEditorProps {
+  feeds: RSSFeed[];
+  onChange: (feeds: RSSFeed[]) => void;
+}
+
+// Popular feeds offered while the list is empty
+const EXAMPLE_FEEDS: { url: string; title: string }[] = [
+  { url: 'https://news.ycombinator.com/rss', title: 'Hacker News' },
+  { url: 'https://rss.nytimes.com/services/xml/rss/nyt/HomePage.xml', title: 'New York Times' },
+  { url: 'https://www.wired.com/feed/rss', title: 'Wired' },
+];
+
+/**
+ * Feeds of an RSS widget: edit URLs, add examples or import an OPML file
+ *
+ * @component
+ * @param {FeedListEditorProps} props - Component props
+ * @returns {React.ReactElement} Feed list editor
+ */
+const FeedListEditor = ({ feeds, onChange }: FeedListEditorProps): React.ReactElement => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateFeed = (index: number, url: string) => {
+    onChange(feeds.map((feed, i) => i === index ? { ...feed, url, title: url } : feed));
+  };
+
+  const addFeeds = (added: RSSFeed[]) => {
+    // New feeds go to the top, where they're seen
+    onChange([...added, ...feeds]);
+  };
+
+  const handleOPMLImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const xmlDoc = new DOMParser().parseFromString(e.target?.result as string, 'text/xml');
+      // Outlines with an xmlUrl attribute are the feeds
+      const imported: RSSFeed[] = Array.from(xmlDoc.querySelectorAll('outline[xmlUrl]')).map(outline => ({
+        url: outline.getAttribute('xmlUrl') || '',
+        title: outline.getAttribute('title') || outline.getAttribute('text') || '',
+        enabled: true
+      }));
+
+      if (imported.length > 0) {
+        addFeeds(imported);
+        setImportError(null);
+      } else {
+        setImportError('No valid RSS feeds found in the OPML file');
+      }
+    };
+    reader.onerror = () => {
+      setImportError('Failed to read OPML file');
+    };
+    reader.readAsText(file);
+
+    // Allow importing the same file again
+    event.target.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>RSS Feeds</Label>
+      <div className="max-h-[300px] overflow-y-auto border rounded-lg">
+        {feeds.length === 0 ? (
+          <div className="p-6 text-center text-sm text-muted-foreground">
+            <Rss className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>No feeds added yet</p>
+            <div className="flex flex-wrap justify-center gap-2 mt-3">
+              {EXAMPLE_FEEDS.map(example => (
+                <Button
+                  key={example.url}
+                  variant="outline"
+                  size="sm"
+                  className="font-normal"
+                  onClick={() => addFeeds([{ ...example, enabled: true }])}
+                >
+                  {example.title}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {feeds.map((feed, index) => (
+              <div key={index} className="p-2 flex items-center gap-2">
+                <Input
+                  type="url"
+                  value={feed.url}
+                  onChange={(e) => updateFeed(index, e.target.value)}
+                  className={`${isValidFeedUrl(feed.url) ? 'border-transparent' : 'border-destructive'} flex-1 text-sm bg-transparent shadow-none`}
+                  placeholder="https://example.com/rss"
+                  aria-label={`Feed ${index + 1} URL`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(feeds.filter((_, i) => i !== index))}
+                  className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                  aria-label="Remove feed"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => addFeeds([{ url: '', title: '', enabled: true }])}
+          className="flex-1 font-normal"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Feed
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".opml,text/xml"
+          onChange={handleOPMLImport}
+          className="hidden"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          className="font-normal"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Import OPML
+        </Button>
+      </div>
+      {importError ? (
+        <p className="text-xs text-destructive">{importError}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Add RSS feed URLs manually or import from an OPML file
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FeedListEditor;
@@ -1,21 +1,22 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogFooter
-} from '../../ui/dialog';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
+import WidgetSettingsDialog from '../common/WidgetSettingsDialog';
+import { getSettingsDefaults, SettingsErrors } from '../common/settingsSchema';
 import { RSSWidgetConfig, RSSFeedItem, RSSDisplayMode, RSSFeed } from './types';
 import type { RSSWidgetProps } from './types';
-import { Input } from '../../ui/input';
-import { Label } from '../../ui/label';
+import { isValidFeedUrl, rssSettingsSchema } from './settings';
+import FeedListEditor from './FeedListEditor';
 import { Button } from '../../ui/button';
-import { Switch } from '../../ui/switch';
-import { Tabs, TabsList, TabsTrigger, TabsContent } from '../../ui/tabs';
 import sanitizeHtml from 'sanitize-html';
-import { Rss, AlertCircle, Upload } from 'lucide-react';
+import { Rss, AlertCircle } from 'lucide-react';
+import { useWidgetSearchItems } from '@/lib/useWidgetSearchItems';
+import { useQuery } from '@/lib/useQuery';
+import { getRequestCache, queryCache, QueryContext } from '@/lib/queryCache';
+import { QUERY } from '@/lib/constants';
+import { fetchThroughProxy, ProxyHostError } from '@/lib/proxy';
+
+const NO_ITEMS: RSSFeedItem[] = [];
 
 /**
  * Size categories for widget content rendering
@@ -136,21 +137,10 @@ const AutoScrollContainer: React.FC<{
  */
 export const RSSWidget: React.FC<RSSWidgetProps> = ({ config, width, height }) => {
   // Default configuration
-  const defaultConfig = useMemo<RSSWidgetConfig>(() => ({
-    title: 'RSS Feed',
+  const defaultConfig = useMemo(() => ({
     feeds: [],
-    maxItems: 5,
-    refreshInterval: 30,
-    showImages: true,
-    showDate: true,
-    showAuthor: true,
-    showDescription: true,
-    displayMode: RSSDisplayMode.LIST,
-    orientation: 'vertical',
-    columns: 3,
-    autoScroll: false,
-    openInNewTab: true
-  }), []); // Empty dependency array since these values never change
+    ...getSettingsDefaults(rssSettingsSchema)
+  }) as RSSWidgetConfig, []);
 
   // Component state
   const [showSettings, setShowSettings] = useState<boolean>(false);
@@ -158,25 +148,19 @@ export const RSSWidget: React.FC<RSSWidgetProps> = ({ config, width, height }) =
     ...defaultConfig,
     ...config
   });
-  const [feedItems, setFeedItems] = useState<RSSFeedItem[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [isValidUrl, setIsValidUrl] = useState<boolean>(true);
-  const [activeTab, setActiveTab] = useState<string>('content');
+  // Feed list being edited in the settings dialog
+  const [draftFeeds, setDraftFeeds] = useState<RSSFeed[]>([]);
 
   // Refs for the widget container
   const widgetRef = useRef<HTMLDivElement | null>(null);
   
 
-  // Move fetchSingleFeed before fetchAllFeeds
-  const fetchSingleFeed = React.useCallback(async (feed: RSSFeed): Promise<RSSFeedItem[]> => {
-    const corsProxy = 'https://api.allorigins.win/raw?url=';
-    const response = await fetch(`${corsProxy}${encodeURIComponent(feed.url)}`);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch RSS feed: ${response.statusText}`);
-    }
-    
+  /**
+   * Fetch and parse one feed
+   */
+  const fetchSingleFeed = async (feed: RSSFeed, context: QueryContext): Promise<RSSFeedItem[]> => {
+    const response = await fetchThroughProxy(feed.url, { cache: getRequestCache(context) });
+
     const data = await response.text();
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(data, 'text/xml');
@@ -190,60 +174,76 @@ export const RSSWidget: React.FC<RSSWidgetProps> = ({ config, width, height }) =
       author: item.querySelector('author, dc\\:creator')?.textContent || '',
       image: extractImageFromItem(item)
     }));
-  }, []);
+  };
 
   /**
-   * Fetch all enabled feeds
+   * Fetch all enabled feeds. Each feed is cached on its own, so RSS widgets
+   * sharing a feed fetch it once.
    */
-  const fetchAllFeeds = React.useCallback(async (configToUse?: RSSWidgetConfig) => {
-    const currentConfig = configToUse || localConfig;
-    const enabledFeeds = (currentConfig.feeds || []).filter(feed => feed.enabled);
-    
-    if (!enabledFeeds || enabledFeeds.length === 0) {
-      setFeedItems([]);
-      return;
-    }
-    
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      const allItems: RSSFeedItem[] = [];
-      
-      // Fetch all feeds in parallel
-      await Promise.all(enabledFeeds.map(async feed => {
-        try {
-          const items = await fetchSingleFeed(feed);
-          
-          // Apply maxItems limit per feed
-          const limit = currentConfig.maxItems && currentConfig.maxItems > 0 ? currentConfig.maxItems : 5;
-          const limitedItems = items.slice(0, limit);
+  const fetchAllFeeds = async (feeds: RSSFeed[], limit: number, { force }: QueryContext): Promise<RSSFeedItem[]> => {
+    let failedFeeds = 0;
+    let refusedHost: ProxyHostError | undefined;
+    const allItems: RSSFeedItem[] = [];
+
+    // Fetch all feeds in parallel
+    await Promise.all(feeds.map(async feed => {
+      try {
+        const items = await queryCache.fetch(`rss-feed:${feed.url}`, context => fetchSingleFeed(feed, context), {
+          maxAge: QUERY.STALE_TIME_MS,
+          force
+        });
+
+        allItems.push(...items.slice(0, limit).map(item => ({
+          ...item,
+          feedTitle: feed.title, // Add feed title to each item
+          feedUrl: feed.url // Add feed URL to each item for grouping
+        })));
+      } catch (error) {
+        failedFeeds++;
+        if (error instanceof ProxyHostError) refusedHost = error;
+        console.error(`Error fetching feed ${feed.url}:`, error);
+      }
+    }));
 
-          allItems.push(...limitedItems.map(item => ({
-            ...item,
-            feedTitle: feed.title, // Add feed title to each item
-            feedUrl: feed.url // Add feed URL to each item for grouping
-          })));
-        } catch (error) {
-          console.error(`Error fetching feed ${feed.url}:`, error);
-        }
-      }));
-      
-      // Sort all items by date
-      const sortedItems = allItems.sort((a, b) => {
-        const dateA = a.pubDate ? new Date(a.pubDate).getTime() : 0;
-        const dateB = b.pubDate ? new Date(b.pubDate).getTime() : 0;
-        return dateB - dateA;
-      });
-      
-      setFeedItems(sortedItems);
-      setIsLoading(false);
-    } catch (error) {
-      console.error('Error fetching feeds:', error);
-      setError('Failed to fetch RSS feeds');
-      setIsLoading(false);
+    if (failedFeeds === feeds.length) {
+      throw refusedHost ?? new Error('Failed to fetch RSS feeds');
     }
-  }, [localConfig, fetchSingleFeed]);
+
+    // Sort all items by date
+    return allItems.sort((a, b) => {
+      const dateA = a.pubDate ? new Date(a.pubDate).getTime() : 0;
+      const dateB = b.pubDate ? new Date(b.pubDate).getTime() : 0;
+      return dateB - dateA;
+    });
+  };
+
+  const enabledFeeds = (localConfig.feeds || []).filter(feed => feed.enabled);
+  // Apply maxItems limit per feed
+  const itemLimit = localConfig.maxItems && localConfig.maxItems > 0 ? localConfig.maxItems : 5;
+  const refreshMinutes = localConfig.refreshInterval || 30;
+  const {
+    data: loadedItems,
+    error: fetchError,
+    isLoading,
+    isFetching,
+    updatedAt,
+    refresh
+  } = useQuery(
+    enabledFeeds.length > 0 ? `rss:${itemLimit}:${enabledFeeds.map(feed => `${feed.url} ${feed.title}`).join('|')}` : null,
+    context => fetchAllFeeds(enabledFeeds, itemLimit, context),
+    { refreshInterval: refreshMinutes > 0 ? refreshMinutes * 60 * 1000 : 0 }
+  );
+  const feedItems = enabledFeeds.length > 0 ? loadedItems ?? NO_ITEMS : NO_ITEMS;
+  // Older items stay on screen when a refresh fails
+  const error = fetchError && !loadedItems ? fetchError.message : null;
+
+  // Make the loaded headlines findable from the command palette
+  const searchItems = useMemo(
+    () => feedItems.map(item => ({ text: item.title, detail: item.feedTitle })),
+    [feedItems]
+  );
+  useWidgetSearchItems(config?.id, searchItems);
+
 
   /**
    * Extract image from RSS item
@@ -274,23 +274,6 @@ export const RSSWidget: React.FC<RSSWidgetProps> = ({ config, width, height }) =
     setLocalConfig(initialConfig);
   }, [config, defaultConfig]);
 
-  // Fetch feeds when enabled feeds change
-  useEffect(() => {
-    fetchAllFeeds();
-  }, [localConfig.feeds, fetchAllFeeds]);
-
-  // Setup auto-refresh
-  useEffect(() => {
-    const intervalMinutes = localConfig.refreshInterval || 30;
-    if (intervalMinutes <= 0) return;
-
-    const intervalId = setInterval(() => {
-      fetchAllFeeds();
-    }, intervalMinutes * 60 * 1000);
-
-    return () => clearInterval(intervalId);
-  }, [localConfig.refreshInterval, fetchAllFeeds]);
-
   /**
    * Format publication date
    */
@@ -457,7 +440,7 @@ export const RSSWidget: React.FC<RSSWidgetProps> = ({ config, width, height }) =
         {/* Consistent button styling */}
         <Button
           size="sm"
-          onClick={() => setShowSettings(true)} 
+          onClick={openSettings} 
           variant="outline"
         >
           Configure Widget
@@ -470,7 +453,7 @@ export const RSSWidget: React.FC<RSSWidgetProps> = ({ config, width, height }) =
    * Handle retry button click
    */
   const handleRetryClick = (): void => {
-    fetchAllFeeds();
+    void refresh();
   };
 
   /**
@@ -493,7 +476,7 @@ export const RSSWidget: React.FC<RSSWidgetProps> = ({ config, width, height }) =
         <Button
           size="sm"
           variant="outline"
-          onClick={() => setShowSettings(true)}
+          onClick={openSettings}
         >
           Settings
         </Button>
@@ -605,515 +588,53 @@ export const RSSWidget: React.FC<RSSWidgetProps> = ({ config, width, height }) =
     return renderFeedContent();
   };
   
-  /**
-   * Save settings
-   */
-  const saveSettings = () => {
-    
-    // Call onUpdate to persist changes
-    if (config?.onUpdate && typeof config.onUpdate === 'function') {
-      config.onUpdate(localConfig);
-    }
-    
-    setShowSettings(false);
-    
-    // If the feed URL changed, fetch the feed
-    if (localConfig.feeds.length > 0) {
-      fetchAllFeeds(localConfig);
-    }
-  };
-  
-  /**
-   * Validate feed URL
-   */
-  const validateFeedUrl = (url: string): boolean => {
-    if (!url) return true; // Empty URL is allowed
-    
-    try {
-      new URL(url);
-      return true;
-    } catch {
-      return false;
-    }
+  const openSettings = () => {
+    setDraftFeeds(localConfig.feeds || []);
+    setShowSettings(true);
   };
 
-  /**
-   * Settings dialog
-   */
-  const renderSettings = () => {
-    return (
-      <Dialog open={showSettings} onOpenChange={setShowSettings}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle>RSS Feed Settings</DialogTitle>
-          </DialogHeader>
-          
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="content">Content</TabsTrigger>
-              <TabsTrigger value="display">Display</TabsTrigger>
-              <TabsTrigger value="examples">Examples</TabsTrigger>
-            </TabsList>
-            
-            <TabsContent value="content" className="space-y-4 py-4">
-              {/* Widget Title */}
-              <div className="space-y-2">
-                <Label htmlFor="title-input">Widget Title</Label>
-                <Input
-                  id="title-input"
-                  type="text"
-                  value={localConfig.title || ''}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLocalConfig({...localConfig, title: e.target.value})}
-                  placeholder="RSS Feed"
-                />
-                <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Leave empty to use the feed's title
-                </p>
-              </div>
-              
-              {/* Feed URL */}
-              <div className="space-y-2">
-                <Label>RSS Feeds</Label>
-                <div className="space-y-3">
-                  <div className="max-h-[300px] overflow-y-auto border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-950 shadow-inner">
-                    {localConfig.feeds?.length === 0 ? (
-                      <div className="p-8 text-center text-sm text-gray-500 dark:text-gray-400">
-                        <Rss className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                        <p>No feeds added yet</p>
-                        <p className="text-xs mt-1 text-gray-400 dark:text-gray-500">Add feeds manually or import from OPML</p>
-                      </div>
-                    ) : (
-                      <div className="divide-y divide-gray-100 dark:divide-gray-800">
-                        {localConfig.feeds?.map((feed, index) => (
-                          <div key={index} className="p-2 transition-colors hover:bg-gray-50 dark:hover:bg-gray-900">
-                            <div className="flex items-center gap-2">
-                              <div className="flex-1 min-w-0">
-                                <Input
-                                  type="url"
-                                  value={feed.url}
-                                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-                                    const newFeeds = [...(localConfig.feeds || [])];
-                                    newFeeds[index] = {
-                                      ...feed,
-                                      url: e.target.value,
-                                      title: e.target.value
-                                    };
-                                    setLocalConfig({
-                                      ...localConfig,
-                                      feeds: newFeeds
-                                    });
-                                    setIsValidUrl(newFeeds.every(f => validateFeedUrl(f.url)));
-                                  }}
-                                  className={`${
-                                    !validateFeedUrl(feed.url) 
-                                      ? 'border-red-500 dark:border-red-500' 
-                                      : 'border-transparent focus:border-gray-300 dark:focus:border-gray-600'
-                                  } text-sm bg-transparent shadow-none`}
-                                  placeholder="https://example.com/rss"
-                                />
-                              </div>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => {
-                                  const newFeeds = [...(localConfig.feeds || [])];
-                                  newFeeds.splice(index, 1);
-                                  setLocalConfig({
-                                    ...localConfig,
-                                    feeds: newFeeds
-                                  });
-                                }}
-                                className="text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400 h-8 w-8 p-0 transition-colors"
-                              >
-                                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                                  <path d="M18 6L6 18M6 6l12 12"/>
-                                </svg>
-                              </Button>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                  
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        setLocalConfig({
-                          ...localConfig,
-                          feeds: [{ url: '', title: '', enabled: true }, ...(localConfig.feeds || [])]
-                        });
-                      }}
-                      className="flex-1 font-normal"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-2">
-                        <path d="M12 5v14M5 12h14"/>
-                      </svg>
-                      Add Feed
-                    </Button>
-                    <div className="relative">
-                      <input
-                        type="file"
-                        accept=".opml,text/xml"
-                        onChange={handleOPMLImport}
-                        className="hidden"
-                        id="opml-file-input"
-                      />
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => document.getElementById('opml-file-input')?.click()}
-                        title="Import from OPML"
-                        className="font-normal"
-                      >
-                        <Upload className="h-4 w-4 mr-2" />
-                        Import OPML
-                      </Button>
-                    </div>
-                  </div>
-                </div>
-                {!isValidUrl && (
-                  <p className="text-xs text-red-500 dark:text-red-400 flex items-center gap-1">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                      <circle cx="12" cy="12" r="10"/>
-                      <line x1="12" y1="8" x2="12" y2="12"/>
-                      <line x1="12" y1="16" x2="12" y2="16"/>
-                    </svg>
-                    Please enter valid URLs
-                  </p>
-                )}
-                <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Add RSS feed URLs manually or import from an OPML file
-                </p>
-              </div>
-
-              {/* Feed Configuration */}
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="max-items-input">Items per Feed</Label>
-                  <Input
-                    id="max-items-input"
-                    type="number"
-                    min="1"
-                    max="50"
-                    value={localConfig.maxItems || 5}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLocalConfig({...localConfig, maxItems: parseInt(e.target.value) || 5})}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="refresh-interval-input">Refresh (mins)</Label>
-                  <Input
-                    id="refresh-interval-input"
-                    type="number"
-                    min="1"
-                    value={localConfig.refreshInterval || 30}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLocalConfig({...localConfig, refreshInterval: parseInt(e.target.value) || 30})}
-                  />
-                </div>
-              </div>
-            </TabsContent>
-            
-            <TabsContent value="display" className="space-y-4 py-4">
-              {/* Display Mode */}
-              <div className="space-y-2">
-                <Label>Display Mode</Label>
-                <div className="grid grid-cols-3 gap-2">
-                  <Button
-                    type="button"
-                    onClick={() => setLocalConfig({...localConfig, displayMode: RSSDisplayMode.LIST})}
-                    variant={localConfig.displayMode === RSSDisplayMode.LIST ? "default" : "outline"}
-                    size="sm"
-                  >
-                    List
-                  </Button>
-                  <Button
-                    type="button"
-                    onClick={() => setLocalConfig({...localConfig, displayMode: RSSDisplayMode.CARDS})}
-                    variant={localConfig.displayMode === RSSDisplayMode.CARDS ? "default" : "outline"}
-                    size="sm"
-                  >
-                    Cards
-                  </Button>
-                  <Button
-                    type="button"
-                    onClick={() => setLocalConfig({...localConfig, displayMode: RSSDisplayMode.COMPACT})}
-                    variant={localConfig.displayMode === RSSDisplayMode.COMPACT ? "default" : "outline"}
-                    size="sm"
-                  >
-                    Compact
-                  </Button>
-                </div>
-              </div>
-
-              {/* Orientation */}
-              <div className="space-y-2">
-                <Label>Orientation</Label>
-                <div className="grid grid-cols-2 gap-2">
-                  <Button
-                    type="button"
-                    onClick={() => setLocalConfig({...localConfig, orientation: 'vertical'})}
-                    variant={!localConfig.orientation || localConfig.orientation === 'vertical' ? "default" : "outline"}
-                    size="sm"
-                  >
-                    Vertical (Merged)
-                  </Button>
-                  <Button
-                    type="button"
-                    onClick={() => setLocalConfig({...localConfig, orientation: 'horizontal'})}
-                    variant={localConfig.orientation === 'horizontal' ? "default" : "outline"}
-                    size="sm"
-                  >
-                    Horizontal (Columns)
-                  </Button>
-                </div>
-              </div>
-
-              {/* Columns (Horizontal Only) */}
-              {localConfig.orientation === 'horizontal' && (
-                <div className="space-y-2">
-                  <Label htmlFor="columns-input">Columns</Label>
-                  <Input
-                    id="columns-input"
-                    type="number"
-                    min="1"
-                    max="6"
-                    value={localConfig.columns || 3}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLocalConfig({...localConfig, columns: parseInt(e.target.value) || 3})}
-                    placeholder="3"
-                  />
-                  <p className="text-xs text-gray-500 dark:text-gray-400">
-                    Number of columns for the feed grid
-                  </p>
-                </div>
-              )}
-              
-              <div className="space-y-4">
-                <Label>Display Options</Label>
-                
-                {/* Show Images */}
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="show-images-toggle" className="flex-1">Show Images</Label>
-                  <Switch
-                    id="show-images-toggle"
-                    checked={localConfig.showImages}
-                    onCheckedChange={(checked: boolean) => setLocalConfig({...localConfig, showImages: checked})}
-                  />
-                </div>
-                
-                {/* Show Dates */}
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="show-date-toggle" className="flex-1">Show Publication Dates</Label>
-                  <Switch
-                    id="show-date-toggle"
-                    checked={localConfig.showDate}
-                    onCheckedChange={(checked: boolean) => setLocalConfig({...localConfig, showDate: checked})}
-                  />
-                </div>
-                
-                {/* Show Authors */}
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="show-author-toggle" className="flex-1">Show Authors</Label>
-                  <Switch
-                    id="show-author-toggle"
-                    checked={localConfig.showAuthor}
-                    onCheckedChange={(checked: boolean) => setLocalConfig({...localConfig, showAuthor: checked})}
-                  />
-                </div>
-                
-                {/* Show Descriptions */}
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="show-description-toggle" className="flex-1">Show Descriptions</Label>
-                  <Switch
-                    id="show-description-toggle"
-                    checked={localConfig.showDescription}
-                    onCheckedChange={(checked: boolean) => setLocalConfig({...localConfig, showDescription: checked})}
-                  />
-                </div>
-                
-                {/* Open Links in New Tab */}
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="open-new-tab-toggle" className="flex-1">Open Links in New Tab</Label>
-                  <Switch
-                    id="open-new-tab-toggle"
-                    checked={localConfig.openInNewTab}
-                    onCheckedChange={(checked: boolean) => setLocalConfig({...localConfig, openInNewTab: checked})}
-                  />
-                </div>
-
-                {/* Auto Scroll */}
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="auto-scroll-toggle" className="flex-1">Auto Scroll Feeds</Label>
-                  <Switch
-                    id="auto-scroll-toggle"
-                    checked={localConfig.autoScroll}
-                    onCheckedChange={(checked: boolean) => setLocalConfig({...localConfig, autoScroll: checked})}
-                  />
-                </div>
-              </div>
-            </TabsContent>
-            
-            <TabsContent value="examples" className="space-y-4 py-4">
-              <div className="text-sm text-gray-500 dark:text-gray-400">
-                Select from popular RSS feeds to get started:
-              </div>
-              <div className="space-y-2">
-                {/* Example Feed Item: Hacker News */}
-                <div
-                  className="flex items-center gap-3 p-2 rounded-md cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
-                  onClick={() => setExampleFeed('https://news.ycombinator.com/rss', 'Hacker News')}
-                >
-                  <div className="flex-shrink-0 rounded-md bg-orange-100 dark:bg-orange-900/20 p-2 text-orange-600 dark:text-orange-400">
-                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path d="M12 2L2 19.7778H22L12 2Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                    </svg>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="font-medium text-sm">Hacker News</div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">Tech news and discussions</div>
-                  </div>
-                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" className="text-gray-400 dark:text-gray-500"><polyline points="9 18 15 12 9 6"></polyline></svg>
-                </div>
-
-                {/* Example Feed Item: New York Times */}
-                <div
-                  className="flex items-center gap-3 p-2 rounded-md cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
-                  onClick={() => setExampleFeed('https://rss.nytimes.com/services/xml/rss/nyt/HomePage.xml', 'New York Times')}
-                >
-                  <div className="flex-shrink-0 rounded-md bg-gray-100 dark:bg-gray-900/40 p-2 text-gray-600 dark:text-gray-400">
-                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path d="M4 7H20M4 12H20M4 17H20" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
-                    </svg>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="font-medium text-sm">New York Times</div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">Breaking news and opinion</div>
-                  </div>
-                   <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" className="text-gray-400 dark:text-gray-500"><polyline points="9 18 15 12 9 6"></polyline></svg>
-                </div>
-
-                {/* Example Feed Item: Wired */}
-                 <div
-                  className="flex items-center gap-3 p-2 rounded-md cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
-                  onClick={() => setExampleFeed('https://www.wired.com/feed/rss', 'Wired')}
-                >
-                  <div className="flex-shrink-0 rounded-md bg-purple-100 dark:bg-purple-900/20 p-2 text-purple-600 dark:text-purple-400">
-                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path d="M12 3V21M21 12H3M18 12C18 8.68629 15.3137 6 12 6C8.68629 6 6 8.68629 6 12C6 15.3137 8.68629 18 12 18C15.3137 18 18 15.3137 18 12Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
-                    </svg>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="font-medium text-sm">Wired</div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">Latest technology news and features</div>
-                  </div>
-                   <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" className="text-gray-400 dark:text-gray-500"><polyline points="9 18 15 12 9 6"></polyline></svg>
-                </div>
-              </div>
-            </TabsContent>
-          </Tabs>
-          
-          <DialogFooter>
-            <div className="flex justify-between w-full">
-              {config?.onDelete && (
-                <Button
-                  variant="destructive"
-                  onClick={() => {
-                    if (config.onDelete) {
-                      config.onDelete();
-                    }
-                  }}
-                >
-                  Delete
-                </Button>
-              )}
-              
-              <Button
-                variant="default"
-                onClick={() => {
-                  saveSettings();
-                  setShowSettings(false);
-                }}
-                disabled={!isValidUrl}
-              >
-                Save
-              </Button>
-            </div>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-    );
+  const saveSettings = (values: Record<string, unknown>) => {
+    const newConfig = { ...localConfig, ...values, feeds: draftFeeds } as RSSWidgetConfig;
+    setLocalConfig(newConfig);
+    if (config?.onUpdate) {
+      config.onUpdate(newConfig);
+    }
   };
 
-  // Update example feed buttons
-  const setExampleFeed = (url: string, title: string) => {
-    setLocalConfig({
-      ...localConfig,
-      feeds: [{ url, title, enabled: true }, ...(localConfig.feeds || [])]
-    });
-    setIsValidUrl(true);
-    setActiveTab('content');
-  };
+  const validateFeeds = (): SettingsErrors =>
+    draftFeeds.every(feed => isValidFeedUrl(feed.url)) ? {} : { feeds: 'Please enter valid feed URLs' };
 
   // Ensure display mode is always defined by using a default value
   const renderFeedItems = (displayMode: RSSDisplayMode = RSSDisplayMode.LIST, items: RSSFeedItem[] = feedItems) => {
     return items.map((item, index) => renderFeedItem(item, index, displayMode));
   };
 
-  const handleOPMLImport = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(content, 'text/xml');
-      
-      // Get all outline elements that have an xmlUrl attribute (these are the feed entries)
-      const outlines = xmlDoc.querySelectorAll('outline[xmlUrl]');
-      const feeds: RSSFeed[] = Array.from(outlines).map(outline => ({
-        url: outline.getAttribute('xmlUrl') || '',
-        title: outline.getAttribute('title') || outline.getAttribute('text') || '',
-        enabled: true
-      }));
-      
-      if (feeds.length > 0) {
-        setLocalConfig(prevConfig => ({
-          ...prevConfig,
-          feeds: [...feeds, ...(prevConfig.feeds || [])] // Add new feeds at the beginning
-        }));
-        setIsValidUrl(true);
-        setActiveTab('content');
-      } else {
-        setError('No valid RSS feeds found in the OPML file');
-      }
-    };
-    
-    reader.onerror = () => {
-      setError('Failed to read OPML file');
-    };
-    
-    reader.readAsText(file);
-    
-    // Reset the file input
-    event.target.value = '';
-  };
-
   // Main render
   return (
     <div ref={widgetRef} className="widget-container h-full flex flex-col relative">
       <WidgetHeader 
         title={localConfig.title || 'RSS Feed'} 
-        onSettingsClick={() => setShowSettings(true)}
-      />
+        onSettingsClick={openSettings}
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={fetchError} onRefresh={refresh} />
+      </WidgetHeader>
       
       <div className="flex-grow overflow-hidden">
         {renderContent()}
       </div>
       
-      {/* Settings dialog */}
-      {renderSettings()}
+      <WidgetSettingsDialog
+        open={showSettings}
+        onOpenChange={setShowSettings}
+        title="RSS Feed Settings"
+        schema={rssSettingsSchema}
+        config={localConfig}
+        onSave={saveSettings}
+        onDelete={config?.onDelete}
+        validate={validateFeeds}
+      >
+        <FeedListEditor feeds={draftFeeds} onChange={setDraftFeeds} />
+      </WidgetSettingsDialog>
     </div>
   );
 };
@@ -0,0 +1,121 @@
+import { WidgetSettingsSchema } from '../common/settingsSchema';
+import { RSSDisplayMode } from './types';
+
+/**
+ * Settings form for the RSS widget. The feed list is edited below the
+ * generated fields (see FeedListEditor.tsx).
+ */
+export const rssSettingsSchema: WidgetSettingsSchema = {
+  fields: [
+    {
+      key: 'title',
+      type: 'text',
+      label: 'Widget Title',
+      description: "Leave empty to use the feed's title",
+      placeholder: 'RSS Feed',
+      default: 'RSS Feed',
+      maxLength: 50,
+    },
+    {
+      key: 'maxItems',
+      type: 'number',
+      label: 'Items per Feed',
+      default: 5,
+      min: 1,
+      max: 50,
+      integer: true,
+      required: true,
+    },
+    {
+      key: 'refreshInterval',
+      type: 'number',
+      label: 'Refresh (mins)',
+      default: 30,
+      min: 1,
+      integer: true,
+      required: true,
+    },
+    {
+      key: 'displayMode',
+      type: 'select',
+      label: 'Display Mode',
+      default: RSSDisplayMode.LIST,
+      options: [
+        { value: RSSDisplayMode.LIST, label: 'List' },
+        { value: RSSDisplayMode.CARDS, label: 'Cards' },
+        { value: RSSDisplayMode.COMPACT, label: 'Compact' },
+      ],
+    },
+    {
+      key: 'orientation',
+      type: 'select',
+      label: 'Orientation',
+      default: 'vertical',
+      options: [
+        { value: 'vertical', label: 'Vertical (Merged)' },
+        { value: 'horizontal', label: 'Horizontal (Columns)' },
+      ],
+    },
+    {
+      key: 'columns',
+      type: 'number',
+      label: 'Columns',
+      description: 'Number of columns for the feed grid',
+      default: 3,
+      min: 1,
+      max: 6,
+      integer: true,
+      required: true,
+      visibleWhen: { field: 'orientation', equals: 'horizontal' },
+    },
+    {
+      key: 'showImages',
+      type: 'boolean',
+      label: 'Show Images',
+      default: true,
+    },
+    {
+      key: 'showDate',
+      type: 'boolean',
+      label: 'Show Publication Dates',
+      default: true,
+    },
+    {
+      key: 'showAuthor',
+      type: 'boolean',
+      label: 'Show Authors',
+      default: true,
+    },
+    {
+      key: 'showDescription',
+      type: 'boolean',
+      label: 'Show Descriptions',
+      default: true,
+    },
+    {
+      key: 'openInNewTab',
+      type: 'boolean',
+      label: 'Open Links in New Tab',
+      default: true,
+    },
+    {
+      key: 'autoScroll',
+      type: 'boolean',
+      label: 'Auto Scroll Feeds',
+      default: false,
+    },
+  ],
+};
+
+/**
+ * Whether a feed URL can be saved; empty rows are allowed
+ */
+export const isValidFeedUrl = (url: string): boolean => {
+  if (!url) return true;
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+};
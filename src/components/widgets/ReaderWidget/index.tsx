@@ -1,26 +1,13 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useVisibilityRefresh } from '../../../lib/useVisibilityRefresh';
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogFooter
-} from '../../ui/dialog';
 import WidgetHeader from '../common/WidgetHeader';
+import WidgetSettingsDialog from '../common/WidgetSettingsDialog';
+import { getSettingsDefaults } from '../common/settingsSchema';
+import { fetchWithCredential } from '../../../lib/credentialVault';
 import { RefreshCw, AlertCircle, BookOpen, ExternalLink, Clock, FileText, ArrowLeft, Loader2 } from 'lucide-react';
 import { ReaderDocument, ReaderWidgetConfig, ReaderWidgetProps } from './types';
+import { readerSettingsSchema } from './settings';
 import { Button } from '../../ui/button';
-import { Input } from '../../ui/input';
-import { Label } from '../../ui/label';
-import { Switch } from '../../ui/switch';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '../../ui/select';
 
 enum WidgetSizeCategory {
   SMALL = 'small',
@@ -33,16 +20,10 @@ enum WidgetSizeCategory {
 }
 
 const ReaderWidget: React.FC<ReaderWidgetProps> = ({ width, height, config }) => {
-  const defaultConfig: ReaderWidgetConfig = {
-    title: 'Reader',
+  const defaultConfig = {
     apiToken: '',
-    refreshInterval: 30,
-    location: 'all',
-    contentType: 'all',
-    showImage: true,
-    showSummary: true,
-    showProgress: true
-  };
+    ...getSettingsDefaults(readerSettingsSchema)
+  } as ReaderWidgetConfig;
 
   const [showSettings, setShowSettings] = useState<boolean>(false);
   const [localConfig, setLocalConfig] = useState<ReaderWidgetConfig>({
@@ -66,8 +47,11 @@ const ReaderWidget: React.FC<ReaderWidgetProps> = ({ width, height, config }) =>
     }));
   }, [config]);
 
+  // Either a vault credential or a token saved in the widget
+  const hasToken = !!(localConfig.credentialId || localConfig.apiToken);
+
   const fetchDocuments = useCallback(async () => {
-    if (!localConfig.apiToken) {
+    if (!hasToken) {
       setError('API token is required');
       return;
     }
@@ -92,11 +76,9 @@ const ReaderWidget: React.FC<ReaderWidgetProps> = ({ width, height, config }) =>
 
       console.log('[Reader] Fetching from:', url);
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Token ${localConfig.apiToken.trim()}`,
-        }
+      const response = await fetchWithCredential(url, {
+        credentialId: localConfig.credentialId,
+        authorization: `Token ${localConfig.apiToken?.trim()}`
       });
 
       console.log('[Reader] Response status:', response.status);
@@ -129,7 +111,7 @@ const ReaderWidget: React.FC<ReaderWidgetProps> = ({ width, height, config }) =>
     } finally {
       setIsLoading(false);
     }
-  }, [localConfig.apiToken, localConfig.location, localConfig.contentType]);
+  }, [hasToken, localConfig.apiToken, localConfig.credentialId, localConfig.location, localConfig.contentType]);
 
   const showRandomDocument = useCallback(() => {
     setIsReadingMode(false);
@@ -142,16 +124,14 @@ const ReaderWidget: React.FC<ReaderWidgetProps> = ({ width, height, config }) =>
   }, [allDocuments, fetchDocuments]);
 
   const fetchDocumentContent = useCallback(async () => {
-    if (!document?.id || !localConfig.apiToken) return;
+    if (!document?.id || !hasToken) return;
 
     setIsLoadingContent(true);
     try {
       const url = `https://readwise.io/api/v3/list/?id=${document.id}&withHtmlContent=true`;
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Token ${localConfig.apiToken.trim()}`,
-        }
+      const response = await fetchWithCredential(url, {
+        credentialId: localConfig.credentialId,
+        authorization: `Token ${localConfig.apiToken?.trim()}`
       });
 
       if (response.ok) {
@@ -166,13 +146,13 @@ const ReaderWidget: React.FC<ReaderWidgetProps> = ({ width, height, config }) =>
     } finally {
       setIsLoadingContent(false);
     }
-  }, [document?.id, localConfig.apiToken]);
+  }, [document?.id, hasToken, localConfig.apiToken, localConfig.credentialId]);
 
   useEffect(() => {
-    if (localConfig.apiToken) {
+    if (hasToken) {
       fetchDocuments();
     }
-  }, [localConfig.apiToken, localConfig.location, localConfig.contentType, fetchDocuments]);
+  }, [hasToken, localConfig.location, localConfig.contentType, fetchDocuments]);
 
   useVisibilityRefresh({
     onRefresh: fetchDocuments,
@@ -180,7 +160,7 @@ const ReaderWidget: React.FC<ReaderWidgetProps> = ({ width, height, config }) =>
     refreshInterval: localConfig.refreshInterval && localConfig.refreshInterval > 0
       ? localConfig.refreshInterval * 60 * 1000
       : 0,
-    enabled: !!localConfig.apiToken
+    enabled: hasToken
   });
 
   const getWidgetSizeCategory = (width: number, height: number): WidgetSizeCategory => {
@@ -237,7 +217,7 @@ const ReaderWidget: React.FC<ReaderWidgetProps> = ({ width, height, config }) =>
 
     if (isLoading) return renderLoadingState();
     if (error) return renderErrorState();
-    if (!localConfig.apiToken) return renderNoApiTokenState();
+    if (!hasToken) return renderNoApiTokenState();
     if (!document) return renderEmptyState();
 
     switch (sizeCategory) {
@@ -521,140 +501,24 @@ const ReaderWidget: React.FC<ReaderWidgetProps> = ({ width, height, config }) =>
     );
   };
 
-  const saveSettings = () => {
+  const saveSettings = (values: Record<string, unknown>) => {
+    const newConfig = { ...localConfig, ...values };
+    setLocalConfig(newConfig);
     if (config?.onUpdate) {
-      config.onUpdate(localConfig);
+      config.onUpdate(newConfig);
     }
-    setShowSettings(false);
-    fetchDocuments();
   };
 
   const renderSettings = () => (
-    <Dialog open={showSettings} onOpenChange={setShowSettings}>
-      <DialogContent className="sm:max-w-md">
-        <DialogHeader>
-          <DialogTitle>Reader Widget Settings</DialogTitle>
-        </DialogHeader>
-
-        <div className="space-y-4 py-4">
-          <div className="space-y-2">
-            <Label htmlFor="title">Widget Title</Label>
-            <Input
-              id="title"
-              value={localConfig.title || ''}
-              onChange={(e) => setLocalConfig({...localConfig, title: e.target.value})}
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="apiToken">Readwise API Token</Label>
-            <Input
-              id="apiToken"
-              type="password"
-              value={localConfig.apiToken || ''}
-              onChange={(e) => setLocalConfig({...localConfig, apiToken: e.target.value})}
-            />
-            <p className="text-xs text-muted-foreground">
-              Get your token at{' '}
-              <a href="https://readwise.io/access_token" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
-                readwise.io/access_token
-              </a>
-            </p>
-          </div>
-
-          <div className="space-y-2">
-            <Label>Location Filter</Label>
-            <Select
-              value={localConfig.location || 'all'}
-              onValueChange={(value) => setLocalConfig({...localConfig, location: value as ReaderWidgetConfig['location']})}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Locations</SelectItem>
-                <SelectItem value="new">Inbox (New)</SelectItem>
-                <SelectItem value="later">Later</SelectItem>
-                <SelectItem value="shortlist">Shortlist</SelectItem>
-                <SelectItem value="archive">Archive</SelectItem>
-                <SelectItem value="feed">Feed</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-            <Label>Content Type</Label>
-            <Select
-              value={localConfig.contentType || 'all'}
-              onValueChange={(value) => setLocalConfig({...localConfig, contentType: value as ReaderWidgetConfig['contentType']})}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="article">Articles</SelectItem>
-                <SelectItem value="rss">RSS</SelectItem>
-                <SelectItem value="email">Email</SelectItem>
-                <SelectItem value="pdf">PDF</SelectItem>
-                <SelectItem value="epub">EPUB</SelectItem>
-                <SelectItem value="tweet">Tweets</SelectItem>
-                <SelectItem value="video">Videos</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="refreshInterval">Refresh Interval (minutes)</Label>
-            <Input
-              id="refreshInterval"
-              type="number"
-              min="0"
-              value={localConfig.refreshInterval || 0}
-              onChange={(e) => setLocalConfig({...localConfig, refreshInterval: parseInt(e.target.value) || 0})}
-            />
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Switch
-              id="showImage"
-              checked={localConfig.showImage ?? true}
-              onCheckedChange={(checked) => setLocalConfig({...localConfig, showImage: checked})}
-            />
-            <Label htmlFor="showImage">Show Cover Image</Label>
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Switch
-              id="showSummary"
-              checked={localConfig.showSummary ?? true}
-              onCheckedChange={(checked) => setLocalConfig({...localConfig, showSummary: checked})}
-            />
-            <Label htmlFor="showSummary">Show Summary</Label>
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Switch
-              id="showProgress"
-              checked={localConfig.showProgress ?? true}
-              onCheckedChange={(checked) => setLocalConfig({...localConfig, showProgress: checked})}
-            />
-            <Label htmlFor="showProgress">Show Reading Progress</Label>
-          </div>
-        </div>
-
-        <DialogFooter>
-          <div className="flex justify-between w-full">
-            {config?.onDelete && (
-              <Button variant="destructive" onClick={config.onDelete}>
-                Delete
-              </Button>
-            )}
-            <Button onClick={saveSettings}>Save</Button>
-          </div>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+    <WidgetSettingsDialog
+      open={showSettings}
+      onOpenChange={setShowSettings}
+      title="Reader Widget Settings"
+      schema={readerSettingsSchema}
+      config={localConfig}
+      onSave={saveSettings}
+      onDelete={config?.onDelete}
+    />
   );
 
   return (
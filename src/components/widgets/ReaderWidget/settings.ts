@@ -0,0 +1,90 @@
+import { WidgetSettingsSchema } from '../common/settingsSchema';
+
+/**
+ * Settings form for the Reader widget
+ */
+export const readerSettingsSchema: WidgetSettingsSchema = {
+  fields: [
+    {
+      key: 'title',
+      type: 'text',
+      label: 'Widget Title',
+      default: 'Reader',
+      maxLength: 50,
+    },
+    {
+      key: 'credentialId',
+      type: 'credential',
+      label: 'Token Source',
+      default: '',
+      hosts: ['readwise.io'],
+      replaces: ['apiToken'],
+    },
+    {
+      key: 'apiToken',
+      type: 'password',
+      label: 'Readwise API Token',
+      description: 'Get your token at readwise.io/access_token',
+      required: true,
+      sensitive: true,
+      visibleWhen: { field: 'credentialId', equals: '' },
+    },
+    {
+      key: 'location',
+      type: 'select',
+      label: 'Location Filter',
+      default: 'all',
+      options: [
+        { value: 'all', label: 'All Locations' },
+        { value: 'new', label: 'Inbox (New)' },
+        { value: 'later', label: 'Later' },
+        { value: 'shortlist', label: 'Shortlist' },
+        { value: 'archive', label: 'Archive' },
+        { value: 'feed', label: 'Feed' },
+      ],
+    },
+    {
+      key: 'contentType',
+      type: 'select',
+      label: 'Content Type',
+      default: 'all',
+      options: [
+        { value: 'all', label: 'All Types' },
+        { value: 'article', label: 'Articles' },
+        { value: 'rss', label: 'RSS' },
+        { value: 'email', label: 'Email' },
+        { value: 'pdf', label: 'PDF' },
+        { value: 'epub', label: 'EPUB' },
+        { value: 'tweet', label: 'Tweets' },
+        { value: 'video', label: 'Videos' },
+      ],
+    },
+    {
+      key: 'refreshInterval',
+      type: 'number',
+      label: 'Refresh Interval (minutes)',
+      description: '0 turns automatic refreshes off',
+      default: 30,
+      min: 0,
+      integer: true,
+    },
+    {
+      key: 'showImage',
+      type: 'boolean',
+      label: 'Show Cover Image',
+      default: true,
+    },
+    {
+      key: 'showSummary',
+      type: 'boolean',
+      label: 'Show Summary',
+      default: true,
+    },
+    {
+      key: 'showProgress',
+      type: 'boolean',
+      label: 'Show Reading Progress',
+      default: true,
+    },
+  ],
+};
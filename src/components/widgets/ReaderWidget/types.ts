@@ -25,6 +25,8 @@ export interface ReaderDocument {
 export interface ReaderWidgetConfig {
   title?: string;
   apiToken?: string;
+  /** Vault credential used instead of apiToken */
+  credentialId?: string;
   refreshInterval?: number;
   location?: 'new' | 'later' | 'shortlist' | 'archive' | 'feed' | 'all';
   contentType?: 'article' | 'email' | 'rss' | 'pdf' | 'epub' | 'tweet' | 'video' | 'all';
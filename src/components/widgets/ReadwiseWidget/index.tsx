@@ -8,6 +8,8 @@ import {
   DialogFooter
 } from '../../ui/dialog';
 import WidgetHeader from '../common/WidgetHeader';
+import CredentialSelect from '../common/CredentialSelect';
+import { fetchWithCredential } from '../../../lib/credentialVault';
 import { RefreshCw, Quote, AlertCircle, BookOpen, Book } from 'lucide-react';
 import { ReadwiseHighlight, ReadwiseWidgetConfig, ReadwiseWidgetProps } from './types';
 import { Button } from '../../ui/button';
@@ -66,11 +68,14 @@ const ReadwiseWidget: React.FC<ReadwiseWidgetProps> = ({ width, height, config }
     }));
   }, [config]);
 
+  // Either a vault credential or a token saved in the widget
+  const hasToken = !!(localConfig.credentialId || localConfig.apiToken);
+
   /**
    * Fetches a random highlight from Readwise API
    */
   const fetchRandomHighlight = useCallback(async () => {
-    if (!localConfig.apiToken) {
+    if (!hasToken) {
       setError('API token is required');
       return;
     }
@@ -82,9 +87,12 @@ const ReadwiseWidget: React.FC<ReadwiseWidgetProps> = ({ width, height, config }
       // Get a random page number (1-10) to increase variety
       const randomPage = Math.floor(Math.random() * 10) + 1;
 
-      const response = await fetch(`https://readwise.io/api/v2/highlights/?page=${randomPage}&page_size=100`, {
+      const auth = {
+        credentialId: localConfig.credentialId,
+        authorization: `Token ${localConfig.apiToken}`
+      };
+      const response = await fetchWithCredential(`https://readwise.io/api/v2/highlights/?page=${randomPage}&page_size=100`, auth, {
         headers: {
-          'Authorization': `Token ${localConfig.apiToken}`,
           'Content-Type': 'application/json'
         }
       });
@@ -103,9 +111,8 @@ const ReadwiseWidget: React.FC<ReadwiseWidgetProps> = ({ width, height, config }
         // Get book info if available and showBookInfo is enabled
         if (localConfig.showBookInfo && randomHighlight.book_id) {
           try {
-            const bookResponse = await fetch(`https://readwise.io/api/v2/books/${randomHighlight.book_id}/`, {
+            const bookResponse = await fetchWithCredential(`https://readwise.io/api/v2/books/${randomHighlight.book_id}/`, auth, {
               headers: {
-                'Authorization': `Token ${localConfig.apiToken}`,
                 'Content-Type': 'application/json'
               }
             });
@@ -130,14 +137,14 @@ const ReadwiseWidget: React.FC<ReadwiseWidgetProps> = ({ width, height, config }
     } finally {
       setIsLoading(false);
     }
-  }, [localConfig.apiToken, localConfig.showBookInfo]);
+  }, [hasToken, localConfig.apiToken, localConfig.credentialId, localConfig.showBookInfo]);
 
   // Get a random highlight when component mounts
   useEffect(() => {
-    if (localConfig.apiToken) {
+    if (hasToken) {
       fetchRandomHighlight();
     }
-  }, [localConfig.apiToken, fetchRandomHighlight]);
+  }, [hasToken, fetchRandomHighlight]);
 
   // Auto-refresh when tab becomes visible or at the configured interval
   useVisibilityRefresh({
@@ -146,7 +153,7 @@ const ReadwiseWidget: React.FC<ReadwiseWidgetProps> = ({ width, height, config }
     refreshInterval: localConfig.refreshInterval && localConfig.refreshInterval > 0
       ? localConfig.refreshInterval * 60 * 1000
       : 0,
-    enabled: !!localConfig.apiToken
+    enabled: hasToken
   });
   
   /**
@@ -186,7 +193,7 @@ const ReadwiseWidget: React.FC<ReadwiseWidgetProps> = ({ width, height, config }
       return renderErrorState();
     }
     
-    if (!localConfig.apiToken) {
+    if (!hasToken) {
       return renderNoApiTokenState();
     }
     
@@ -653,7 +660,8 @@ const renderNoApiTokenState = () => {
   // Save settings
   const saveSettings = () => {
     if (config?.onUpdate) {
-      config.onUpdate(localConfig);
+      // A token left next to a vault credential would still be stored
+      config.onUpdate(localConfig.credentialId ? { ...localConfig, apiToken: '' } : localConfig);
     }
     setShowSettings(false);
     
@@ -685,20 +693,31 @@ const renderNoApiTokenState = () => {
             </div>
             
             {/* API Token */}
-            <div className="space-y-2">
-              <Label htmlFor="api-token-input">Readwise API Token</Label>
-              <Input
-                id="api-token-input"
-                type="password"
-                value={localConfig.apiToken || ''}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
-                  setLocalConfig({...localConfig, apiToken: e.target.value})
-                }
-              />
-              <p className="text-xs text-gray-500">
-                Get your token at <a href="https://readwise.io/access_token" target="_blank" rel="noopener noreferrer" className="text-blue-500">readwise.io/access_token</a>
-              </p>
-            </div>
+            <CredentialSelect
+              value={localConfig.credentialId || ''}
+              onChange={(credentialId) => setLocalConfig({
+                ...localConfig,
+                credentialId,
+                apiToken: credentialId ? '' : localConfig.apiToken,
+              })}
+              hosts={['readwise.io']}
+            />
+            {!localConfig.credentialId && (
+              <div className="space-y-2">
+                <Label htmlFor="api-token-input">Readwise API Token</Label>
+                <Input
+                  id="api-token-input"
+                  type="password"
+                  value={localConfig.apiToken || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
+                    setLocalConfig({...localConfig, apiToken: e.target.value})
+                  }
+                />
+                <p className="text-xs text-gray-500">
+                  Get your token at <a href="https://readwise.io/access_token" target="_blank" rel="noopener noreferrer" className="text-blue-500">readwise.io/access_token</a>
+                </p>
+              </div>
+            )}
             
             {/* Refresh interval */}
             <div className="space-y-2">
@@ -44,6 +44,7 @@ export interface ReadwiseHighlight {
  * @property {string} [id] - Unique identifier for the widget instance
  * @property {string} [title] - Title for the widget header
  * @property {string} [apiToken] - Readwise API token for authentication
+ * @property {string} [credentialId] - Vault credential used instead of the API token
  * @property {number} [refreshInterval] - How often to refresh highlights (in minutes)
  * @property {boolean} [showBookInfo] - Whether to display book title and author
  * @property {boolean} [showTags] - Whether to display tags associated with highlights
@@ -54,6 +55,7 @@ export interface ReadwiseWidgetConfig {
   id?: string;
   title?: string;
   apiToken?: string;
+  credentialId?: string;
   refreshInterval?: number;
   showBookInfo?: boolean;
   showTags?: boolean;
@@ -0,0 +1,508 @@
+import React, { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowUpRight, ChevronLeft, ChevronRight, Layers, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '../../ui/dialog';
+import { Button } from '../../ui/button';
+import { Input } from '../../ui/input';
+import { Label } from '../../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../ui/select';
+import WidgetHeader from '../common/WidgetHeader';
+import WidgetErrorBoundary from '../common/WidgetErrorBoundary';
+import {
+  WIDGET_REGISTRY,
+  getDefaultWidgetConfig,
+  getWidgetComponent,
+  getWidgetDisplayName,
+} from '..';
+import { configManager } from '@/lib/configManager';
+import { getStackChildren, requestUnstackWidget, STACK_WIDGET_TYPE, StackChild } from '@/lib/widgetStacks';
+import { cn } from '@/lib/utils';
+import { StackDisplayMode, StackWidgetConfig, StackWidgetProps } from './types';
+
+type ChildConfig = Record<string, unknown>;
+
+/**
+ * Config as it is stored: callbacks and render-only props removed
+ */
+const toStoredConfig = (config: ChildConfig, type: string): ChildConfig => {
+  const { onUpdate: _onUpdate, onDelete: _onDelete, readOnly: _readOnly, ...rest } = config;
+  return { ...rest, type };
+};
+
+interface StackChildViewProps {
+  child: StackChild;
+  config: ChildConfig | undefined;
+  width: number;
+  height: number;
+  readOnly: boolean;
+  onUpdate: (child: StackChild, config: ChildConfig) => void;
+  onDelete: (child: StackChild) => void;
+}
+
+/**
+ * One child widget, with its own error boundary so a failing child doesn't
+ * take the whole stack down
+ */
+const StackChildView: React.FC<StackChildViewProps> = ({ child, config, width, height, readOnly, onUpdate, onDelete }) => {
+  const WidgetComponent = getWidgetComponent(child.type);
+
+  const childConfig = useMemo(() => config && {
+    ...config,
+    id: child.id,
+    readOnly,
+    onUpdate: (updated: ChildConfig) => onUpdate(child, updated),
+    onDelete: () => onDelete(child),
+  }, [child, config, readOnly, onUpdate, onDelete]);
+
+  if (!WidgetComponent) {
+    return (
+      <div className="h-full flex items-center justify-center p-4 text-sm text-muted-foreground text-center">
+        Widget type "{child.type}" is not available
+      </div>
+    );
+  }
+
+  const loader = (
+    <div className="h-full flex items-center justify-center">
+      <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+    </div>
+  );
+
+  if (!childConfig) return loader;
+
+  return (
+    <WidgetErrorBoundary>
+      <Suspense fallback={loader}>
+        <WidgetComponent width={width} height={height} config={childConfig} />
+      </Suspense>
+    </WidgetErrorBoundary>
+  );
+};
+
+/**
+ * A container that shows several widgets in one grid cell, as tabs or a carousel.
+ * Each child keeps its own config in configManager under its own widget ID,
+ * unless the configs are passed in with childConfigs.
+ *
+ * @param width - Widget width in grid units
+ * @param height - Widget height in grid units
+ * @param config - Widget configuration
+ */
+const StackWidget: React.FC<StackWidgetProps> = ({ width, height, config }) => {
+  const children = useMemo(() => getStackChildren(config), [config]);
+  const displayMode: StackDisplayMode = config?.displayMode === 'carousel' ? 'carousel' : 'tabs';
+  const rotateSeconds = config?.rotateSeconds ?? 10;
+  const readOnly = config?.readOnly === true;
+  const providedConfigs = config?.childConfigs;
+  const onChildUpdate = config?.onChildUpdate;
+
+  const [childConfigs, setChildConfigs] = useState<Record<string, ChildConfig>>({});
+  const [activeChildId, setActiveChildId] = useState<string | undefined>(config?.activeChildId);
+  const [isPaused, setIsPaused] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [localConfig, setLocalConfig] = useState<StackWidgetConfig>({});
+  const [newChildType, setNewChildType] = useState('');
+  const widgetRef = useRef<HTMLDivElement | null>(null);
+  const requestedConfigIds = useRef(new Set<string>());
+
+  const activeIndex = Math.max(0, children.findIndex(child => child.id === activeChildId));
+  const activeChild = children[activeIndex];
+
+  // A widget moved into the stack asks to be shown
+  useEffect(() => {
+    if (config?.activeChildId) setActiveChildId(config.activeChildId);
+  }, [config?.activeChildId]);
+
+  // Load the configs of children we haven't loaded yet. A child that left the
+  // stack is loaded again if it comes back, its config may have changed.
+  useEffect(() => {
+    if (providedConfigs) {
+      setChildConfigs(Object.fromEntries(children.map(child => [
+        child.id,
+        { ...getDefaultWidgetConfig(child.type), ...providedConfigs[child.id] },
+      ])));
+      return;
+    }
+
+    const childIds = new Set(children.map(child => child.id));
+    requestedConfigIds.current.forEach(id => {
+      if (!childIds.has(id)) requestedConfigIds.current.delete(id);
+    });
+
+    children
+      .filter(child => !requestedConfigIds.current.has(child.id))
+      .forEach(async child => {
+        requestedConfigIds.current.add(child.id);
+        const stored = await configManager.getWidgetConfig(child.id);
+        setChildConfigs(prev => ({
+          ...prev,
+          [child.id]: { ...getDefaultWidgetConfig(child.type), ...stored },
+        }));
+      });
+  }, [children, providedConfigs]);
+
+  // Carousel auto-advance, paused while the pointer is over the stack
+  useEffect(() => {
+    if (displayMode !== 'carousel' || rotateSeconds <= 0 || children.length < 2 || isPaused) return;
+    const timer = setInterval(() => {
+      setActiveChildId(current => {
+        const index = children.findIndex(child => child.id === current);
+        return children[(Math.max(0, index) + 1) % children.length].id;
+      });
+    }, rotateSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [displayMode, rotateSeconds, children, isPaused]);
+
+  const updateStack = useCallback((updates: Partial<StackWidgetConfig>) => {
+    if (config?.onUpdate) {
+      const { childConfigs: _childConfigs, onChildUpdate: _onChildUpdate, ...stackConfig } = config;
+      config.onUpdate({ ...stackConfig, ...updates });
+    }
+  }, [config]);
+
+  /**
+   * Store a child's config, or remove it when null, wherever this stack's
+   * children are kept
+   */
+  const saveChildConfig = useCallback(async (childId: string, childConfig: ChildConfig | null) => {
+    if (providedConfigs) {
+      onChildUpdate?.(childId, childConfig);
+    } else if (childConfig) {
+      await configManager.saveWidgetConfig(childId, childConfig);
+    } else {
+      await configManager.clearConfig(childId);
+    }
+  }, [providedConfigs, onChildUpdate]);
+
+  const handleChildUpdate = useCallback((child: StackChild, updated: ChildConfig) => {
+    const stored = toStoredConfig(updated, child.type);
+    setChildConfigs(prev => ({ ...prev, [child.id]: stored }));
+    saveChildConfig(child.id, stored).catch(error => {
+      console.error('Error saving stacked widget config:', error);
+    });
+  }, [saveChildConfig]);
+
+  const removeChild = useCallback((child: StackChild) => {
+    updateStack({ children: children.filter(c => c.id !== child.id) });
+    setChildConfigs(prev => {
+      const { [child.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    saveChildConfig(child.id, null).catch(error => {
+      console.error('Error clearing stacked widget config:', error);
+    });
+  }, [children, updateStack, saveChildConfig]);
+
+  const moveChildOut = useCallback((child: StackChild) => {
+    if (!config?.id) return;
+    requestUnstackWidget({ stackId: config.id, childId: child.id });
+  }, [config?.id]);
+
+  const addChild = async () => {
+    if (!newChildType) return;
+    const child: StackChild = { id: `${newChildType}-${Date.now()}`, type: newChildType };
+    const childConfig = toStoredConfig(getDefaultWidgetConfig(newChildType), newChildType);
+
+    try {
+      await saveChildConfig(child.id, childConfig);
+    } catch (error) {
+      console.error('Error saving stacked widget config:', error);
+      return;
+    }
+    requestedConfigIds.current.add(child.id);
+    setChildConfigs(prev => ({ ...prev, [child.id]: childConfig }));
+    setActiveChildId(child.id);
+    updateStack({ children: [...children, child], activeChildId: child.id });
+    setNewChildType('');
+  };
+
+  /**
+   * Dragging a tab and dropping it anywhere outside the stack moves that
+   * widget back onto the dashboard
+   */
+  const handleTabDragStart = (event: React.DragEvent, child: StackChild) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', child.id);
+
+    const isOutsideStack = (e: DragEvent) => {
+      const rect = widgetRef.current?.getBoundingClientRect();
+      return !!rect && (e.clientX < rect.left || e.clientX > rect.right || e.clientY < rect.top || e.clientY > rect.bottom);
+    };
+    const handleDragOver = (e: DragEvent) => {
+      if (isOutsideStack(e)) e.preventDefault();
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!isOutsideStack(e)) return;
+      e.preventDefault();
+      moveChildOut(child);
+    };
+    const cleanup = () => {
+      document.removeEventListener('dragover', handleDragOver);
+      document.removeEventListener('drop', handleDrop);
+    };
+
+    document.addEventListener('dragover', handleDragOver);
+    document.addEventListener('drop', handleDrop);
+    document.addEventListener('dragend', cleanup, { once: true });
+  };
+
+  const childName = (child: StackChild) =>
+    getWidgetDisplayName({ id: child.id, type: child.type, config: childConfigs[child.id] });
+
+  const showChild = (index: number) => {
+    const next = children[(index + children.length) % children.length];
+    if (next) setActiveChildId(next.id);
+  };
+
+  const handleSettingsOpen = () => {
+    setLocalConfig({
+      title: config?.title || '',
+      displayMode,
+      rotateSeconds,
+    });
+    setShowSettings(true);
+  };
+
+  const saveSettings = () => {
+    updateStack({
+      title: localConfig.title,
+      displayMode: localConfig.displayMode,
+      rotateSeconds: Math.max(0, Math.floor(Number(localConfig.rotateSeconds) || 0)),
+    });
+    setShowSettings(false);
+  };
+
+  const addableTypes = WIDGET_REGISTRY.filter(widget => widget.type !== STACK_WIDGET_TYPE);
+
+  const renderTabs = () => (
+    <div className="flex gap-1 px-2 pb-1 overflow-x-auto" role="tablist" aria-label="Stacked widgets">
+      {children.map(child => (
+        <button
+          key={child.id}
+          type="button"
+          role="tab"
+          aria-selected={child.id === activeChild?.id}
+          draggable={!readOnly}
+          onDragStart={(e) => handleTabDragStart(e, child)}
+          onClick={() => setActiveChildId(child.id)}
+          title={readOnly ? undefined : 'Drag outside the stack to move it to the dashboard'}
+          className={cn(
+            'shrink-0 max-w-[10rem] truncate rounded-md px-2 py-0.5 text-xs transition-colors',
+            child.id === activeChild?.id
+              ? 'bg-accent text-accent-foreground font-medium'
+              : 'text-muted-foreground hover:bg-accent/50'
+          )}
+        >
+          {childName(child)}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderCarouselControls = () => (
+    <div className="flex items-center justify-between gap-2 px-2 pt-1">
+      <button
+        type="button"
+        onClick={() => showChild(activeIndex - 1)}
+        className="p-1 rounded-full text-muted-foreground hover:bg-accent"
+        aria-label="Previous widget"
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </button>
+      <div className="flex items-center gap-1.5">
+        {children.map((child, index) => (
+          <button
+            key={child.id}
+            type="button"
+            draggable={!readOnly}
+            onDragStart={(e) => handleTabDragStart(e, child)}
+            onClick={() => showChild(index)}
+            className={cn(
+              'h-1.5 w-1.5 rounded-full transition-colors',
+              index === activeIndex ? 'bg-foreground' : 'bg-muted-foreground/40'
+            )}
+            aria-label={`Show ${childName(child)}`}
+            aria-current={index === activeIndex}
+          />
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => showChild(activeIndex + 1)}
+        className="p-1 rounded-full text-muted-foreground hover:bg-accent"
+        aria-label="Next widget"
+      >
+        <ChevronRight className="h-4 w-4" />
+      </button>
+    </div>
+  );
+
+  const renderSettings = () => (
+    <Dialog open={showSettings} onOpenChange={setShowSettings}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Stack Settings</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="stack-title">Title</Label>
+            <Input
+              id="stack-title"
+              value={localConfig.title || ''}
+              placeholder="Stack"
+              onChange={(e) => setLocalConfig(prev => ({ ...prev, title: e.target.value }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stack-display-mode">Display</Label>
+              <Select
+                value={localConfig.displayMode}
+                onValueChange={(value) => setLocalConfig(prev => ({ ...prev, displayMode: value as StackDisplayMode }))}
+              >
+                <SelectTrigger id="stack-display-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tabs">Tabs</SelectItem>
+                  <SelectItem value="carousel">Carousel</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {localConfig.displayMode === 'carousel' && (
+              <div className="space-y-2">
+                <Label htmlFor="stack-rotate">Seconds per widget</Label>
+                <Input
+                  id="stack-rotate"
+                  type="number"
+                  min={0}
+                  value={localConfig.rotateSeconds ?? 0}
+                  onChange={(e) => setLocalConfig(prev => ({ ...prev, rotateSeconds: Number(e.target.value) }))}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Widgets</Label>
+            {children.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No widgets in this stack yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {children.map(child => (
+                  <li key={child.id} className="flex items-center justify-between gap-2 rounded-md border px-2 py-1">
+                    <span className="truncate text-sm">{childName(child)}</span>
+                    <div className="flex shrink-0 items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => moveChildOut(child)}
+                        aria-label={`Move ${childName(child)} to the dashboard`}
+                        title="Move to dashboard"
+                      >
+                        <ArrowUpRight className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => removeChild(child)}
+                        aria-label={`Remove ${childName(child)}`}
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <Select value={newChildType} onValueChange={setNewChildType}>
+                <SelectTrigger aria-label="Widget to add">
+                  <SelectValue placeholder="Add a widget..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {addableTypes.map(widget => (
+                    <SelectItem key={widget.type} value={widget.type}>{widget.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={addChild} disabled={!newChildType}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <div className="flex justify-between w-full">
+            {config?.onDelete && (
+              <Button variant="destructive" onClick={config.onDelete}>
+                Delete
+              </Button>
+            )}
+            <Button onClick={saveSettings}>Save</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+
+  return (
+    <div
+      ref={widgetRef}
+      className="widget-container h-full flex flex-col"
+      onMouseEnter={() => setIsPaused(true)}
+      onMouseLeave={() => setIsPaused(false)}
+    >
+      <WidgetHeader
+        title={config?.title || 'Stack'}
+        onSettingsClick={handleSettingsOpen}
+      />
+
+      {children.length > 0 && displayMode === 'tabs' && renderTabs()}
+
+      <div className="stack-widget-content flex-1 min-h-0 overflow-hidden">
+        {activeChild ? (
+          <StackChildView
+            key={activeChild.id}
+            child={activeChild}
+            config={childConfigs[activeChild.id]}
+            width={width}
+            height={height}
+            readOnly={readOnly}
+            onUpdate={handleChildUpdate}
+            onDelete={removeChild}
+          />
+        ) : (
+          <div className="h-full flex flex-col items-center justify-center gap-2 p-4 text-center text-sm text-muted-foreground">
+            <Layers className="h-6 w-6" />
+            <p>Drag a widget onto this stack, or add one in settings.</p>
+          </div>
+        )}
+      </div>
+
+      {children.length > 1 && displayMode === 'carousel' && renderCarouselControls()}
+
+      {renderSettings()}
+    </div>
+  );
+};
+
+export default StackWidget;
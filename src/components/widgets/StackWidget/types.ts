@@ -0,0 +1,27 @@
+import { WidgetProps } from '@/types';
+import type { StackChild } from '@/lib/widgetStacks';
+
+export type StackDisplayMode = 'tabs' | 'carousel';
+
+export interface StackWidgetConfig {
+  id?: string;
+  title?: string;
+  /** Child widgets in tab order; their configs are stored under their own IDs */
+  children?: StackChild[];
+  activeChildId?: string;
+  displayMode?: StackDisplayMode;
+  /** Seconds before the carousel moves to the next widget (0 = manual only) */
+  rotateSeconds?: number;
+  /**
+   * Children's configs when they don't come from configManager, like on a
+   * shared dashboard. Render-only, never stored with the stack.
+   */
+  childConfigs?: Record<string, Record<string, unknown>>;
+  /** Saves a child's config (null removes it) when childConfigs is given */
+  onChildUpdate?: (childId: string, config: Record<string, unknown> | null) => void;
+  onUpdate?: (config: StackWidgetConfig) => void;
+  onDelete?: () => void;
+  [key: string]: unknown;
+}
+
+export type StackWidgetProps = WidgetProps<StackWidgetConfig>;
@@ -11,9 +11,12 @@ import {
   Plus,
   Trash2,
   GripVertical,
+  Timer,
 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import WidgetHeader from '../common/WidgetHeader';
+import WidgetLinkSelect from '../common/WidgetLinkSelect';
+import { widgetEventBus } from '@/lib/widgetEvents';
 import { TodoWidgetProps, TodoWidgetConfig, TodoItem } from './types';
 import { Button } from '../../ui/button';
 import { Label } from '../../ui/label';
@@ -341,6 +344,13 @@ const TodoWidget: React.FC<TodoWidgetProps> = ({ width, height, config }) => {
     return items;
   };
 
+  // Tasks can be sent to a linked Pomodoro widget to start a focus session
+  const canStartFocus = (item: TodoItem) => !item.completed && !!config?.widgetLinks?.['start-focus'];
+
+  const startFocus = (item: TodoItem) => {
+    widgetEventBus.publishToLink(config?.widgetLinks, 'start-focus', { task: item.text });
+  };
+
   const renderTodoList = (items: TodoItem[]) => (
     <div className="space-y-2 pr-1">
       {items.map(item => (
@@ -378,6 +388,15 @@ const TodoWidget: React.FC<TodoWidgetProps> = ({ width, height, config }) => {
           </span>
           
           <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+            {canStartFocus(item) && (
+              <button
+                onClick={() => startFocus(item)}
+                className="p-1 text-gray-500 hover:text-blue-600 dark:text-slate-400 dark:hover:text-blue-400"
+                aria-label="Start a focus session on this task"
+              >
+                <Timer size={14} />
+              </button>
+            )}
             <button
               onClick={() => deleteTodo(item.id)}
               className="p-1 text-gray-500 hover:text-red-600 dark:text-slate-400 dark:hover:text-red-400"
@@ -482,6 +501,15 @@ const TodoWidget: React.FC<TodoWidgetProps> = ({ width, height, config }) => {
                     {item.text}
                   </span>
                   <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity ml-1">
+                    {canStartFocus(item) && (
+                      <button
+                        onClick={() => startFocus(item)}
+                        className="p-0.5 text-gray-500 hover:text-blue-600 dark:text-slate-400 dark:hover:text-blue-400"
+                        aria-label="Start a focus session on this task"
+                      >
+                        <Timer size={10} />
+                      </button>
+                    )}
                     <button
                       onClick={() => deleteTodo(item.id)}
                       className="p-0.5 text-gray-500 hover:text-red-600 dark:text-slate-400 dark:hover:text-red-400"
@@ -670,6 +698,15 @@ const TodoWidget: React.FC<TodoWidgetProps> = ({ width, height, config }) => {
                 </SelectContent>
               </Select>
             </div>
+            <WidgetLinkSelect
+              event="start-focus"
+              widgetId={config?.id}
+              links={localConfig.widgetLinks}
+              onChange={(widgetLinks) => setLocalConfig({ ...localConfig, widgetLinks })}
+              label="Focus sessions"
+              noneLabel="Not linked"
+              description="Link a Pomodoro widget to start a focus session from a task."
+            />
           </div>
           
           <DialogFooter>
@@ -0,0 +1,11 @@
+import { WidgetSearchItem } from '@/lib/widgetSearch';
+import { TodoWidgetConfig } from './types';
+
+/**
+ * Searchable content of a Todo widget: its items
+ */
+export const getTodoSearchItems = (config: TodoWidgetConfig): WidgetSearchItem[] =>
+  (config.items || []).map(item => ({
+    text: item.text,
+    detail: item.completed ? 'Completed' : undefined,
+  }));
@@ -1,4 +1,5 @@
 import { WidgetProps } from '@/types';
+import { WidgetLinks } from '@/lib/widgetEvents';
 
 /**
  * Todo item interface
@@ -28,14 +29,17 @@ export interface TodoItem {
  * @property {string} [darkBackgroundColor] - Background color for the todo list in dark mode
  * @property {boolean} [showCompletedItems] - Whether to show completed items
  * @property {string} [sortOrder] - How to sort todo items ("created" | "alphabetical" | "completed" | "manual")
+ * @property {WidgetLinks} [widgetLinks] - Pomodoro widget that tasks start focus sessions in
  */
 export interface TodoWidgetConfig {
+  id?: string;
   title?: string;
   items?: TodoItem[];
   backgroundColor?: string;
   darkBackgroundColor?: string;
   showCompletedItems?: boolean;
   sortOrder?: 'created' | 'alphabetical' | 'completed' | 'manual';
+  widgetLinks?: WidgetLinks;
   onUpdate?: (config: TodoWidgetConfig) => void;
   onDelete?: () => void;
   [key: string]: unknown; // Index signature to satisfy Record<string, unknown>
@@ -3,18 +3,11 @@ import { useVisibilityRefresh } from '../../../lib/useVisibilityRefresh';
 // Add CheckSquare import
 // Add AlertCircle import
 import { Check, Loader2, CalendarIcon, ExternalLink, CheckSquare, AlertCircle } from 'lucide-react';
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogFooter,
-} from '../../ui/dialog';
-import { Input } from '../../ui/input';
-import { Switch } from '../../ui/switch';
-import { Label } from '../../ui/label';
 import WidgetHeader from '../common/WidgetHeader';
+import WidgetSettingsDialog from '../common/WidgetSettingsDialog';
 import { TodoistWidgetProps, TodoistTask } from './types';
+import { todoistSettingsSchema } from './settings';
+import { fetchWithCredential } from '@/lib/credentialVault';
 // Add import for Button
 import { Button } from '../../ui/button';
 
@@ -143,10 +136,12 @@ const TodoistWidget: React.FC<TodoistWidgetProps> = ({ config }) => {
   const [showSettings, setShowSettings] = useState(false);
   const [localConfig, setLocalConfig] = useState(config || {});
   const [pendingTasks, setPendingTasks] = useState<Set<string>>(new Set());
+  // Either a vault credential or a token saved in the widget
+  const hasToken = !!(localConfig?.credentialId || localConfig?.apiToken);
 
   // Fetch tasks from Todoist
   const fetchTasks = useCallback(async () => {
-    if (!localConfig?.apiToken) {
+    if (!hasToken) {
       setError('API token not configured');
       return;
     }
@@ -159,10 +154,9 @@ const TodoistWidget: React.FC<TodoistWidgetProps> = ({ config }) => {
         ? `https://api.todoist.com/rest/v2/tasks?project_id=${localConfig.projectId}`
         : 'https://api.todoist.com/rest/v2/tasks';
 
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${localConfig.apiToken}`
-        }
+      const response = await fetchWithCredential(url, {
+        credentialId: localConfig.credentialId,
+        authorization: `Bearer ${localConfig.apiToken}`
       });
       
       if (!response.ok) throw new Error('Failed to fetch tasks');
@@ -179,11 +173,11 @@ const TodoistWidget: React.FC<TodoistWidgetProps> = ({ config }) => {
     } finally {
       setLoading(false);
     }
-  }, [localConfig]);
+  }, [localConfig, hasToken]);
 
   // Optimized toggle task function
   const toggleTask = useCallback(async (taskId: string, completed: boolean) => {
-    if (!localConfig?.apiToken || pendingTasks.has(taskId)) return;
+    if (!hasToken || pendingTasks.has(taskId)) return;
     
     // Optimistic update
     setPendingTasks(prev => new Set(prev).add(taskId));
@@ -195,11 +189,11 @@ const TodoistWidget: React.FC<TodoistWidgetProps> = ({ config }) => {
 
     try {
       const endpoint = completed ? 'close' : 'reopen';
-      const response = await fetch(`https://api.todoist.com/rest/v2/tasks/${taskId}/${endpoint}`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${localConfig.apiToken}`
-        }
+      const response = await fetchWithCredential(`https://api.todoist.com/rest/v2/tasks/${taskId}/${endpoint}`, {
+        credentialId: localConfig.credentialId,
+        authorization: `Bearer ${localConfig.apiToken}`
+      }, {
+        method: 'POST'
       });
       
       if (!response.ok) throw new Error('Failed to update task');
@@ -226,24 +220,24 @@ const TodoistWidget: React.FC<TodoistWidgetProps> = ({ config }) => {
         return next;
       });
     }
-  }, [localConfig?.apiToken, pendingTasks]);
+  }, [localConfig?.apiToken, localConfig?.credentialId, hasToken, pendingTasks]);
 
   useEffect(() => {
-    if (localConfig?.apiToken) {
+    if (hasToken) {
       fetchTasks();
     }
-  }, [fetchTasks]);
+  }, [fetchTasks, hasToken]);
 
   // Auto-refresh when tab becomes visible or every 5 minutes
   useVisibilityRefresh({
     onRefresh: fetchTasks,
     minHiddenTime: 60000, // Refresh if hidden for 1+ minute
     refreshInterval: 300000, // Refresh every 5 minutes
-    enabled: !!localConfig?.apiToken
+    enabled: hasToken
   });
 
   const renderContent = () => {
-    if (!localConfig?.apiToken) {
+    if (!hasToken) {
       return (
         <div className="h-full flex flex-col items-center justify-center text-center">
           {/* Use CheckSquare icon from Lucide with consistent styling */}
@@ -315,99 +309,21 @@ const TodoistWidget: React.FC<TodoistWidgetProps> = ({ config }) => {
   };
 
   const renderSettings = () => (
-    <Dialog open={showSettings} onOpenChange={setShowSettings}>
-      <DialogContent className="sm:max-w-md">
-        <DialogHeader>
-          <DialogTitle>Todoist Settings</DialogTitle>
-        </DialogHeader>
-        
-        {/* Change py-2 to py-4 */}
-        <div className="space-y-4 py-4">
-          <div className="space-y-2">
-            <Label>API Token</Label>
-            <Input
-              type="password"
-              value={localConfig?.apiToken || ''}
-              onChange={(e) => setLocalConfig({
-                ...localConfig,
-                apiToken: e.target.value
-              })}
-              placeholder="Enter your Todoist API token"
-            />
-            <p className="text-xs text-gray-500">
-              Get your API token from Todoist Settings → Integrations
-            </p>
-          </div>
-
-          <div className="space-y-2">
-            <Label>Project ID (Optional)</Label>
-            <Input
-              type="text"
-              value={localConfig?.projectId || ''}
-              onChange={(e) => setLocalConfig({
-                ...localConfig,
-                projectId: e.target.value
-              })}
-              placeholder="Enter project ID to filter tasks"
-            />
-          </div>
-
-          {/* Change layout from justify-between to flex items-center space-x-2 */}
-          {/* Place Switch before Label */}
-          <div className="flex items-center space-x-2">
-            <Switch
-              id="showCompleted"
-              checked={localConfig?.showCompleted || false}
-              onCheckedChange={(checked) => setLocalConfig({
-                ...localConfig,
-                showCompleted: checked
-              })}
-            />
-            <Label htmlFor="showCompleted">Show Completed Tasks</Label>
-          </div>
-
-          <div className="space-y-2">
-            <Label>Maximum Tasks</Label>
-            <Input
-              type="number"
-              value={localConfig?.maxTasks || 10}
-              onChange={(e) => setLocalConfig({
-                ...localConfig,
-                maxTasks: parseInt(e.target.value) || 10
-              })}
-              min="1"
-              max="50"
-            />
-          </div>
-        </div>
-        
-        <DialogFooter>
-          {/* Replace native button with shadcn/ui Button */}
-          <div className="flex justify-between w-full">
-            {config?.onDelete && (
-              <Button
-                variant="destructive"
-                onClick={config.onDelete}
-              >
-                Delete
-              </Button>
-            )}
-            {/* Ensure the Save button is pushed to the right if Delete is not present */}
-            {!config?.onDelete && <div />}
-            <Button
-              onClick={() => {
-                if (config?.onUpdate) {
-                  config.onUpdate(localConfig);
-                }
-                setShowSettings(false);
-              }}
-            >
-              Save
-            </Button>
-          </div>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+    <WidgetSettingsDialog
+      open={showSettings}
+      onOpenChange={setShowSettings}
+      title="Todoist Settings"
+      schema={todoistSettingsSchema}
+      config={localConfig}
+      onSave={(values) => {
+        const newConfig = { ...localConfig, ...values };
+        setLocalConfig(newConfig);
+        if (config?.onUpdate) {
+          config.onUpdate(newConfig);
+        }
+      }}
+      onDelete={config?.onDelete}
+    />
   );
 
   return (
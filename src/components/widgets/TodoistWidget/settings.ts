@@ -0,0 +1,51 @@
+import { WidgetSettingsSchema } from '../common/settingsSchema';
+
+/**
+ * Settings form for the Todoist widget
+ */
+export const todoistSettingsSchema: WidgetSettingsSchema = {
+  fields: [
+    {
+      key: 'credentialId',
+      type: 'credential',
+      label: 'Token Source',
+      default: '',
+      hosts: ['api.todoist.com'],
+      replaces: ['apiToken'],
+    },
+    {
+      key: 'apiToken',
+      type: 'password',
+      label: 'API Token',
+      description: 'Get your API token from Todoist Settings → Integrations',
+      placeholder: 'Enter your Todoist API token',
+      required: true,
+      sensitive: true,
+      visibleWhen: { field: 'credentialId', equals: '' },
+    },
+    {
+      key: 'projectId',
+      type: 'text',
+      label: 'Project ID',
+      placeholder: 'Enter project ID to filter tasks',
+      pattern: '^\\S+$',
+      patternMessage: 'Project ID cannot contain spaces',
+    },
+    {
+      key: 'showCompleted',
+      type: 'boolean',
+      label: 'Show Completed Tasks',
+      default: false,
+    },
+    {
+      key: 'maxTasks',
+      type: 'number',
+      label: 'Maximum Tasks',
+      default: 10,
+      min: 1,
+      max: 50,
+      integer: true,
+      required: true,
+    },
+  ],
+};
@@ -22,6 +22,8 @@ export interface TodoistTask {
 export interface TodoistWidgetConfig {
   id?: string;
   apiToken?: string;
+  /** Vault credential used instead of apiToken */
+  credentialId?: string;
   projectId?: string;
   showCompleted?: boolean;
   maxTasks?: number;
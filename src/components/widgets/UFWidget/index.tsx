@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { useState, useEffect, useRef, useMemo, useCallback, useReducer } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { RefreshCw } from 'lucide-react';
 import {
   Dialog,
@@ -9,11 +9,14 @@ import {
   DialogFooter
 } from '../../ui/dialog';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
 import { UFWidgetProps, UFWidgetConfig, UFData } from './types';
 import { Button } from '../../ui/button';
 import { Input } from '../../ui/input';
 import { Label } from '../../ui/label';
 import { Checkbox } from '../../ui/checkbox';
+import { useQuery } from '../../../lib/useQuery';
+import { fetchOrThrow } from '../../../lib/queryCache';
 
 /**
  * Size categories for widget content rendering
@@ -28,77 +31,34 @@ enum WidgetSizeCategory {
   LARGE = 'large'          // 4x4
 }
 
-// Define action types
-type UFWidgetAction = 
-  | { type: 'FETCH_START' }
-  | { type: 'FETCH_SUCCESS'; payload: { data: UFData; timestamp: Date } }
-  | { type: 'FETCH_ERROR'; payload: string }
-  | { type: 'USE_FALLBACK'; payload: UFData }
-  | { type: 'INCREMENT_RETRY' };
-
-// Define state interface
-interface UFWidgetState {
-  loading: boolean;
-  error: string | null;
-  ufData: UFData | null;
-  lastUpdated: Date | null;
-  retryCount: number;
-  useFallbackData: boolean;
-}
+// Failed fetches in a row before approximate values are shown instead
+const MAX_RETRIES = 3;
 
-// Initial state
-const initialState: UFWidgetState = {
-  loading: true,
-  error: null,
-  ufData: null,
-  lastUpdated: null,
-  retryCount: 0,
-  useFallbackData: false
-};
+/**
+ * Fetch today's UF value and its recent history from mindicador.cl
+ */
+const loadUfData = async (): Promise<UFData> => {
+  const response = await fetchOrThrow('/api/mindicador/api', {
+    headers: {
+      'Accept': 'application/json',
+      'Cache-Control': 'no-cache'
+    }
+  });
+  const data = await response.json();
 
-// Reducer function
-function ufWidgetReducer(state: UFWidgetState, action: UFWidgetAction): UFWidgetState {
-  switch (action.type) {
-    case 'FETCH_START':
-      return {
-        ...state,
-        loading: true,
-        error: null,
-        useFallbackData: false
-      };
-    case 'FETCH_SUCCESS':
-      return {
-        ...state,
-        loading: false,
-        error: null,
-        ufData: action.payload.data,
-        lastUpdated: action.payload.timestamp,
-        retryCount: 0
-      };
-    case 'FETCH_ERROR':
-      return {
-        ...state,
-        loading: false,
-        error: action.payload
-      };
-    case 'USE_FALLBACK':
-      return {
-        ...state,
-        loading: false,
-        error: null,
-        ufData: action.payload,
-        lastUpdated: new Date(),
-        useFallbackData: true
-      };
-    case 'INCREMENT_RETRY':
-      return {
-        ...state,
-        retryCount: state.retryCount + 1
-      };
-    default:
-      return state;
+  if (!data || !data.uf) {
+    throw new Error('Invalid API response format');
   }
-}
+
+  return {
+    codigo: data.uf.codigo,
+    nombre: data.uf.nombre,
+    unidad_medida: data.uf.unidad_medida,
+    fecha: data.uf.fecha,
+    valor: data.uf.valor,
+    serie: data.uf.serie || []
+  };
+};
 
 /**
  * UF Widget Component
@@ -117,10 +77,6 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
     refreshInterval: 60 // minutes
   };
 
-  // Use reducer for complex state management
-  const [state, dispatch] = useReducer(ufWidgetReducer, initialState);
-  const { loading, error, ufData, lastUpdated, retryCount, useFallbackData } = state;
-
   // Component state
   const [showSettings, setShowSettings] = useState<boolean>(false);
   const [localConfig, setLocalConfig] = useState<UFWidgetConfig>({
@@ -128,13 +84,11 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
     ...config
   });
 
+  // Approximate values the user chose to see while the API is failing
+  const [isFallbackChosen, setIsFallbackChosen] = useState(false);
+
   // Refs
   const widgetRef = useRef<HTMLDivElement | null>(null);
-  const refreshTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  // Constants
-  const maxRetries = 3;
 
   // Wrap fallbackUfData in useMemo
   const fallbackUfData = useMemo<UFData>(() => ({
@@ -159,93 +113,22 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
     ]
   }), []);
 
-  // Fetch data with improved error handling and performance
-  const fetchUfData = useCallback(async () => {
-    let controller: AbortController | null = new AbortController();
-    abortControllerRef.current = controller;
-    
-    try {
-      dispatch({ type: 'FETCH_START' });
-
-      const response = await fetch('/api/mindicador/api', {
-        method: 'GET',
-        signal: controller?.signal,
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'Cache-Control': 'no-cache'
-        }
-      });
-
-      // Check if the request was aborted or the controller is no longer valid
-      if (!controller || controller !== abortControllerRef.current) {
-        return;
-      }
-
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      
-      // Check again if the request was aborted or the controller is no longer valid
-      if (!controller || controller !== abortControllerRef.current) {
-        return;
-      }
-
-      if (!data || !data.uf) {
-        throw new Error('Invalid API response format');
-      }
-
-      const transformedData: UFData = {
-        codigo: data.uf.codigo,
-        nombre: data.uf.nombre,
-        unidad_medida: data.uf.unidad_medida,
-        fecha: data.uf.fecha,
-        valor: data.uf.valor,
-        serie: data.uf.serie || []
-      };
-
-      dispatch({ 
-        type: 'FETCH_SUCCESS', 
-        payload: { 
-          data: transformedData, 
-          timestamp: new Date() 
-        } 
-      });
-    } catch (err) {
-      // Only handle errors if the controller is still valid
-      if (controller === abortControllerRef.current) {
-        if (err instanceof Error) {
-          console.error('Error fetching UF data:', err);
-          
-          if (err.name === 'AbortError') {
-            return; // Ignore abort errors
-          }
-          
-          if (retryCount < maxRetries) {
-            dispatch({ type: 'INCREMENT_RETRY' });
-            const backoffDelay = Math.min(1000 * Math.pow(2, retryCount), 10000);
-            setTimeout(() => {
-              if (controller === abortControllerRef.current) {
-                fetchUfData();
-              }
-            }, backoffDelay);
-          } else {
-            dispatch({ type: 'FETCH_ERROR', payload: 'No se pudo obtener datos actualizados' });
-            dispatch({ type: 'USE_FALLBACK', payload: fallbackUfData });
-          }
-        }
-      }
-    } finally {
-      // Clear the controller reference if it hasn't been changed
-      if (controller === abortControllerRef.current) {
-        controller = null;
-      }
-    }
-    // fallbackUfData is intentionally excluded from deps as it's a static memoized constant
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [retryCount, maxRetries]);
+  const refreshIntervalMinutes = localConfig.refreshInterval ?? defaultConfig.refreshInterval ?? 60;
+  const {
+    data,
+    error: fetchError,
+    isLoading: loading,
+    isFetching,
+    failureCount,
+    updatedAt,
+    refresh
+  } = useQuery('uf', loadUfData, { refreshInterval: refreshIntervalMinutes * 60 * 1000 });
+
+  // Approximate values stand in once the API keeps failing, until real ones arrive
+  const useFallbackData = !data && !!fetchError && (isFallbackChosen || failureCount > MAX_RETRIES);
+  const ufData = data ?? (useFallbackData ? fallbackUfData : null);
+  const error = fetchError && !ufData ? 'No se pudo obtener datos actualizados' : null;
+  const lastUpdated = useMemo(() => (updatedAt !== undefined ? new Date(updatedAt) : null), [updatedAt]);
 
   // Update local config when props config changes
   useEffect(() => {
@@ -272,47 +155,6 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
     return date.toLocaleDateString('es-CL');
   }, []); // Empty dependency array as this function doesn't depend on any props or state
 
-  // Data fetching and refresh timer effect
-  useEffect(() => {
-    let isActive = true;
-    const controller = new AbortController();
-    abortControllerRef.current = controller;
-
-    const fetchData = async () => {
-      if (isActive) {
-        await fetchUfData();
-      }
-    };
-
-    // Initial fetch
-    fetchData();
-
-    // Setup refresh timer
-    const refreshIntervalMinutes = localConfig.refreshInterval ?? defaultConfig.refreshInterval ?? 60;
-    const refreshIntervalMs = refreshIntervalMinutes * 60 * 1000;
-    
-    const timerId = setInterval(() => {
-      if (isActive) {
-        fetchData();
-      }
-    }, refreshIntervalMs);
-    
-    refreshTimerRef.current = timerId;
-
-    // Cleanup function
-    return () => {
-      isActive = false;
-      if (controller === abortControllerRef.current) {
-        controller.abort();
-        abortControllerRef.current = null;
-      }
-      if (refreshTimerRef.current) {
-        clearInterval(refreshTimerRef.current);
-        refreshTimerRef.current = null;
-      }
-    };
-  }, [localConfig.refreshInterval, fetchUfData, defaultConfig.refreshInterval]);
-  
   /**
    * Determines the appropriate size category based on width and height
    */
@@ -344,7 +186,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         </div>
         <div className="flex gap-2">
           <button
-            onClick={() => fetchUfData()}
+            onClick={() => void refresh()}
             className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
             aria-label="Reintentar cargar datos"
             title="Reintentar"
@@ -352,9 +194,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
             <RefreshCw size={18} />
           </button>
           <button
-            onClick={() => {
-              setLocalConfig({...localConfig, useFallbackData: true, ufData: fallbackUfData});
-            }}
+            onClick={() => setIsFallbackChosen(true)}
             className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
             aria-label="Usar datos aproximados"
           >
@@ -363,7 +203,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         </div>
       </div>
     );
-  }, [error, fetchUfData, localConfig, fallbackUfData]);
+  }, [error, refresh]);
 
   // Memoize the size category calculation
   const sizeCategory = useMemo(() => getWidgetSizeCategory(width, height), [width, height, getWidgetSizeCategory]);
@@ -405,7 +245,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
           </div>
         )}
         <button
-          onClick={() => fetchUfData()}
+          onClick={() => void refresh()}
           className="mt-2 p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
           title="Actualizar"
         >
@@ -413,7 +253,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         </button>
       </div>
     );
-  }, [loading, error, ufData, useFallbackData, formatUfValue, formatDate, lastUpdated, renderErrorView, fetchUfData]);
+  }, [loading, error, ufData, useFallbackData, formatUfValue, formatDate, lastUpdated, renderErrorView, refresh]);
   
   // Render wide small view (3x2 or 4x2)
   const renderWideSmallView = useCallback(() => {
@@ -453,7 +293,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         
         <div className="flex flex-col items-end">
           <button
-            onClick={() => fetchUfData()}
+            onClick={() => void refresh()}
             className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
             title="Actualizar"
           >
@@ -465,7 +305,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         </div>
       </div>
     );
-  }, [loading, error, ufData, formatUfValue, formatDate, fetchUfData, lastUpdated]);
+  }, [loading, error, ufData, formatUfValue, formatDate, refresh, lastUpdated]);
 
   // Render tall small view (2x3 or 2x4)
   const renderTallSmallView = useCallback(() => {
@@ -505,7 +345,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         
         <div className="flex flex-col items-center">
           <button
-            onClick={() => fetchUfData()}
+            onClick={() => void refresh()}
             className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
             title="Actualizar"
           >
@@ -517,7 +357,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         </div>
       </div>
     );
-  }, [loading, error, ufData, formatUfValue, formatDate, fetchUfData, lastUpdated]);
+  }, [loading, error, ufData, formatUfValue, formatDate, refresh, lastUpdated]);
 
   // Render medium view (3x3)
   const renderMediumView = useCallback(() => {
@@ -543,7 +383,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
           </div>
 
           <button
-            onClick={() => fetchUfData()}
+            onClick={() => void refresh()}
             className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
             title="Actualizar"
           >
@@ -572,7 +412,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         </div>
       </div>
     );
-  }, [loading, error, ufData, localConfig.showHistory, formatUfValue, formatDate, fetchUfData, lastUpdated]);
+  }, [loading, error, ufData, localConfig.showHistory, formatUfValue, formatDate, refresh, lastUpdated]);
   
   // Render wide medium view (4x3)
   const renderWideMediumView = useCallback(() => {
@@ -599,7 +439,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
           
           <div className="flex flex-col items-end">
             <button
-              onClick={() => fetchUfData()}
+              onClick={() => void refresh()}
               className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
               title="Actualizar"
             >
@@ -632,7 +472,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         </div>
       </div>
     );
-  }, [loading, error, ufData, localConfig.showHistory, formatUfValue, formatDate, fetchUfData, lastUpdated]);
+  }, [loading, error, ufData, localConfig.showHistory, formatUfValue, formatDate, refresh, lastUpdated]);
 
   // Render tall medium view (3x4)
   const renderTallMediumView = useCallback(() => {
@@ -658,7 +498,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
           </div>
           
           <button
-            onClick={() => fetchUfData()}
+            onClick={() => void refresh()}
             className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
             title="Actualizar"
           >
@@ -688,7 +528,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         </div>
       </div>
     );
-  }, [loading, error, ufData, localConfig.showHistory, formatUfValue, formatDate, fetchUfData, lastUpdated]);
+  }, [loading, error, ufData, localConfig.showHistory, formatUfValue, formatDate, refresh, lastUpdated]);
 
   // Render large view (4x4 or larger)
   const renderLargeView = useCallback(() => {
@@ -715,7 +555,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
           
           <div className="flex flex-col items-end">
             <button
-              onClick={() => fetchUfData()}
+              onClick={() => void refresh()}
               className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
               title="Actualizar"
             >
@@ -748,7 +588,7 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
         </div>
       </div>
     );
-  }, [loading, error, ufData, localConfig.showHistory, formatUfValue, formatDate, fetchUfData, lastUpdated]);
+  }, [loading, error, ufData, localConfig.showHistory, formatUfValue, formatDate, refresh, lastUpdated]);
   
   // Memoize the content selection based on size category
   const content = useMemo(() => {
@@ -781,55 +621,20 @@ const UFWidget: React.FC<UFWidgetProps> = ({ width, height, config }) => {
     renderLargeView
   ]);
 
-  // Cleanup effect
-  useEffect(() => {
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-        abortControllerRef.current = null;
-      }
-      if (refreshTimerRef.current) {
-        clearInterval(refreshTimerRef.current);
-        refreshTimerRef.current = null;
-      }
-    };
-  }, []);
-
   // Main render with memoized header
   const header = useMemo(() => (
     <WidgetHeader 
       title={localConfig.title || defaultConfig.title} 
       onSettingsClick={() => setShowSettings(true)}
-    />
-  ), [localConfig.title, defaultConfig.title]);
+    >
+      <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={fetchError} onRefresh={refresh} />
+    </WidgetHeader>
+  ), [localConfig.title, defaultConfig.title, updatedAt, isFetching, fetchError, refresh]);
 
   // Save settings
   const saveSettings = () => {
     if (config?.onUpdate) {
       config.onUpdate(localConfig);
-      
-      // Re-fetch data if refresh interval has changed
-      const configRefreshInterval = config.refreshInterval !== undefined 
-        ? config.refreshInterval 
-        : defaultConfig.refreshInterval || 60;
-        
-      if (localConfig.refreshInterval !== configRefreshInterval) {
-        // Clear any existing timer
-        if (refreshTimerRef.current) {
-          clearInterval(refreshTimerRef.current);
-        }
-        
-        // Set up new timer with fallback default
-        const refreshIntervalMinutes = localConfig.refreshInterval !== undefined 
-          ? localConfig.refreshInterval 
-          : defaultConfig.refreshInterval || 60;
-        
-        const refreshIntervalMs = refreshIntervalMinutes * 60 * 1000;
-        
-        // Set up new timer and store the ID
-        const timerId = setInterval(fetchUfData, refreshIntervalMs);
-        refreshTimerRef.current = timerId;
-      }
     }
     setShowSettings(false);
   };
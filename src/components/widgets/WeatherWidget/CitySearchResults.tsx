@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { MapPin, Loader2 } from 'lucide-react';
+
+interface CitySearchResult {
+  id: number;
+  name: string;
+  country: string;
+  admin1?: string; // State/province
+}
+
+interface CitySearchResultsProps {
+  /** Location typed into the settings form */
+  query: string;
+  onSelect: (city: CitySearchResult) => void;
+}
+
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+
+/**
+ * Cities matching the location typed into the weather settings, to pick one
+ * with its region and country in view
+ *
+ * @component
+ * @param {CitySearchResultsProps} props - Component props
+ * @returns {React.ReactElement | null} Matching cities
+ */
+const CitySearchResults = ({ query, onSelect }: CitySearchResultsProps): React.ReactElement | null => {
+  const [results, setResults] = useState<CitySearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  // The saved or picked location needs no suggestions
+  const [settledQuery, setSettledQuery] = useState(query);
+
+  const shouldSearch = query.trim().length >= 2 && query !== settledQuery;
+
+  useEffect(() => {
+    if (!shouldSearch) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+    // Debounce the search while typing
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `${GEOCODING_URL}?name=${encodeURIComponent(query)}&count=10&language=en`,
+          { signal: controller.signal }
+        );
+        const data = response.ok ? await response.json() : null;
+        setResults((data?.results || []).map((r: CitySearchResult) => ({
+          id: r.id,
+          name: r.name,
+          country: r.country,
+          admin1: r.admin1,
+        })));
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('City search error:', err);
+          setResults([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, shouldSearch]);
+
+  if (!shouldSearch) return null;
+
+  if (isSearching && results.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Searching cities...
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return <p className="text-xs text-muted-foreground">No cities found for "{query}"</p>;
+  }
+
+  return (
+    <div className="border rounded-md max-h-60 overflow-y-auto">
+      {results.map((city) => (
+        <button
+          key={city.id}
+          type="button"
+          className="w-full px-3 py-2 text-left hover:bg-accent flex items-start gap-2 border-b last:border-b-0"
+          onClick={() => {
+            setSettledQuery(city.name);
+            onSelect(city);
+          }}
+        >
+          <MapPin className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="font-medium text-sm truncate">{city.name}</div>
+            <div className="text-xs text-muted-foreground truncate">
+              {city.admin1 ? `${city.admin1}, ` : ''}{city.country}
+            </div>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default CitySearchResults;
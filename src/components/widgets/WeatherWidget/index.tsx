@@ -1,31 +1,42 @@
-import { useState, useEffect, useRef, type FC, useCallback } from 'react';
-import { toast } from 'sonner';
-import { useVisibilityRefresh } from '../../../lib/useVisibilityRefresh';
-import { Cloud, CloudRain, CloudSnow, CloudLightning, Wind, Sun, SunDim, Droplets, Info, Search, MapPin, Loader2 } from 'lucide-react';
+import { useState, useEffect, useRef, type FC } from 'react';
+import { useQuery } from '../../../lib/useQuery';
+import { fetchOrThrow, getRequestCache, QueryContext } from '../../../lib/queryCache';
+import { Cloud, CloudRain, CloudSnow, CloudLightning, Wind, Sun, SunDim, Droplets, Info } from 'lucide-react';
 import { Skeleton } from '../../ui/skeleton';
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogFooter
-} from '../../ui/dialog';
-import { RadioGroup, RadioGroupItem } from '../../ui/radio-group';
-import { Label } from '../../ui/label';
 import WidgetHeader from '../../widgets/common/WidgetHeader';
+import LastUpdated from '../../widgets/common/LastUpdated';
+import WidgetSettingsDialog from '../common/WidgetSettingsDialog';
+import { SettingsErrors } from '../common/settingsSchema';
 import { WeatherWidgetProps, WeatherData, WeatherWidgetConfig } from './types';
-import { Button } from '../../ui/button';
-import { Input } from '../../ui/input';
+import { weatherSettingsSchema } from './settings';
+import CitySearchResults from './CitySearchResults';
 import { faviconService } from '@/lib/services/favicon';
 
-interface CitySearchResult {
-  id: number;
-  name: string;
-  country: string;
-  admin1?: string; // State/province
-  latitude: number;
-  longitude: number;
-}
+/**
+ * Check that a location exists using the geocoding API
+ *
+ * @returns An error message, or null if the location was found
+ */
+const validateLocation = async (location: string): Promise<string | null> => {
+  try {
+    const response = await fetch(
+      `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1`,
+      { signal: AbortSignal.timeout(10000) }
+    );
+    if (!response.ok) return 'Could not verify location';
+
+    const data = await response.json();
+    if (!data.results || data.results.length === 0) {
+      return `Location "${location}" not found`;
+    }
+    return null;
+  } catch (err) {
+    if (err instanceof Error && err.name === 'TimeoutError') {
+      return 'Request timed out';
+    }
+    return 'Could not verify location';
+  }
+};
 
 /**
  * Weather Widget Component
@@ -43,194 +54,13 @@ interface CitySearchResult {
  * @returns {JSX.Element} Weather widget component
  */
 const WeatherWidget: FC<WeatherWidgetProps> = ({ width, height, config, refreshInterval = 15 }) => {
-  const [weather, setWeather] = useState<WeatherData | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-  const [unit, setUnit] = useState<'celsius' | 'fahrenheit'>('celsius');
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
   const [localConfig, setLocalConfig] = useState<WeatherWidgetConfig>(
     config || { id: '', location: 'New York', units: 'metric' }
   );
-  const [isValidating, setIsValidating] = useState<boolean>(false);
-  const [locationError, setLocationError] = useState<string | null>(null);
-  const [citySearch, setCitySearch] = useState<string>('');
-  const [cityResults, setCityResults] = useState<CitySearchResult[]>([]);
-  const [isSearching, setIsSearching] = useState<boolean>(false);
-  const [showResults, setShowResults] = useState<boolean>(false);
-  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const widgetRef = useRef<HTMLDivElement | null>(null);
   const configRef = useRef<string>(''); // Track the last config for comparison
 
-  /**
-   * Validate location exists using geocoding API
-   */
-  const validateLocation = useCallback(async (location: string): Promise<{ valid: boolean; error?: string }> => {
-    if (!location.trim()) {
-      return { valid: false, error: 'Location is required' };
-    }
-
-    try {
-      const response = await fetch(
-        `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1`,
-        { signal: AbortSignal.timeout(10000) }
-      );
-
-      if (!response.ok) {
-        return { valid: false, error: 'Could not verify location' };
-      }
-
-      const data = await response.json();
-
-      if (!data.results || data.results.length === 0) {
-        return { valid: false, error: `Location "${location}" not found` };
-      }
-
-      return { valid: true };
-    } catch (err) {
-      if (err instanceof Error && err.name === 'TimeoutError') {
-        return { valid: false, error: 'Request timed out' };
-      }
-      return { valid: false, error: 'Could not verify location' };
-    }
-  }, []);
-
-  /**
-   * Search for cities using geocoding API
-   */
-  const searchCities = useCallback(async (query: string) => {
-    if (!query.trim() || query.length < 2) {
-      setCityResults([]);
-      setShowResults(false);
-      return;
-    }
-
-    setIsSearching(true);
-    try {
-      const response = await fetch(
-        `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(query)}&count=10&language=en`,
-        { signal: AbortSignal.timeout(10000) }
-      );
-
-      if (!response.ok) {
-        setCityResults([]);
-        return;
-      }
-
-      const data = await response.json();
-
-      if (data.results && data.results.length > 0) {
-        const results: CitySearchResult[] = data.results.map((r: {
-          id: number;
-          name: string;
-          country: string;
-          admin1?: string;
-          latitude: number;
-          longitude: number;
-        }) => ({
-          id: r.id,
-          name: r.name,
-          country: r.country,
-          admin1: r.admin1,
-          latitude: r.latitude,
-          longitude: r.longitude,
-        }));
-        setCityResults(results);
-        setShowResults(true);
-      } else {
-        setCityResults([]);
-      }
-    } catch (err) {
-      console.error('City search error:', err);
-      setCityResults([]);
-    } finally {
-      setIsSearching(false);
-    }
-  }, []);
-
-  /**
-   * Handle city search input with debounce
-   */
-  const handleCitySearchChange = useCallback((value: string) => {
-    setCitySearch(value);
-    setLocationError(null);
-
-    // Clear previous timeout
-    if (searchTimeoutRef.current) {
-      clearTimeout(searchTimeoutRef.current);
-    }
-
-    // Debounce the search
-    searchTimeoutRef.current = setTimeout(() => {
-      searchCities(value);
-    }, 300);
-  }, [searchCities]);
-
-  /**
-   * Handle city selection from search results
-   */
-  const handleCitySelect = useCallback((city: CitySearchResult) => {
-    const locationName = city.admin1
-      ? `${city.name}, ${city.admin1}, ${city.country}`
-      : `${city.name}, ${city.country}`;
-
-    setLocalConfig(prev => ({ ...prev, location: city.name }));
-    setCitySearch(locationName);
-    setShowResults(false);
-    setCityResults([]);
-    setLocationError(null);
-  }, []);
-
-  const mockWeatherData: WeatherData = {
-    location: 'New York',
-    temperature: 22,
-    feelsLike: 24,
-    condition: 'Clear',
-    description: 'Clear sky',
-    icon: '01d',
-    humidity: 65,
-    windSpeed: 5.2,
-    windDirection: 120,
-    sunrise: 1617267900,
-    sunset: 1617315780,
-    forecast: [
-      {
-        day: 'Mon',
-        temp: { min: 18, max: 24 },
-        condition: 'Clear',
-        description: 'Clear sky',
-        icon: '01d'
-      },
-      {
-        day: 'Tue',
-        temp: { min: 17, max: 26 },
-        condition: 'Clouds',
-        description: 'Few clouds',
-        icon: '02d'
-      },
-      {
-        day: 'Wed',
-        temp: { min: 19, max: 28 },
-        condition: 'Clouds',
-        description: 'Scattered clouds',
-        icon: '03d'
-      },
-      {
-        day: 'Thu',
-        temp: { min: 20, max: 27 },
-        condition: 'Rain',
-        description: 'Light rain',
-        icon: '10d'
-      },
-      {
-        day: 'Fri',
-        temp: { min: 18, max: 25 },
-        condition: 'Clear',
-        description: 'Clear sky',
-        icon: '01d'
-      }
-    ]
-  };
-
   /**
    * Map Open-Meteo's WMO weather codes to weather conditions
    * 
@@ -294,97 +124,93 @@ const WeatherWidget: FC<WeatherWidgetProps> = ({ width, height, config, refreshI
     return 'Unknown weather condition';
   };
 
-  const fetchWeather = useCallback(async () => {
-    setLoading(true);
-    
-    try {
-      const location = localConfig.location || 'New York';
-      const useMetric = localConfig.units !== 'imperial';
-      
-      // First, get coordinates for the location using Open-Meteo's geocoding API
-      const geocodingResponse = await fetch(
-        `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1`
-      );
-      
-      if (!geocodingResponse.ok) {
-        throw new Error(`Geocoding API error: ${geocodingResponse.statusText}`);
-      }
-      
-      const geocodingData = await geocodingResponse.json();
-      
-      if (!geocodingData.results || geocodingData.results.length === 0) {
-        throw new Error(`Location not found: ${location}`);
-      }
-      
-      const { latitude, longitude, name } = geocodingData.results[0];
-      
-      // Now fetch weather data using Open-Meteo's forecast API
-      const temperatureUnit = useMetric ? 'celsius' : 'fahrenheit';
-      const windSpeedUnit = useMetric ? 'kmh' : 'mph';
-      
-      const weatherResponse = await fetch(
-        `https://api.open-meteo.com/v1/forecast?` +
-        `latitude=${latitude}&longitude=${longitude}` +
-        `&current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m,wind_direction_10m` +
-        `&daily=weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset` +
-        `&temperature_unit=${temperatureUnit}&wind_speed_unit=${windSpeedUnit}` +
-        `&forecast_days=5&timezone=auto`
-      );
-      
-      if (!weatherResponse.ok) {
-        throw new Error(`Weather API error: ${weatherResponse.statusText}`);
-      }
-      
-      const weatherData = await weatherResponse.json();
-      
-      // Process forecast data to match our format
-      const forecast = weatherData.daily.time.map((date: string, index: number) => {
-        const weatherCode = weatherData.daily.weather_code[index];
-        return {
-          day: new Date(date).toLocaleDateString('en-US', { weekday: 'short' }),
-          temp: {
-            min: weatherData.daily.temperature_2m_min[index],
-            max: weatherData.daily.temperature_2m_max[index]
-          },
-          condition: mapWeatherCodeToCondition(weatherCode),
-          description: mapWeatherCodeToDescription(weatherCode),
-          icon: `${weatherCode}`
-        };
-      });
-      
-      // Get current weather data
-      const currentWeatherCode = weatherData.current.weather_code;
-      
-      setWeather({
-        location: name,
-        temperature: weatherData.current.temperature_2m,
-        feelsLike: weatherData.current.apparent_temperature,
-        condition: mapWeatherCodeToCondition(currentWeatherCode),
-        description: mapWeatherCodeToDescription(currentWeatherCode),
-        icon: `${currentWeatherCode}`,
-        humidity: weatherData.current.relative_humidity_2m,
-        windSpeed: weatherData.current.wind_speed_10m,
-        windDirection: weatherData.current.wind_direction_10m,
-        sunrise: Date.parse(weatherData.daily.sunrise[0]) / 1000,
-        sunset: Date.parse(weatherData.daily.sunset[0]) / 1000,
-        forecast
-      });
-      
-      setLoading(false);
-      setUnit(useMetric ? 'celsius' : 'fahrenheit');
-      setError(null);
-    } catch (err) {
-      console.error('[WeatherWidget] Error:', err);
-      setError('Failed to fetch weather data');
-      setLoading(false);
-      
-      // Use mock data if available
-      if (mockWeatherData) {
-        setWeather(mockWeatherData);
-        setLoading(false);
-      }
+  /**
+   * Load current weather and the forecast from Open-Meteo
+   */
+  const loadWeather = async (location: string, useMetric: boolean, context: QueryContext): Promise<WeatherData> => {
+    const cache = getRequestCache(context);
+    // First, get coordinates for the location using Open-Meteo's geocoding API
+    const geocodingResponse = await fetchOrThrow(
+      `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1`,
+      { cache }
+    );
+
+    const geocodingData = await geocodingResponse.json();
+
+    if (!geocodingData.results || geocodingData.results.length === 0) {
+      throw new Error(`Location not found: ${location}`);
     }
-  }, [localConfig.location, localConfig.units]); // Only depend on location and units
+
+    const { latitude, longitude, name } = geocodingData.results[0];
+
+    // Now fetch weather data using Open-Meteo's forecast API
+    const temperatureUnit = useMetric ? 'celsius' : 'fahrenheit';
+    const windSpeedUnit = useMetric ? 'kmh' : 'mph';
+
+    const weatherResponse = await fetchOrThrow(
+      `https://api.open-meteo.com/v1/forecast?` +
+      `latitude=${latitude}&longitude=${longitude}` +
+      `&current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m,wind_direction_10m` +
+      `&daily=weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset` +
+      `&temperature_unit=${temperatureUnit}&wind_speed_unit=${windSpeedUnit}` +
+      `&forecast_days=5&timezone=auto`,
+      { cache }
+    );
+
+    const weatherData = await weatherResponse.json();
+
+    // Process forecast data to match our format
+    const forecast = weatherData.daily.time.map((date: string, index: number) => {
+      const weatherCode = weatherData.daily.weather_code[index];
+      return {
+        day: new Date(date).toLocaleDateString('en-US', { weekday: 'short' }),
+        temp: {
+          min: weatherData.daily.temperature_2m_min[index],
+          max: weatherData.daily.temperature_2m_max[index]
+        },
+        condition: mapWeatherCodeToCondition(weatherCode),
+        description: mapWeatherCodeToDescription(weatherCode),
+        icon: `${weatherCode}`
+      };
+    });
+
+    // Get current weather data
+    const currentWeatherCode = weatherData.current.weather_code;
+
+    return {
+      location: name,
+      temperature: weatherData.current.temperature_2m,
+      feelsLike: weatherData.current.apparent_temperature,
+      condition: mapWeatherCodeToCondition(currentWeatherCode),
+      description: mapWeatherCodeToDescription(currentWeatherCode),
+      icon: `${currentWeatherCode}`,
+      humidity: weatherData.current.relative_humidity_2m,
+      windSpeed: weatherData.current.wind_speed_10m,
+      windDirection: weatherData.current.wind_direction_10m,
+      sunrise: Date.parse(weatherData.daily.sunrise[0]) / 1000,
+      sunset: Date.parse(weatherData.daily.sunset[0]) / 1000,
+      forecast
+    };
+  };
+
+  // Widgets for the same place and units share the data; refreshes pause while the tab is hidden
+  const location = localConfig.location || 'New York';
+  const useMetric = localConfig.units !== 'imperial';
+  const {
+    data: weather,
+    error: fetchError,
+    isLoading: loading,
+    isFetching,
+    updatedAt,
+    refresh
+  } = useQuery(
+    `weather:${location}:${useMetric ? 'metric' : 'imperial'}`,
+    context => loadWeather(location, useMetric, context),
+    { refreshInterval: refreshInterval > 0 ? refreshInterval * 60 * 1000 : 0 }
+  );
+  // Older data stays on screen when a refresh fails
+  const error = fetchError && !weather ? 'Failed to fetch weather data' : null;
+  const unit = useMetric ? 'celsius' : 'fahrenheit';
 
   useEffect(() => {
     if (config) {
@@ -399,22 +225,6 @@ const WeatherWidget: FC<WeatherWidgetProps> = ({ width, height, config, refreshI
     }
   }, [config]);
 
-  useEffect(() => {
-    fetchWeather();
-  }, [fetchWeather]);
-
-  // Auto-refresh when tab becomes visible or at the configured interval
-  useVisibilityRefresh({
-    onRefresh: fetchWeather,
-    minHiddenTime: 60000, // Refresh if hidden for 1+ minute
-    refreshInterval: refreshInterval > 0 ? refreshInterval * 60 * 1000 : 0,
-    enabled: true
-  });
-
-  const handleUnitsChange = useCallback((value: 'metric' | 'imperial') => {
-    setLocalConfig(prev => ({...prev, units: value}));
-  }, []);
-
   /**
    * Format temperature with unit
    * 
@@ -856,168 +666,17 @@ const WeatherWidget: FC<WeatherWidgetProps> = ({ width, height, config, refreshI
     }
   };
 
-  /**
-   * Renders the settings content for the modal
-   *
-   * @returns {JSX.Element} Settings content
-   */
-  const renderSettingsContent = () => {
-  return (
-    <>
-      <div className="space-y-2">
-        <Label htmlFor="location-input">Location</Label>
-        <div className="relative">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              id="location-input"
-              type="text"
-              placeholder="Search for a city..."
-              value={citySearch || localConfig.location || ''}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-                handleCitySearchChange(e.target.value);
-              }}
-              onFocus={() => {
-                if (cityResults.length > 0) setShowResults(true);
-              }}
-              className={`pl-9 ${locationError ? 'border-red-500' : ''}`}
-            />
-            {isSearching && (
-              <Loader2 className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
-            )}
-          </div>
-
-          {/* Search results dropdown */}
-          {showResults && cityResults.length > 0 && (
-            <div className="absolute z-50 w-full mt-1 bg-popover border rounded-md shadow-lg max-h-60 overflow-y-auto">
-              {cityResults.map((city) => (
-                <button
-                  key={city.id}
-                  type="button"
-                  className="w-full px-3 py-2 text-left hover:bg-accent flex items-start gap-2 border-b last:border-b-0"
-                  onClick={() => handleCitySelect(city)}
-                >
-                  <MapPin className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
-                  <div className="flex-1 min-w-0">
-                    <div className="font-medium text-sm truncate">{city.name}</div>
-                    <div className="text-xs text-muted-foreground truncate">
-                      {city.admin1 ? `${city.admin1}, ` : ''}{city.country}
-                    </div>
-                  </div>
-                </button>
-              ))}
-            </div>
-          )}
-
-          {/* No results message */}
-          {showResults && citySearch.length >= 2 && !isSearching && cityResults.length === 0 && (
-            <div className="absolute z-50 w-full mt-1 bg-popover border rounded-md shadow-lg p-3 text-sm text-muted-foreground">
-              No cities found for "{citySearch}"
-            </div>
-          )}
-        </div>
-        {locationError && (
-          <p className="text-xs text-red-500">{locationError}</p>
-        )}
-        <p className="text-xs text-muted-foreground">
-          Start typing to search for any city worldwide
-        </p>
-      </div>
-
-      <div className="space-y-2">
-        <Label>Temperature Units</Label>
-        <RadioGroup
-          value={localConfig.units || 'metric'}
-          onValueChange={handleUnitsChange}
-        >
-          <div className="flex items-center space-x-2">
-            <RadioGroupItem value="metric" id="metric" />
-            <Label htmlFor="metric">Celsius (°C)</Label>
-          </div>
-          <div className="flex items-center space-x-2">
-            <RadioGroupItem value="imperial" id="imperial" />
-            <Label htmlFor="imperial">Fahrenheit (°F)</Label>
-          </div>
-        </RadioGroup>
-      </div>
-    </>
-  );
-};
-
-  /**
-   * Renders the settings footer
-   * 
-   * @returns {JSX.Element} Settings footer
-   */
-  const handleSaveSettings = async () => {
-    // Validate location before saving
-    setIsValidating(true);
-    setLocationError(null);
-
-    const result = await validateLocation(localConfig.location || '');
-
-    setIsValidating(false);
-
-    if (!result.valid) {
-      setLocationError(result.error || 'Invalid location');
-      toast.error('Invalid location', {
-        description: result.error,
-        duration: 4000,
-      });
-      return;
-    }
-
-    // Save settings via onUpdate callback
+  const saveSettings = (values: Record<string, unknown>) => {
+    const newConfig = { ...localConfig, ...values };
+    setLocalConfig(newConfig);
     if (config?.onUpdate) {
-      config.onUpdate(localConfig);
+      config.onUpdate(newConfig);
     }
-
-    // Apply the local config settings
-    setUnit(localConfig.units === 'imperial' ? 'fahrenheit' : 'celsius');
-    setIsSettingsOpen(false);
-
-    // Trigger a weather refresh with new settings
-    setLoading(true);
-    setTimeout(() => {
-      fetchWeather();
-    }, 300);
   };
 
-  const renderSettingsFooter = () => {
-    return (
-      <div className="flex justify-between w-full">
-        {config?.onDelete && (
-          <Button
-            variant="destructive"
-            onClick={() => {
-              if (config.onDelete) {
-                config.onDelete();
-              }
-            }}
-            aria-label="Delete this widget"
-          >
-            Delete
-          </Button>
-        )}
-
-        <div className="flex">
-          <Button
-            variant="default"
-            onClick={handleSaveSettings}
-            disabled={isValidating}
-          >
-            {isValidating ? (
-              <>
-                <span className="animate-spin mr-2">⏳</span>
-                Validating...
-              </>
-            ) : (
-              'Save'
-            )}
-          </Button>
-        </div>
-      </div>
-    );
+  const validateSettings = async (values: Record<string, unknown>): Promise<SettingsErrors> => {
+    const locationError = await validateLocation(String(values.location));
+    return locationError ? { location: locationError } : {};
   };
 
   useEffect(() => {
@@ -1038,39 +697,31 @@ const WeatherWidget: FC<WeatherWidgetProps> = ({ width, height, config, refreshI
       <WidgetHeader 
         title="Weather" 
         onSettingsClick={() => setIsSettingsOpen(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={fetchError} onRefresh={refresh} />
+      </WidgetHeader>
       
       <div className="flex-1 overflow-hidden rounded-md m-1">
         {renderContent()}
       </div>
       
-      {isSettingsOpen && (
-        <Dialog open={isSettingsOpen} onOpenChange={(open: boolean) => {
-          setIsSettingsOpen(open);
-          if (open) {
-            // Reset search state when dialog opens
-            setCitySearch('');
-            setCityResults([]);
-            setShowResults(false);
-            setLocationError(null);
-          }
-        }}>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle>Weather Settings</DialogTitle>
-            </DialogHeader>
-            {/* Add a div with space-y-4 inside the py-4 container */}
-            <div className="py-4">
-              <div className="space-y-4">
-                {renderSettingsContent()}
-              </div>
-            </div>
-            <DialogFooter>
-              {renderSettingsFooter()}
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-      )}
+      <WidgetSettingsDialog
+        open={isSettingsOpen}
+        onOpenChange={setIsSettingsOpen}
+        title="Weather Settings"
+        schema={weatherSettingsSchema}
+        config={localConfig}
+        onSave={saveSettings}
+        onDelete={config?.onDelete}
+        validate={validateSettings}
+      >
+        {({ values, setValue }) => (
+          <CitySearchResults
+            query={String(values.location ?? '')}
+            onSelect={(city) => setValue('location', city.name)}
+          />
+        )}
+      </WidgetSettingsDialog>
     </div>
   );
 };
@@ -0,0 +1,30 @@
+import { WidgetSettingsSchema } from '../common/settingsSchema';
+
+/**
+ * Settings form for the Weather widget. Matching cities are listed below the
+ * location while typing (see CitySearchResults.tsx).
+ */
+export const weatherSettingsSchema: WidgetSettingsSchema = {
+  fields: [
+    {
+      key: 'units',
+      type: 'select',
+      label: 'Temperature Units',
+      default: 'metric',
+      options: [
+        { value: 'metric', label: 'Celsius (°C)' },
+        { value: 'imperial', label: 'Fahrenheit (°F)' },
+      ],
+    },
+    {
+      key: 'location',
+      type: 'text',
+      label: 'Location',
+      description: 'Start typing to search for any city worldwide',
+      placeholder: 'Search for a city...',
+      default: 'New York',
+      maxLength: 100,
+      required: true,
+    },
+  ],
+};
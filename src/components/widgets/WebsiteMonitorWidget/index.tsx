@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Plus, 
   Trash2, 
@@ -20,17 +20,101 @@ import { Button } from '../../ui/button';
 import { Label } from '../../ui/label';
 import { Input } from '../../ui/input';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
 import { 
   WebsiteMonitorWidgetProps, 
   WebsiteMonitorWidgetConfig, 
   MonitoredWebsite, 
   WebsiteStatus 
 } from './types';
+import { notificationService } from '@/lib/notifications';
+import { isProxyError, proxyUrl, readProxyError } from '@/lib/proxy';
+import { useQuery } from '@/lib/useQuery';
+import { queryCache } from '@/lib/queryCache';
 
-// Use local proxy server (run: node proxy-server.js)
-// This avoids CORS issues by routing requests through our own server
-const LOCAL_PROXY = 'http://localhost:3001/proxy/';
 const FAVICON_SERVICE = 'https://www.google.com/s2/favicons?sz=32&domain=';
+// Proxy errors meaning the site itself could not be reached; others say nothing about the site
+const SITE_UNREACHABLE_STATUSES = [502, 504];
+
+/**
+ * Check whether a website is up. Never throws: a failed check is a status too.
+ */
+const checkWebsite = async (website: MonitoredWebsite): Promise<WebsiteStatus> => {
+  const startTime = performance.now();
+
+  try {
+    // Checks go through the Boxento proxy to avoid CORS issues, bypassing its cache
+    const response = await fetch(proxyUrl(website.url), {
+      cache: 'no-store',
+      headers: { 'Cache-Control': 'no-cache' },
+      signal: AbortSignal.timeout(15000)
+    });
+    
+    const endTime = performance.now();
+    const responseTime = Math.round(endTime - startTime);
+
+    if (isProxyError(response)) {
+      const { message } = await readProxyError(response, website.url);
+      return {
+        isOk: false,
+        responseTime,
+        error: message,
+        isProxyError: !SITE_UNREACHABLE_STATUSES.includes(response.status),
+        lastChecked: Date.now()
+      };
+    }
+
+    // If we got any response, the website is up
+    if (response.status >= 200 && response.status < 500) {
+      return {
+        isOk: true,
+        responseTime,
+        lastChecked: Date.now()
+      };
+    }
+
+    // 5xx errors mean the site is down
+    return {
+      isOk: false,
+      responseTime,
+      error: `HTTP ${response.status}`,
+      lastChecked: Date.now()
+    };
+  } catch (error) {
+    const endTime = performance.now();
+    const errorMessage = error instanceof Error ? error.message : 'Network Error';
+    
+    if (errorMessage.includes('Failed to fetch') || errorMessage.includes('ECONNREFUSED')) {
+      return {
+        isOk: false,
+        responseTime: Math.round(endTime - startTime),
+        error: 'Proxy not running',
+        isProxyError: true,
+        lastChecked: Date.now()
+      };
+    }
+
+    return {
+      isOk: false,
+      responseTime: Math.round(endTime - startTime),
+      error: errorMessage,
+      lastChecked: Date.now()
+    };
+  }
+};
+
+/**
+ * Check every website, joining checks of the same URL other widgets are running
+ */
+const checkWebsites = async (websites: MonitoredWebsite[]): Promise<Record<string, WebsiteStatus>> => {
+  const results: Record<string, WebsiteStatus> = {};
+  await Promise.all(websites.map(async (site) => {
+    results[site.id] = await queryCache.fetch(`website-status:${site.url}`, () => checkWebsite(site));
+  }));
+  return results;
+};
+
+const NO_STATUSES: Record<string, WebsiteStatus> = {};
 
 const WebsiteMonitorWidget: React.FC<WebsiteMonitorWidgetProps> = ({ width, height: _height, config }) => {
   const defaultConfig: WebsiteMonitorWidgetConfig = {
@@ -47,9 +131,7 @@ const WebsiteMonitorWidget: React.FC<WebsiteMonitorWidgetProps> = ({ width, heig
     ...config
   });
   
-  const [statuses, setStatuses] = useState<Record<string, WebsiteStatus>>({});
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const hasChecked = useRef(false);
+  const lastStatusesRef = useRef<Record<string, WebsiteStatus>>({});
   
   // For settings modal
   const [newSiteName, setNewSiteName] = useState('');
@@ -62,82 +144,59 @@ const WebsiteMonitorWidget: React.FC<WebsiteMonitorWidgetProps> = ({ width, heig
     }));
   }, [config]);
 
-  const checkWebsite = useCallback(async (website: MonitoredWebsite): Promise<WebsiteStatus> => {
-    const startTime = performance.now();
 
-    try {
-      // Use local proxy server - don't encode the URL, just pass it directly
-      const proxyUrl = `${LOCAL_PROXY}${website.url}`;
-      
-      const response = await fetch(proxyUrl, {
-        cache: 'no-store',
-        signal: AbortSignal.timeout(15000)
-      });
-      
-      const endTime = performance.now();
-      const responseTime = Math.round(endTime - startTime);
-
-      // If we got any response, the website is up
-      if (response.status >= 200 && response.status < 500) {
-        return {
-          isOk: true,
-          responseTime,
-          lastChecked: Date.now()
-        };
-      }
-
-      // 5xx errors mean the site is down
-      return {
-        isOk: false,
-        responseTime,
-        error: `HTTP ${response.status}`,
-        lastChecked: Date.now()
-      };
-    } catch (error) {
-      const endTime = performance.now();
-      const errorMessage = error instanceof Error ? error.message : 'Network Error';
-      
-      if (errorMessage.includes('Failed to fetch') || errorMessage.includes('ECONNREFUSED')) {
-        return {
-          isOk: false,
-          responseTime: Math.round(endTime - startTime),
-          error: 'Proxy not running',
-          lastChecked: Date.now()
-        };
-      }
-
-      return {
-        isOk: false,
-        responseTime: Math.round(endTime - startTime),
-        error: errorMessage,
-        lastChecked: Date.now()
-      };
+  const {
+    data,
+    isFetching,
+    updatedAt,
+    refresh
+  } = useQuery(
+    localConfig.websites.length > 0
+      ? `website-monitor:${localConfig.websites.map(site => `${site.id} ${site.url}`).join('|')}`
+      : null,
+    () => checkWebsites(localConfig.websites),
+    {
+      refreshInterval: localConfig.checkInterval && localConfig.checkInterval > 0 ? localConfig.checkInterval * 60 * 1000 : 0,
+      // Periodic checks go on in the background, so the monitor can raise alerts while nobody is looking
+      refreshWhileHidden: true
     }
-  }, []);
-
-  const refreshAll = useCallback(async () => {
-    if (isRefreshing) return;
-    setIsRefreshing(true);
-    
-    const results: Record<string, WebsiteStatus> = {};
-    const promises = localConfig.websites.map(async (site) => {
-      results[site.id] = await checkWebsite(site);
-    });
-    
-    await Promise.all(promises);
-    setStatuses(results);
-    setIsRefreshing(false);
-  }, [localConfig.websites, checkWebsite, isRefreshing]);
+  );
+  const statuses = data ?? NO_STATUSES;
 
-  // Check each website only ONCE on initial load (no auto-refresh)
+  // Alert when a site goes down or comes back, not on every check
   useEffect(() => {
-    // Use ref to ensure we only check once even if component re-renders
-    if (!hasChecked.current && localConfig.websites.length > 0) {
-      hasChecked.current = true;
-      refreshAll();
-    }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Empty dependency array = run only once on mount
+    if (!data) return;
+    const knownStatuses: Record<string, WebsiteStatus> = {};
+    localConfig.websites.forEach(site => {
+      const status = data[site.id];
+      if (!status) return;
+      const previous = lastStatusesRef.current[site.id];
+      const wasDown = previous?.isOk === false;
+      if (status.isProxyError) {
+        // When the proxy can't check the site its state is unknown, so keep the last one
+        if (previous) knownStatuses[site.id] = previous;
+        return;
+      }
+      knownStatuses[site.id] = status;
+      if (!status.isOk && !wasDown) {
+        notificationService.notify({
+          widgetId: config?.id,
+          source: localConfig.title || 'Website Monitor',
+          title: `${site.name} is down`,
+          body: status.error,
+          severity: 'error'
+        });
+      } else if (status.isOk && wasDown) {
+        notificationService.notify({
+          widgetId: config?.id,
+          source: localConfig.title || 'Website Monitor',
+          title: `${site.name} is back up`,
+          severity: 'success'
+        });
+      }
+    });
+    lastStatusesRef.current = knownStatuses;
+  }, [data, localConfig.websites, localConfig.title, config?.id]);
 
   const addWebsite = () => {
     if (!newSiteName || !newSiteUrl) return;
@@ -344,6 +403,20 @@ const WebsiteMonitorWidget: React.FC<WebsiteMonitorWidgetProps> = ({ width, heig
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="check-interval">Check every (minutes)</Label>
+              <Input
+                id="check-interval"
+                type="number"
+                min={0}
+                value={localConfig.checkInterval ?? 0}
+                onChange={(e) => setLocalConfig({ ...localConfig, checkInterval: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+              />
+              <p className="text-xs text-muted-foreground">
+                0 checks only when the dashboard loads or you refresh. Sites going down or coming back raise an alert.
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label>Websites</Label>
               <div className="flex gap-2">
@@ -417,15 +490,12 @@ const WebsiteMonitorWidget: React.FC<WebsiteMonitorWidgetProps> = ({ width, heig
       <WidgetHeader 
         title={localConfig.title || 'Website Monitor'} 
         onSettingsClick={() => setShowSettings(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} onRefresh={refresh} />
+      </WidgetHeader>
       
-      <div className="flex-grow p-2 overflow-hidden relative">
+      <div className="flex-grow p-2 overflow-hidden">
         {renderContent()}
-        {isRefreshing && (
-          <div className="absolute top-1 right-1">
-            <RefreshCw className="h-2 w-2 animate-spin text-muted-foreground opacity-30" />
-          </div>
-        )}
       </div>
       
       {renderSettings()}
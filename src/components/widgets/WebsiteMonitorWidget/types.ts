@@ -16,6 +16,8 @@ export interface WebsiteStatus {
   isOk: boolean;
   responseTime: number | null;
   error?: string;
+  /** The proxy could not check the site (not running, refused or rate limited), so its state is unknown */
+  isProxyError?: boolean;
   lastChecked: number;
 }
 
@@ -28,6 +30,8 @@ export interface WebsiteMonitorWidgetConfig {
   id?: string;
   title?: string;
   websites: MonitoredWebsite[];
+  /** Minutes between automatic checks; 0 or unset checks only on load */
+  checkInterval?: number;
   onUpdate?: (config: WebsiteMonitorWidgetConfig) => void;
   onDelete?: () => void;
   [key: string]: unknown;
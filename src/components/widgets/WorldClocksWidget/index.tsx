@@ -9,6 +9,8 @@ import {
   DialogFooter
 } from '../../ui/dialog'
 import { WorldClocksWidgetProps, TimezoneItem } from './types'
+import WidgetLinkSelect from '../common/WidgetLinkSelect'
+import { widgetEventBus, WidgetLinks } from '@/lib/widgetEvents'
 import { Button } from '../../ui/button'
 import { Input } from '../../ui/input'
 import { Label } from '../../ui/label'
@@ -44,6 +46,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
   const [isSearching, setIsSearching] = useState<boolean>(false)
   const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null)
   const [dragOverItemIndex, setDragOverItemIndex] = useState<number | null>(null)
+  const [widgetLinks, setWidgetLinks] = useState<WidgetLinks>(config?.widgetLinks || {})
   const widgetRef = useRef<HTMLDivElement | null>(null)
   
   useEffect(() => {
@@ -54,6 +57,34 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
     return () => clearInterval(timer)
   }, [])
 
+  /**
+   * Props making a clock select its timezone in the linked widget, if there is one
+   * 
+   * @param {TimezoneItem} tz - Timezone of the clock
+   * @returns {React.HTMLAttributes<HTMLDivElement>} Props for the clock element
+   */
+  const getClockLinkProps = (tz: TimezoneItem): React.HTMLAttributes<HTMLDivElement> => {
+    if (!widgetLinks['select-timezone']) return {}
+
+    const selectTimezone = () => {
+      widgetEventBus.publishToLink(widgetLinks, 'select-timezone', { timezone: tz.timezone, name: tz.name })
+    }
+
+    return {
+      role: 'button',
+      tabIndex: 0,
+      title: `Use ${tz.name} time in linked widget`,
+      style: { cursor: 'pointer' },
+      onClick: selectTimezone,
+      onKeyDown: (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault()
+          selectTimezone()
+        }
+      }
+    }
+  }
+
   /**
    * Formats a date for a specific timezone
    * 
@@ -463,7 +494,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
       return (
         <div className="grid grid-cols-1 gap-3 p-3 h-full transition-all duration-300">
           {timezones.map(tz => (
-            <div key={tz.id} className="flex justify-between items-center h-full transition-all duration-300">
+            <div key={tz.id} {...getClockLinkProps(tz)} className="flex justify-between items-center h-full transition-all duration-300">
               <div className="flex flex-col">
                 <div className="font-medium text-sm tracking-tight text-gray-800 dark:text-gray-200">{tz.name}</div>
                 <div className="text-xs text-gray-500 dark:text-gray-400 tracking-wide">{getTimeDiff(tz.timezone)}</div>
@@ -486,7 +517,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
     return (
       <div className="flex flex-col space-y-2 overflow-y-auto h-full py-2 px-3 transition-all duration-300">
         {timezones.map(tz => (
-          <div key={tz.id} className="flex justify-between items-center py-1 transition-all duration-300">
+          <div key={tz.id} {...getClockLinkProps(tz)} className="flex justify-between items-center py-1 transition-all duration-300">
             <div className="flex flex-col min-w-0">
               <div className="font-medium text-xs tracking-tight text-gray-800 dark:text-gray-200 truncate">{tz.name}</div>
               <div className="text-xs text-gray-500 dark:text-gray-400 tracking-wide">{getTimeDiff(tz.timezone)}</div>
@@ -512,7 +543,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
     return (
       <div className="grid grid-cols-2 gap-1 p-1 h-full overflow-y-auto">
         {timezones.map(tz => (
-          <div key={tz.id} className="flex flex-col items-center justify-center p-1.5 bg-gray-50 dark:bg-slate-700 dark:bg-opacity-50 rounded">
+          <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center p-1.5 bg-gray-50 dark:bg-slate-700 dark:bg-opacity-50 rounded">
             <div className="text-base font-bold">
               {formatTime(currentTime, tz.timezone).split(':').slice(0, 2).join(':')}
             </div>
@@ -537,7 +568,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
       return (
         <div className="grid grid-cols-3 gap-3 h-full transition-all duration-300">
           {timezones.map(tz => (
-            <div key={tz.id} className="flex flex-col items-center justify-center h-full transition-all duration-300">
+            <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center h-full transition-all duration-300">
               <div className="text-xs font-medium tracking-tight text-gray-800 dark:text-gray-200 mb-1 truncate w-full text-center">
                 {tz.name}
               </div>
@@ -558,7 +589,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
       return (
         <div className="grid grid-cols-3 grid-rows-2 gap-x-3 gap-y-2 h-full transition-all duration-300">
           {timezones.slice(0, 6).map(tz => (
-            <div key={tz.id} className="flex flex-col items-center justify-center h-full transition-all duration-300">
+            <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center h-full transition-all duration-300">
               <div className="text-lg font-light tracking-tighter leading-none">
                 {formatTime(currentTime, tz.timezone).split(':').slice(0, 2).join(':')}
               </div>
@@ -578,7 +609,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
     return (
       <div className="grid grid-cols-3 auto-rows-min gap-x-3 gap-y-2 h-full overflow-y-auto transition-all duration-300">
         {timezones.map(tz => (
-          <div key={tz.id} className="flex flex-col items-center justify-center py-1 transition-all duration-300">
+          <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center py-1 transition-all duration-300">
             <div className="text-base font-light tracking-tighter leading-none">
               {formatTime(currentTime, tz.timezone).split(':').slice(0, 2).join(':')}
             </div>
@@ -607,7 +638,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
       return (
         <div className="grid grid-cols-2 gap-2 h-full transition-all duration-300">
           {timezones.map(tz => (
-            <div key={tz.id} className="flex flex-col items-center justify-center h-full transition-all duration-300">
+            <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center h-full transition-all duration-300">
               <div className="text-xs font-medium mb-0.5 truncate w-full text-center text-gray-800 dark:text-gray-200">
                 {tz.name}
               </div>
@@ -630,7 +661,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
     return (
       <div className="grid grid-cols-2 auto-rows-min gap-1 h-full overflow-y-auto transition-all duration-300">
         {timezones.map(tz => (
-          <div key={tz.id} className="flex items-center p-1 transition-all duration-300">
+          <div key={tz.id} {...getClockLinkProps(tz)} className="flex items-center p-1 transition-all duration-300">
             <div className="mr-1.5">
               {renderClock(tz.timezone, 30, isDarkMode)}
             </div>
@@ -658,7 +689,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
     return (
       <div className="grid grid-cols-3 gap-3 h-full overflow-y-auto transition-all duration-300">
         {timezones.map(tz => (
-          <div key={tz.id} className="flex flex-col items-center justify-center h-full transition-all duration-300">
+          <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center h-full transition-all duration-300">
             <div className="text-sm font-medium mb-1 text-gray-800 dark:text-gray-200 truncate w-full text-center">{tz.name}</div>
             <div className="mb-2">
               {renderClock(tz.timezone, 70, isDarkMode)}
@@ -694,7 +725,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
       return (
         <div className="grid grid-cols-6 gap-3 h-full transition-all duration-300">
           {timezones.map(tz => (
-            <div key={tz.id} className="flex flex-col items-center justify-center h-full transition-all duration-300">
+            <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center h-full transition-all duration-300">
               <div className="text-sm font-medium tracking-tight text-gray-800 dark:text-gray-200 mb-1 truncate w-full text-center">
                 {tz.name}
               </div>
@@ -721,7 +752,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
       return (
         <div className="grid grid-cols-6 grid-rows-2 gap-x-3 gap-y-1 h-full transition-all duration-300">
           {timezones.slice(0, 12).map(tz => (
-            <div key={tz.id} className="flex flex-col items-center justify-center h-full transition-all duration-300">
+            <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center h-full transition-all duration-300">
               <div className="font-light text-lg tracking-tighter leading-none">
                 {formatTime(currentTime, tz.timezone).split(':').slice(0, 2).join(':')}
               </div>
@@ -741,7 +772,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
     return (
       <div className="grid grid-cols-6 auto-rows-min gap-x-3 gap-y-2 h-full overflow-y-auto transition-all duration-300">
         {timezones.map(tz => (
-          <div key={tz.id} className="flex flex-col items-center justify-center min-h-full py-2 transition-all duration-300">
+          <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center min-h-full py-2 transition-all duration-300">
             <div className="font-light text-lg tracking-tighter leading-none">
               {formatTime(currentTime, tz.timezone).split(':').slice(0, 2).join(':')}
             </div>
@@ -768,7 +799,7 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
     return (
       <div className="grid grid-cols-2 gap-4 h-full transition-all duration-300">
         {timezones.map(tz => (
-          <div key={tz.id} className="flex flex-col items-center justify-center h-full transition-all duration-300">
+          <div key={tz.id} {...getClockLinkProps(tz)} className="flex flex-col items-center justify-center h-full transition-all duration-300">
             <div className="text-sm font-medium tracking-tight text-gray-800 dark:text-gray-200 mb-1 truncate w-full text-center">
               {tz.name}
             </div>
@@ -1040,6 +1071,16 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
             </CardContent>
           </Card>
         )}
+
+        <WidgetLinkSelect
+          event="select-timezone"
+          widgetId={config?.id}
+          links={widgetLinks}
+          onChange={setWidgetLinks}
+          label="Clicking a clock"
+          noneLabel="Does nothing"
+          description="Switch a linked widget to the clock's timezone"
+        />
       </div>
     );
   };
@@ -1074,7 +1115,8 @@ const WorldClocksWidget: React.FC<WorldClocksWidgetProps> = ({ width, height, co
               if (config?.onUpdate) {
                 config.onUpdate({
                   ...config,
-                  timezones: timezones
+                  timezones: timezones,
+                  widgetLinks
                 });
               }
               
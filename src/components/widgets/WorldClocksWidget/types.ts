@@ -1,4 +1,5 @@
 import { WidgetProps } from '@/types';
+import { WidgetLinks } from '@/lib/widgetEvents';
 
 /**
  * Represents a timezone item in the World Clocks widget
@@ -32,12 +33,14 @@ export interface NewTimezoneItem {
  * @interface WorldClocksWidgetConfig
  * @property {string} [id] - Unique identifier for the widget instance
  * @property {TimezoneItem[]} [timezones] - Array of timezone items
+ * @property {WidgetLinks} [widgetLinks] - Widgets linked to this one, by event
  * @property {() => void} [onDelete] - Callback to delete the widget
  * @property {(config: WorldClocksWidgetConfig) => void} [onUpdate] - Callback to update widget configuration
  */
 export interface WorldClocksWidgetConfig {
   id?: string;
   timezones?: TimezoneItem[];
+  widgetLinks?: WidgetLinks;
   onDelete?: () => void;
   onUpdate?: (config: WorldClocksWidgetConfig) => void;
   [key: string]: unknown; // Index signature to satisfy Record<string, unknown>
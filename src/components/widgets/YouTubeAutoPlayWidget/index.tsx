@@ -7,13 +7,17 @@ import {
   DialogTitle,
 } from '../../ui/dialog';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
 import type { YouTubeAutoPlayWidgetProps, YouTubeAutoPlayWidgetConfig } from './types';
 import { Button } from '../../ui/button';
 import { Input } from '../../ui/input';
 import { Label } from '../../ui/label';
 import { Switch } from '../../ui/switch';
 import { AlertCircle, Youtube } from 'lucide-react';
-import { STORAGE_KEYS } from '@/lib/constants';
+import { QUERY, STORAGE_KEYS } from '@/lib/constants';
+import { fetchThroughProxy, ProxyHostError } from '@/lib/proxy';
+import { useQuery } from '@/lib/useQuery';
+import { getRequestCache, queryCache, QueryContext } from '@/lib/queryCache';
 
 type YouTubePlayerState = {
   PLAYING: number;
@@ -114,19 +118,48 @@ const parseYouTubeUploadsFeedCandidates = (xml: string, channelId: string, maxCa
     .filter((v): v is ChannelLatest => Boolean(v));
 };
 
-const fetchLatestForChannel = async (channelId: string): Promise<ChannelLatest | null> => {
+const fetchLatestForChannel = async (channelId: string, context: QueryContext): Promise<ChannelLatest | null> => {
   const feedUrl = `https://www.youtube.com/feeds/videos.xml?channel_id=${encodeURIComponent(channelId)}`;
-  const corsProxy = 'https://api.allorigins.win/raw?url=';
-
-  const response = await fetch(`${corsProxy}${encodeURIComponent(feedUrl)}`);
-  if (!response.ok) throw new Error(`Failed to fetch channel feed: ${response.statusText}`);
-
+  const response = await fetchThroughProxy(feedUrl, { cache: getRequestCache(context) });
   const xml = await response.text();
   // Take a few candidates so we can fall back if the newest upload is private/deleted.
   const candidates = parseYouTubeUploadsFeedCandidates(xml, channelId, 5);
   return candidates[0] ?? null;
 };
 
+/**
+ * Latest upload of each channel, in the order of the channel list. Channels
+ * whose feed fails are left out; only when every feed fails is it an error.
+ */
+const loadPlaylist = async (channelIds: string[], { force }: QueryContext): Promise<ChannelLatest[]> => {
+  const results: ChannelLatest[] = [];
+  const errors: unknown[] = [];
+
+  await Promise.all(
+    channelIds.map(async (channelId) => {
+      try {
+        const latest = await queryCache.fetch(`youtube-latest:${channelId}`, (context) => fetchLatestForChannel(channelId, context), {
+          maxAge: QUERY.STALE_TIME_MS,
+          force,
+        });
+        if (latest) results.push(latest);
+      } catch (e) {
+        console.error(`Failed to fetch latest video for ${channelId}`, e);
+        errors.push(e);
+      }
+    }),
+  );
+
+  if (errors.length === channelIds.length) throw errors[0];
+
+  // Preserve original channel order as much as possible
+  return channelIds
+    .map((id) => results.find((r) => r.channelId === id))
+    .filter((v): v is ChannelLatest => Boolean(v));
+};
+
+const NO_VIDEOS: ChannelLatest[] = [];
+
 const formatDate = (dateString?: string): string => {
   if (!dateString) return '';
   try {
@@ -199,9 +232,6 @@ const YouTubeAutoPlayWidget: React.FC<YouTubeAutoPlayWidgetProps> = ({ config })
   });
 
   const [sharedFavorites, setSharedFavorites] = useState<SharedFavoritesSnapshot | null>(null);
-  const [playlist, setPlaylist] = useState<ChannelLatest[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
 
   const [currentIndex, setCurrentIndex] = useState(0);
 
@@ -232,63 +262,33 @@ const YouTubeAutoPlayWidget: React.FC<YouTubeAutoPlayWidgetProps> = ({ config })
     return () => window.removeEventListener('storage', onStorage);
   }, []);
 
-  const loadPlaylist = React.useCallback(async () => {
-    const snap = readSharedFavorites();
-    setSharedFavorites(snap);
-
-    if (!snap || !snap.channelIds || snap.channelIds.length === 0) {
-      setPlaylist([]);
-      setError(null);
-      return;
-    }
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const results: ChannelLatest[] = [];
-
-      await Promise.all(
-        snap.channelIds.map(async (channelId) => {
-          try {
-            const latest = await fetchLatestForChannel(channelId);
-            if (latest) results.push(latest);
-          } catch (e) {
-            console.error(`Failed to fetch latest video for ${channelId}`, e);
-          }
-        }),
-      );
-
-      // Preserve original channel order as much as possible
-      const ordered = snap.channelIds
-        .map((id) => results.find((r) => r.channelId === id))
-        .filter((v): v is ChannelLatest => Boolean(v));
-
-      setPlaylist(ordered);
-      setCurrentIndex(0);
-      setIsLoading(false);
-    } catch (e) {
-      console.error('Error loading playlist:', e);
-      setError('Failed to load videos');
-      setIsLoading(false);
-    }
-  }, []);
+  const channelIds = sharedFavorites?.channelIds ?? [];
+  const refreshMinutes = Number(localConfig.refreshInterval ?? 10);
+  const {
+    data,
+    error,
+    isLoading,
+    isFetching,
+    updatedAt,
+    refresh,
+  } = useQuery(
+    channelIds.length > 0 ? `youtube-autoplay:${channelIds.join(',')}` : null,
+    (context) => loadPlaylist(channelIds, context),
+    { refreshInterval: refreshMinutes > 0 ? refreshMinutes * 60 * 1000 : 0 },
+  );
+  const playlist = channelIds.length > 0 ? data ?? NO_VIDEOS : NO_VIDEOS;
 
+  // Start from the top of each new playlist
   useEffect(() => {
-    loadPlaylist();
-  }, [loadPlaylist, sharedFavorites?.updatedAt]);
+    setCurrentIndex(0);
+  }, [data]);
 
-  // Refresh playlist periodically
+  // Favorites saved in this tab raise no storage event, so check for them on every load
   useEffect(() => {
-    const minutes = Number(localConfig.refreshInterval ?? 10);
-    if (minutes <= 0) return;
-
-    const id = window.setInterval(() => {
-      loadPlaylist();
-    }, minutes * 60 * 1000);
-
-    return () => window.clearInterval(id);
-  }, [localConfig.refreshInterval, loadPlaylist]);
+    if (updatedAt === undefined) return;
+    const snap = readSharedFavorites();
+    setSharedFavorites((prev) => (prev?.updatedAt === snap?.updatedAt ? prev : snap));
+  }, [updatedAt]);
 
   // Rotation timer
   useEffect(() => {
@@ -334,8 +334,10 @@ const YouTubeAutoPlayWidget: React.FC<YouTubeAutoPlayWidgetProps> = ({ config })
   const renderError = () => (
     <div className="h-full flex flex-col items-center justify-center text-center p-4">
       <AlertCircle size={24} className="text-red-500 mb-2" strokeWidth={1.5} />
-      <div className="text-sm text-red-500 dark:text-red-400 mb-3">{error}</div>
-      <Button size="sm" onClick={loadPlaylist}>
+      <div className="text-sm text-red-500 dark:text-red-400 mb-3">
+        {error instanceof ProxyHostError ? error.message : 'Failed to load videos'}
+      </div>
+      <Button size="sm" onClick={() => void refresh()}>
         Try Again
       </Button>
     </div>
@@ -349,7 +351,8 @@ const YouTubeAutoPlayWidget: React.FC<YouTubeAutoPlayWidgetProps> = ({ config })
 
   const renderPlayer = () => {
     if (isLoading) return renderLoading();
-    if (error) return renderError();
+    // The playlist from the last load keeps playing when a refresh fails
+    if (error && !data) return renderError();
     if (!sharedFavorites || !sharedFavorites.channelIds?.length) return renderEmpty();
     if (!playlist.length || !current) return renderEmpty();
 
@@ -657,7 +660,9 @@ const YouTubeAutoPlayWidget: React.FC<YouTubeAutoPlayWidgetProps> = ({ config })
       <WidgetHeader
         title={localConfig.title || defaultConfig.title || 'YouTube AutoPlay'}
         onSettingsClick={() => setShowSettings(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={error} onRefresh={refresh} />
+      </WidgetHeader>
 
       <div className="flex-1 overflow-hidden">{renderPlayer()}</div>
 
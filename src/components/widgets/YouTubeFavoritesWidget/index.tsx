@@ -1,6 +1,9 @@
 import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { AlertCircle, Plus, Trash2, Youtube } from 'lucide-react';
-import { STORAGE_KEYS } from '@/lib/constants';
+import { QUERY, STORAGE_KEYS } from '@/lib/constants';
+import { fetchThroughProxy, ProxyHostError } from '@/lib/proxy';
+import { useQuery } from '@/lib/useQuery';
+import { getRequestCache, queryCache, QueryContext } from '@/lib/queryCache';
 
 import {
   Dialog,
@@ -15,6 +18,7 @@ import { Label } from '../../ui/label';
 import { Switch } from '../../ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../ui/tabs';
 import WidgetHeader from '../common/WidgetHeader';
+import LastUpdated from '../common/LastUpdated';
 import type { YouTubeFavoritesWidgetProps } from './types';
 import {
   type YouTubeFavoriteVideo,
@@ -24,6 +28,8 @@ import {
 
 const ITEM_HEIGHT_PX = 84;
 
+const NO_VIDEOS: Record<string, YouTubeFavoriteVideo[]> = {};
+
 /**
  * AutoScrollContainer
  *
@@ -183,6 +189,44 @@ const formatDate = (dateString?: string): string => {
   }
 };
 
+const fetchChannelVideos = async (channelId: string, context: QueryContext): Promise<YouTubeFavoriteVideo[]> => {
+  const feedUrl = `https://www.youtube.com/feeds/videos.xml?channel_id=${encodeURIComponent(channelId)}`;
+  const response = await fetchThroughProxy(feedUrl, { cache: getRequestCache(context) });
+  return parseYouTubeUploadsFeed(await response.text(), channelId);
+};
+
+/**
+ * Latest uploads of each channel. A channel whose feed fails shows no videos;
+ * only when every feed fails is the whole load an error.
+ */
+const fetchAllChannels = async (
+  channelIds: string[],
+  videosToList: number,
+  { force }: QueryContext,
+): Promise<Record<string, YouTubeFavoriteVideo[]>> => {
+  const results: Record<string, YouTubeFavoriteVideo[]> = {};
+  const errors: unknown[] = [];
+
+  await Promise.all(
+    channelIds.map(async (id) => {
+      try {
+        const items = await queryCache.fetch(`youtube-channel:${id}`, (context) => fetchChannelVideos(id, context), {
+          maxAge: QUERY.STALE_TIME_MS,
+          force,
+        });
+        results[id] = items.slice(0, Math.max(1, videosToList));
+      } catch (e) {
+        console.error(`Error fetching YouTube channel ${id}:`, e);
+        errors.push(e);
+        results[id] = [];
+      }
+    }),
+  );
+
+  if (errors.length === channelIds.length) throw errors[0];
+  return results;
+};
+
 const YouTubeFavoritesWidget: React.FC<YouTubeFavoritesWidgetProps> = ({ config }) => {
   const defaultConfig = useMemo<YouTubeFavoritesWidgetConfig>(
     () => ({
@@ -206,10 +250,6 @@ const YouTubeFavoritesWidget: React.FC<YouTubeFavoritesWidgetProps> = ({ config
   });
 
   const [activeTab, setActiveTab] = useState<string>('content');
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const [videosByChannel, setVideosByChannel] = useState<Record<string, YouTubeFavoriteVideo[]>>({});
 
   const widgetRef = useRef<HTMLDivElement | null>(null);
   const contentAreaRef = useRef<HTMLDivElement | null>(null);
@@ -238,80 +278,22 @@ const YouTubeFavoritesWidget: React.FC<YouTubeFavoritesWidgetProps> = ({ config
     return () => ro.disconnect();
   }, []);
 
-  const fetchChannelVideos = React.useCallback(
-    async (channelId: string, limit: number): Promise<YouTubeFavoriteVideo[]> => {
-      const feedUrl = `https://www.youtube.com/feeds/videos.xml?channel_id=${encodeURIComponent(channelId)}`;
-      const corsProxy = 'https://api.allorigins.win/raw?url=';
-
-      const response = await fetch(`${corsProxy}${encodeURIComponent(feedUrl)}`);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch channel feed: ${response.statusText}`);
-      }
-
-      const xml = await response.text();
-      const items = parseYouTubeUploadsFeed(xml, channelId);
-      return items.slice(0, Math.max(1, limit));
-    },
-    [],
+  const channelIds = (localConfig.channelIds ?? []).map(normalizeChannelId).filter(Boolean);
+  const videosToList = Math.max(1, Number(localConfig.videosToList ?? 12));
+  const refreshMinutes = localConfig.refreshInterval ?? 30;
+  const {
+    data,
+    error,
+    isLoading,
+    isFetching,
+    updatedAt,
+    refresh,
+  } = useQuery(
+    channelIds.length > 0 ? `youtube-favorites:${videosToList}:${channelIds.join(',')}` : null,
+    (context) => fetchAllChannels(channelIds, videosToList, context),
+    { refreshInterval: refreshMinutes > 0 ? refreshMinutes * 60 * 1000 : 0 },
   );
-
-  const fetchAllChannels = React.useCallback(
-    async (configToUse?: YouTubeFavoritesWidgetConfig) => {
-      const currentConfig = configToUse ?? localConfig;
-
-      const channelIds = (currentConfig.channelIds ?? []).map(normalizeChannelId).filter(Boolean);
-      if (channelIds.length === 0) {
-        setVideosByChannel({});
-        setError(null);
-        return;
-      }
-
-      setIsLoading(true);
-      setError(null);
-
-      const videosToList = Math.max(1, Number(currentConfig.videosToList ?? 12));
-
-      try {
-        const results: Record<string, YouTubeFavoriteVideo[]> = {};
-
-        await Promise.all(
-          channelIds.map(async (id) => {
-            try {
-              results[id] = await fetchChannelVideos(id, videosToList);
-            } catch (e) {
-              console.error(`Error fetching YouTube channel ${id}:`, e);
-              results[id] = [];
-            }
-          }),
-        );
-
-        setVideosByChannel(results);
-        setIsLoading(false);
-      } catch (e) {
-        console.error('Error fetching YouTube channel feeds:', e);
-        setError('Failed to fetch YouTube channel feeds');
-        setIsLoading(false);
-      }
-    },
-    [localConfig, fetchChannelVideos],
-  );
-
-  // Fetch when channel list changes
-  useEffect(() => {
-    fetchAllChannels();
-  }, [localConfig.channelIds, localConfig.videosToList, fetchAllChannels]);
-
-  // Auto-refresh
-  useEffect(() => {
-    const intervalMinutes = localConfig.refreshInterval ?? 30;
-    if (intervalMinutes <= 0) return;
-
-    const id = window.setInterval(() => {
-      fetchAllChannels();
-    }, intervalMinutes * 60 * 1000);
-
-    return () => window.clearInterval(id);
-  }, [localConfig.refreshInterval, fetchAllChannels]);
+  const videosByChannel = channelIds.length > 0 ? data ?? NO_VIDEOS : NO_VIDEOS;
 
   const mergedVideos = useMemo(() => {
     const all = Object.values(videosByChannel).flat();
@@ -382,8 +364,10 @@ const YouTubeFavoritesWidget: React.FC<YouTubeFavoritesWidgetProps> = ({ config
   const renderError = () => (
     <div className="h-full flex flex-col items-center justify-center text-center p-4">
       <AlertCircle size={24} className="text-red-500 mb-2" strokeWidth={1.5} />
-      <div className="text-sm text-red-500 dark:text-red-400 mb-3">{error}</div>
-      <Button size="sm" onClick={() => fetchAllChannels()}>
+      <div className="text-sm text-red-500 dark:text-red-400 mb-3">
+        {error instanceof ProxyHostError ? error.message : 'Failed to fetch YouTube channel feeds'}
+      </div>
+      <Button size="sm" onClick={() => void refresh()}>
         Try Again
       </Button>
     </div>
@@ -401,9 +385,9 @@ const YouTubeFavoritesWidget: React.FC<YouTubeFavoritesWidgetProps> = ({ config
 
   const renderContent = () => {
     if (isLoading) return renderLoading();
-    if (error) return renderError();
+    // Videos from the last load stay on screen when a refresh fails
+    if (error && !data) return renderError();
 
-    const channelIds = (localConfig.channelIds ?? []).map(normalizeChannelId).filter(Boolean);
     if (channelIds.length === 0) return renderEmpty();
 
     const orientation: YouTubeFavoritesOrientation = localConfig.orientation ?? 'horizontal';
@@ -473,7 +457,6 @@ const YouTubeFavoritesWidget: React.FC<YouTubeFavoritesWidgetProps> = ({ config
     }
 
     setShowSettings(false);
-    fetchAllChannels(localConfig);
   };
 
   const addChannelId = () => {
@@ -654,7 +637,9 @@ const YouTubeFavoritesWidget: React.FC<YouTubeFavoritesWidgetProps> = ({ config
       <WidgetHeader
         title={localConfig.title || defaultConfig.title || 'YouTube Favorites'}
         onSettingsClick={() => setShowSettings(true)}
-      />
+      >
+        <LastUpdated updatedAt={updatedAt} isFetching={isFetching} error={error} onRefresh={refresh} />
+      </WidgetHeader>
 
       <div ref={contentAreaRef} className="flex-1 overflow-hidden">
         {renderContent()}
@@ -16,6 +16,19 @@ import { Input } from '../../ui/input';
 import { Checkbox } from '../../ui/checkbox';
 // Add Youtube icon import
 import { Youtube } from 'lucide-react';
+import { useQuery } from '../../../lib/useQuery';
+import { fetchOrThrow } from '../../../lib/queryCache';
+
+/**
+ * Title of a video from YouTube's oEmbed API, or null when it has none
+ */
+const fetchVideoTitle = async (videoId: string): Promise<string | null> => {
+  const response = await fetchOrThrow(
+    `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}&format=json`
+  );
+  const data = await response.json();
+  return data.title || null;
+};
 
 /**
  * Size categories for widget content rendering
@@ -212,41 +225,24 @@ const YouTubeWidget: React.FC<YouTubeWidgetProps> = ({ width, height, config })
     return (match && match[2].length === 11) ? match[2] : null;
   };
 
-  // Fetch video title from YouTube oEmbed API
-  const fetchVideoTitle = React.useCallback(async (videoId: string): Promise<string | null> => {
-    try {
-      const response = await fetch(
-        `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}&format=json`
-      );
-      if (!response.ok) return null;
-      const data = await response.json();
-      return data.title || null;
-    } catch {
-      return null;
-    }
-  }, []);
+  // Fetch the video's title while the widget still has the default one
+  const needsTitle = !!localConfig.videoId &&
+    (!localConfig.title || localConfig.title === 'YouTube Video' || localConfig.title === defaultConfig.title);
+  const { data: videoTitle } = useQuery(
+    needsTitle ? `youtube-title:${localConfig.videoId}` : null,
+    () => fetchVideoTitle(localConfig.videoId || '')
+  );
 
-  // Auto-fetch video title when videoId changes
   useEffect(() => {
-    const updateTitle = async () => {
-      if (!localConfig.videoId) return;
-
-      // Only fetch if title is default or empty
-      if (!localConfig.title || localConfig.title === 'YouTube Video' || localConfig.title === defaultConfig.title) {
-        const title = await fetchVideoTitle(localConfig.videoId);
-        if (title) {
-          const updatedConfig = { ...localConfig, title };
-          setLocalConfig(updatedConfig);
-          // Persist the title to parent
-          if (config?.onUpdate) {
-            config.onUpdate(updatedConfig);
-          }
-        }
-      }
-    };
-
-    updateTitle();
-  }, [localConfig.videoId]); // Only run when videoId changes
+    // A video actually titled like the default still counts as done
+    if (!videoTitle || !needsTitle || localConfig.title === videoTitle) return;
+    const updatedConfig = { ...localConfig, title: videoTitle };
+    setLocalConfig(updatedConfig);
+    // Persist the title to parent
+    if (config?.onUpdate) {
+      config.onUpdate(updatedConfig);
+    }
+  }, [videoTitle, needsTitle, localConfig, config]);
   
   // Process YouTube URL input
   const handleYouTubeUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
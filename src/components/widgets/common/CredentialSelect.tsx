@@ -0,0 +1,107 @@
+import React from 'react';
+import { Label } from '../../ui/label';
+import { Button } from '../../ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../ui/select';
+import { useVaultCredentials } from '@/lib/useVaultCredentials';
+import { VaultCredential } from '@/lib/credentialVault';
+
+// Select items can't have an empty value
+const NO_CREDENTIAL = '__none__';
+
+interface CredentialSelectProps {
+  id?: string;
+  /** Selected credential ID; empty when the widget uses its own token */
+  value?: string;
+  onChange: (credentialId: string) => void;
+  /** Hosts the widget calls; only credentials covering one of them are offered */
+  hosts?: string[];
+  label?: string;
+}
+
+const coversHost = (credential: VaultCredential, host: string): boolean =>
+  credential.hosts.some(pattern => pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern);
+
+/**
+ * Settings control for picking a credential from the server-side vault
+ * instead of entering a token in the widget
+ *
+ * Renders nothing when the vault isn't available on this device, unless the
+ * widget already uses a credential, in which case it offers to switch back.
+ *
+ * @component
+ * @param {CredentialSelectProps} props - Component props
+ * @returns {React.ReactElement | null} Credential selector
+ */
+const CredentialSelect = ({
+  id = 'credential-select',
+  value,
+  onChange,
+  hosts,
+  label = 'Token Source',
+}: CredentialSelectProps): React.ReactElement | null => {
+  const { credentials, isAvailable } = useVaultCredentials();
+
+  if (!isAvailable) {
+    if (!value) return null;
+    return (
+      <div className="space-y-2">
+        <Label>{label}</Label>
+        <p className="text-xs text-muted-foreground">
+          This widget uses a credential from the vault, which needs the self-hosted server.
+        </p>
+        <Button variant="outline" size="sm" onClick={() => onChange('')}>
+          Enter a token instead
+        </Button>
+      </div>
+    );
+  }
+
+  const options = hosts?.length
+    ? credentials.filter(credential => hosts.some(host => coversHost(credential, host)))
+    : credentials;
+  const selected = value || NO_CREDENTIAL;
+  const isMissing = selected !== NO_CREDENTIAL && !options.some(credential => credential.id === selected);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={selected} onValueChange={(credentialId) => onChange(credentialId === NO_CREDENTIAL ? '' : credentialId)}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_CREDENTIAL}>Token saved in this widget</SelectItem>
+          {options.map(credential => (
+            <SelectItem key={credential.id} value={credential.id}>
+              Vault: {credential.name}
+            </SelectItem>
+          ))}
+          {isMissing && (
+            <SelectItem value={selected} disabled>
+              Credential no longer in the vault
+            </SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Vault tokens stay on the server and never reach the browser. Add them under{' '}
+        <button
+          type="button"
+          className="underline"
+          onClick={() => document.dispatchEvent(new CustomEvent('boxento:openAppSettings', { detail: { tab: 'storage' } }))}
+        >
+          App Settings → Storage
+        </button>
+        .
+      </p>
+    </div>
+  );
+};
+
+export default CredentialSelect;
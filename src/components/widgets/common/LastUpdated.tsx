@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { RefreshCw } from 'lucide-react';
+
+interface LastUpdatedProps {
+  /** When the shown data was fetched, in ms since the epoch */
+  updatedAt?: number;
+  isFetching?: boolean;
+  /** Error of the last refresh; the data shown is older than hoped */
+  error?: Error;
+  /** Shows a refresh button when given */
+  onRefresh?: () => void;
+  className?: string;
+}
+
+// How often the relative time is redrawn
+const TICK_MS = 30 * 1000;
+
+/**
+ * Shared "Updated 5 minutes ago" line for widgets showing fetched data,
+ * usually fed from useQuery
+ *
+ * @param props Component props
+ * @returns Last updated line, or nothing before the first fetch
+ */
+const LastUpdated = ({
+  updatedAt,
+  isFetching,
+  error,
+  onRefresh,
+  className = '',
+}: LastUpdatedProps): React.ReactElement | null => {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    if (updatedAt === undefined) return;
+    const intervalId = setInterval(() => setTick(tick => tick + 1), TICK_MS);
+    return () => clearInterval(intervalId);
+  }, [updatedAt]);
+
+  if (updatedAt === undefined) return null;
+
+  const age = formatDistanceToNow(updatedAt, { addSuffix: true });
+
+  return (
+    <div
+      className={`flex items-center gap-1 text-[10px] ${error ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400 dark:text-slate-500'} ${className}`}
+      title={error ? `${error.message} - showing data from ${new Date(updatedAt).toLocaleString()}` : new Date(updatedAt).toLocaleString()}
+    >
+      <span>{error ? `Update failed, data from ${age}` : `Updated ${age}`}</span>
+      {onRefresh && (
+        <button
+          type="button"
+          onClick={(e: React.MouseEvent) => {
+            e.stopPropagation();
+            onRefresh();
+          }}
+          disabled={isFetching}
+          aria-label="Refresh"
+          className="p-0.5 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-50"
+        >
+          <RefreshCw size={10} className={isFetching ? 'animate-spin' : ''} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LastUpdated;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Label } from '../../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../ui/select';
+import { useLinkableWidgets } from '@/lib/useWidgetEvents';
+import { WidgetEventName, WidgetLinks } from '@/lib/widgetEvents';
+
+// Select items can't have an empty value
+const NO_LINK = '__none__';
+
+interface WidgetLinkSelectProps {
+  /** Event the link is for */
+  event: WidgetEventName;
+  /** ID of the widget being configured */
+  widgetId?: string;
+  /** Current links of the widget being configured */
+  links?: WidgetLinks;
+  onChange: (links: WidgetLinks) => void;
+  label: string;
+  /** Option shown for "not linked", describing what happens instead */
+  noneLabel: string;
+  description?: string;
+}
+
+/**
+ * Settings control for linking a widget to another widget on the dashboard
+ *
+ * Lists the widgets on the current dashboard that accept the event. A link to a
+ * widget that is no longer on the dashboard is kept until it is changed.
+ *
+ * @component
+ * @param {WidgetLinkSelectProps} props - Component props
+ * @returns {React.ReactElement} Link selector
+ */
+const WidgetLinkSelect = ({
+  event,
+  widgetId,
+  links,
+  onChange,
+  label,
+  noneLabel,
+  description,
+}: WidgetLinkSelectProps): React.ReactElement => {
+  const targets = useLinkableWidgets(event, widgetId);
+  const value = links?.[event] || NO_LINK;
+  const isMissing = value !== NO_LINK && !targets.some(target => target.widgetId === value);
+  const id = `widget-link-${event}`;
+
+  const handleChange = (targetId: string) => {
+    const nextLinks = { ...links };
+    if (targetId === NO_LINK) {
+      delete nextLinks[event];
+    } else {
+      nextLinks[event] = targetId;
+    }
+    onChange(nextLinks);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={handleChange}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_LINK}>{noneLabel}</SelectItem>
+          {targets.map(target => (
+            <SelectItem key={target.widgetId} value={target.widgetId}>
+              {target.label}
+            </SelectItem>
+          ))}
+          {isMissing && (
+            <SelectItem value={value} disabled>
+              Widget not on this dashboard
+            </SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      {description && <p className="text-xs text-muted-foreground">{description}</p>}
+    </div>
+  );
+};
+
+export default WidgetLinkSelect;
@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '../../ui/dialog';
+import { Button } from '../../ui/button';
+import { Input } from '../../ui/input';
+import { Label } from '../../ui/label';
+import { Switch } from '../../ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../ui/select';
+import {
+  WidgetSettingsSchema,
+  SettingsField,
+  SettingsErrors,
+  getSettingsDefaults,
+  isFieldVisible,
+  validateSettings,
+} from './settingsSchema';
+import CredentialSelect from './CredentialSelect';
+import { credentialVault } from '@/lib/credentialVault';
+
+/** Form state handed to widget-specific controls */
+export interface SettingsFormApi {
+  values: Record<string, unknown>;
+  setValue: (key: string, value: unknown) => void;
+}
+
+interface WidgetSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  schema: WidgetSettingsSchema;
+  /** Current widget config - only the keys in the schema are edited */
+  config: Record<string, unknown>;
+  /** Called with the validated values of every schema field */
+  onSave: (values: Record<string, unknown>) => void;
+  onDelete?: () => void;
+  /**
+   * Checks the schema can't express, e.g. looking up a location. Runs after the
+   * schema validation passed; errors for keys outside the schema are shown above the buttons.
+   */
+  validate?: (values: Record<string, unknown>) => SettingsErrors | Promise<SettingsErrors>;
+  /** Widget-specific controls rendered below the generated fields */
+  children?: React.ReactNode | ((form: SettingsFormApi) => React.ReactNode);
+}
+
+const pickSchemaValues = (schema: WidgetSettingsSchema, config: Record<string, unknown>): Record<string, unknown> => {
+  const values = getSettingsDefaults(schema);
+  for (const field of schema.fields) {
+    if (config[field.key] !== undefined) values[field.key] = config[field.key];
+  }
+  return values;
+};
+
+// A token left behind next to a picked credential would still be stored with the config
+const clearReplacedTokens = (schema: WidgetSettingsSchema, values: Record<string, unknown>): Record<string, unknown> => {
+  const cleared = { ...values };
+  schema.fields.forEach(field => {
+    if (field.type === 'credential' && values[field.key]) {
+      field.replaces?.forEach(key => { cleared[key] = ''; });
+    }
+  });
+  return cleared;
+};
+
+// Credential pickers only make sense with the vault, or to switch away from a credential
+const isFieldShown = (field: SettingsField, values: Record<string, unknown>): boolean =>
+  isFieldVisible(field, values) && (field.type !== 'credential' || credentialVault.isAvailable() || !!values[field.key]);
+
+/**
+ * Settings dialog generated from a widget's settings schema
+ *
+ * @component
+ * @param {WidgetSettingsDialogProps} props - Component props
+ * @returns {React.ReactElement} Settings dialog
+ */
+const WidgetSettingsDialog = ({
+  open,
+  onOpenChange,
+  title,
+  schema,
+  config,
+  onSave,
+  onDelete,
+  validate,
+  children,
+}: WidgetSettingsDialogProps): React.ReactElement => {
+  const [values, setValues] = useState<Record<string, unknown>>(() => pickSchemaValues(schema, config));
+  const [errors, setErrors] = useState<SettingsErrors>({});
+  const [isValidating, setIsValidating] = useState(false);
+
+  // Start from the saved config every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(pickSchemaValues(schema, config));
+      setErrors({});
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const setValue = (key: string, value: unknown) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+    setErrors(prev => {
+      if (!prev[key]) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    let validationErrors = validateSettings(schema, values);
+    if (Object.keys(validationErrors).length === 0 && validate) {
+      setIsValidating(true);
+      try {
+        validationErrors = await validate(values);
+      } finally {
+        setIsValidating(false);
+      }
+    }
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+    onSave(clearReplacedTokens(schema, values));
+    onOpenChange(false);
+  };
+
+  // Errors from `validate` that don't belong to a generated field
+  const otherErrors = Object.entries(errors)
+    .filter(([key]) => !schema.fields.some(field => field.key === key))
+    .map(([, error]) => error);
+
+  const renderInput = (field: SettingsField) => {
+    const id = `setting-${field.key}`;
+    const value = values[field.key];
+
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={id}
+              checked={value === true}
+              onCheckedChange={(checked) => setValue(field.key, checked)}
+            />
+            <Label htmlFor={id}>{field.label}</Label>
+          </div>
+        );
+      case 'credential':
+        return (
+          <CredentialSelect
+            id={id}
+            label={field.label}
+            value={(value as string) || ''}
+            onChange={(credentialId) => {
+              setValue(field.key, credentialId);
+              if (credentialId) field.replaces?.forEach(key => setValue(key, ''));
+            }}
+            hosts={field.hosts}
+          />
+        );
+      case 'select':
+        return (
+          <Select value={(value as string) || ''} onValueChange={(v) => setValue(field.key, v)}>
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'number':
+        return (
+          <Input
+            id={id}
+            type="number"
+            value={value === undefined || value === null ? '' : String(value)}
+            onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : Number(e.target.value))}
+            min={field.min}
+            max={field.max}
+            step={field.step}
+          />
+        );
+      case 'textarea':
+        return (
+          <textarea
+            id={id}
+            value={(value as string) || ''}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            placeholder={field.placeholder}
+            maxLength={field.maxLength}
+            className="flex min-h-20 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          />
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            type={field.type === 'password' || field.sensitive ? 'password' : field.type === 'url' ? 'url' : 'text'}
+            value={(value as string) || ''}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            placeholder={field.placeholder}
+            maxLength={field.maxLength}
+            autoComplete={field.sensitive ? 'off' : undefined}
+          />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {schema.fields.filter(field => isFieldShown(field, values)).map(field => (
+            <div key={field.key} className="space-y-2">
+              {field.type !== 'boolean' && field.type !== 'credential' && (
+                <Label htmlFor={`setting-${field.key}`}>
+                  {field.label}
+                  {!field.required && field.type !== 'select' && (
+                    <span className="text-muted-foreground font-normal"> (Optional)</span>
+                  )}
+                </Label>
+              )}
+              {renderInput(field)}
+              {errors[field.key] ? (
+                <p className="text-xs text-destructive">{errors[field.key]}</p>
+              ) : field.description && (
+                <p className="text-xs text-muted-foreground">{field.description}</p>
+              )}
+            </div>
+          ))}
+          {typeof children === 'function' ? children({ values, setValue }) : children}
+          {otherErrors.map(error => (
+            <p key={error} className="text-xs text-destructive">{error}</p>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <div className="flex justify-between w-full">
+            {onDelete ? (
+              <Button variant="destructive" onClick={onDelete}>
+                Delete
+              </Button>
+            ) : <div />}
+            <Button onClick={() => void handleSave()} disabled={isValidating}>
+              {isValidating ? 'Validating...' : 'Save'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WidgetSettingsDialog;
@@ -0,0 +1,159 @@
+/**
+ * Declarative widget settings
+ *
+ * A widget describes its settings as a list of fields in WIDGET_REGISTRY
+ * (`settingsSchema`). WidgetSettingsDialog renders the form from it and only
+ * hands validated values back to the widget. Schemas are plain data, so they
+ * can be stored and compared like any other widget metadata.
+ */
+
+type SettingsValue = string | number | boolean;
+
+interface SettingsFieldBase {
+  /** Config key the field reads and writes */
+  key: string;
+  label: string;
+  /** Help text shown below the input */
+  description?: string;
+  required?: boolean;
+  /** Holds a secret: masked in the form and never published with shared dashboards */
+  sensitive?: boolean;
+  /** Only show (and validate) the field while another field has one of these values */
+  visibleWhen?: { field: string; equals: SettingsValue | SettingsValue[] };
+}
+
+export interface TextSettingsField extends SettingsFieldBase {
+  type: 'text' | 'password' | 'url' | 'textarea';
+  default?: string;
+  placeholder?: string;
+  maxLength?: number;
+  /** Regular expression source the value must match */
+  pattern?: string;
+  /** Error shown when the value doesn't match `pattern` */
+  patternMessage?: string;
+}
+
+export interface NumberSettingsField extends SettingsFieldBase {
+  type: 'number';
+  default?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  integer?: boolean;
+}
+
+export interface BooleanSettingsField extends SettingsFieldBase {
+  type: 'boolean';
+  default?: boolean;
+}
+
+export interface SelectSettingsField extends SettingsFieldBase {
+  type: 'select';
+  default?: string;
+  options: { value: string; label: string }[];
+}
+
+/** Credential from the server-side vault, stored as its ID (empty for none) */
+export interface CredentialSettingsField extends SettingsFieldBase {
+  type: 'credential';
+  default?: string;
+  /** Hosts the widget calls, to only offer credentials sent to them */
+  hosts?: string[];
+  /** Token fields the credential stands in for, cleared when one is picked */
+  replaces?: string[];
+}
+
+export type SettingsField =
+  | TextSettingsField
+  | NumberSettingsField
+  | BooleanSettingsField
+  | SelectSettingsField
+  | CredentialSettingsField;
+
+export interface WidgetSettingsSchema {
+  fields: SettingsField[];
+}
+
+// Validation errors keyed by field key
+export type SettingsErrors = Record<string, string>;
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '';
+
+/**
+ * Default values declared by a schema
+ */
+export const getSettingsDefaults = (schema: WidgetSettingsSchema): Record<string, unknown> => {
+  const defaults: Record<string, unknown> = {};
+  for (const field of schema.fields) {
+    if (field.default !== undefined) defaults[field.key] = field.default;
+  }
+  return defaults;
+};
+
+/**
+ * Whether a field should be shown for the current form values
+ */
+export const isFieldVisible = (field: SettingsField, values: Record<string, unknown>): boolean => {
+  if (!field.visibleWhen) return true;
+  const { field: otherField, equals } = field.visibleWhen;
+  const expected = Array.isArray(equals) ? equals : [equals];
+  return expected.includes(values[otherField] as SettingsValue);
+};
+
+/**
+ * Config keys a schema marks as secrets
+ */
+export const getSensitiveSettingsKeys = (schema?: WidgetSettingsSchema): string[] =>
+  schema?.fields.filter(field => field.sensitive).map(field => field.key) || [];
+
+const validateField = (field: SettingsField, value: unknown): string | null => {
+  if (isEmpty(value)) {
+    return field.required ? `${field.label} is required` : null;
+  }
+
+  switch (field.type) {
+    case 'number': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return `${field.label} must be a number`;
+      if (field.integer && !Number.isInteger(number)) return `${field.label} must be a whole number`;
+      if (field.min !== undefined && number < field.min) return `${field.label} must be at least ${field.min}`;
+      if (field.max !== undefined && number > field.max) return `${field.label} must be at most ${field.max}`;
+      return null;
+    }
+    case 'select':
+      return field.options.some(option => option.value === value) ? null : `Choose a valid ${field.label.toLowerCase()}`;
+    case 'boolean':
+    case 'credential':
+      return null;
+    default: {
+      const text = String(value);
+      if (field.maxLength !== undefined && text.length > field.maxLength) {
+        return `${field.label} must be at most ${field.maxLength} characters`;
+      }
+      // Absolute http(s) URLs, or paths on this origin (e.g. the dev proxy)
+      if (field.type === 'url' && !/^(https?:\/\/[^\s]+|\/[^\s]*)$/.test(text)) {
+        return `${field.label} must be a valid URL`;
+      }
+      if (field.pattern && !new RegExp(field.pattern).test(text)) {
+        return field.patternMessage || `${field.label} is not valid`;
+      }
+      return null;
+    }
+  }
+};
+
+/**
+ * Validate form values against a schema. Hidden fields are skipped.
+ *
+ * @returns Errors keyed by field; empty when the values are valid
+ */
+export const validateSettings = (schema: WidgetSettingsSchema, values: Record<string, unknown>): SettingsErrors => {
+  const errors: SettingsErrors = {};
+  for (const field of schema.fields) {
+    if (!isFieldVisible(field, values)) continue;
+    const error = validateField(field, values[field.key]);
+    if (error) errors[field.key] = error;
+  }
+  return errors;
+};
@@ -1,5 +1,16 @@
 import React from 'react';
-import { WidgetConfig, WidgetProps } from '@/types';
+import { Widget, WidgetConfig, WidgetProps } from '@/types';
+import { WidgetSettingsSchema, getSettingsDefaults } from './common/settingsSchema';
+import type { ConfigMigration } from '@/lib/configMigrations';
+import type { WidgetSearchItem } from '@/lib/widgetSearch';
+import { todoistSettingsSchema } from './TodoistWidget/settings';
+import { coolifySettingsSchema } from './CoolifyWidget/settings';
+import { weatherSettingsSchema } from './WeatherWidget/settings';
+import { rssSettingsSchema } from './RSSWidget/settings';
+import { getTodoSearchItems } from './TodoWidget/search';
+import { getNotesSearchItems } from './NotesWidget/search';
+import { getQuickLinksSearchItems } from './QuickLinksWidget/search';
+import { getHabitSearchItems } from './HabitWidget/search';
 
 // Lazy load widget components - each widget will be in its own chunk
 const CalendarWidget = React.lazy(() => import('./CalendarWidget/index'));
@@ -33,6 +44,7 @@ const WebsiteMonitorWidget = React.lazy(() => import('./WebsiteMonitorWidget/ind
 const DockerMonitorWidget = React.lazy(() => import('./DockerMonitorWidget/index'));
 const CoolifyWidget = React.lazy(() => import('./CoolifyWidget/index'));
 const MorningBriefWidget = React.lazy(() => import('./MorningBriefWidget/index'));
+const StackWidget = React.lazy(() => import('./StackWidget/index'));
 
 // Export widget types
 export * from './CalendarWidget/types';
@@ -68,11 +80,18 @@ export * from './QRCodeWidget/types';
 export * from './AGGridWidget/types';
 export * from './HostingerVPSWidget/types';
 export * from './MorningBriefWidget/types';
+export * from './StackWidget/types';
 
 // Enhanced Widget Config
 export interface EnhancedWidgetConfig extends WidgetConfig {
   category: string;
   description: string;
+  /** Fields of the generated settings dialog (see common/settingsSchema.ts) */
+  settingsSchema?: WidgetSettingsSchema;
+  /** Ordered changes to the stored config shape (see lib/configMigrations.ts) */
+  configMigrations?: ConfigMigration[];
+  /** Content stored in the config that the command palette can find (see lib/widgetSearch.ts) */
+  getSearchItems?(config: Record<string, unknown>): WidgetSearchItem[];
   [key: string]: unknown;
 }
 
@@ -87,7 +106,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 4,
     defaultHeight: 4,
     category: 'Utilities',
-    description: 'Monitor Hostinger VPS instances with historical metrics and charts'
+    description: 'Monitor Hostinger VPS instances with historical metrics and charts',
+    sensitiveFields: ['apiToken']
   },
   {
     type: 'calendar',
@@ -131,7 +151,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 2,
     defaultHeight: 2,
     category: 'Information',
-    description: 'Display current weather and forecast'
+    description: 'Display current weather and forecast',
+    settingsSchema: weatherSettingsSchema
   },
   {
     type: 'world-clocks',
@@ -153,7 +174,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 2,
     defaultHeight: 2,
     category: 'Productivity',
-    description: 'Save and quickly access your favorite links'
+    description: 'Save and quickly access your favorite links',
+    getSearchItems: getQuickLinksSearchItems
   },
   {
     type: 'notes',
@@ -164,7 +186,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 2,
     defaultHeight: 2,
     category: 'Productivity',
-    description: 'Take and save quick notes'
+    description: 'Take and save quick notes',
+    getSearchItems: getNotesSearchItems
   },
   {
     type: 'todo',
@@ -175,7 +198,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 2,
     defaultHeight: 2,
     category: 'Productivity',
-    description: 'Manage your tasks and to-dos'
+    description: 'Manage your tasks and to-dos',
+    getSearchItems: getTodoSearchItems
   },
   {
     type: 'pomodoro',
@@ -197,7 +221,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 2,
     defaultHeight: 2,
     category: 'Finance',
-    description: 'Convert between currencies using live exchange rates'
+    description: 'Convert between currencies using live exchange rates',
+    sensitiveFields: ['apiKey']
   },
 
 
@@ -243,7 +268,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 3,
     defaultHeight: 3,
     category: 'Information',
-    description: 'Display RSS feeds from your favorite websites'
+    description: 'Display RSS feeds from your favorite websites',
+    settingsSchema: rssSettingsSchema
   },
 
   {
@@ -255,7 +281,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 2,
     defaultHeight: 2,
     category: 'Travel',
-    description: 'Track real-time flight status using Amadeus API'
+    description: 'Track real-time flight status using Amadeus API',
+    sensitiveFields: ['accessKey']
   },
 
   {
@@ -267,7 +294,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 2,
     defaultHeight: 4,
     category: 'Productivity',
-    description: 'View and manage your Todoist tasks'
+    description: 'View and manage your Todoist tasks',
+    settingsSchema: todoistSettingsSchema
   },
   {
     type: 'year-progress',
@@ -300,7 +328,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 3,
     defaultHeight: 3,
     category: 'Productivity',
-    description: 'Track daily habits and build streaks'
+    description: 'Track daily habits and build streaks',
+    getSearchItems: getHabitSearchItems
   },
   {
     type: 'countdown',
@@ -344,7 +373,8 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     defaultWidth: 2,
     defaultHeight: 3,
     category: 'Utilities',
-    description: 'Monitor Coolify servers and applications'
+    description: 'Monitor Coolify servers and applications',
+    settingsSchema: coolifySettingsSchema
   },
   {
     type: 'qrcode',
@@ -368,6 +398,17 @@ export const WIDGET_REGISTRY: EnhancedWidgetConfig[] = [
     category: 'Information',
     description: 'Display daily morning brief from a remote HTML source'
   },
+  {
+    type: 'stack',
+    name: 'Stack',
+    icon: 'Layers',
+    minWidth: 2,
+    minHeight: 2,
+    defaultWidth: 3,
+    defaultHeight: 3,
+    category: 'Utilities',
+    description: 'Show several widgets in one spot as tabs or a carousel'
+  },
 
 ];
 
@@ -382,7 +423,7 @@ export const WIDGET_CATEGORIES = [
 ];
 
 // Widget component type - now supports lazy components
-type WidgetComponent = React.ComponentType<WidgetProps<Record<string, unknown>>>;
+export type WidgetComponent = React.ComponentType<WidgetProps<Record<string, unknown>>>;
 type LazyWidgetComponent = React.LazyExoticComponent<React.ComponentType<WidgetProps<Record<string, unknown>>>>;
 
 /**
@@ -421,13 +462,47 @@ const WIDGET_COMPONENTS: Record<string, LazyWidgetComponent> = {
   'docker-monitor': DockerMonitorWidget as unknown as LazyWidgetComponent,
   'coolify-monitor': CoolifyWidget as unknown as LazyWidgetComponent,
   'morning-brief': MorningBriefWidget,
+  'stack': StackWidget as unknown as LazyWidgetComponent,
+};
+
+// Widgets registered at runtime from external modules (see lib/customWidgets.ts)
+const CUSTOM_WIDGET_COMPONENTS: Record<string, WidgetComponent> = {};
+const BUILT_IN_WIDGET_TYPES = new Set(WIDGET_REGISTRY.map(widget => widget.type));
+
+/**
+ * Whether a widget type ships with Boxento
+ */
+export const isBuiltInWidgetType = (type: string): boolean => BUILT_IN_WIDGET_TYPES.has(type);
+
+/**
+ * Add a widget to the registry at runtime, replacing an earlier registration of the same type
+ *
+ * @throws Error if the type belongs to a built-in widget
+ */
+export const registerWidget = (config: EnhancedWidgetConfig, component: WidgetComponent): void => {
+  if (isBuiltInWidgetType(config.type)) {
+    throw new Error(`Widget type "${config.type}" is already used by a built-in widget`);
+  }
+  unregisterWidget(config.type);
+  WIDGET_REGISTRY.push(config);
+  CUSTOM_WIDGET_COMPONENTS[config.type] = component;
+};
+
+/**
+ * Remove a widget registered at runtime. Built-in widgets can't be removed.
+ */
+export const unregisterWidget = (type: string): void => {
+  if (isBuiltInWidgetType(type)) return;
+  const index = WIDGET_REGISTRY.findIndex(widget => widget.type === type);
+  if (index !== -1) WIDGET_REGISTRY.splice(index, 1);
+  delete CUSTOM_WIDGET_COMPONENTS[type];
 };
 
 /**
  * Get widget component by type (returns lazy-loaded component)
  */
 export const getWidgetComponent = (type: string): WidgetComponent | null => {
-  return WIDGET_COMPONENTS[type] ?? null;
+  return WIDGET_COMPONENTS[type] ?? CUSTOM_WIDGET_COMPONENTS[type] ?? null;
 };
 
 /**
@@ -436,3 +511,24 @@ export const getWidgetComponent = (type: string): WidgetComponent | null => {
 export const getWidgetConfigByType = (type: string): EnhancedWidgetConfig | undefined => {
   return WIDGET_REGISTRY.find(widget => widget.type === type);
 };
+
+/**
+ * Name of a widget instance for people: its own title if it has one, else its type's name
+ */
+export const getWidgetDisplayName = (widget: Widget): string => {
+  const title = widget.config?.title || widget.config?.customTitle;
+  return typeof title === 'string' && title ? title : getWidgetConfigByType(widget.type)?.name || widget.type;
+};
+
+/**
+ * Initial config for a new widget instance: its registry metadata plus the
+ * defaults from its settings schema. The schema, migrations and search function
+ * aren't copied into the config - configs must stay plain data to be stored.
+ */
+export const getDefaultWidgetConfig = (type: string): Record<string, unknown> => {
+  const registryConfig = getWidgetConfigByType(type);
+  if (!registryConfig) return {};
+
+  const { settingsSchema, configMigrations: _configMigrations, getSearchItems: _getSearchItems, ...metadata } = registryConfig;
+  return settingsSchema ? { ...metadata, ...getSettingsDefaults(settingsSchema) } : metadata;
+};
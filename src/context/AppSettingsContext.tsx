@@ -1,7 +1,11 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
-import { auth } from '../lib/firebase';
+import { storageBackend } from '../lib/storage';
 import { userDashboardService } from '../lib/firestoreService';
 import { TIMING, STORAGE_KEYS } from '../lib/constants';
+import type { CustomWidgetSource } from '../lib/customWidgets';
+import { DEFAULT_KIOSK_SETTINGS, KioskSettings } from '../lib/kioskMode';
+import type { DashboardTemplate } from '../lib/dashboardTemplates';
+import { DEFAULT_NOTIFICATION_SETTINGS, NotificationSettings, notificationService } from '../lib/notifications';
 
 type FaviconMode = 'simple' | 'smart';
 type ThemeMode = 'light' | 'dark' | 'system';
@@ -17,6 +21,10 @@ interface AppSettings {
   themeMode: ThemeMode;
   themeCombo: string; // ID of selected theme combo
   themeComboOptions: ThemeCombo[];
+  customWidgets: CustomWidgetSource[]; // Third-party widget modules loaded at runtime
+  kiosk: KioskSettings; // What kiosk devices show; whether a device is a kiosk is per device
+  dashboardTemplates: DashboardTemplate[]; // Personal templates saved from dashboards
+  notifications: NotificationSettings; // How widget alerts are delivered; the alert history is per device
   // Add other app-level settings here
 }
 
@@ -57,6 +65,10 @@ const defaultSettings: AppSettings = {
       darkTheme: 'sonoma-dark',
     },
   ],
+  customWidgets: [],
+  kiosk: DEFAULT_KIOSK_SETTINGS,
+  dashboardTemplates: [],
+  notifications: DEFAULT_NOTIFICATION_SETTINGS,
 };
 
 const AppSettingsContext = createContext<AppSettingsContextType | undefined>(undefined);
@@ -72,7 +84,7 @@ export function AppSettingsProvider({ children }: { children: React.ReactNode })
       setIsLoading(true);
       
       try {
-        if (auth?.currentUser) {
+        if (storageBackend.isAuthenticated()) {
           // User is logged in, try to load from Firestore
           const firestoreSettings = await userDashboardService.loadAppSettings();
           
@@ -109,18 +121,18 @@ export function AppSettingsProvider({ children }: { children: React.ReactNode })
     };
     
     // Listen for auth state changes
-    if (!auth) {
-      setIsLoading(false);
-      return;
-    }
-
-    const unsubscribe = auth.onAuthStateChanged(() => {
+    const unsubscribe = storageBackend.onAuthStateChanged(() => {
       loadAppSettings();
     });
     
     return () => unsubscribe();
   }, []);
 
+  // Widgets raise alerts outside React, so hand the notification settings to the service
+  useEffect(() => {
+    notificationService.configure({ ...DEFAULT_NOTIFICATION_SETTINGS, ...settings.notifications });
+  }, [settings.notifications]);
+
   // Helper function to load settings from localStorage
   const loadFromLocalStorage = (): AppSettings => {
     try {
@@ -141,7 +153,7 @@ export function AppSettingsProvider({ children }: { children: React.ReactNode })
     localStorage.setItem(STORAGE_KEYS.APP_SETTINGS, JSON.stringify(newSettings));
 
     // Save to Firestore if user is logged in (with debounce)
-    if (auth?.currentUser) {
+    if (storageBackend.isAuthenticated()) {
       if (settingsUpdateTimeout) {
         clearTimeout(settingsUpdateTimeout);
       }
@@ -21,6 +21,7 @@ import { auth } from './firebase';
 import { configManager } from './configManager';
 import { isFirebaseInitialized } from './firebase';
 import { setUserKey } from './encryption';
+import { storageBackend } from './storage';
 
 export interface AuthContextType {
   currentUser: User | null;
@@ -62,7 +63,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
       // Set encryption key based on user state
       // When logged in: use user UID for cross-device encryption consistency
       // When logged out: encryption will fall back to device key
-      setUserKey(user?.uid ?? null);
+      // The self-hosted backend derives its key from the sync token instead
+      if (storageBackend.name === 'firestore') {
+        setUserKey(user?.uid ?? null);
+      }
 
       setCurrentUser(user);
       setLoading(false);
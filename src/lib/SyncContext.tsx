@@ -1,12 +1,19 @@
 import { onSnapshot, doc, collection } from 'firebase/firestore';
-import { ReactNode, createContext, useContext, useState, useEffect, useRef, useCallback, Component, type ErrorInfo } from 'react';
+import { ReactNode, createContext, useContext, useState, useEffect, useRef, useCallback, useSyncExternalStore, Component, type ErrorInfo } from 'react';
 import { toast } from 'sonner';
 import { useAuth } from './useAuth';
 import { db } from './firebase';
+import { storageBackend } from './storage';
+import { STORAGE_KEYS } from './constants';
+import { localStore } from './localStore';
+import { getDeviceId, getRevision } from './syncRevisions';
+import { syncState, SyncConflict } from './syncState';
 
-type SyncStatus = 'idle' | 'syncing' | 'error' | 'success';
+// 'pending' while local changes are still being written, 'conflict' while a
+// widget changed on this device and another one waits for the user to pick a version
+export type SyncStatus = 'idle' | 'syncing' | 'error' | 'success' | 'pending' | 'conflict';
 
-// Debounce utility for localStorage updates
+// Debounce utility for local store updates
 function debounce<T extends (...args: Parameters<T>) => void>(
   fn: T,
   delay: number
@@ -23,13 +30,19 @@ interface SyncContextProps {
   lastSyncTime: Date | null;
   syncError: string | null;
   syncStatus: SyncStatus;
+  /** Writes not yet confirmed by the storage backend, including those queued while offline */
+  pendingChanges: number;
+  /** Widgets waiting for the user to pick this device's or the other device's version */
+  conflicts: SyncConflict[];
 }
 
 const SyncContext = createContext<SyncContextProps>({
   isSyncing: false,
   lastSyncTime: null,
   syncError: null,
-  syncStatus: 'idle'
+  syncStatus: 'idle',
+  pendingChanges: 0,
+  conflicts: []
 });
 
 export const useSync = () => useContext(SyncContext);
@@ -76,6 +89,8 @@ export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncError, setSyncError] = useState<string | null>(null);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const { pendingWrites, queuedWrites, conflicts } = useSyncExternalStore(syncState.subscribe, syncState.getSnapshot);
+  const pendingChanges = pendingWrites + queuedWrites;
 
   // Track pending sync updates to batch status changes
   const pendingSyncsRef = useRef(new Set<string>());
@@ -85,24 +100,24 @@ export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // Track if we've shown an error toast for this error session
   const errorToastShownRef = useRef(false);
 
-  // Debounced localStorage writers (300ms delay to batch rapid updates)
+  // Debounced local store writers (300ms delay to batch rapid updates)
   const debouncedWriteLayouts = useCallback(
     debounce((data: unknown) => {
-      localStorage.setItem('boxento-layouts', JSON.stringify(data));
+      localStore.setItem(STORAGE_KEYS.LAYOUTS, JSON.stringify(data));
     }, 300),
     []
   );
 
   const debouncedWriteWidgets = useCallback(
     debounce((data: unknown) => {
-      localStorage.setItem('boxento-widgets', JSON.stringify(data));
+      localStore.setItem(STORAGE_KEYS.WIDGETS, JSON.stringify(data));
     }, 300),
     []
   );
 
   const debouncedWriteConfigs = useCallback(
     debounce((data: unknown) => {
-      localStorage.setItem('boxento-widget-configs', JSON.stringify(data));
+      localStore.setItem(STORAGE_KEYS.WIDGET_CONFIGS, JSON.stringify(data));
     }, 300),
     []
   );
@@ -168,8 +183,9 @@ export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, [debouncedUpdateSyncStatus]);
 
   // Set up listeners for Firestore data changes
+  // The self-hosted backend has no realtime channel; data is loaded on startup instead
   useEffect(() => {
-    if (!authContext?.currentUser || !db) return;
+    if (storageBackend.name !== 'firestore' || !authContext?.currentUser || !db) return;
 
     setSyncStatus('syncing');
     setIsSyncing(true);
@@ -185,7 +201,7 @@ export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         doc(db, 'users', authContext.currentUser.uid, 'dashboard', 'layouts'),
         (doc) => {
           if (doc.exists()) {
-            // Debounced localStorage update
+            // Debounced local store update
             debouncedWriteLayouts(doc.data());
             markSyncComplete('layouts');
           }
@@ -200,7 +216,7 @@ export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         doc(db, 'users', authContext.currentUser.uid, 'dashboard', 'widget-list'),
         (doc) => {
           if (doc.exists()) {
-            // Debounced localStorage update
+            // Debounced local store update
             debouncedWriteWidgets(doc.data().widgets);
             markSyncComplete('widgets');
           }
@@ -221,7 +237,15 @@ export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
               configs[doc.id] = doc.data().config;
             });
 
-            // Debounced localStorage update
+            // Pass on configs written by other devices, skipping this device's own writes
+            snapshot.docChanges().forEach((change) => {
+              if (change.type === 'removed' || change.doc.metadata.hasPendingWrites) return;
+              const config = change.doc.data().config as Record<string, unknown> | undefined;
+              if (!config || getRevision(config)?.deviceId === getDeviceId()) return;
+              syncState.publishRemoteConfig(change.doc.id, config);
+            });
+
+            // Debounced local store update
             debouncedWriteConfigs(configs);
             markSyncComplete('configs');
           },
@@ -240,6 +264,8 @@ export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     // Cleanup listeners and retry timeout
     return () => {
+      // Conflicts belong to the signed-in user
+      syncState.clearConflicts();
       try {
         layoutsUnsubscribe();
         widgetsUnsubscribe();
@@ -253,8 +279,17 @@ export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
   }, [authContext, debouncedWriteLayouts, debouncedWriteWidgets, debouncedWriteConfigs, markSyncComplete, handleSyncError]);
   
+  // Conflicts and errors need attention first; pending writes show once listeners are up
+  const effectiveStatus: SyncStatus =
+    conflicts.length > 0 ? 'conflict'
+      : syncStatus === 'error' ? 'error'
+      : pendingChanges > 0 ? 'pending'
+      : syncStatus;
+
   return (
-    <SyncContext.Provider value={{ isSyncing, lastSyncTime, syncError, syncStatus }}>
+    <SyncContext.Provider
+      value={{ isSyncing, lastSyncTime, syncError, syncStatus: effectiveStatus, pendingChanges, conflicts }}
+    >
       {children}
     </SyncContext.Provider>
   );
@@ -1,13 +1,19 @@
 /**
  * Configuration Manager for Boxento widgets
  *
- * Handles storing and retrieving widget configurations from Firestore when logged in
- * and localStorage when not, providing a central point for managing persistent widget data
+ * Handles storing and retrieving widget configurations from the storage backend when logged in
+ * and the local store when not, providing a central point for managing persistent widget data
  */
 
 import { encryptionUtils } from './encryption';
 import { userDashboardService } from './firestoreService';
-import { auth } from './firebase';
+import { storageBackend } from './storage';
+import { migrateWidgetConfig, stampConfigVersion, ConfigMigrationError } from './configMigrations';
+import { createRevision, fingerprintConfig, getRevision, syncBase, SYNC_REVISION_KEY } from './syncRevisions';
+import { syncState } from './syncState';
+import { localStore } from './localStore';
+import { isOfflineError, writeQueue } from './writeQueue';
+import { STORAGE_KEYS } from './constants';
 
 /**
  * Interface for the widget configuration store
@@ -19,7 +25,97 @@ export interface WidgetConfigStore {
 /**
  * Default sensitive fields that should be encrypted
  */
-const DEFAULT_SENSITIVE_FIELDS = ['apiKey', 'token', 'secret', 'password', 'key'];
+export const DEFAULT_SENSITIVE_FIELDS = ['apiKey', 'token', 'secret', 'password', 'key'];
+
+/**
+ * Config fields named like credentials (apiToken, bearerToken, personalAccessToken...)
+ * are encrypted too, whether or not the widget lists them
+ */
+export const SECRET_FIELD_PATTERN = /token|secret|password|api_?key|access_?key/i;
+
+/**
+ * The sensitive fields plus any string field of the config named like a credential
+ */
+const getSecretFields = (config: Record<string, unknown>, sensitiveFields: string[]): string[] => [
+  ...new Set([
+    ...sensitiveFields,
+    ...Object.keys(config).filter(field => typeof config[field] === 'string' && SECRET_FIELD_PATTERN.test(field)),
+  ]),
+];
+
+/**
+ * Encrypt the secrets of a config for storage
+ */
+const encryptConfig = (config: Record<string, unknown>, sensitiveFields: string[]): Promise<Record<string, unknown>> =>
+  encryptionUtils.processObjectForStorage(config, getSecretFields(config, sensitiveFields));
+
+/**
+ * Decrypt the secrets of a stored config. Fields only matched by name were
+ * stored in plain text before they were encrypted, so those are only decrypted
+ * when they carry the encryption prefix - plain values could pass for legacy Base64.
+ */
+const decryptConfig = (config: Record<string, unknown>, sensitiveFields: string[]): Promise<Record<string, unknown>> =>
+  encryptionUtils.processObjectFromStorage(config, [
+    ...sensitiveFields,
+    ...getSecretFields(config, []).filter(field =>
+      !sensitiveFields.includes(field) && encryptionUtils.isEncrypted(config[field] as string)
+    ),
+  ]);
+
+// Migration failures since they were last collected, one per widget
+const migrationErrors = new Map<string, ConfigMigrationError>();
+
+// Config writes in flight, by widget
+const pendingConfigWrites = new Map<string, Promise<void>>();
+
+/**
+ * Run pending migrations on a stored config, recording a failure against the widget
+ */
+const applyMigrations = (widgetId: string, config: Record<string, unknown>) => {
+  const result = migrateWidgetConfig(widgetId, config);
+  if (result.error) {
+    console.error(`Error migrating config of widget ${widgetId} to version ${result.error.version}:`, result.error.message);
+    migrationErrors.set(widgetId, result.error);
+  } else {
+    migrationErrors.delete(widgetId);
+  }
+  return result;
+};
+
+/**
+ * Compare a config about to be written with the stored one. It isn't written
+ * when the stored config already matches, nor when another device changed it
+ * since the base - then the widget is put in conflict.
+ *
+ * @returns Whether to write the config
+ */
+const shouldWriteConfig = async (
+  widgetId: string,
+  config: Record<string, unknown>,
+  fingerprint: string,
+  base: string,
+  stored: Record<string, unknown>,
+  sensitiveFields: string[]
+): Promise<boolean> => {
+  const remote = await configManager.decryptStoredConfig(stored, sensitiveFields);
+  const remoteFingerprint = fingerprintConfig(remote);
+  if (remoteFingerprint === fingerprint) {
+    syncBase.setConfig(widgetId, fingerprint);
+    return false;
+  }
+  if (remoteFingerprint !== base) {
+    syncState.addConflict({
+      widgetId,
+      widgetType: typeof config.type === 'string' ? config.type : String(remote.type ?? ''),
+      local: config,
+      remote,
+      remoteRevision: getRevision(stored),
+      detectedAt: new Date().toISOString(),
+    });
+    return false;
+  }
+  return true;
+};
 
 /**
  * Configuration Manager
@@ -27,7 +123,7 @@ const DEFAULT_SENSITIVE_FIELDS = ['apiKey', 'token', 'secret', 'password', 'key'
  */
 export const configManager = {
   /**
-   * Save a widget's configuration to Firestore when logged in, otherwise localStorage
+   * Save a widget's configuration to Firestore when logged in, otherwise the local store
    *
    * @param widgetId - Unique identifier for the widget
    * @param config - Configuration object to save
@@ -35,17 +131,25 @@ export const configManager = {
    */
   saveWidgetConfig: async (widgetId: string, config: Record<string, unknown>, sensitiveFields = DEFAULT_SENSITIVE_FIELDS): Promise<void> => {
     try {
-      // Process sensitive fields (like API keys) for encryption - now async
-      const processedConfig = await encryptionUtils.processObjectForStorage(config, sensitiveFields);
-
       // If user is logged in, save to Firestore
-      if (auth?.currentUser) {
-        await userDashboardService.saveWidgetConfig(widgetId, processedConfig);
+      if (storageBackend.isAuthenticated()) {
+        // One write per widget at a time, so each compares against the one before
+        const write = (pendingConfigWrites.get(widgetId) ?? Promise.resolve())
+          .catch(() => undefined)
+          .then(() => configManager.syncWidgetConfig(widgetId, config, sensitiveFields));
+        pendingConfigWrites.set(widgetId, write);
+        try {
+          await syncState.track(write);
+        } finally {
+          if (pendingConfigWrites.get(widgetId) === write) pendingConfigWrites.delete(widgetId);
+        }
       } else {
-        // Fallback to localStorage
+        // Process sensitive fields (like API keys) for encryption - now async
+        const processedConfig = await encryptConfig(stampConfigVersion(config), sensitiveFields);
+        // Fallback to the local store
         const configs = configManager.getConfigsFromLocalStorage();
         configs[widgetId] = processedConfig;
-        localStorage.setItem('boxento-widget-configs', JSON.stringify(configs));
+        localStore.setItem(STORAGE_KEYS.WIDGET_CONFIGS, JSON.stringify(configs));
       }
     } catch (e) {
       console.error('Error saving widget configuration', e);
@@ -53,7 +157,104 @@ export const configManager = {
   },
 
   /**
-   * Retrieve a widget's configuration from Firestore when logged in, otherwise localStorage
+   * Write a widget's config to the storage backend unless another device changed
+   * it since this device last synced. Then the widget is in conflict and nothing
+   * is written until the user picks a version with resolveConflict.
+   *
+   * @param widgetId - Unique identifier for the widget
+   * @param config - Configuration object to save
+   * @param sensitiveFields - Field names that should be encrypted
+   */
+  syncWidgetConfig: async (widgetId: string, config: Record<string, unknown>, sensitiveFields = DEFAULT_SENSITIVE_FIELDS): Promise<void> => {
+    const fingerprint = fingerprintConfig(config);
+    const base = syncBase.getConfig(widgetId);
+
+    // Nothing changed since the last sync. Widgets save their config back when
+    // they mount, and writing it again would undo changes from other devices.
+    if (fingerprint === base) return;
+
+    // Keep the latest local version for the conflict dialog, but don't write it
+    const conflict = syncState.getConflict(widgetId);
+    if (conflict) {
+      syncState.addConflict({ ...conflict, local: config });
+      return;
+    }
+
+    if (base !== undefined) {
+      // Offline the write is queued with the base, and checked when it's replayed
+      const stored = await userDashboardService.loadWidgetConfig(widgetId).catch(error => {
+        if (isOfflineError(error)) return null;
+        throw error;
+      });
+      if (stored && !(await shouldWriteConfig(widgetId, config, fingerprint, base, stored, sensitiveFields))) return;
+    }
+
+    const processedConfig = await encryptConfig(
+      { ...stampConfigVersion(config), [SYNC_REVISION_KEY]: createRevision() },
+      sensitiveFields
+    );
+    // A queued write only counts as synced once it's replayed
+    if (await userDashboardService.saveWidgetConfig(widgetId, processedConfig, base)) {
+      syncBase.setConfig(widgetId, fingerprint);
+    }
+  },
+
+  /**
+   * Replay a config write queued while offline. Like syncWidgetConfig, it is
+   * checked against the stored config first, so changes another device made
+   * since the base put the widget in conflict instead of being overwritten.
+   *
+   * @param widgetId - Unique identifier for the widget
+   * @param queuedConfig - Config in stored form, as queued
+   * @param base - Fingerprint of the config as last synced when it was queued
+   */
+  replayConfigWrite: async (widgetId: string, queuedConfig: Record<string, unknown>, base?: string): Promise<void> => {
+    const config = await configManager.decryptStoredConfig(queuedConfig);
+    const fingerprint = fingerprintConfig(config);
+
+    if (base !== undefined) {
+      const stored = await userDashboardService.loadWidgetConfig(widgetId);
+      if (stored && !(await shouldWriteConfig(widgetId, config, fingerprint, base, stored, DEFAULT_SENSITIVE_FIELDS))) return;
+    }
+
+    if (await userDashboardService.saveWidgetConfig(widgetId, queuedConfig, base)) {
+      syncBase.setConfig(widgetId, fingerprint);
+    }
+  },
+
+  /**
+   * Settle a sync conflict. Keeping the local version writes it over the other
+   * device's; taking the remote one only marks it as synced - the caller shows it.
+   *
+   * @param widgetId - Widget in conflict
+   * @param keep - Which version to keep
+   * @returns The config to show for the widget
+   */
+  resolveConflict: async (widgetId: string, keep: 'local' | 'remote'): Promise<Record<string, unknown> | null> => {
+    const conflict = syncState.getConflict(widgetId);
+    if (!conflict) return null;
+
+    syncState.removeConflict(widgetId);
+    syncBase.setConfig(widgetId, fingerprintConfig(conflict.remote));
+    if (keep === 'remote') return conflict.remote;
+
+    await configManager.saveWidgetConfig(widgetId, conflict.local);
+    return conflict.local;
+  },
+
+  /**
+   * Decrypt a config in stored form and restore its dates
+   *
+   * @param config - Config as stored
+   * @param sensitiveFields - Field names that should be decrypted
+   */
+  decryptStoredConfig: async (config: Record<string, unknown>, sensitiveFields = DEFAULT_SENSITIVE_FIELDS): Promise<Record<string, unknown>> => {
+    const decryptedConfig = await decryptConfig(config, sensitiveFields);
+    return configManager.restoreDates(decryptedConfig);
+  },
+
+  /**
+   * Retrieve a widget's configuration from Firestore when logged in, otherwise the local store
    *
    * @param widgetId - Unique identifier for the widget
    * @param sensitiveFields - Optional array of field names that should be decrypted
@@ -62,13 +263,15 @@ export const configManager = {
   getWidgetConfig: async (widgetId: string, sensitiveFields = DEFAULT_SENSITIVE_FIELDS): Promise<Record<string, unknown> | null> => {
     try {
       let config: Record<string, unknown> | null = null;
+      let fromBackend = false;
 
       // If user is logged in, try to get from Firestore
-      if (auth?.currentUser) {
+      if (storageBackend.isAuthenticated()) {
         config = await userDashboardService.loadWidgetConfig(widgetId);
+        fromBackend = config !== null;
       }
 
-      // If no config from Firestore or user not logged in, try localStorage
+      // If no config from Firestore or user not logged in, try the local store
       if (!config) {
         const configs = configManager.getConfigsFromLocalStorage();
         config = configs[widgetId] || null;
@@ -76,8 +279,15 @@ export const configManager = {
 
       if (!config) return null;
 
+      // Bring the stored shape up to date and save it back where it came from
+      const migration = applyMigrations(widgetId, config);
+      if (migration.changed) {
+        config = migration.config;
+        await configManager.saveMigratedConfigs({ [widgetId]: config }, fromBackend);
+      }
+
       // Process and decrypt any sensitive fields - now async
-      const decryptedConfig = await encryptionUtils.processObjectFromStorage(config, sensitiveFields);
+      const decryptedConfig = await decryptConfig(config, sensitiveFields);
 
       // Restore Date objects for TodoWidget and other widgets
       return configManager.restoreDates(decryptedConfig);
@@ -96,35 +306,50 @@ export const configManager = {
   getConfigs: async (decryptSensitiveFields = false): Promise<WidgetConfigStore> => {
     try {
       let configs: WidgetConfigStore = {};
+      let fromBackend = false;
 
       // If user is logged in, try to get from Firestore
-      if (auth?.currentUser) {
+      if (storageBackend.isAuthenticated()) {
         const firestoreConfigs = await userDashboardService.loadAllWidgetConfigs();
         if (firestoreConfigs) {
           configs = firestoreConfigs;
+          fromBackend = Object.keys(configs).length > 0;
         }
       }
 
-      // If no configs from Firestore or user not logged in, try localStorage
+      // If no configs from Firestore or user not logged in, try the local store
       if (Object.keys(configs).length === 0) {
         configs = configManager.getConfigsFromLocalStorage();
       }
 
+      // Migrate each widget on its own - one failing widget doesn't hold back the others
+      const migratedConfigs: WidgetConfigStore = {};
+      for (const widgetId of Object.keys(configs)) {
+        const migration = applyMigrations(widgetId, configs[widgetId]);
+        if (migration.changed) {
+          migratedConfigs[widgetId] = migration.config;
+        }
+      }
+      if (Object.keys(migratedConfigs).length > 0) {
+        configs = { ...configs, ...migratedConfigs };
+        await configManager.saveMigratedConfigs(migratedConfigs, fromBackend);
+      }
+
       if (!decryptSensitiveFields) return configs;
 
       // Decrypt sensitive fields if requested - now async
       const decryptedConfigs: WidgetConfigStore = {};
 
       for (const widgetId of Object.keys(configs)) {
-        const decryptedConfig = await encryptionUtils.processObjectFromStorage(
-          configs[widgetId],
-          DEFAULT_SENSITIVE_FIELDS
-        );
+        const decryptedConfig = await decryptConfig(configs[widgetId], DEFAULT_SENSITIVE_FIELDS);
 
         // Restore Date objects
         decryptedConfigs[widgetId] = configManager.restoreDates(decryptedConfig);
       }
 
+      // Later saves compare against what was loaded, to spot changes from other devices
+      if (fromBackend) syncBase.setConfigs(decryptedConfigs);
+
       return decryptedConfigs;
     } catch (e) {
       console.error('Error loading widget configurations', e);
@@ -133,14 +358,77 @@ export const configManager = {
   },
 
   /**
-   * Get configs from localStorage (helper method)
+   * Load every config from the storage backend, taking this device's local copy
+   * of a widget instead only when it changed since the last sync and the stored
+   * one did not - e.g. the page was closed before its save went out
+   *
+   * @returns Decrypted configs keyed by widget ID
+   */
+  loadSyncedConfigs: async (): Promise<WidgetConfigStore> => {
+    // Read before getConfigs records the loaded configs as synced
+    const bases = syncBase.getConfigs();
+    const remoteConfigs = await configManager.getConfigs(true);
+    const localConfigs = configManager.getConfigsFromLocalStorage();
+    const configs: WidgetConfigStore = { ...remoteConfigs };
+
+    for (const [widgetId, stored] of Object.entries(localConfigs)) {
+      const remote = remoteConfigs[widgetId];
+      const base = bases[widgetId];
+      if (remote && (base === undefined || fingerprintConfig(remote) !== base)) continue;
+
+      try {
+        const local = await configManager.decryptStoredConfig(migrateWidgetConfig(widgetId, stored).config);
+        if (!remote || fingerprintConfig(local) !== base) configs[widgetId] = local;
+      } catch (e) {
+        console.error(`Error reading the local copy of widget ${widgetId}'s configuration`, e);
+      }
+    }
+
+    return configs;
+  },
+
+  /**
+   * Save configs updated by migrations back to where they were loaded from.
+   * They are still in stored form, so nothing is re-encrypted.
+   *
+   * @param configs - Migrated configs keyed by widget ID
+   * @param toBackend - Whether the configs came from the storage backend rather than the local store
+   */
+  saveMigratedConfigs: async (configs: WidgetConfigStore, toBackend: boolean): Promise<void> => {
+    try {
+      if (toBackend) {
+        for (const [widgetId, config] of Object.entries(configs)) {
+          await userDashboardService.saveWidgetConfig(widgetId, config);
+        }
+      } else {
+        const stored = configManager.getConfigsFromLocalStorage();
+        localStore.setItem(STORAGE_KEYS.WIDGET_CONFIGS, JSON.stringify({ ...stored, ...configs }));
+      }
+    } catch (e) {
+      // The migrations run again on the next load
+      console.error('Error saving migrated widget configurations', e);
+    }
+  },
+
+  /**
+   * Migration failures since the last call, one per widget
+   * A widget is only listed again if its migration fails on a later load
+   */
+  takeMigrationErrors: (): ConfigMigrationError[] => {
+    const errors = [...migrationErrors.values()];
+    migrationErrors.clear();
+    return errors;
+  },
+
+  /**
+   * Get configs from the local store (helper method)
    */
   getConfigsFromLocalStorage: (): WidgetConfigStore => {
     try {
-      const stored = localStorage.getItem('boxento-widget-configs');
+      const stored = localStore.getItem(STORAGE_KEYS.WIDGET_CONFIGS);
       return stored ? JSON.parse(stored) : {};
     } catch (e) {
-      console.error('Error parsing localStorage configs', e);
+      console.error('Error parsing locally stored configs', e);
       return {};
     }
   },
@@ -153,14 +441,16 @@ export const configManager = {
   clearConfig: async (widgetId: string): Promise<void> => {
     try {
       // If user is logged in, delete from Firestore
-      if (auth?.currentUser) {
+      if (storageBackend.isAuthenticated()) {
         await userDashboardService.deleteWidgetConfig(widgetId);
+        syncBase.removeConfig(widgetId);
+        syncState.removeConflict(widgetId);
       }
 
-      // Also clear from localStorage
+      // Also clear from the local store
       const configs = configManager.getConfigsFromLocalStorage();
       delete configs[widgetId];
-      localStorage.setItem('boxento-widget-configs', JSON.stringify(configs));
+      localStore.setItem(STORAGE_KEYS.WIDGET_CONFIGS, JSON.stringify(configs));
     } catch (e) {
       console.error('Error clearing widget configuration', e);
     }
@@ -171,11 +461,11 @@ export const configManager = {
    */
   clearAllConfigs: async (): Promise<void> => {
     try {
-      // Clear from localStorage
-      localStorage.removeItem('boxento-widget-configs');
+      // Clear from the local store
+      localStore.removeItem(STORAGE_KEYS.WIDGET_CONFIGS);
 
       // If user is logged in, clear from Firestore
-      if (auth?.currentUser) {
+      if (storageBackend.isAuthenticated()) {
         const configs = await userDashboardService.loadAllWidgetConfigs();
         if (configs) {
           for (const widgetId of Object.keys(configs)) {
@@ -192,23 +482,23 @@ export const configManager = {
    * Migrate all stored configs to use proper encryption
    * Call this on app startup to upgrade legacy Base64 encoded data
    *
-   * For logged-in users: loads from both Firestore AND localStorage,
+   * For logged-in users: loads from both Firestore AND the local store,
    * merges them (Firestore takes precedence for conflicts), migrates all,
    * then saves back to both storages.
    */
   migrateToSecureEncryption: async (): Promise<void> => {
     try {
-      // Start with localStorage data
+      // Start with locally stored data
       const localConfigs = configManager.getConfigsFromLocalStorage();
 
       // If user is logged in, also load from Firestore and merge
       let configs: WidgetConfigStore = { ...localConfigs };
 
-      if (auth?.currentUser) {
+      if (storageBackend.isAuthenticated()) {
         const firestoreConfigs = await userDashboardService.loadAllWidgetConfigs();
         if (firestoreConfigs) {
           // Merge: Firestore data takes precedence (it's the source of truth for logged-in users)
-          // but localStorage might have data not yet synced
+          // but the local store might have data not yet synced
           configs = { ...localConfigs, ...firestoreConfigs };
         }
       }
@@ -236,11 +526,11 @@ export const configManager = {
       }
 
       if (needsSave) {
-        // Save to localStorage
-        localStorage.setItem('boxento-widget-configs', JSON.stringify(configs));
+        // Save to the local store
+        localStore.setItem(STORAGE_KEYS.WIDGET_CONFIGS, JSON.stringify(configs));
 
         // Also update Firestore if logged in
-        if (auth?.currentUser) {
+        if (storageBackend.isAuthenticated()) {
           await userDashboardService.saveAllWidgetConfigs(configs);
         }
       }
@@ -249,6 +539,79 @@ export const configManager = {
     }
   },
 
+  /**
+   * Encrypt the secrets of every stored config with the current key, after
+   * passphrase encryption is turned on or off or its key is rotated. Covers
+   * the storage backend, the local store and the offline write queue.
+   *
+   * @returns Number of values that couldn't be decrypted and were left as they were
+   */
+  reencryptSecrets: async (): Promise<number> => {
+    let failed = 0;
+    const reencryptStore = async (configs: WidgetConfigStore): Promise<boolean> => {
+      const result = await configManager.reencryptConfigs(configs);
+      failed += result.failed;
+      return result.changed;
+    };
+
+    if (storageBackend.isAuthenticated()) {
+      const remoteConfigs = await userDashboardService.loadAllWidgetConfigs();
+      if (remoteConfigs && await reencryptStore(remoteConfigs)) {
+        await userDashboardService.saveAllWidgetConfigs(remoteConfigs);
+      }
+    }
+
+    const localConfigs = configManager.getConfigsFromLocalStorage();
+    if (await reencryptStore(localConfigs)) {
+      localStore.setItem(STORAGE_KEYS.WIDGET_CONFIGS, JSON.stringify(localConfigs));
+    }
+
+    // Configs waiting in the offline write queue are stored the same way
+    await writeQueue.updateAll(async entry => {
+      if (entry.kind !== 'config') return entry;
+      const config = { ...entry.config };
+      return await reencryptStore({ [entry.widgetId]: config }) ? { ...entry, config } : entry;
+    });
+
+    return failed;
+  },
+
+  /**
+   * Encrypt the secrets of stored configs with the current key, in place. Also
+   * used for copies of configs kept elsewhere, like snapshots.
+   *
+   * @param configs - Configs as stored
+   * @param dataKeyValuesOnly - Only touch values encrypted with a passphrase data
+   * key, leaving e.g. device key values in signed out snapshots alone
+   * @returns Whether anything changed, and the number of values that couldn't be
+   * decrypted and were left as they were
+   */
+  reencryptConfigs: async (
+    configs: WidgetConfigStore,
+    dataKeyValuesOnly = false
+  ): Promise<{ changed: boolean; failed: number }> => {
+    let changed = false;
+    let failed = 0;
+    for (const [widgetId, config] of Object.entries(configs)) {
+      for (const field of getSecretFields(config, DEFAULT_SENSITIVE_FIELDS)) {
+        const value = config[field];
+        if (typeof value !== 'string' || !value) continue;
+        if (dataKeyValuesOnly && !encryptionUtils.usesDataKey(value)) continue;
+        try {
+          const reencrypted = await encryptionUtils.reencrypt(value);
+          if (reencrypted !== value) {
+            config[field] = reencrypted;
+            changed = true;
+          }
+        } catch (e) {
+          console.error(`Error re-encrypting ${field} of widget ${widgetId}`, e);
+          failed++;
+        }
+      }
+    }
+    return { changed, failed };
+  },
+
   /**
    * Helper method to restore Date objects in a configuration object
    * Looks for objects with date-like string properties and converts them to Date objects
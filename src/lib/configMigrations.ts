@@ -0,0 +1,112 @@
+/**
+ * Widget config versioning
+ *
+ * Stored widget configs carry the version of their shape (`configVersion`).
+ * Widget types register ordered migrations in WIDGET_REGISTRY (`configMigrations`);
+ * configManager runs the pending ones whenever a config is loaded, so a widget only
+ * ever sees the current shape of its config.
+ *
+ * Migrations run on the config as stored, before sensitive fields are decrypted:
+ * they may move or rename a secret, but must not read or transform its value.
+ */
+
+import { getWidgetConfigByType } from '@/components/widgets';
+
+// Config key holding the version of the stored config shape
+export const CONFIG_VERSION_KEY = 'configVersion';
+
+/**
+ * One step in the history of a widget type's config shape
+ */
+export interface ConfigMigration {
+  /** Version the config has after this migration; versions start at 1 */
+  version: number;
+  /** What changed, used in error reports */
+  description?: string;
+  migrate: (config: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// A migration that failed for a single widget
+export interface ConfigMigrationError {
+  widgetId: string;
+  widgetType: string;
+  version: number;
+  message: string;
+}
+
+export interface ConfigMigrationResult {
+  config: Record<string, unknown>;
+  /** Whether any migration was applied (and the config should be saved back) */
+  changed: boolean;
+  error?: ConfigMigrationError;
+}
+
+const getMigrations = (widgetType: string): ConfigMigration[] =>
+  [...(getWidgetConfigByType(widgetType)?.configMigrations || [])].sort((a, b) => a.version - b.version);
+
+/**
+ * Current config version of a widget type (0 when it has no migrations)
+ */
+export const getCurrentConfigVersion = (widgetType: string): number => {
+  const migrations = getMigrations(widgetType);
+  return migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+};
+
+/**
+ * Version a stored config was saved with; configs from before versioning are version 0
+ */
+export const getStoredConfigVersion = (config: Record<string, unknown>): number => {
+  const version = config[CONFIG_VERSION_KEY];
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+/**
+ * Bring a stored config up to the current version of its widget type
+ *
+ * Migrations are applied in order. If one throws, the config is returned as of the
+ * last successful migration, so nothing is lost and the rest is retried on the next load.
+ * Configs without a known widget type, or saved by a newer version, are returned as is.
+ *
+ * @param widgetId - Widget the config belongs to, for error reports
+ * @param config - Config as stored
+ */
+export const migrateWidgetConfig = (widgetId: string, config: Record<string, unknown>): ConfigMigrationResult => {
+  const widgetType = typeof config.type === 'string' ? config.type : null;
+  if (!widgetType) return { config, changed: false };
+
+  const storedVersion = getStoredConfigVersion(config);
+  const pending = getMigrations(widgetType).filter(migration => migration.version > storedVersion);
+  if (pending.length === 0) return { config, changed: false };
+
+  let migrated = config;
+  let changed = false;
+  for (const migration of pending) {
+    try {
+      migrated = { ...migration.migrate({ ...migrated }), type: widgetType, [CONFIG_VERSION_KEY]: migration.version };
+      changed = true;
+    } catch (error) {
+      return {
+        config: migrated,
+        changed,
+        error: {
+          widgetId,
+          widgetType,
+          version: migration.version,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  return { config: migrated, changed };
+};
+
+/**
+ * Stamp a config with the current version of its widget type before it is saved.
+ * A version written by a newer app is kept, so its migrations don't run twice.
+ */
+export const stampConfigVersion = (config: Record<string, unknown>): Record<string, unknown> => {
+  if (typeof config.type !== 'string') return config;
+  const version = Math.max(getStoredConfigVersion(config), getCurrentConfigVersion(config.type));
+  return { ...config, [CONFIG_VERSION_KEY]: version };
+};
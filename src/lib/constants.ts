@@ -15,6 +15,34 @@ export const TIMING = {
   LOADING_DELAY_MS: 150,
   /** Interval for credential sync polling */
   CREDENTIAL_SYNC_INTERVAL_MS: 2000,
+  /** Window in which repeated edits to the same widget config form one undo step */
+  HISTORY_COALESCE_MS: 1000,
+  /** Interval between periodic dashboard snapshots */
+  SNAPSHOT_INTERVAL_MS: 15 * 60 * 1000,
+  /** Delay before the first periodic snapshot after the dashboard loads */
+  SNAPSHOT_INITIAL_DELAY_MS: 60 * 1000,
+  /** How long a widget picked in the command palette stays highlighted */
+  WIDGET_HIGHLIGHT_MS: 2000,
+  /** Interval between checks for a new deployment's service worker */
+  SERVICE_WORKER_UPDATE_INTERVAL_MS: 60 * 60 * 1000,
+} as const;
+
+// Shared widget data fetching (see queryCache.ts)
+export const QUERY = {
+  /** Cached data younger than this is used without fetching again */
+  STALE_TIME_MS: 60 * 1000,
+  /** Wait before retrying after the first failure; doubles with every further failure */
+  RETRY_BASE_DELAY_MS: 5 * 1000,
+  /** Longest wait between retries, unless the server asks for longer with Retry-After */
+  RETRY_MAX_DELAY_MS: 5 * 60 * 1000,
+  /** How long data no widget shows anymore stays cached */
+  CACHE_TIME_MS: 10 * 60 * 1000,
+} as const;
+
+// Undo/redo history constants
+export const HISTORY = {
+  /** Maximum number of undo steps kept per dashboard */
+  MAX_ENTRIES: 50,
 } as const;
 
 // Grid layout constants
@@ -29,6 +57,14 @@ export const GRID = {
   ITEM_MARGIN: 10,
 } as const;
 
+// Dashboard snapshot retention (per dashboard)
+export const SNAPSHOTS = {
+  /** Periodic snapshots kept before the oldest are pruned */
+  MAX_AUTO: 10,
+  /** Manual and pre-restore snapshots kept before the oldest are pruned */
+  MAX_MANUAL: 20,
+} as const;
+
 // Breakpoints for responsive layout (in pixels)
 export const BREAKPOINTS = {
   xxxl: 2560, // 4K and ultra-wide displays
@@ -60,6 +96,26 @@ export const STORAGE_KEYS = {
   WIDGET_CONFIGS: 'boxento-widget-configs',
   APP_SETTINGS: 'boxento-app-settings',
   DEVICE_KEY: 'boxento-device-key',
+  // Prefix for per-dashboard snapshots when logged out (boxento-snapshots-{dashboardId})
+  SNAPSHOTS: 'boxento-snapshots',
+  // Per-device storage backend override ('firestore' | 'rest')
+  STORAGE_BACKEND: 'boxento-storage-backend',
+  // Sync token for the self-hosted storage server
+  STORAGE_TOKEN: 'boxento-storage-token',
+  // Per-device kiosk mode flag ('true' when this device is a wall display)
+  KIOSK_MODE: 'boxento-kiosk-mode',
   // Shared snapshot of the most recently saved YouTube Favorites settings
   YOUTUBE_FAVORITES_SHARED: 'boxento-youtube-favorites-shared',
+  // Random ID naming this device in sync revisions
+  DEVICE_ID: 'boxento-device-id',
+  // Prefix for what this device last synced, per user (boxento-sync-base-{userId})
+  SYNC_BASE: 'boxento-sync-base',
+  // Prefix for writes waiting to reach the storage backend, per user (boxento-write-queue-{userId})
+  WRITE_QUEUE: 'boxento-write-queue',
+  // Alert history shown in the alert center, per device
+  ALERTS: 'boxento-alerts',
+  // Prefix for the last loaded passphrase encryption keyring, per user (boxento-keyring-{userId})
+  KEYRING: 'boxento-keyring',
+  // Prefix for a passphrase encryption data key remembered on this device, per user (boxento-data-key-{userId})
+  DATA_KEY: 'boxento-data-key',
 } as const;
@@ -0,0 +1,125 @@
+import { getSyncToken, storageApiRequest, storageBackend } from './storage';
+import { proxyUrl } from './proxy';
+import { queryCache } from './queryCache';
+
+/**
+ * Server-side credential vault
+ *
+ * API tokens saved in widget configs live in the browser and are sent from
+ * it. Tokens kept in the vault never come back to the browser: they are
+ * stored encrypted per user on the self-hosted server (server/vault.ts), and
+ * widgets only reference them by ID. Requests using one go through the
+ * Boxento proxy, which adds the Authorization header for the credential's
+ * hosts only.
+ *
+ * The vault needs the self-hosted storage backend; with Firebase, widgets
+ * keep their tokens in their config as before.
+ */
+
+export type CredentialScheme = 'Bearer' | 'Token';
+
+export interface VaultCredential {
+  id: string;
+  name: string;
+  /** Hosts the server sends the credential to, `*.example.com` for subdomains */
+  hosts: string[];
+  /** Authorization scheme, e.g. `Bearer` for `Authorization: Bearer <token>` */
+  scheme: CredentialScheme;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VaultCredentialInput {
+  name: string;
+  hosts: string[];
+  scheme: CredentialScheme;
+  /** New secret; leave out to keep the stored one */
+  secret?: string;
+}
+
+export interface CredentialPreset {
+  id: string;
+  label: string;
+  hosts: string[];
+  scheme: CredentialScheme;
+}
+
+/** Hosts and schemes of the services whose widgets can use the vault */
+export const CREDENTIAL_PRESETS: CredentialPreset[] = [
+  { id: 'todoist', label: 'Todoist', hosts: ['api.todoist.com'], scheme: 'Bearer' },
+  { id: 'readwise', label: 'Readwise / Reader', hosts: ['readwise.io'], scheme: 'Token' },
+  { id: 'github', label: 'GitHub', hosts: ['api.github.com'], scheme: 'Bearer' },
+  { id: 'hostinger', label: 'Hostinger', hosts: ['developers.hostinger.com'], scheme: 'Bearer' },
+  { id: 'coolify', label: 'Coolify', hosts: [], scheme: 'Bearer' },
+];
+
+/** Query cache key of the credential list */
+export const VAULT_QUERY_KEY = 'credential-vault';
+
+// Reload the list for everyone showing it after a change
+const refreshList = async (): Promise<void> => {
+  await queryCache.fetch(VAULT_QUERY_KEY, credentialVault.list, { force: true }).catch(() => undefined);
+};
+
+export const credentialVault = {
+  /** Whether this device can use the vault: self-hosted backend with a sync token */
+  isAvailable: (): boolean => storageBackend.name === 'rest' && !!getSyncToken(),
+
+  /** Credentials of the current sync token, without their secrets */
+  list: async (): Promise<VaultCredential[]> => {
+    const result = await storageApiRequest<{ credentials: VaultCredential[] }>('/credentials');
+    return result?.credentials ?? [];
+  },
+
+  save: async (credentialId: string, credential: VaultCredentialInput): Promise<void> => {
+    await storageApiRequest(`/credentials/${encodeURIComponent(credentialId)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ credential }),
+    });
+    await refreshList();
+  },
+
+  remove: async (credentialId: string): Promise<void> => {
+    await storageApiRequest(`/credentials/${encodeURIComponent(credentialId)}`, { method: 'DELETE' });
+    await refreshList();
+  },
+};
+
+interface CredentialAuth {
+  /** Vault credential to authenticate with, if the widget uses one */
+  credentialId?: string;
+  /** Authorization header to send otherwise, e.g. `Bearer <token from the widget config>` */
+  authorization?: string;
+}
+
+/**
+ * Fetch an API that needs a token. With a vault credential the request goes
+ * through the proxy, which adds the Authorization header on the server;
+ * otherwise it goes straight to the API with the widget's own header.
+ *
+ * @param url - Absolute URL of the API endpoint
+ * @param auth - Vault credential or Authorization header to use
+ * @param init - Fetch options; headers as a plain object
+ */
+export const fetchWithCredential = (
+  url: string,
+  { credentialId, authorization }: CredentialAuth,
+  init: Omit<RequestInit, 'headers'> & { headers?: Record<string, string> } = {}
+): Promise<Response> => {
+  if (!credentialId) {
+    return fetch(url, {
+      ...init,
+      headers: { ...init.headers, ...(authorization ? { Authorization: authorization } : {}) },
+    });
+  }
+
+  if (!/^https?:\/\//.test(url)) {
+    return Promise.reject(new Error('Vault credentials need the full API URL (https://...)'));
+  }
+  // The proxy knows whose credential it is from the sync token
+  const token = getSyncToken();
+  return fetch(proxyUrl(url, credentialId), {
+    ...init,
+    headers: { ...init.headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+  });
+};
@@ -0,0 +1,269 @@
+/**
+ * Custom widgets
+ *
+ * Third-party widgets loaded at runtime from ES module URLs listed in app settings.
+ * A module default-exports a React component and exports its registry entry as
+ * `widgetConfig`; both are merged into WIDGET_REGISTRY once the module loads.
+ *
+ * Custom widgets only receive CustomWidgetProps - their own config as plain data and
+ * callbacks to update or delete themselves - and render inside WidgetErrorBoundary
+ * like every other widget. The module itself runs with the full privileges of the
+ * page, so only trusted URLs should be added.
+ *
+ * Modules must use the app's React (`window.boxento.React`) rather than bundling their
+ * own copy, otherwise hooks fail.
+ */
+
+import React, { useCallback, useMemo } from 'react';
+import { WidgetProps } from '@/types';
+import {
+  EnhancedWidgetConfig,
+  WidgetComponent,
+  registerWidget,
+  unregisterWidget,
+  isBuiltInWidgetType,
+  getWidgetConfigByType,
+} from '@/components/widgets';
+
+/**
+ * A module URL registered in app settings
+ */
+export interface CustomWidgetSource {
+  url: string;
+  addedAt: string;
+}
+
+/**
+ * Props passed to a custom widget component
+ */
+export interface CustomWidgetProps {
+  /** Grid columns the widget spans */
+  width: number;
+  /** Grid rows the widget spans */
+  height: number;
+  /** The widget's saved settings (read-only copy) */
+  config: Readonly<Record<string, unknown>>;
+  /** Whether the dashboard is read-only for the current user */
+  readOnly: boolean;
+  /** Merge settings into the widget's config and save them. No-op when read-only. */
+  onUpdate: (config: Record<string, unknown>) => void;
+  /** Remove the widget from the dashboard, if allowed */
+  onDelete?: () => void;
+}
+
+export type CustomWidgetStatus =
+  | { state: 'loading' }
+  | { state: 'loaded'; type: string; name: string }
+  | { state: 'error'; message: string };
+
+// Category custom widgets are listed under in the widget selector unless they set one
+export const CUSTOM_WIDGET_CATEGORY = 'Custom';
+
+// Widget types must be URL- and key-safe
+const WIDGET_TYPE_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+// Config keys managed by Boxento that a custom widget may neither see nor change
+const RESERVED_CONFIG_KEYS = ['id', 'type', 'configVersion', 'readOnly', 'onUpdate', 'onDelete'];
+
+declare global {
+  interface Window {
+    boxento?: { React: typeof React };
+  }
+}
+
+/**
+ * Whether a URL can be registered as a widget module: https, or http on localhost for development
+ */
+export const isValidModuleUrl = (url: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === 'https:') return true;
+    return parsed.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Copy of a config with only plain JSON data and without Boxento-managed keys
+ */
+const toPlainData = (config: Record<string, unknown> | undefined): Record<string, unknown> => {
+  const data = JSON.parse(JSON.stringify(config || {})) as Record<string, unknown>;
+  RESERVED_CONFIG_KEYS.forEach(key => delete data[key]);
+  return data;
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Check a module's `widgetConfig` export and fill in defaults for optional fields
+ *
+ * @throws Error describing the first problem found
+ */
+const validateWidgetConfig = (value: unknown): EnhancedWidgetConfig => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('The module does not export a widgetConfig object');
+  }
+  const config = value as Record<string, unknown>;
+
+  if (typeof config.type !== 'string' || !WIDGET_TYPE_PATTERN.test(config.type)) {
+    throw new Error('widgetConfig.type must be lowercase letters, numbers and dashes');
+  }
+  if (isBuiltInWidgetType(config.type)) {
+    throw new Error(`Widget type "${config.type}" is already used by a built-in widget`);
+  }
+  if (typeof config.name !== 'string' || config.name.trim() === '') {
+    throw new Error('widgetConfig.name is required');
+  }
+  for (const key of ['minWidth', 'minHeight', 'defaultWidth', 'defaultHeight']) {
+    if (config[key] !== undefined && !isPositiveInteger(config[key])) {
+      throw new Error(`widgetConfig.${key} must be a positive whole number`);
+    }
+  }
+
+  const minWidth = (config.minWidth as number | undefined) ?? 2;
+  const minHeight = (config.minHeight as number | undefined) ?? 2;
+  return {
+    ...config,
+    type: config.type,
+    name: config.name,
+    icon: typeof config.icon === 'string' ? config.icon : 'Puzzle',
+    minWidth,
+    minHeight,
+    defaultWidth: Math.max((config.defaultWidth as number | undefined) ?? 3, minWidth),
+    defaultHeight: Math.max((config.defaultHeight as number | undefined) ?? 3, minHeight),
+    category: typeof config.category === 'string' ? config.category : CUSTOM_WIDGET_CATEGORY,
+    description: typeof config.description === 'string' ? config.description : '',
+  };
+};
+
+/**
+ * Adapt a custom component to the widget props Boxento renders with,
+ * passing on nothing but CustomWidgetProps
+ */
+const createHostComponent = (
+  Component: React.ComponentType<CustomWidgetProps>,
+  widgetName: string
+): WidgetComponent => {
+  const CustomWidgetHost = ({ width, height, config }: WidgetProps<Record<string, unknown>>) => {
+    const data = useMemo(() => Object.freeze(toPlainData(config)), [config]);
+    const readOnly = config?.readOnly === true;
+    const saveConfig = config?.onUpdate;
+
+    const onUpdate = useCallback((next: Record<string, unknown>) => {
+      if (readOnly || !saveConfig) return;
+      saveConfig({ ...toPlainData(config), ...toPlainData(next) });
+    }, [config, readOnly, saveConfig]);
+
+    return (
+      <Component
+        width={width}
+        height={height}
+        config={data}
+        readOnly={readOnly}
+        onUpdate={onUpdate}
+        onDelete={readOnly ? undefined : config?.onDelete}
+      />
+    );
+  };
+  CustomWidgetHost.displayName = `CustomWidget(${widgetName})`;
+  return CustomWidgetHost;
+};
+
+/**
+ * Import a widget module and add its widget to the registry
+ *
+ * @param url - URL of an ES module exporting a default component and `widgetConfig`
+ * @returns The registered widget config
+ * @throws Error if the module can't be loaded or its exports are invalid
+ */
+export const loadCustomWidget = async (url: string): Promise<EnhancedWidgetConfig> => {
+  if (!isValidModuleUrl(url)) {
+    throw new Error('Widget modules must be served over https');
+  }
+
+  // Share the app's React with the module before it evaluates
+  window.boxento = { React };
+
+  const module = await import(/* @vite-ignore */ url) as { default?: unknown; widgetConfig?: unknown };
+  // Components may also be objects, e.g. from React.memo
+  if (!module.default || !['function', 'object'].includes(typeof module.default)) {
+    throw new Error('The module does not default-export a component');
+  }
+
+  const config = validateWidgetConfig(module.widgetConfig);
+  if (getWidgetConfigByType(config.type)) {
+    throw new Error(`Another custom widget already uses the type "${config.type}"`);
+  }
+  const component = module.default as React.ComponentType<CustomWidgetProps>;
+  registerWidget(config, createHostComponent(component, config.name));
+  return config;
+};
+
+// Load state of every registered URL; replaced on change so it can back useSyncExternalStore
+let statuses: Record<string, CustomWidgetStatus> = {};
+let activeUrls = new Set<string>();
+const listeners = new Set<() => void>();
+
+const setStatuses = (next: Record<string, CustomWidgetStatus>) => {
+  statuses = next;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Keeps the registry in step with the module URLs in app settings
+ */
+export const customWidgetService = {
+  /**
+   * Load modules that were added and unregister the widgets of modules that were removed
+   *
+   * @param sources - Module URLs from app settings
+   */
+  sync: (sources: CustomWidgetSource[]): void => {
+    activeUrls = new Set(sources.map(source => source.url));
+    const next = { ...statuses };
+
+    for (const [url, status] of Object.entries(statuses)) {
+      if (activeUrls.has(url)) continue;
+      if (status.state === 'loaded') unregisterWidget(status.type);
+      delete next[url];
+    }
+
+    const pending = [...activeUrls].filter(url => !next[url]);
+    pending.forEach(url => {
+      next[url] = { state: 'loading' };
+    });
+    setStatuses(next);
+
+    pending.forEach(url => {
+      loadCustomWidget(url)
+        .then(config => {
+          // Removed from settings while loading
+          if (!activeUrls.has(url)) {
+            unregisterWidget(config.type);
+            return;
+          }
+          setStatuses({ ...statuses, [url]: { state: 'loaded', type: config.type, name: config.name } });
+        })
+        .catch(error => {
+          console.error(`Error loading custom widget from ${url}:`, error);
+          if (!activeUrls.has(url)) return;
+          const message = error instanceof Error ? error.message : 'The module could not be loaded';
+          setStatuses({ ...statuses, [url]: { state: 'error', message } });
+        });
+    });
+  },
+
+  subscribe: (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Load state per module URL
+   */
+  getStatuses: (): Record<string, CustomWidgetStatus> => statuses,
+};
@@ -0,0 +1,308 @@
+/**
+ * Dashboard bundle utilities for Boxento
+ *
+ * A bundle is a single, versioned JSON document containing everything needed
+ * to recreate a dashboard elsewhere: the widget list, the per-breakpoint layouts
+ * and the widget configurations. Bundles are used to back up a dashboard or hand
+ * it to another user, who imports it as a brand new dashboard.
+ *
+ * Sensitive fields (API keys, tokens, ...) are never exported encrypted, since the
+ * ciphertext is bound to the exporting user's key. They are either stripped, or
+ * exported in plain text and re-encrypted with the importing user's key on import.
+ */
+
+import { LayoutItem, Widget } from '@/types';
+import { WidgetConfigStore, DEFAULT_SENSITIVE_FIELDS } from './configManager';
+import { encryptionUtils } from './encryption';
+import { getSecretFields, redactSecrets } from './sensitiveFields';
+import { getStackChildren, STACK_WIDGET_TYPE } from './widgetStacks';
+import { Dashboard, DashboardVisibility } from '@/components/dashboard/DashboardSwitcher';
+
+/** Identifies a JSON document as a Boxento dashboard bundle */
+export const DASHBOARD_BUNDLE_FORMAT = 'boxento-dashboard';
+
+/** Current bundle version - bump when the bundle shape changes */
+export const DASHBOARD_BUNDLE_VERSION = 1;
+
+/**
+ * How sensitive widget config fields are handled when exporting
+ * - 'strip': remove them from the bundle (default, safe to share)
+ * - 'include': keep them in plain text so they can be re-encrypted on import
+ */
+export type SensitiveFieldMode = 'strip' | 'include';
+
+export interface DashboardBundle {
+  format: typeof DASHBOARD_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  dashboard: {
+    name: string;
+    visibility: DashboardVisibility;
+  };
+  widgets: Widget[];
+  layouts: { [key: string]: LayoutItem[] };
+  configs: WidgetConfigStore;
+  /** Whether sensitive fields were kept in the bundle */
+  includesSensitiveFields: boolean;
+}
+
+/**
+ * Result of preparing a bundle for import into the current user's storage
+ */
+export interface ImportedDashboardData {
+  name: string;
+  widgets: Widget[];
+  layouts: { [key: string]: LayoutItem[] };
+  configs: WidgetConfigStore;
+}
+
+/**
+ * Remove runtime-only properties from a widget config
+ */
+const sanitizeConfig = (config: Record<string, unknown>): Record<string, unknown> => {
+  const cleanConfig = { ...config };
+  delete cleanConfig.onDelete;
+  delete cleanConfig.onUpdate;
+  delete cleanConfig.readOnly;
+  delete cleanConfig.id;
+  return cleanConfig;
+};
+
+/**
+ * Strip sensitive fields from a config object, including the secrets the widget type declares
+ */
+const stripSensitiveFields = (widgetType: string, config: Record<string, unknown>): Record<string, unknown> => {
+  const result = redactSecrets(widgetType, config).config;
+  for (const field of DEFAULT_SENSITIVE_FIELDS) {
+    delete result[field];
+  }
+  return result;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLayoutItem = (value: unknown): value is LayoutItem =>
+  isRecord(value) &&
+  typeof value.i === 'string' &&
+  ['x', 'y', 'w', 'h'].every(key => typeof value[key] === 'number' && Number.isFinite(value[key]));
+
+export const dashboardBundleUtils = {
+  /**
+   * Build a bundle for a dashboard
+   *
+   * @param dashboard - Dashboard metadata
+   * @param widgets - Widgets on the dashboard
+   * @param layouts - Layouts for every breakpoint
+   * @param configs - Decrypted widget configurations (from configManager.getConfigs(true))
+   * @param sensitiveFieldMode - Whether to strip or include sensitive fields
+   * @returns The dashboard bundle
+   */
+  createBundle: (
+    dashboard: Dashboard,
+    widgets: Widget[],
+    layouts: { [key: string]: LayoutItem[] },
+    configs: WidgetConfigStore,
+    sensitiveFieldMode: SensitiveFieldMode = 'strip'
+  ): DashboardBundle => {
+    const bundleConfigs: WidgetConfigStore = {};
+
+    const addConfig = (widgetId: string, widgetType: string, fallback?: Record<string, unknown>) => {
+      // Prefer the stored config, fall back to the in-memory one
+      const config = sanitizeConfig(configs[widgetId] || fallback || {});
+      bundleConfigs[widgetId] = sensitiveFieldMode === 'strip'
+        ? stripSensitiveFields(widgetType, config)
+        : config;
+    };
+
+    widgets.forEach(widget => {
+      addConfig(widget.id, widget.type, widget.config);
+      // Stack children aren't on the widget list; their configs travel with the stack
+      if (widget.type === STACK_WIDGET_TYPE) {
+        getStackChildren(configs[widget.id] || widget.config).forEach(child => addConfig(child.id, child.type));
+      }
+    });
+
+    const widgetIds = new Set(widgets.map(w => w.id));
+    const bundleLayouts: { [key: string]: LayoutItem[] } = {};
+    Object.keys(layouts).forEach(breakpoint => {
+      bundleLayouts[breakpoint] = (layouts[breakpoint] || []).filter(item => widgetIds.has(item.i));
+    });
+
+    return {
+      format: DASHBOARD_BUNDLE_FORMAT,
+      version: DASHBOARD_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      dashboard: {
+        name: dashboard.name,
+        visibility: dashboard.visibility,
+      },
+      // Only keep essential widget metadata; configs are stored separately
+      widgets: widgets.map(w => ({ id: w.id, type: w.type })),
+      // Deep clone to drop undefined values
+      layouts: JSON.parse(JSON.stringify(bundleLayouts)),
+      configs: JSON.parse(JSON.stringify(bundleConfigs)),
+      includesSensitiveFields: sensitiveFieldMode === 'include',
+    };
+  },
+
+  /**
+   * Parse and validate a bundle from JSON text
+   *
+   * @param text - Raw file contents
+   * @returns The validated bundle
+   * @throws Error with a user-facing message if the bundle is invalid
+   */
+  parseBundle: (text: string): DashboardBundle => {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    if (!isRecord(data) || data.format !== DASHBOARD_BUNDLE_FORMAT) {
+      throw new Error('The file is not a Boxento dashboard export');
+    }
+
+    if (typeof data.version !== 'number' || data.version < 1) {
+      throw new Error('The dashboard export has an invalid version');
+    }
+
+    if (data.version > DASHBOARD_BUNDLE_VERSION) {
+      throw new Error(
+        `This dashboard was exported by a newer version of Boxento (bundle v${data.version}). Please update and try again.`
+      );
+    }
+
+    if (!Array.isArray(data.widgets) || !isRecord(data.layouts) || !isRecord(data.configs)) {
+      throw new Error('The dashboard export is missing widgets, layouts or configs');
+    }
+
+    const hasValidLayouts = Object.values(data.layouts).every(
+      items => Array.isArray(items) && items.every(isLayoutItem)
+    );
+    if (!hasValidLayouts) {
+      throw new Error('The dashboard export has an invalid layout');
+    }
+
+    const widgets = data.widgets.filter(
+      (w): w is Widget => isRecord(w) && typeof w.id === 'string' && typeof w.type === 'string'
+    );
+
+    const dashboard = isRecord(data.dashboard) ? data.dashboard : {};
+
+    return {
+      format: DASHBOARD_BUNDLE_FORMAT,
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      dashboard: {
+        name: typeof dashboard.name === 'string' && dashboard.name.trim()
+          ? dashboard.name
+          : 'Imported Dashboard',
+        visibility: 'private',
+      },
+      widgets: widgets.map(w => ({ id: w.id, type: w.type })),
+      layouts: data.layouts as { [key: string]: LayoutItem[] },
+      configs: data.configs as WidgetConfigStore,
+      includesSensitiveFields: data.includesSensitiveFields === true,
+    };
+  },
+
+  /**
+   * Prepare a bundle for import: assign fresh widget IDs so the imported widgets
+   * never collide with existing ones, and drop sensitive values that cannot be
+   * used by the importing user.
+   *
+   * Sensitive values that are still encrypted were bound to another user's key
+   * and are removed. Plain text values are kept and get re-encrypted with the
+   * importing user's key when saved through configManager.saveWidgetConfig.
+   *
+   * @param bundle - A validated bundle
+   * @returns Widgets, layouts and configs keyed by the new widget IDs
+   */
+  prepareImport: (bundle: DashboardBundle): ImportedDashboardData => {
+    const timestamp = Date.now();
+    const idMap = new Map<string, string>();
+
+    // Stack children aren't on the widget list, but need fresh IDs too
+    const children = bundle.widgets
+      .filter(widget => widget.type === STACK_WIDGET_TYPE && isRecord(bundle.configs[widget.id]))
+      .flatMap(widget => getStackChildren(bundle.configs[widget.id]));
+
+    [...bundle.widgets, ...children].forEach((widget, index) => {
+      idMap.set(widget.id, `${widget.type}-${timestamp + index}`);
+    });
+
+    const configs: WidgetConfigStore = {};
+    const widgets: Widget[] = [];
+
+    const prepareConfig = (widgetId: string, widgetType: string): Record<string, unknown> => {
+      const rawConfig = isRecord(bundle.configs[widgetId]) ? bundle.configs[widgetId] : {};
+      const config = sanitizeConfig(rawConfig);
+
+      const secretFields = new Set([
+        ...getSecretFields(widgetType, config),
+        ...DEFAULT_SENSITIVE_FIELDS.filter(field => typeof config[field] === 'string'),
+      ]);
+      for (const field of secretFields) {
+        if (!bundle.includesSensitiveFields || encryptionUtils.isEncrypted(config[field] as string)) {
+          delete config[field];
+        }
+      }
+
+      if (widgetType === STACK_WIDGET_TYPE) {
+        config.children = getStackChildren(config)
+          .filter(child => idMap.has(child.id))
+          .map(child => ({ ...child, id: idMap.get(child.id) as string }));
+      }
+      return config;
+    };
+
+    for (const child of children) {
+      // The type is kept in the config since children aren't in the returned widget list
+      configs[idMap.get(child.id) as string] = { ...prepareConfig(child.id, child.type), type: child.type };
+    }
+
+    for (const widget of bundle.widgets) {
+      const newId = idMap.get(widget.id) as string;
+      const config = prepareConfig(widget.id, widget.type);
+      configs[newId] = config;
+      widgets.push({ id: newId, type: widget.type, config });
+    }
+
+    const layouts: { [key: string]: LayoutItem[] } = {};
+    Object.keys(bundle.layouts).forEach(breakpoint => {
+      layouts[breakpoint] = bundle.layouts[breakpoint]
+        .filter(item => idMap.has(item.i))
+        .map(item => ({ ...item, i: idMap.get(item.i) as string }));
+    });
+
+    return {
+      name: bundle.dashboard.name,
+      widgets,
+      layouts,
+      configs,
+    };
+  },
+
+  /**
+   * Trigger a browser download of a bundle as a JSON file
+   *
+   * @param bundle - The bundle to download
+   */
+  downloadBundle: (bundle: DashboardBundle): void => {
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const slug = bundle.dashboard.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'dashboard';
+    const date = bundle.exportedAt.slice(0, 10);
+
+    const downloadLink = document.createElement('a');
+    downloadLink.href = url;
+    downloadLink.download = `boxento-${slug}-${date}.json`;
+    document.body.appendChild(downloadLink);
+    downloadLink.click();
+    document.body.removeChild(downloadLink);
+    URL.revokeObjectURL(url);
+  },
+};
@@ -0,0 +1,251 @@
+/**
+ * Dashboard snapshots for Boxento
+ *
+ * A snapshot is a point-in-time copy of a dashboard's widgets, layouts and widget
+ * configs. Snapshots are taken periodically while a dashboard is open, on demand,
+ * and right before a restore, so any restore can itself be undone.
+ *
+ * Snapshots go to the storage backend when logged in, and to localStorage otherwise.
+ * Configs are stored exactly as persisted, so sensitive fields stay encrypted.
+ */
+
+import { LayoutItem, Widget } from '@/types';
+import { configManager, WidgetConfigStore, DEFAULT_SENSITIVE_FIELDS, SECRET_FIELD_PATTERN } from './configManager';
+import { storageBackend, DashboardSnapshot, SnapshotTrigger } from './storage';
+import { STORAGE_KEYS, SNAPSHOTS } from './constants';
+import { getStackChildren, getWidgetIdsWithChildren, STACK_WIDGET_TYPE } from './widgetStacks';
+import { hashString } from './utils';
+import { Dashboard } from '@/components/dashboard/DashboardSwitcher';
+
+export type { DashboardSnapshot, SnapshotTrigger };
+
+// Fingerprint of the last snapshot per dashboard, to skip unchanged periodic snapshots
+const lastFingerprints = new Map<string, string>();
+
+const getLocalKey = (dashboardId: string) => `${STORAGE_KEYS.SNAPSHOTS}-${dashboardId}`;
+
+const loadLocalSnapshots = (dashboardId: string): DashboardSnapshot[] => {
+  try {
+    const stored = localStorage.getItem(getLocalKey(dashboardId));
+    return stored ? JSON.parse(stored) as DashboardSnapshot[] : [];
+  } catch (error) {
+    console.error('Error loading snapshots from localStorage:', error);
+    return [];
+  }
+};
+
+const saveLocalSnapshots = (dashboardId: string, snapshots: DashboardSnapshot[]): void => {
+  localStorage.setItem(getLocalKey(dashboardId), JSON.stringify(snapshots));
+};
+
+/**
+ * Hash the snapshot content. Sensitive fields are left out because they are
+ * re-encrypted with a fresh IV on every save, which would change the hash.
+ */
+const computeFingerprint = (
+  widgets: Widget[],
+  layouts: { [key: string]: LayoutItem[] },
+  configs: WidgetConfigStore
+): string => {
+  const comparableConfigs: WidgetConfigStore = {};
+  for (const [widgetId, config] of Object.entries(configs)) {
+    const rest = { ...config };
+    Object.keys(rest)
+      .filter(field => DEFAULT_SENSITIVE_FIELDS.includes(field) || SECRET_FIELD_PATTERN.test(field))
+      .forEach(field => delete rest[field]);
+    comparableConfigs[widgetId] = rest;
+  }
+  return hashString(JSON.stringify({ widgets, layouts, configs: comparableConfigs }));
+};
+
+const sortNewestFirst = (snapshots: DashboardSnapshot[]): DashboardSnapshot[] =>
+  [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+/**
+ * Pick the snapshots that exceed the retention limits
+ */
+const getExpiredSnapshots = (snapshots: DashboardSnapshot[]): DashboardSnapshot[] => {
+  const sorted = sortNewestFirst(snapshots);
+  const auto = sorted.filter(s => s.trigger === 'auto');
+  const kept = sorted.filter(s => s.trigger !== 'auto');
+  return [...auto.slice(SNAPSHOTS.MAX_AUTO), ...kept.slice(SNAPSHOTS.MAX_MANUAL)];
+};
+
+export const snapshotService = {
+  /**
+   * List a dashboard's snapshots, newest first
+   *
+   * @param dashboardId - Dashboard to list snapshots for
+   */
+  listSnapshots: async (dashboardId: string): Promise<DashboardSnapshot[]> => {
+    if (storageBackend.isAuthenticated()) {
+      return sortNewestFirst(await storageBackend.listSnapshots(dashboardId));
+    }
+    return sortNewestFirst(loadLocalSnapshots(dashboardId));
+  },
+
+  /**
+   * Take a snapshot of a dashboard and prune old ones
+   *
+   * @param dashboard - Dashboard metadata
+   * @param widgets - Widgets currently on the dashboard
+   * @param layouts - Layouts for every breakpoint
+   * @param trigger - What caused the snapshot
+   * @returns The saved snapshot
+   */
+  createSnapshot: async (
+    dashboard: Dashboard,
+    widgets: Widget[],
+    layouts: { [key: string]: LayoutItem[] },
+    trigger: SnapshotTrigger
+  ): Promise<DashboardSnapshot> => {
+    // Configs as stored, so sensitive fields remain encrypted
+    const storedConfigs = await configManager.getConfigs(false);
+    const widgetIds = getWidgetIdsWithChildren(widgets, storedConfigs);
+    const configs: WidgetConfigStore = {};
+    for (const [widgetId, config] of Object.entries(storedConfigs)) {
+      if (widgetIds.has(widgetId)) configs[widgetId] = config;
+    }
+
+    const snapshotWidgets = widgets.map(w => ({ id: w.id, type: w.type }));
+    // Deep clone to drop undefined values (Firestore rejects them)
+    const snapshotLayouts = JSON.parse(JSON.stringify(layouts));
+    const snapshotConfigs = JSON.parse(JSON.stringify(configs));
+    const createdAt = new Date();
+
+    const snapshot: DashboardSnapshot = {
+      id: `${dashboard.id}-${createdAt.getTime()}`,
+      dashboardId: dashboard.id,
+      dashboardName: dashboard.name,
+      trigger,
+      createdAt: createdAt.toISOString(),
+      fingerprint: computeFingerprint(snapshotWidgets, snapshotLayouts, snapshotConfigs),
+      widgets: snapshotWidgets,
+      layouts: snapshotLayouts,
+      configs: snapshotConfigs,
+    };
+
+    if (storageBackend.isAuthenticated()) {
+      await storageBackend.saveSnapshot(snapshot);
+      const expired = getExpiredSnapshots(await storageBackend.listSnapshots(dashboard.id));
+      await Promise.all(expired.map(s => storageBackend.deleteSnapshot(s.id)));
+    } else {
+      const all = [snapshot, ...loadLocalSnapshots(dashboard.id)];
+      const expiredIds = new Set(getExpiredSnapshots(all).map(s => s.id));
+      saveLocalSnapshots(dashboard.id, all.filter(s => !expiredIds.has(s.id)));
+    }
+
+    lastFingerprints.set(dashboard.id, snapshot.fingerprint);
+    return snapshot;
+  },
+
+  /**
+   * Take a periodic snapshot unless nothing changed since the last one
+   *
+   * @returns The saved snapshot, or null if the dashboard is unchanged
+   */
+  createSnapshotIfChanged: async (
+    dashboard: Dashboard,
+    widgets: Widget[],
+    layouts: { [key: string]: LayoutItem[] }
+  ): Promise<DashboardSnapshot | null> => {
+    if (widgets.length === 0) return null;
+
+    const storedConfigs = await configManager.getConfigs(false);
+    const configs: WidgetConfigStore = {};
+    getWidgetIdsWithChildren(widgets, storedConfigs).forEach(widgetId => {
+      if (storedConfigs[widgetId]) configs[widgetId] = storedConfigs[widgetId];
+    });
+    const fingerprint = computeFingerprint(
+      widgets.map(w => ({ id: w.id, type: w.type })),
+      JSON.parse(JSON.stringify(layouts)),
+      JSON.parse(JSON.stringify(configs))
+    );
+
+    if (!lastFingerprints.has(dashboard.id)) {
+      const [latest] = await snapshotService.listSnapshots(dashboard.id);
+      if (latest) lastFingerprints.set(dashboard.id, latest.fingerprint);
+    }
+    if (lastFingerprints.get(dashboard.id) === fingerprint) return null;
+
+    return snapshotService.createSnapshot(dashboard, widgets, layouts, 'auto');
+  },
+
+  /**
+   * Delete a snapshot
+   */
+  deleteSnapshot: async (dashboardId: string, snapshotId: string): Promise<void> => {
+    if (storageBackend.isAuthenticated()) {
+      await storageBackend.deleteSnapshot(snapshotId);
+      return;
+    }
+    saveLocalSnapshots(dashboardId, loadLocalSnapshots(dashboardId).filter(s => s.id !== snapshotId));
+  },
+
+  /**
+   * Encrypt the secrets in every snapshot with the current key, before keys
+   * rotated out of passphrase encryption are dropped. Snapshots kept in
+   * localStorage while signed out only have their data key values re-encrypted.
+   *
+   * @returns Number of values that couldn't be decrypted and were left as they were
+   */
+  reencryptSecrets: async (): Promise<number> => {
+    let failed = 0;
+
+    if (storageBackend.isAuthenticated()) {
+      for (const snapshot of await storageBackend.listSnapshots()) {
+        const result = await configManager.reencryptConfigs(snapshot.configs);
+        failed += result.failed;
+        if (result.changed) await storageBackend.saveSnapshot(snapshot);
+      }
+    }
+
+    const localKeys = Object.keys(localStorage).filter(key => key.startsWith(`${STORAGE_KEYS.SNAPSHOTS}-`));
+    for (const key of localKeys) {
+      const dashboardId = key.slice(STORAGE_KEYS.SNAPSHOTS.length + 1);
+      const snapshots = loadLocalSnapshots(dashboardId);
+      let changed = false;
+      for (const snapshot of snapshots) {
+        const result = await configManager.reencryptConfigs(snapshot.configs, true);
+        failed += result.failed;
+        changed = changed || result.changed;
+      }
+      if (changed) saveLocalSnapshots(dashboardId, snapshots);
+    }
+
+    return failed;
+  },
+
+  /**
+   * Decrypt a snapshot's configs so they can be restored through configManager,
+   * which re-encrypts sensitive fields on save
+   *
+   * @param snapshot - Snapshot to restore
+   * @returns Widgets with their decrypted configs attached
+   */
+  getRestorableWidgets: async (snapshot: DashboardSnapshot): Promise<Widget[]> => {
+    const widgets: Widget[] = [];
+    for (const widget of snapshot.widgets) {
+      const stored = snapshot.configs[widget.id] || {};
+      widgets.push({ ...widget, config: await configManager.decryptStoredConfig(stored) });
+    }
+    return widgets;
+  },
+
+  /**
+   * Write back the configs of stack children in a snapshot. Children aren't on the
+   * widget list, so restoring the widgets doesn't restore them.
+   *
+   * @param snapshot - Snapshot being restored
+   */
+  restoreStackChildConfigs: async (snapshot: DashboardSnapshot): Promise<void> => {
+    for (const widget of snapshot.widgets.filter(w => w.type === STACK_WIDGET_TYPE)) {
+      for (const child of getStackChildren(snapshot.configs[widget.id])) {
+        const stored = snapshot.configs[child.id];
+        if (!stored) continue;
+        const decrypted = await configManager.decryptStoredConfig(stored);
+        await configManager.saveWidgetConfig(child.id, { ...decrypted, type: child.type });
+      }
+    }
+  },
+};
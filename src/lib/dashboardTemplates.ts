@@ -0,0 +1,287 @@
+/**
+ * Dashboard templates for Boxento
+ *
+ * A template is a ready-made set of widgets, layouts and starter configs that a
+ * new dashboard can start from. Built-in templates ship with the app; personal
+ * templates are saved from an existing dashboard and sync with the app settings.
+ *
+ * Templates hold a dashboard bundle (see dashboardBundle.ts), so creating a
+ * dashboard from one is the same as importing a bundle: widgets get fresh IDs.
+ * Sensitive fields are always stripped when saving a personal template.
+ */
+
+import { LayoutItem, Widget } from '@/types';
+import { getDefaultWidgetConfig } from '@/components/widgets';
+import type { WidgetConfigStore } from './configManager';
+import { dashboardBundleUtils, DashboardBundle, DASHBOARD_BUNDLE_FORMAT, DASHBOARD_BUNDLE_VERSION } from './dashboardBundle';
+import { breakpoints, cols } from './layoutUtils';
+import type { Dashboard } from '@/components/dashboard/DashboardSwitcher';
+
+export interface DashboardTemplate {
+  id: string;
+  name: string;
+  description: string;
+  /** Shipped with the app, as opposed to saved by the user */
+  builtIn: boolean;
+  bundle: DashboardBundle;
+  createdAt: string;
+}
+
+/**
+ * A widget in a built-in template, positioned on the 12-column desktop grid
+ */
+interface TemplateWidget {
+  type: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** Starter config, merged over the widget's defaults */
+  config?: Record<string, unknown>;
+}
+
+/**
+ * Layouts for every breakpoint. Wide breakpoints keep the desktop positions;
+ * narrower ones flow the widgets left to right in the same order.
+ */
+const buildLayouts = (ids: string[], items: TemplateWidget[]): { [key: string]: LayoutItem[] } => {
+  const layouts: { [key: string]: LayoutItem[] } = {};
+
+  (Object.keys(breakpoints) as (keyof typeof breakpoints)[]).forEach(breakpoint => {
+    const colCount = cols[breakpoint];
+
+    if (colCount >= cols.lg) {
+      layouts[breakpoint] = items.map((item, index) => ({
+        i: ids[index], x: item.x, y: item.y, w: item.w, h: item.h, minW: 2, minH: 2,
+      }));
+      return;
+    }
+
+    // Phones get the same fixed 2x2 tiles as widgets added there
+    const isMobile = colCount <= cols.xs;
+    let x = 0;
+    let y = 0;
+    let rowHeight = 0;
+
+    layouts[breakpoint] = [...items]
+      .map((item, index) => ({ item, id: ids[index] }))
+      .sort((a, b) => a.item.y - b.item.y || a.item.x - b.item.x)
+      .map(({ item, id }) => {
+        const w = isMobile ? 2 : Math.min(item.w, colCount);
+        const h = isMobile ? 2 : item.h;
+        if (x + w > colCount) {
+          x = 0;
+          y += rowHeight;
+          rowHeight = 0;
+        }
+        const layoutItem: LayoutItem = { i: id, x, y, w, h, minW: 2, minH: 2 };
+        x += w;
+        rowHeight = Math.max(rowHeight, h);
+        return layoutItem;
+      });
+  });
+
+  return layouts;
+};
+
+const createBuiltInTemplate = (
+  id: string,
+  name: string,
+  description: string,
+  items: TemplateWidget[]
+): DashboardTemplate => {
+  const ids = items.map((item, index) => `${item.type}-${index}`);
+  const widgets: Widget[] = items.map((item, index) => ({ id: ids[index], type: item.type }));
+  const configs: WidgetConfigStore = {};
+  items.forEach((item, index) => {
+    configs[ids[index]] = { ...getDefaultWidgetConfig(item.type), ...item.config };
+  });
+
+  return {
+    id,
+    name,
+    description,
+    builtIn: true,
+    createdAt: '',
+    bundle: {
+      format: DASHBOARD_BUNDLE_FORMAT,
+      version: DASHBOARD_BUNDLE_VERSION,
+      exportedAt: '',
+      dashboard: { name, visibility: 'private' },
+      widgets,
+      layouts: buildLayouts(ids, items),
+      configs,
+      includesSensitiveFields: false,
+    },
+  };
+};
+
+const link = (id: number, title: string, url: string) => ({
+  id,
+  title,
+  url,
+  favicon: `https://icons.duckduckgo.com/ip3/${new URL(url).hostname}.ico`,
+});
+
+const feed = (title: string, url: string) => ({ title, url, enabled: true });
+
+const todo = (index: number, text: string) => ({
+  id: `template-${index}`,
+  text,
+  completed: false,
+  createdAt: new Date().toISOString(),
+  sortOrder: index,
+});
+
+// Built lazily so the widget registry is loaded before its defaults are read
+let builtInTemplates: DashboardTemplate[] | null = null;
+
+export const dashboardTemplateUtils = {
+  /**
+   * Templates that ship with the app
+   */
+  getBuiltInTemplates: (): DashboardTemplate[] => {
+    if (builtInTemplates) return builtInTemplates;
+
+    builtInTemplates = [
+      createBuiltInTemplate('homelab', 'Homelab', 'Service status, containers and links to your admin panels', [
+        {
+          type: 'website-monitor', x: 0, y: 0, w: 3, h: 3,
+          config: {
+            title: 'Services',
+            websites: [
+              { id: 'router', name: 'Router', url: 'http://192.168.1.1' },
+              { id: 'nas', name: 'NAS', url: 'http://nas.local' },
+            ],
+          },
+        },
+        { type: 'docker-monitor', x: 3, y: 0, w: 3, h: 3 },
+        {
+          type: 'quick-links', x: 6, y: 0, w: 3, h: 3,
+          config: {
+            customTitle: 'Admin Panels',
+            links: [
+              link(1, 'Proxmox', 'https://proxmox.local:8006'),
+              link(2, 'Portainer', 'https://portainer.local:9443'),
+              link(3, 'Home Assistant', 'http://homeassistant.local:8123'),
+            ],
+          },
+        },
+        {
+          type: 'rss', x: 9, y: 0, w: 3, h: 3,
+          config: { title: 'Self-Hosted News', feeds: [feed('r/selfhosted', 'https://www.reddit.com/r/selfhosted/.rss')] },
+        },
+        { type: 'notes', x: 0, y: 3, w: 3, h: 3, config: { title: 'Runbook' } },
+      ]),
+
+      createBuiltInTemplate('developer', 'Developer', 'Focus timer, tasks, docs and tech news', [
+        { type: 'pomodoro', x: 0, y: 0, w: 3, h: 3 },
+        {
+          type: 'todo', x: 3, y: 0, w: 3, h: 3,
+          config: { title: 'Today', items: [todo(0, 'Review open pull requests'), todo(1, 'Triage new issues')] },
+        },
+        {
+          type: 'quick-links', x: 6, y: 0, w: 3, h: 3,
+          config: {
+            customTitle: 'Docs',
+            links: [
+              link(1, 'GitHub', 'https://github.com'),
+              link(2, 'MDN', 'https://developer.mozilla.org'),
+              link(3, 'Stack Overflow', 'https://stackoverflow.com'),
+            ],
+          },
+        },
+        {
+          type: 'rss', x: 9, y: 0, w: 3, h: 3,
+          config: {
+            title: 'Tech News',
+            feeds: [feed('Hacker News', 'https://hnrss.org/frontpage'), feed('GitHub Blog', 'https://github.blog/feed/')],
+          },
+        },
+        { type: 'notes', x: 0, y: 3, w: 3, h: 3, config: { title: 'Scratchpad' } },
+      ]),
+
+      createBuiltInTemplate('morning-routine', 'Morning Routine', 'Weather, habits, today\'s tasks and the headlines', [
+        { type: 'weather', x: 0, y: 0, w: 3, h: 3 },
+        {
+          type: 'habits', x: 3, y: 0, w: 3, h: 3,
+          config: {
+            habits: ['Drink water', 'Stretch', 'Read'].map((habitName, index) => ({
+              id: `template-${index}`,
+              name: habitName,
+              createdAt: new Date().toISOString(),
+              completedDates: [],
+            })),
+          },
+        },
+        {
+          type: 'todo', x: 6, y: 0, w: 3, h: 3,
+          config: { title: 'Top 3 Today', items: [todo(0, 'Plan the day'), todo(1, 'Inbox zero')] },
+        },
+        {
+          type: 'rss', x: 9, y: 0, w: 3, h: 3,
+          config: { title: 'Headlines', feeds: [feed('BBC News', 'https://feeds.bbci.co.uk/news/rss.xml')] },
+        },
+        { type: 'year-progress', x: 0, y: 3, w: 3, h: 2 },
+      ]),
+
+      createBuiltInTemplate('traveler', 'Traveler', 'Clocks, currencies, flights and a packing list', [
+        {
+          type: 'world-clocks', x: 0, y: 0, w: 3, h: 3,
+          config: {
+            timezones: [
+              { id: 1, name: 'New York', timezone: 'America/New_York' },
+              { id: 2, name: 'London', timezone: 'Europe/London' },
+              { id: 3, name: 'Tokyo', timezone: 'Asia/Tokyo' },
+            ],
+          },
+        },
+        {
+          type: 'currency-converter', x: 3, y: 0, w: 3, h: 3,
+          config: { baseCurrency: 'USD', targetCurrencies: ['EUR', 'GBP', 'JPY'] },
+        },
+        { type: 'flight-tracker', x: 6, y: 0, w: 3, h: 3 },
+        { type: 'weather', x: 9, y: 0, w: 3, h: 3 },
+        { type: 'countdown', x: 0, y: 3, w: 3, h: 2, config: { eventName: 'Next trip' } },
+        {
+          type: 'todo', x: 3, y: 3, w: 3, h: 3,
+          config: {
+            title: 'Packing List',
+            items: [todo(0, 'Passport'), todo(1, 'Chargers and adapters'), todo(2, 'Travel insurance')],
+          },
+        },
+      ]),
+    ];
+
+    return builtInTemplates;
+  },
+
+  /**
+   * Create a personal template from a dashboard. Sensitive fields are stripped.
+   *
+   * @param name - Template name
+   * @param description - Short description shown in the gallery
+   * @param dashboard - Dashboard to save
+   * @param widgets - Widgets on the dashboard
+   * @param layouts - Layouts for every breakpoint
+   * @param configs - Decrypted widget configurations (from configManager.getConfigs(true))
+   */
+  createTemplate: (
+    name: string,
+    description: string,
+    dashboard: Dashboard,
+    widgets: Widget[],
+    layouts: { [key: string]: LayoutItem[] },
+    configs: WidgetConfigStore
+  ): DashboardTemplate => {
+    const bundle = dashboardBundleUtils.createBundle(dashboard, widgets, layouts, configs, 'strip');
+    return {
+      id: `template-${Date.now()}`,
+      name,
+      description,
+      builtIn: false,
+      createdAt: bundle.exportedAt,
+      bundle: { ...bundle, dashboard: { ...bundle.dashboard, name } },
+    };
+  },
+};
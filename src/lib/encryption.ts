@@ -7,6 +7,10 @@
  * Key Strategy:
  * - When user is logged in: key derived from user UID (consistent across devices)
  * - When user is logged out: device-specific key (localStorage only, no sync needed)
+ * - Passphrase mode (opt-in, see keyring.ts): a random data key that only
+ *   exists in memory once the user unlocks it with their passphrase. Values
+ *   encrypted with it carry the ID of the key, so a rotation can tell old
+ *   values from new ones.
  */
 
 // Constants for encryption
@@ -18,6 +22,8 @@ const ITERATIONS = 100000; // PBKDF2 iterations
 
 // Prefix to identify encrypted values (vs legacy Base64)
 const ENCRYPTED_PREFIX = 'enc:v1:';
+// Prefix of values encrypted with a passphrase mode data key: enc:v2:<key ID>:<data>
+const DATA_KEY_PREFIX = 'enc:v2:';
 const LEGACY_PREFIX_CHECK = /^[A-Za-z0-9+/]+=*$/; // Base64 pattern
 
 // Module-level state for user key
@@ -38,6 +44,48 @@ export const setUserKey = (userId: string | null): void => {
  */
 export const getUserKey = (): string | null => currentUserKey;
 
+/**
+ * Thrown when a value needs the passphrase mode data key and it hasn't been
+ * unlocked on this device
+ */
+export class EncryptionLockedError extends Error {
+  constructor() {
+    super('Encryption is locked. Unlock it with your passphrase first.');
+    this.name = 'EncryptionLockedError';
+  }
+}
+
+// Passphrase mode data keys in memory, by key ID. Several while a rotation is in progress.
+const dataKeys = new Map<string, CryptoKey>();
+// Data key new values are encrypted with; null when passphrase mode is off
+let activeDataKeyId: string | null = null;
+
+/**
+ * Turn passphrase mode on with the given data key, or off with null.
+ * While the key itself hasn't been added, encrypting throws EncryptionLockedError.
+ */
+export const setActiveDataKey = (keyId: string | null): void => {
+  activeDataKeyId = keyId;
+};
+
+/**
+ * Make an unlocked data key available for encrypting and decrypting
+ */
+export const addDataKey = (keyId: string, key: CryptoKey): void => {
+  dataKeys.set(keyId, key);
+};
+
+/**
+ * Forget a data key, or all of them when no ID is given
+ */
+export const removeDataKey = (keyId?: string): void => {
+  if (keyId) {
+    dataKeys.delete(keyId);
+  } else {
+    dataKeys.clear();
+  }
+};
+
 /**
  * Get or create a device-specific encryption key stored in localStorage.
  * This key is unique per browser/device and persists across sessions.
@@ -160,6 +208,43 @@ const decryptLegacy = (text: string): string => {
   }
 };
 
+const getDataKeyId = (value: string): string =>
+  value.slice(DATA_KEY_PREFIX.length, value.indexOf(':', DATA_KEY_PREFIX.length));
+
+/**
+ * Encrypt with a data key. Data keys are random, so there is no salt to derive them with.
+ */
+const encryptWithDataKey = async (text: string, keyId: string, key: CryptoKey): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encryptedBuffer = await crypto.subtle.encrypt(
+    { name: ALGORITHM, iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+
+  const combined = new Uint8Array(iv.length + encryptedBuffer.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(encryptedBuffer), iv.length);
+  return `${DATA_KEY_PREFIX}${keyId}:${arrayBufferToBase64(combined.buffer)}`;
+};
+
+const decryptWithDataKey = async (encryptedText: string): Promise<string> => {
+  const keyId = getDataKeyId(encryptedText);
+  const key = dataKeys.get(keyId);
+  if (!key) {
+    if (dataKeys.size === 0) throw new EncryptionLockedError();
+    throw new Error('Encrypted with a key that was rotated out');
+  }
+
+  const combined = new Uint8Array(base64ToArrayBuffer(encryptedText.slice(DATA_KEY_PREFIX.length + keyId.length + 1)));
+  const decryptedBuffer = await crypto.subtle.decrypt(
+    { name: ALGORITHM, iv: combined.slice(0, IV_LENGTH) },
+    key,
+    combined.slice(IV_LENGTH)
+  );
+  return new TextDecoder().decode(decryptedBuffer);
+};
+
 export const encryptionUtils = {
   /**
    * Encrypt a string using AES-GCM
@@ -169,6 +254,14 @@ export const encryptionUtils = {
    */
   encrypt: async (text: string): Promise<string> => {
     if (!text) return '';
+    // Already encrypted, e.g. a value kept as stored while encryption is locked
+    if (encryptionUtils.isEncrypted(text)) return text;
+
+    if (activeDataKeyId) {
+      const dataKey = dataKeys.get(activeDataKeyId);
+      if (!dataKey) throw new EncryptionLockedError();
+      return encryptWithDataKey(text, activeDataKeyId, dataKey);
+    }
 
     try {
       const encryptionKey = getEncryptionKey();
@@ -221,6 +314,10 @@ export const encryptionUtils = {
         return decryptLegacy(encryptedText);
       }
 
+      if (encryptedText.startsWith(DATA_KEY_PREFIX)) {
+        return await decryptWithDataKey(encryptedText);
+      }
+
       // Check for our encryption prefix
       if (!encryptedText.startsWith(ENCRYPTED_PREFIX)) {
         // Not encrypted, return as-is
@@ -252,6 +349,7 @@ export const encryptionUtils = {
       const decoder = new TextDecoder();
       return decoder.decode(decryptedBuffer);
     } catch (e) {
+      if (e instanceof EncryptionLockedError) throw e;
       // Re-throw to allow proper error handling upstream
       // Silent failures can mask data corruption or key mismatches
       throw new Error(`Decryption failed: ${e instanceof Error ? e.message : String(e)}`);
@@ -341,13 +439,51 @@ export const encryptionUtils = {
 
     for (const field of sensitiveFields) {
       if (result[field] && typeof result[field] === 'string') {
-        result[field] = await encryptionUtils.decrypt(result[field] as string);
+        const value = result[field] as string;
+        // Without the data key the value stays as stored, so saving it back doesn't lose it
+        if (value.startsWith(DATA_KEY_PREFIX) && !dataKeys.has(getDataKeyId(value))) continue;
+        result[field] = await encryptionUtils.decrypt(value);
       }
     }
 
     return result;
   },
 
+  /**
+   * Check if a value was encrypted with the encrypt method
+   *
+   * @param value - Value to check
+   * @returns True if the value carries the encryption prefix
+   */
+  isEncrypted: (value: string): boolean => {
+    return typeof value === 'string' && (value.startsWith(ENCRYPTED_PREFIX) || value.startsWith(DATA_KEY_PREFIX));
+  },
+
+  /**
+   * Check if a value was encrypted with a passphrase data key
+   *
+   * @param value - Value to check
+   */
+  usesDataKey: (value: string): boolean => typeof value === 'string' && value.startsWith(DATA_KEY_PREFIX),
+
+  /**
+   * Encrypt a value with the current key, e.g. after turning passphrase mode on
+   * or rotating its key. Values already encrypted with the current key are kept.
+   *
+   * @param value - Encrypted or plain value
+   * @returns Promise<string> - Value encrypted with the current key
+   */
+  reencrypt: async (value: string): Promise<string> => {
+    if (!value) return '';
+    const isCurrent = activeDataKeyId
+      ? value.startsWith(`${DATA_KEY_PREFIX}${activeDataKeyId}:`)
+      : value.startsWith(ENCRYPTED_PREFIX);
+    if (isCurrent) return value;
+
+    const plain = encryptionUtils.isEncrypted(value) ? await encryptionUtils.decrypt(value) : value;
+    return encryptionUtils.encrypt(plain);
+  },
+
   /**
    * Check if Web Crypto API is available
    */
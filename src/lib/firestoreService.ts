@@ -1,63 +1,98 @@
-import { db, auth, isFirebaseInitialized } from './firebase';
-import {
-  doc,
-  getDoc,
-  setDoc,
-  collection,
-  getDocs,
-  deleteDoc,
-  writeBatch,
-  Firestore
-} from 'firebase/firestore';
-import { WidgetConfigStore } from './configManager';
+import { storageBackend, PublicDashboardData, DashboardAccessRequest, AccessDeniedError } from './storage';
+import { configManager, WidgetConfigStore } from './configManager';
 import { LayoutItem, Widget } from '@/types';
 import { breakpoints, cols, createDefaultLayoutItem } from './layoutUtils';
-import { Dashboard, DashboardVisibility, SharedUser } from '@/components/dashboard/DashboardSwitcher';
-
-// Public dashboard data structure
-export interface PublicDashboardData {
-  id: string;
-  name: string;
-  visibility: DashboardVisibility;
-  sharedWith: SharedUser[];
-  ownerId: string;
-  ownerEmail?: string;
-  createdAt: string;
-  updatedAt: string;
-  widgets: Widget[];
-  layouts: { [key: string]: LayoutItem[] };
-  widgetConfigs: WidgetConfigStore;
-}
-
-const checkFirebase = (): Firestore => {
-  if (!isFirebaseInitialized || !db) {
-    throw new Error('Firebase is not initialized');
+import { Dashboard } from '@/components/dashboard/DashboardSwitcher';
+import { redactSecrets } from './sensitiveFields';
+import { getStackChildren, STACK_WIDGET_TYPE } from './widgetStacks';
+import { mergeLayouts, mergeWidgetLists, syncBase, SyncedLayouts, SyncedWidget } from './syncRevisions';
+import { syncState } from './syncState';
+import { isOfflineError, QueuedWrite, writeQueue } from './writeQueue';
+import { localStore } from './localStore';
+import { STORAGE_KEYS } from './constants';
+
+/**
+ * Dashboard data services
+ *
+ * These services hold the persistence logic shared by every storage backend
+ * (sanitizing, validation, migrations) and delegate the actual reads and writes
+ * to the active backend from ./storage (Firestore or the self-hosted server).
+ */
+
+export type { PublicDashboardData, DashboardAccessRequest };
+
+const getCurrentUserId = (): string | null => storageBackend.getUserId();
+
+/**
+ * Run a write, or queue it for when the device is back online if it can't reach
+ * the storage backend. Resolves to `queuedResult` when queued.
+ */
+const writeOrQueue = async <T>(write: QueuedWrite, queuedResult: T, run: () => Promise<T>): Promise<T> => {
+  if (!navigator.onLine) {
+    writeQueue.enqueue(write);
+    return queuedResult;
+  }
+  try {
+    return await run();
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    writeQueue.enqueue(write);
+    return queuedResult;
   }
-  return db;
 };
 
-const getCurrentUserId = (): string | null => {
-  if (!isFirebaseInitialized || !auth) return null;
-  return auth.currentUser?.uid || null;
+// Replay in progress, shared by everyone who asks for one meanwhile
+let replayInProgress: Promise<void> | null = null;
+
+const replayWrites = async (): Promise<void> => {
+  for (const entry of writeQueue.getAll()) {
+    try {
+      switch (entry.kind) {
+        case 'widgets':
+          await userDashboardService.saveWidgets(entry.widgets);
+          break;
+        case 'layouts':
+          await userDashboardService.saveLayouts(entry.layouts);
+          break;
+        case 'config':
+          await configManager.replayConfigWrite(entry.widgetId, entry.config, entry.base);
+          break;
+        case 'delete-config':
+          await userDashboardService.deleteWidgetConfig(entry.widgetId);
+          break;
+      }
+    } catch (error) {
+      console.error(`Error replaying queued ${entry.kind} write:`, error);
+      return;
+    }
+    // Not removed when the write was queued again because the device went offline
+    if (!writeQueue.remove(entry)) return;
+  }
 };
 
 // User dashboard data service
 export const userDashboardService = {
-  // Save the user's dashboard layouts
-  saveLayouts: async (layouts: { [key: string]: LayoutItem[] }): Promise<void> => {
+  // Save the user's dashboard layouts, merged with changes from other devices
+  // since the last sync. Returns the layouts as saved.
+  saveLayouts: async (layouts: { [key: string]: LayoutItem[] }): Promise<{ [key: string]: LayoutItem[] }> => {
     const userId = getCurrentUserId();
     if (!userId) throw new Error('User not authenticated');
     
     try {
-      const firestore = checkFirebase();
-      
       // Sanitize the layouts object to remove undefined values
-      const sanitizedLayouts = JSON.parse(JSON.stringify(layouts));
-      
-      // Store layouts directly without wrapping in another object
-      await setDoc(doc(firestore, 'users', userId, 'dashboard', 'layouts'), sanitizedLayouts, { merge: true });
+      const sanitizedLayouts: SyncedLayouts = JSON.parse(JSON.stringify(layouts));
+
+      return await writeOrQueue({ kind: 'layouts', layouts: sanitizedLayouts }, sanitizedLayouts, async () => {
+        const base = syncBase.getLayouts();
+        // Merge and write in one step, so a concurrent save from another device isn't lost
+        const mergedLayouts = await syncState.track(storageBackend.updateLayouts(stored =>
+          base && stored ? mergeLayouts(base, sanitizedLayouts, stored as SyncedLayouts) : sanitizedLayouts
+        ));
+        syncBase.setLayouts(mergedLayouts);
+        return mergedLayouts;
+      });
     } catch (error) {
-      console.error('Error saving layouts to Firestore:', error);
+      console.error('Error saving layouts:', error);
       throw error;
     }
   },
@@ -68,37 +103,30 @@ export const userDashboardService = {
     if (!userId) return null;
     
     try {
-      const firestore = checkFirebase();
-      const docRef = doc(firestore, 'users', userId, 'dashboard', 'layouts');
-      const docSnap = await getDoc(docRef);
-      
-      if (docSnap.exists()) {
-        return docSnap.data() as { [key: string]: LayoutItem[] };
-      }
-      return null;
+      const layouts = await storageBackend.loadLayouts();
+      return layouts as { [key: string]: LayoutItem[] } | null;
     } catch (error) {
-      console.error('Error loading layouts from Firestore:', error);
+      console.error('Error loading layouts:', error);
       throw error;
     }
   },
 
-  // Save a widget configuration
-  saveWidgetConfig: async (widgetId: string, config: Record<string, unknown>): Promise<void> => {
+  // Save a widget configuration. `base` is the fingerprint of the config as last
+  // synced, kept with the write if it's queued. Resolves to false when queued.
+  saveWidgetConfig: async (widgetId: string, config: Record<string, unknown>, base?: string): Promise<boolean> => {
     const userId = getCurrentUserId();
     if (!userId) throw new Error('User not authenticated');
     
     try {
-      const firestore = checkFirebase();
       // Sanitize the config object to remove undefined values
       const sanitizedConfig = JSON.parse(JSON.stringify(config));
-      
-      await setDoc(
-        doc(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs', widgetId),
-        { config: sanitizedConfig },
-        { merge: true }
-      );
+
+      return await writeOrQueue({ kind: 'config', widgetId, config: sanitizedConfig, base }, false, async () => {
+        await storageBackend.saveWidgetConfig(widgetId, sanitizedConfig);
+        return true;
+      });
     } catch (error) {
-      console.error('Error saving widget config to Firestore:', error);
+      console.error('Error saving widget config:', error);
       throw error;
     }
   },
@@ -109,16 +137,9 @@ export const userDashboardService = {
     if (!userId) return null;
     
     try {
-      const firestore = checkFirebase();
-      const docRef = doc(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs', widgetId);
-      const docSnap = await getDoc(docRef);
-      
-      if (docSnap.exists()) {
-        return docSnap.data()?.config || null;
-      }
-      return null;
+      return await storageBackend.loadWidgetConfig(widgetId);
     } catch (error) {
-      console.error('Error loading widget config from Firestore:', error);
+      console.error('Error loading widget config:', error);
       throw error;
     }
   },
@@ -129,20 +150,9 @@ export const userDashboardService = {
     if (!userId) throw new Error('User not authenticated');
     
     try {
-      const firestore = checkFirebase();
-      // Create a batch of operations for better performance
-      const batch = writeBatch(firestore);
-      
-      // Add each widget config to the batch
-      Object.entries(configs).forEach(([widgetId, config]) => {
-        const docRef = doc(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs', widgetId);
-        batch.set(docRef, { config }, { merge: true });
-      });
-      
-      // Commit the batch
-      await batch.commit();
+      await storageBackend.saveAllWidgetConfigs(configs);
     } catch (error) {
-      console.error('Error saving all widget configs to Firestore:', error);
+      console.error('Error saving all widget configs:', error);
       throw error;
     }
   },
@@ -153,24 +163,16 @@ export const userDashboardService = {
     if (!userId) return null;
     
     try {
-      const firestore = checkFirebase();
-      const colRef = collection(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs');
-      const querySnapshot = await getDocs(colRef);
-      
-      const configs: WidgetConfigStore = {};
-      querySnapshot.forEach((doc) => {
-        configs[doc.id] = doc.data()?.config || {};
-      });
-      
-      return configs;
+      return await storageBackend.loadAllWidgetConfigs();
     } catch (error) {
-      console.error('Error loading all widget configs from Firestore:', error);
+      console.error('Error loading all widget configs:', error);
       throw error;
     }
   },
 
-  // Save the list of installed widgets
-  saveWidgets: async (widgets: Record<string, unknown>[]): Promise<void> => {
+  // Save the list of installed widgets, merged with widgets added or removed on
+  // other devices since the last sync. Returns the list as saved.
+  saveWidgets: async (widgets: Record<string, unknown>[]): Promise<SyncedWidget[]> => {
     const userId = getCurrentUserId();
     if (!userId) throw new Error('User not authenticated');
     
@@ -193,16 +195,18 @@ export const userDashboardService = {
       });
       
       // Sanitize the widgets array to remove undefined values
-      const sanitizedWidgets = JSON.parse(JSON.stringify(essentialWidgetData));
-      
-      const firestore = checkFirebase();
-      await setDoc(
-        doc(firestore, 'users', userId, 'dashboard', 'widget-list'),
-        { widgets: sanitizedWidgets },
-        { merge: true }
-      );
+      const sanitizedWidgets: SyncedWidget[] = JSON.parse(JSON.stringify(essentialWidgetData));
+
+      return await writeOrQueue({ kind: 'widgets', widgets: sanitizedWidgets }, sanitizedWidgets, async () => {
+        const base = syncBase.getWidgets();
+        const mergedWidgets = await syncState.track(storageBackend.updateWidgets(stored =>
+          base && stored ? mergeWidgetLists(base, sanitizedWidgets, stored as SyncedWidget[]) : sanitizedWidgets
+        )) as SyncedWidget[];
+        syncBase.setWidgets(mergedWidgets);
+        return mergedWidgets;
+      });
     } catch (error) {
-      console.error('Error saving widgets to Firestore:', error);
+      console.error('Error saving widgets:', error);
       throw error;
     }
   },
@@ -213,16 +217,9 @@ export const userDashboardService = {
     if (!userId) return null;
     
     try {
-      const firestore = checkFirebase();
-      const docRef = doc(firestore, 'users', userId, 'dashboard', 'widget-list');
-      const docSnap = await getDoc(docRef);
-      
-      if (docSnap.exists()) {
-        return docSnap.data()?.widgets || null;
-      }
-      return null;
+      return await storageBackend.loadWidgets();
     } catch (error) {
-      console.error('Error loading widgets from Firestore:', error);
+      console.error('Error loading widgets:', error);
       throw error;
     }
   },
@@ -314,33 +311,42 @@ export const userDashboardService = {
     if (!userId) throw new Error('User not authenticated');
 
     try {
-      const firestore = checkFirebase();
-      await deleteDoc(doc(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs', widgetId));
+      await writeOrQueue({ kind: 'delete-config', widgetId }, undefined, () =>
+        storageBackend.deleteWidgetConfig(widgetId)
+      );
     } catch (error) {
-      console.error('Error deleting widget config from Firestore:', error);
+      console.error('Error deleting widget config:', error);
       throw error;
     }
   },
 
+  // Replay writes queued while offline, in order. Each write leaves the queue once
+  // it went through; replaying stops at the first one that doesn't.
+  replayQueuedWrites: async (): Promise<void> => {
+    if (!getCurrentUserId() || !navigator.onLine) return;
+    // Coming back online and signing in can both start a replay
+    if (!replayInProgress) {
+      replayInProgress = replayWrites().finally(() => {
+        replayInProgress = null;
+      });
+    }
+    return replayInProgress;
+  },
+
+
   // Migrate legacy layout data structure
   migrateLayoutDataStructure: async (): Promise<void> => {
     const userId = getCurrentUserId();
     if (!userId) throw new Error('User not authenticated');
     
     try {
-      const firestore = checkFirebase();
-      const docRef = doc(firestore, 'users', userId, 'dashboard', 'layouts');
-      const docSnap = await getDoc(docRef);
-      
-      if (docSnap.exists()) {
-        const data = docSnap.data();
-        
-        // Check if layouts are nested under 'layouts' property (old format)
-        if (data && 'layouts' in data && typeof data.layouts === 'object' && !Array.isArray(data.layouts)) {
-          // Save layouts directly without the wrapper
-          await setDoc(docRef, data.layouts, { merge: true });
-          console.warn('Migrated legacy layout structure to new format');
-        }
+      const data = await storageBackend.loadLayouts();
+
+      // Check if layouts are nested under 'layouts' property (old format)
+      if (data && 'layouts' in data && typeof data.layouts === 'object' && !Array.isArray(data.layouts)) {
+        // Save layouts directly without the wrapper
+        await storageBackend.saveLayouts(data.layouts as { [key: string]: LayoutItem[] });
+        console.warn('Migrated legacy layout structure to new format');
       }
     } catch (error) {
       console.error('Error migrating layout data structure:', error);
@@ -371,21 +377,21 @@ export const userDashboardService = {
       };
 
       // Migrate layouts
-      const storedLayouts = localStorage.getItem('boxento-layouts');
+      const storedLayouts = localStore.getItem(STORAGE_KEYS.LAYOUTS);
       const layouts = safeJSONParse<{ [key: string]: LayoutItem[] }>(storedLayouts);
       if (layouts) {
         await userDashboardService.saveLayouts(layouts);
       }
       
       // Migrate widgets
-      const storedWidgets = localStorage.getItem('boxento-widgets');
+      const storedWidgets = localStore.getItem(STORAGE_KEYS.WIDGETS);
       const widgets = safeJSONParse<Record<string, unknown>[]>(storedWidgets);
       if (widgets) {
         await userDashboardService.saveWidgets(widgets);
       }
       
       // Migrate widget configs
-      const storedConfigs = localStorage.getItem('boxento-widget-configs');
+      const storedConfigs = localStore.getItem(STORAGE_KEYS.WIDGET_CONFIGS);
       const configs = safeJSONParse<WidgetConfigStore>(storedConfigs);
       if (configs) {
         await userDashboardService.saveAllWidgetConfigs(configs);
@@ -454,14 +460,9 @@ export const userDashboardService = {
       // Sanitize the settings object to remove undefined values
       const sanitizedSettings = JSON.parse(JSON.stringify(settings));
       
-      const firestore = checkFirebase();
-      await setDoc(
-        doc(firestore, 'users', userId, 'dashboard', 'app-settings'),
-        { settings: sanitizedSettings },
-        { merge: true }
-      );
+      await storageBackend.saveAppSettings(sanitizedSettings);
     } catch (error) {
-      console.error('Error saving app settings to Firestore:', error);
+      console.error('Error saving app settings:', error);
       throw error;
     }
   },
@@ -472,26 +473,64 @@ export const userDashboardService = {
     if (!userId) return null;
 
     try {
-      const firestore = checkFirebase();
-      const docRef = doc(firestore, 'users', userId, 'dashboard', 'app-settings');
-      const docSnap = await getDoc(docRef);
-
-      if (docSnap.exists()) {
-        return docSnap.data()?.settings || null;
-      }
-      return null;
+      return await storageBackend.loadAppSettings();
     } catch (error) {
-      console.error('Error loading app settings from Firestore:', error);
+      console.error('Error loading app settings:', error);
       throw error;
     }
   }
 };
 
+/**
+ * Strip widgets down to metadata and keep only the configs of this dashboard's
+ * widgets and stack children, without the callbacks widgets receive at runtime and without secrets
+ */
+const sanitizeSharedContent = (
+  widgets: Widget[],
+  layouts: { [key: string]: LayoutItem[] },
+  widgetConfigs: WidgetConfigStore
+): Pick<PublicDashboardData, 'widgets' | 'layouts' | 'widgetConfigs' | 'redactedFields'> => {
+  // Don't include config here - we'll store separately
+  const sanitizedWidgets = widgets.map(w => ({ id: w.id, type: w.type }));
+
+  // Widget types by ID, including the children of stacks on this dashboard
+  const widgetTypes = new Map<string, string>();
+  widgets.forEach(widget => {
+    widgetTypes.set(widget.id, widget.type);
+    if (widget.type !== STACK_WIDGET_TYPE) return;
+    getStackChildren(widgetConfigs[widget.id] || widget.config).forEach(child => widgetTypes.set(child.id, child.type));
+  });
+
+  const sanitizedConfigs: WidgetConfigStore = {};
+  const redactedFields: { [widgetId: string]: string[] } = {};
+  for (const [widgetId, config] of Object.entries(widgetConfigs)) {
+    // Only include configs for widgets in this dashboard and their stack children
+    const widgetType = widgetTypes.get(widgetId);
+    if (widgetType) {
+      const cleanConfig = { ...config };
+      delete cleanConfig.onDelete;
+      delete cleanConfig.onUpdate;
+
+      // API keys and tokens never leave the device with a shared dashboard
+      const { config: redactedConfig, redacted } = redactSecrets(widgetType, cleanConfig);
+      sanitizedConfigs[widgetId] = redactedConfig;
+      if (redacted.length > 0) redactedFields[widgetId] = redacted;
+    }
+  }
+
+  return {
+    widgets: sanitizedWidgets as Widget[],
+    layouts: JSON.parse(JSON.stringify(layouts)), // Deep clone to sanitize
+    widgetConfigs: sanitizedConfigs,
+    redactedFields,
+  };
+};
+
 // Public/Shared dashboard service
 export const publicDashboardService = {
   /**
    * Save or update a public/team dashboard
-   * This stores the dashboard data in a public collection accessible without auth
+   * This stores the dashboard data where it is accessible without auth
    */
   saveDashboard: async (
     dashboardId: string,
@@ -511,46 +550,26 @@ export const publicDashboardService = {
     }
 
     try {
-      const firestore = checkFirebase();
-
-      // Prepare widget data (strip functions from configs)
-      const sanitizedWidgets = widgets.map(w => ({
-        id: w.id,
-        type: w.type,
-        // Don't include config here - we'll store separately
-      }));
-
-      // Sanitize configs
-      const sanitizedConfigs: WidgetConfigStore = {};
-      for (const [widgetId, config] of Object.entries(widgetConfigs)) {
-        // Only include configs for widgets in this dashboard
-        if (widgets.some(w => w.id === widgetId)) {
-          const cleanConfig = { ...config };
-          delete cleanConfig.onDelete;
-          delete cleanConfig.onUpdate;
-          sanitizedConfigs[widgetId] = cleanConfig;
-        }
-      }
-
+      const sharedWith = dashboard.sharedWith || [];
       const dashboardData: PublicDashboardData = {
         id: dashboardId,
         name: dashboard.name,
         visibility: dashboard.visibility,
-        sharedWith: dashboard.sharedWith || [],
+        sharedWith,
+        memberEmails: sharedWith.map(u => u.email.toLowerCase()),
+        editorEmails: sharedWith
+          .filter(u => u.role === 'editor')
+          .map(u => u.email.toLowerCase()),
         ownerId: userId,
-        ownerEmail: auth?.currentUser?.email || undefined,
+        ownerEmail: storageBackend.getUserEmail() || undefined,
         createdAt: dashboard.createdAt,
         updatedAt: new Date().toISOString(),
-        widgets: sanitizedWidgets as Widget[],
-        layouts: JSON.parse(JSON.stringify(layouts)), // Deep clone to sanitize
-        widgetConfigs: sanitizedConfigs,
+        updatedBy: userId,
+        ...sanitizeSharedContent(widgets, layouts, widgetConfigs),
       };
 
-      await setDoc(
-        doc(firestore, 'public-dashboards', dashboardId),
-        dashboardData,
-        { merge: true }
-      );
+      // Sanitize to remove undefined values
+      await storageBackend.savePublicDashboard(dashboardId, JSON.parse(JSON.stringify(dashboardData)));
 
       console.log('[PublicDashboardService] Saved dashboard:', dashboardId);
     } catch (error) {
@@ -560,20 +579,44 @@ export const publicDashboardService = {
   },
 
   /**
-   * Load a public dashboard by ID (no auth required)
+   * Save changes an editor made to a shared dashboard. Only widgets, layouts
+   * and configs are written - ownership, name and sharing are left untouched.
    */
-  loadDashboard: async (dashboardId: string): Promise<PublicDashboardData | null> => {
+  saveSharedContent: async (
+    dashboardId: string,
+    widgets: Widget[],
+    layouts: { [key: string]: LayoutItem[] },
+    widgetConfigs: WidgetConfigStore
+  ): Promise<void> => {
+    const userId = getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+
     try {
-      const firestore = checkFirebase();
-      const docRef = doc(firestore, 'public-dashboards', dashboardId);
-      const docSnap = await getDoc(docRef);
+      // Editors can't change which fields were redacted; their configs arrive without secrets
+      const { redactedFields: _redactedFields, ...sanitized } = sanitizeSharedContent(widgets, layouts, widgetConfigs);
+      const content = {
+        ...sanitized,
+        updatedAt: new Date().toISOString(),
+        updatedBy: userId,
+      };
+      await storageBackend.updatePublicDashboardContent(dashboardId, JSON.parse(JSON.stringify(content)));
+    } catch (error) {
+      console.error('Error saving shared dashboard changes:', error);
+      throw error;
+    }
+  },
 
-      if (docSnap.exists()) {
-        return docSnap.data() as PublicDashboardData;
-      }
-      return null;
+  /**
+   * Load a shared dashboard by ID. Public dashboards need no auth; team
+   * dashboards throw AccessDeniedError unless the user is the owner or in sharedWith.
+   */
+  loadDashboard: async (dashboardId: string): Promise<PublicDashboardData | null> => {
+    try {
+      return await storageBackend.loadPublicDashboard(dashboardId);
     } catch (error) {
-      console.error('Error loading public dashboard:', error);
+      if (!(error instanceof AccessDeniedError)) {
+        console.error('Error loading public dashboard:', error);
+      }
       throw error;
     }
   },
@@ -583,8 +626,7 @@ export const publicDashboardService = {
    */
   deleteDashboard: async (dashboardId: string): Promise<void> => {
     try {
-      const firestore = checkFirebase();
-      await deleteDoc(doc(firestore, 'public-dashboards', dashboardId));
+      await storageBackend.deletePublicDashboard(dashboardId);
       console.log('[PublicDashboardService] Deleted dashboard:', dashboardId);
     } catch (error) {
       // Ignore errors if document doesn't exist
@@ -593,19 +635,46 @@ export const publicDashboardService = {
   },
 
   /**
-   * Check if user has access to a dashboard
+   * Ask the owner of a team dashboard for access as the current user
    */
-  hasAccess: (dashboard: PublicDashboardData, userEmail?: string | null): boolean => {
-    // Public dashboards are accessible to everyone
-    if (dashboard.visibility === 'public') {
-      return true;
-    }
+  requestAccess: async (dashboardId: string): Promise<void> => {
+    const userId = getCurrentUserId();
+    const email = storageBackend.getUserEmail();
+    if (!userId || !email) throw new Error('User not authenticated');
+
+    await storageBackend.requestDashboardAccess(dashboardId, {
+      userId,
+      email: email.toLowerCase(),
+      requestedAt: new Date().toISOString(),
+    });
+  },
 
-    // Team dashboards require email to be in sharedWith list
-    if (dashboard.visibility === 'team' && userEmail) {
-      return dashboard.sharedWith.some(u => u.email.toLowerCase() === userEmail.toLowerCase());
+  /**
+   * List pending access requests for a dashboard (owner only)
+   */
+  listAccessRequests: async (dashboardId: string): Promise<DashboardAccessRequest[]> => {
+    const requests = await storageBackend.listAccessRequests(dashboardId);
+    return requests.sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+  },
+
+  /**
+   * Remove an access request once it has been approved or dismissed
+   */
+  deleteAccessRequest: async (dashboardId: string, userId: string): Promise<void> => {
+    await storageBackend.deleteAccessRequest(dashboardId, userId);
+  },
+
+  /**
+   * Check if user is shared with the editor role, which allows changing the
+   * dashboard's widgets, layouts and configs from the share link
+   */
+  isEditor: (dashboard: PublicDashboardData, userEmail?: string | null): boolean => {
+    if (!userEmail) {
+      return false;
     }
 
-    return false;
+    return dashboard.sharedWith.some(
+      u => u.role === 'editor' && u.email.toLowerCase() === userEmail.toLowerCase()
+    );
   }
-}; 
\ No newline at end of file
+};
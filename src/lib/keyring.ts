@@ -0,0 +1,466 @@
+/**
+ * Passphrase encryption
+ *
+ * By default secrets in widget configs are encrypted with a key derived from
+ * the user ID (see encryption.ts), which anyone who can read the stored data
+ * knows as well. In passphrase mode they are encrypted with a random data key
+ * instead. The data key is kept in the keyring next to the user's dashboards,
+ * wrapped twice: with a key derived from the user's passphrase, so any of
+ * their devices can unlock it, and with a random recovery key the user keeps
+ * somewhere safe in case they forget the passphrase. Neither the passphrase
+ * nor the recovery key leaves the browser.
+ *
+ * Rotating re-encrypts every secret in the widget configs and this device's
+ * shared credentials with a new data key. Until that is done the old key stays
+ * in the keyring, wrapped with the new one, so an interrupted rotation is
+ * finished on the next unlock.
+ */
+
+import { addDataKey, removeDataKey, setActiveDataKey } from './encryption';
+import { configManager } from './configManager';
+import { sharedCredentialsManager } from './sharedCredentials';
+import { snapshotService } from './dashboardSnapshots';
+import { storageBackend, EncryptionKeyring, WrappedKey } from './storage';
+import { STORAGE_KEYS } from './constants';
+
+/**
+ * - 'off': secrets use the default key
+ * - 'locked': passphrase mode is on, but the data key isn't unlocked on this device
+ * - 'unlocked': secrets can be read and written
+ */
+export type KeyringStatus = 'off' | 'locked' | 'unlocked';
+
+export interface KeyringSnapshot {
+  status: KeyringStatus;
+  /** Whether the data key is remembered on this device, so it unlocks without the passphrase */
+  isRemembered: boolean;
+}
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+let keyringData: EncryptionKeyring | null = null;
+// The unlocked data key, kept to wrap it again when the passphrase or recovery key changes
+let dataKeyBytes: Uint8Array | null = null;
+let state: KeyringSnapshot = { status: 'off', isRemembered: false };
+const listeners = new Set<() => void>();
+
+const setState = (update: Partial<KeyringSnapshot>): void => {
+  state = { ...state, ...update };
+  listeners.forEach(listener => listener());
+};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const importAesKey = (bytes: Uint8Array): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+const wrapKey = async (keyBytes: Uint8Array, wrappingKey: CryptoKey): Promise<WrappedKey> => {
+  const iv = randomBytes(IV_LENGTH);
+  const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, keyBytes);
+  return { iv: toBase64(iv), key: toBase64(new Uint8Array(wrapped)) };
+};
+
+/**
+ * Unwrap a key. AES-GCM authenticates, so a wrong wrapping key fails here
+ * rather than producing a wrong data key.
+ */
+const unwrapKey = async (wrapped: WrappedKey, wrappingKey: CryptoKey): Promise<Uint8Array> => {
+  const keyBytes = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+    wrappingKey,
+    fromBase64(wrapped.key)
+  );
+  return new Uint8Array(keyBytes);
+};
+
+const derivePassphraseKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const passphraseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    passphraseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const wrapWithPassphrase = async (keyBytes: Uint8Array, passphrase: string): Promise<EncryptionKeyring['passphrase']> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = randomBytes(SALT_LENGTH);
+  const wrappingKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return { ...await wrapKey(keyBytes, wrappingKey), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+const unwrapWithPassphrase = async (keyring: EncryptionKeyring, passphrase: string): Promise<Uint8Array> => {
+  const { salt, iterations } = keyring.passphrase;
+  const wrappingKey = await derivePassphraseKey(passphrase, fromBase64(salt), iterations);
+  try {
+    return await unwrapKey(keyring.passphrase, wrappingKey);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+};
+
+/**
+ * Recovery keys are shown as 16 groups of 4 hex digits
+ */
+const formatRecoveryKey = (keyBytes: Uint8Array): string =>
+  toHex(keyBytes).toUpperCase().match(/.{4}/g)!.join('-');
+
+const parseRecoveryKey = (recoveryKey: string): Uint8Array => {
+  const hex = recoveryKey.replace(/[\s-]/g, '').toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(hex)) throw new Error('A recovery key has 64 characters (0-9, A-F)');
+  return Uint8Array.from(hex.match(/.{2}/g)!, pair => parseInt(pair, 16));
+};
+
+const getStorageKey = (prefix: string): string | null => {
+  const userId = storageBackend.getUserId();
+  return userId ? `${prefix}-${userId}` : null;
+};
+
+interface RememberedKey {
+  keyId: string;
+  key: string;
+}
+
+const readRememberedKey = (): RememberedKey | null => {
+  const storageKey = getStorageKey(STORAGE_KEYS.DATA_KEY);
+  const stored = storageKey ? localStorage.getItem(storageKey) : null;
+  if (!stored) return null;
+  try {
+    const remembered = JSON.parse(stored) as RememberedKey | null;
+    return typeof remembered?.keyId === 'string' && typeof remembered.key === 'string' ? remembered : null;
+  } catch {
+    return null;
+  }
+};
+
+const setRememberedKey = (remembered: RememberedKey | null): void => {
+  const storageKey = getStorageKey(STORAGE_KEYS.DATA_KEY);
+  if (!storageKey) return;
+  if (remembered) {
+    localStorage.setItem(storageKey, JSON.stringify(remembered));
+  } else {
+    localStorage.removeItem(storageKey);
+  }
+};
+
+/**
+ * Store the keyring, keeping a copy on this device so it can be unlocked offline
+ */
+const saveKeyring = async (keyring: EncryptionKeyring): Promise<void> => {
+  await storageBackend.saveKeyring(keyring);
+  keyringData = keyring;
+  const storageKey = getStorageKey(STORAGE_KEYS.KEYRING);
+  if (storageKey) localStorage.setItem(storageKey, JSON.stringify(keyring));
+};
+
+/**
+ * The copy of the keyring kept on this device, or null when there is none or it's unreadable
+ */
+const loadCachedKeyring = (): EncryptionKeyring | null => {
+  const storageKey = getStorageKey(STORAGE_KEYS.KEYRING);
+  const stored = storageKey ? localStorage.getItem(storageKey) : null;
+  if (!stored) return null;
+  try {
+    const keyring = JSON.parse(stored) as EncryptionKeyring | null;
+    return typeof keyring?.keyId === 'string' ? keyring : null;
+  } catch (error) {
+    console.error('Error reading the cached encryption keyring:', error);
+    return null;
+  }
+};
+
+const forgetKeys = (): void => {
+  removeDataKey();
+  dataKeyBytes = null;
+};
+
+/**
+ * Make the data key, and any keys still being rotated out, available to encryption.ts
+ */
+const applyDataKey = async (keyBytes: Uint8Array, remember: boolean): Promise<void> => {
+  if (!keyringData) throw new Error('Passphrase encryption is off');
+  const dataKey = await importAesKey(keyBytes);
+
+  forgetKeys();
+  addDataKey(keyringData.keyId, dataKey);
+  for (const retired of keyringData.retiredKeys ?? []) {
+    addDataKey(retired.keyId, await importAesKey(await unwrapKey(retired, dataKey)));
+  }
+  setActiveDataKey(keyringData.keyId);
+  dataKeyBytes = keyBytes;
+
+  setRememberedKey(remember ? { keyId: keyringData.keyId, key: toBase64(keyBytes) } : null);
+  setState({ status: 'unlocked', isRemembered: remember });
+};
+
+const requireUnlocked = (): { keyring: EncryptionKeyring; keyBytes: Uint8Array } => {
+  if (!keyringData || !dataKeyBytes) throw new Error('Unlock passphrase encryption first');
+  return { keyring: keyringData, keyBytes: dataKeyBytes };
+};
+
+/**
+ * Encrypt every copy of a secret with the current key: widget configs, including
+ * queued writes, shared credentials and snapshots
+ *
+ * @returns Number of secrets that couldn't be decrypted and were left as they were
+ */
+const reencryptAll = async (): Promise<number> =>
+  await configManager.reencryptSecrets() +
+  await sharedCredentialsManager.reencryptAll() +
+  await snapshotService.reencryptSecrets();
+
+/**
+ * Re-encrypt every secret with the current key, then drop the keys rotated out
+ *
+ * @returns Number of secrets that couldn't be decrypted and were left as they were
+ */
+const finishReencryption = async (): Promise<number> => {
+  const failed = await reencryptAll();
+
+  const { keyring } = requireUnlocked();
+  const { retiredKeys, reencrypting: _reencrypting, ...rest } = keyring;
+  await saveKeyring({ ...rest, updatedAt: new Date().toISOString() });
+  retiredKeys?.forEach(retired => removeDataKey(retired.keyId));
+  return failed;
+};
+
+export const keyring = {
+  getSnapshot: (): KeyringSnapshot => state,
+
+  subscribe: (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Load the signed in user's keyring. Call before their widget configs are
+   * decrypted. Uses the data key remembered on this device, if any.
+   */
+  load: async (): Promise<void> => {
+    try {
+      keyringData = await storageBackend.loadKeyring();
+      const storageKey = getStorageKey(STORAGE_KEYS.KEYRING);
+      if (storageKey) {
+        if (keyringData) {
+          localStorage.setItem(storageKey, JSON.stringify(keyringData));
+        } else {
+          localStorage.removeItem(storageKey);
+        }
+      }
+    } catch (error) {
+      // Offline: the copy from the last load still says whether passphrase mode is on
+      console.error('Error loading encryption keyring:', error);
+      keyringData = loadCachedKeyring();
+    }
+
+    forgetKeys();
+    if (!keyringData) {
+      setActiveDataKey(null);
+      setRememberedKey(null);
+      setState({ status: 'off', isRemembered: false });
+      return;
+    }
+
+    // Saving secrets fails until the key is unlocked, rather than falling back to the weaker key
+    setActiveDataKey(keyringData.keyId);
+    const remembered = readRememberedKey();
+    if (remembered?.keyId === keyringData.keyId) {
+      await applyDataKey(fromBase64(remembered.key), true);
+      if (keyringData.reencrypting) void finishReencryption().catch(error => console.error('Error finishing key rotation:', error));
+    } else {
+      // The key was rotated on another device
+      setRememberedKey(null);
+      setState({ status: 'locked', isRemembered: false });
+    }
+  },
+
+  /**
+   * Forget the keyring after signing out
+   */
+  reset: (): void => {
+    keyringData = null;
+    forgetKeys();
+    setActiveDataKey(null);
+    setState({ status: 'off', isRemembered: false });
+  },
+
+  /**
+   * Unlock the data key on this device
+   *
+   * @param passphrase - The user's passphrase
+   * @param remember - Keep the key on this device so it unlocks by itself next time
+   */
+  unlock: async (passphrase: string, remember: boolean): Promise<void> => {
+    if (!keyringData) throw new Error('Passphrase encryption is off');
+    await applyDataKey(await unwrapWithPassphrase(keyringData, passphrase), remember);
+    if (keyringData.reencrypting) await finishReencryption();
+  },
+
+  /**
+   * Unlock with the recovery key and set a new passphrase
+   */
+  unlockWithRecoveryKey: async (recoveryKey: string, newPassphrase: string, remember: boolean): Promise<void> => {
+    if (!keyringData) throw new Error('Passphrase encryption is off');
+    const recoveryKeyBytes = parseRecoveryKey(recoveryKey);
+    let keyBytes: Uint8Array;
+    try {
+      keyBytes = await unwrapKey(keyringData.recovery, await importAesKey(recoveryKeyBytes));
+    } catch {
+      throw new Error('Wrong recovery key');
+    }
+
+    await saveKeyring({
+      ...keyringData,
+      passphrase: await wrapWithPassphrase(keyBytes, newPassphrase),
+      updatedAt: new Date().toISOString(),
+    });
+    await applyDataKey(keyBytes, remember);
+    if (keyringData.reencrypting) await finishReencryption();
+  },
+
+  /**
+   * Forget the data key on this device; secrets stay encrypted until it is unlocked again
+   */
+  lock: (): void => {
+    if (!keyringData) return;
+    forgetKeys();
+    setRememberedKey(null);
+    setState({ status: 'locked', isRemembered: false });
+  },
+
+  /**
+   * Turn passphrase mode on and encrypt every secret with the new data key
+   *
+   * @returns The recovery key to show the user, and the number of secrets that couldn't be re-encrypted
+   */
+  enable: async (passphrase: string, remember: boolean): Promise<{ recoveryKey: string; failed: number }> => {
+    if (!storageBackend.isAuthenticated()) throw new Error('Sign in to use passphrase encryption');
+    if (keyringData) throw new Error('Passphrase encryption is already on');
+
+    const keyBytes = randomBytes(KEY_LENGTH);
+    const recoveryKeyBytes = randomBytes(KEY_LENGTH);
+    const now = new Date().toISOString();
+    await saveKeyring({
+      version: 1,
+      keyId: toHex(randomBytes(8)),
+      passphrase: await wrapWithPassphrase(keyBytes, passphrase),
+      recovery: await wrapKey(keyBytes, await importAesKey(recoveryKeyBytes)),
+      reencrypting: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await applyDataKey(keyBytes, remember);
+
+    const failed = await finishReencryption();
+    return { recoveryKey: formatRecoveryKey(recoveryKeyBytes), failed };
+  },
+
+  /**
+   * Change the passphrase. The data key stays the same, so nothing is re-encrypted.
+   */
+  changePassphrase: async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+    if (!keyringData) throw new Error('Passphrase encryption is off');
+    const keyBytes = await unwrapWithPassphrase(keyringData, currentPassphrase);
+    await saveKeyring({
+      ...keyringData,
+      passphrase: await wrapWithPassphrase(keyBytes, newPassphrase),
+      updatedAt: new Date().toISOString(),
+    });
+  },
+
+  /**
+   * Replace the recovery key; the old one stops working
+   *
+   * @returns The new recovery key
+   */
+  newRecoveryKey: async (passphrase: string): Promise<string> => {
+    if (!keyringData) throw new Error('Passphrase encryption is off');
+    const keyBytes = await unwrapWithPassphrase(keyringData, passphrase);
+    const recoveryKeyBytes = randomBytes(KEY_LENGTH);
+    await saveKeyring({
+      ...keyringData,
+      recovery: await wrapKey(keyBytes, await importAesKey(recoveryKeyBytes)),
+      updatedAt: new Date().toISOString(),
+    });
+    return formatRecoveryKey(recoveryKeyBytes);
+  },
+
+  /**
+   * Encrypt every secret with a new data key. The recovery key is replaced too,
+   * since it unwraps the old data key.
+   *
+   * @returns The new recovery key, and the number of secrets that couldn't be re-encrypted
+   */
+  rotate: async (passphrase: string): Promise<{ recoveryKey: string; failed: number }> => {
+    requireUnlocked();
+    // Finish an interrupted rotation first, so at most one old key is in the keyring
+    if (keyringData?.reencrypting) await finishReencryption();
+
+    const { keyring: current } = requireUnlocked();
+    const oldKeyBytes = await unwrapWithPassphrase(current, passphrase);
+    const keyBytes = randomBytes(KEY_LENGTH);
+    const recoveryKeyBytes = randomBytes(KEY_LENGTH);
+    const dataKey = await importAesKey(keyBytes);
+
+    await saveKeyring({
+      ...current,
+      keyId: toHex(randomBytes(8)),
+      passphrase: await wrapWithPassphrase(keyBytes, passphrase),
+      recovery: await wrapKey(keyBytes, await importAesKey(recoveryKeyBytes)),
+      retiredKeys: [{ ...await wrapKey(oldKeyBytes, dataKey), keyId: current.keyId }],
+      reencrypting: true,
+      updatedAt: new Date().toISOString(),
+    });
+    await applyDataKey(keyBytes, state.isRemembered);
+
+    const failed = await finishReencryption();
+    return { recoveryKey: formatRecoveryKey(recoveryKeyBytes), failed };
+  },
+
+  /**
+   * Turn passphrase mode off: secrets go back to the default key and the keyring is deleted
+   *
+   * @returns Number of secrets that couldn't be re-encrypted
+   */
+  disable: async (passphrase: string): Promise<number> => {
+    const { keyring: current } = requireUnlocked();
+    await unwrapWithPassphrase(current, passphrase);
+
+    // All keys stay available for decrypting while secrets are re-encrypted
+    setActiveDataKey(null);
+    let failed: number;
+    try {
+      failed = await reencryptAll();
+    } catch (error) {
+      setActiveDataKey(current.keyId);
+      throw error;
+    }
+
+    await storageBackend.deleteKeyring();
+    const storageKey = getStorageKey(STORAGE_KEYS.KEYRING);
+    if (storageKey) localStorage.removeItem(storageKey);
+    setRememberedKey(null);
+    keyringData = null;
+    forgetKeys();
+    setState({ status: 'off', isRemembered: false });
+    return failed;
+  },
+};
@@ -0,0 +1,88 @@
+import { STORAGE_KEYS } from './constants';
+
+/**
+ * Kiosk mode: a hands-off wall display. The dashboard is read-only, the header and
+ * editing controls are hidden, dashboards rotate on a timer and data reloads on a schedule.
+ *
+ * Whether a device is a kiosk is stored per device, so turning it on for a hallway TV
+ * doesn't affect other devices. What the kiosk shows is part of the synced app settings.
+ * Both can be overridden with URL parameters:
+ *
+ * - `?kiosk` or `?kiosk=1` turns kiosk mode on for this page load, `?kiosk=0` off
+ * - `&dashboards=personal,dashboard-123` dashboards to rotate through, by ID
+ * - `&rotate=60` seconds per dashboard
+ * - `&refresh=15` minutes between data reloads
+ */
+
+export interface KioskSettings {
+  /** Dashboards to rotate through, in order. Empty shows the current dashboard only. */
+  dashboardIds: string[];
+  /** Seconds each dashboard is shown (0 disables rotation) */
+  rotateSeconds: number;
+  /** Minutes between data reloads (0 disables reloading) */
+  refreshMinutes: number;
+}
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = {
+  dashboardIds: [],
+  rotateSeconds: 60,
+  refreshMinutes: 15,
+};
+
+const listeners = new Set<() => void>();
+
+export const kioskDevice = {
+  /**
+   * Whether this device starts in kiosk mode
+   */
+  isEnabled: (): boolean => localStorage.getItem(STORAGE_KEYS.KIOSK_MODE) === 'true',
+
+  setEnabled: (enabled: boolean): void => {
+    if (enabled) {
+      localStorage.setItem(STORAGE_KEYS.KIOSK_MODE, 'true');
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.KIOSK_MODE);
+    }
+    listeners.forEach(listener => listener());
+  },
+
+  subscribe: (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+const parseNonNegative = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * Kiosk options given in the page URL
+ *
+ * @param search - The URL's query string, e.g. `window.location.search`
+ */
+export const getKioskUrlOverrides = (search: string): { enabled?: boolean } & Partial<KioskSettings> => {
+  const params = new URLSearchParams(search);
+  const overrides: { enabled?: boolean } & Partial<KioskSettings> = {};
+
+  if (params.has('kiosk')) {
+    overrides.enabled = !['0', 'false', 'off'].includes(params.get('kiosk') || '');
+  }
+
+  const dashboards = params.get('dashboards');
+  if (dashboards) {
+    overrides.dashboardIds = dashboards.split(',').map(id => id.trim()).filter(Boolean);
+  }
+
+  const rotateSeconds = parseNonNegative(params.get('rotate'));
+  if (rotateSeconds !== undefined) overrides.rotateSeconds = rotateSeconds;
+
+  const refreshMinutes = parseNonNegative(params.get('refresh'));
+  if (refreshMinutes !== undefined) overrides.refreshMinutes = refreshMinutes;
+
+  return overrides;
+};
@@ -160,3 +160,126 @@ export const createDefaultLayoutItem = (
     };
   }
 };
+
+/**
+ * Whether two different layout items overlap
+ */
+const collides = (a: LayoutItem, b: LayoutItem): boolean =>
+  a.i !== b.i && a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+
+/**
+ * Push items that overlap `item` down below it, cascading to the items they then overlap
+ */
+const pushCollisionsDown = (layout: LayoutItem[], item: LayoutItem): void => {
+  layout
+    .filter(other => !other.static && collides(item, other))
+    .sort((a, b) => a.y - b.y)
+    .forEach(other => {
+      other.y = item.y + item.h;
+      pushCollisionsDown(layout, other);
+    });
+};
+
+/**
+ * Compact a layout vertically the way the grid does: pinned (static) items stay put,
+ * every other item moves up as far as it can without overlapping.
+ *
+ * @returns A new layout in the same item order
+ */
+export const compactLayout = (layout: LayoutItem[]): LayoutItem[] => {
+  const placed: LayoutItem[] = layout.filter(item => item.static).map(item => ({ ...item }));
+
+  [...layout]
+    .filter(item => !item.static)
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .forEach(original => {
+      const item = { ...original };
+      while (item.y > 0 && !placed.some(other => collides(other, { ...item, y: item.y - 1 }))) {
+        item.y--;
+      }
+      let collider = placed.find(other => collides(other, item));
+      while (collider) {
+        item.y = collider.y + collider.h;
+        collider = placed.find(other => collides(other, item));
+      }
+      placed.push(item);
+    });
+
+  return layout.map(original => placed.find(item => item.i === original.i) || original);
+};
+
+/**
+ * Move a layout item one step, as dragging it with the mouse would.
+ * Moving up or down swaps it with the nearest item above or below that shares a column.
+ *
+ * @param layout - Layout of the current breakpoint
+ * @param itemId - Item to move
+ * @param direction - Direction to move in
+ * @param colCount - Column count of the current breakpoint
+ * @returns The compacted layout, or null if the item can't move that way
+ */
+export const moveLayoutItem = (
+  layout: LayoutItem[],
+  itemId: string,
+  direction: 'left' | 'right' | 'up' | 'down',
+  colCount: number
+): LayoutItem[] | null => {
+  const next = layout.map(item => ({ ...item }));
+  const item = next.find(candidate => candidate.i === itemId);
+  if (!item || item.static) return null;
+
+  if (direction === 'left' || direction === 'right') {
+    const x = Math.min(Math.max(item.x + (direction === 'left' ? -1 : 1), 0), colCount - item.w);
+    if (x === item.x) return null;
+    item.x = x;
+  } else {
+    const sharesColumn = (other: LayoutItem) =>
+      other.i !== item.i && !other.static && other.x < item.x + item.w && other.x + other.w > item.x;
+    const neighbour = next
+      .filter(other => sharesColumn(other) && (direction === 'up' ? other.y < item.y : other.y > item.y))
+      .sort((a, b) => (direction === 'up' ? b.y - a.y : a.y - b.y))[0];
+    if (!neighbour) return null;
+
+    if (direction === 'up') {
+      item.y = neighbour.y;
+      neighbour.y = item.y + item.h;
+    } else {
+      neighbour.y = item.y;
+      item.y = neighbour.y + neighbour.h;
+    }
+  }
+
+  pushCollisionsDown(next, item);
+  return compactLayout(next);
+};
+
+/**
+ * Grow or shrink a layout item by one cell, within its size limits and the grid width
+ *
+ * @param layout - Layout of the current breakpoint
+ * @param itemId - Item to resize
+ * @param dw - Change in width (-1, 0 or 1)
+ * @param dh - Change in height (-1, 0 or 1)
+ * @param colCount - Column count of the current breakpoint
+ * @returns The compacted layout, or null if the item can't be resized that way
+ */
+export const resizeLayoutItem = (
+  layout: LayoutItem[],
+  itemId: string,
+  dw: number,
+  dh: number,
+  colCount: number
+): LayoutItem[] | null => {
+  const next = layout.map(item => ({ ...item }));
+  const item = next.find(candidate => candidate.i === itemId);
+  if (!item || item.static) return null;
+
+  const w = Math.min(Math.max(item.w + dw, item.minW ?? 1), item.maxW ?? Infinity, colCount - item.x);
+  const h = Math.min(Math.max(item.h + dh, item.minH ?? 1), item.maxH ?? Infinity);
+  if (w === item.w && h === item.h) return null;
+
+  item.w = w;
+  item.h = h;
+  pushCollisionsDown(next, item);
+  return compactLayout(next);
+};
@@ -0,0 +1,223 @@
+/**
+ * Local store for dashboard data
+ *
+ * Widgets, layouts and widget configs used to be JSON in localStorage, where a
+ * big data grid or a long note runs into the quota and every write blocks the
+ * main thread. They live in IndexedDB instead. The store is read into memory
+ * once before the app renders, so reads stay synchronous; writes update memory
+ * right away and are batched into IndexedDB in the background.
+ *
+ * Keys are the localStorage keys they replace. Those are moved over from
+ * localStorage the first time the store opens. Without IndexedDB (some private
+ * browsing modes) the store falls back to localStorage.
+ */
+
+import { STORAGE_KEYS } from './constants';
+
+const DB_NAME = 'boxento';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+
+// Tabs tell each other about writes so their in-memory copies stay current
+const CHANNEL_NAME = 'boxento-local-store';
+
+/**
+ * Whether a key belongs in the local store rather than localStorage
+ */
+const isStoreKey = (key: string): boolean =>
+  key === STORAGE_KEYS.WIDGET_CONFIGS ||
+  key.startsWith(STORAGE_KEYS.WIDGETS) ||
+  key.startsWith(STORAGE_KEYS.LAYOUTS) ||
+  key.startsWith(STORAGE_KEYS.WRITE_QUEUE);
+
+const cache = new Map<string, string>();
+// Writes not yet in IndexedDB; null deletes the key
+const pendingWrites = new Map<string, string | null>();
+let db: IDBDatabase | null = null;
+let channel: BroadcastChannel | null = null;
+let flushScheduled = false;
+let initPromise: Promise<void> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+
+// Delay before retrying writes IndexedDB didn't commit, e.g. over quota
+const RETRY_DELAY_MS = 5000;
+
+const flush = (): void => {
+  flushScheduled = false;
+  if (!db || pendingWrites.size === 0) return;
+
+  const writes = [...pendingWrites];
+  pendingWrites.clear();
+
+  // Put the batch back if it didn't commit, unless a key was written again since
+  const requeue = (error: unknown) => {
+    console.error('Error writing to IndexedDB, retrying:', error);
+    writes.forEach(([key, value]) => {
+      if (!pendingWrites.has(key) && (cache.get(key) ?? null) === value) pendingWrites.set(key, value);
+    });
+    scheduleFlush(RETRY_DELAY_MS);
+  };
+
+  try {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    writes.forEach(([key, value]) => {
+      if (value === null) {
+        store.delete(key);
+      } else {
+        store.put(value, key);
+      }
+    });
+    // A failed write aborts the whole transaction
+    transaction.onabort = () => requeue(transaction.error);
+  } catch (error) {
+    requeue(error);
+  }
+};
+
+const scheduleFlush = (delay = 0): void => {
+  if (flushScheduled) return;
+  flushScheduled = true;
+  setTimeout(flush, delay);
+};
+
+const write = (key: string, value: string | null): void => {
+  if (value === null) {
+    cache.delete(key);
+  } else {
+    cache.set(key, value);
+  }
+
+  if (!db) {
+    // No IndexedDB - keep using localStorage
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+    return;
+  }
+
+  channel?.postMessage({ key, value });
+  pendingWrites.set(key, value);
+  scheduleFlush();
+};
+
+/**
+ * Copy the store's keys out of localStorage, then drop them there
+ */
+const migrateFromLocalStorage = async (database: IDBDatabase): Promise<void> => {
+  const keys = Object.keys(localStorage).filter(isStoreKey);
+  if (keys.length === 0) return;
+
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  keys.forEach(key => {
+    const value = localStorage.getItem(key);
+    // Anything in localStorage was written after IndexedDB last had the key:
+    // before this migration, or while IndexedDB couldn't be opened
+    if (value !== null) {
+      store.put(value, key);
+      cache.set(key, value);
+    }
+  });
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  keys.forEach(key => localStorage.removeItem(key));
+  console.warn(`Moved ${keys.length} dashboard entries from localStorage to IndexedDB`);
+};
+
+const loadStore = async (): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+
+  try {
+    const database = await openDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll()),
+    ]);
+    keys.forEach((key, index) => cache.set(String(key), values[index] as string));
+
+    await migrateFromLocalStorage(database);
+    db = database;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(CHANNEL_NAME);
+      channel.onmessage = (event: MessageEvent<{ key: string; value: string | null }>) => {
+        const { key, value } = event.data;
+        if (value === null) {
+          cache.delete(key);
+        } else {
+          cache.set(key, value);
+        }
+      };
+    }
+
+    // Get batched writes out before the page goes away
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flush();
+    });
+    window.addEventListener('pagehide', flush);
+  } catch (error) {
+    console.error('IndexedDB unavailable, keeping dashboard data in localStorage:', error);
+    cache.clear();
+  }
+};
+
+/**
+ * Drop-in replacement for localStorage for the dashboard data keys. Other keys
+ * are passed through to localStorage.
+ */
+export const localStore = {
+  /**
+   * Open the store and load it into memory. Must finish before the first read.
+   */
+  init: (): Promise<void> => {
+    if (!initPromise) initPromise = loadStore();
+    return initPromise;
+  },
+
+  getItem: (key: string): string | null => {
+    if (!db || !isStoreKey(key)) return localStorage.getItem(key);
+    return cache.get(key) ?? null;
+  },
+
+  setItem: (key: string, value: string): void => {
+    if (!isStoreKey(key)) {
+      localStorage.setItem(key, value);
+      return;
+    }
+    write(key, value);
+  },
+
+  removeItem: (key: string): void => {
+    if (!isStoreKey(key)) {
+      localStorage.removeItem(key);
+      return;
+    }
+    write(key, null);
+  },
+};
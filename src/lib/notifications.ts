@@ -0,0 +1,262 @@
+import { toast } from 'sonner';
+import { STORAGE_KEYS } from './constants';
+
+/**
+ * Widget alerts: a site going down, a container stopping, a countdown or
+ * Pomodoro session ending. Widgets raise them with `notificationService.notify`.
+ *
+ * Every alert goes into the alert center's history. While the dashboard is in
+ * front of the user it is shown as a toast; otherwise as a browser notification,
+ * when those are turned on and permitted. Alerts from muted widgets and alerts
+ * during quiet hours are only recorded. An alert another tab raised moments
+ * before is dropped, so each one is recorded and shown once.
+ *
+ * The settings are part of the synced app settings. The history is kept per device.
+ */
+
+export type AlertSeverity = 'info' | 'success' | 'warning' | 'error';
+
+export interface MutedWidget {
+  widgetId: string;
+  /** Widget title when it was muted, shown in the settings */
+  label: string;
+}
+
+export interface NotificationSettings {
+  /** Show alerts as browser notifications while the dashboard isn't in front */
+  browserNotifications: boolean;
+  /** Widgets whose alerts are only recorded */
+  mutedWidgets: MutedWidget[];
+  quietHours: {
+    enabled: boolean;
+    /** Local time as HH:MM */
+    start: string;
+    /** Local time as HH:MM; before start means the next day */
+    end: string;
+  };
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  browserNotifications: false,
+  mutedWidgets: [],
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+};
+
+export interface AlertInput {
+  /** Widget raising the alert, used for muting */
+  widgetId?: string;
+  /** Where the alert comes from, usually the widget title */
+  source: string;
+  title: string;
+  body?: string;
+  severity?: AlertSeverity;
+  /** Play the bell sound along with the alert */
+  sound?: boolean;
+}
+
+export interface WidgetAlert extends Omit<AlertInput, 'sound'> {
+  id: string;
+  severity: AlertSeverity;
+  createdAt: string;
+  read: boolean;
+  /** Only recorded, because the widget was muted or during quiet hours */
+  silenced?: boolean;
+}
+
+// Alerts kept in the history before the oldest are dropped
+const MAX_ALERTS = 100;
+// Every open tab runs the widgets, so each raises the same alert; the first one wins
+const DUPLICATE_WINDOW_MS = 10 * 1000;
+
+const listeners = new Set<() => void>();
+let settings: NotificationSettings = DEFAULT_NOTIFICATION_SETTINGS;
+let alerts: WidgetAlert[] | null = null;
+
+const loadAlerts = (): WidgetAlert[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.ALERTS);
+    return stored ? JSON.parse(stored) as WidgetAlert[] : [];
+  } catch (error) {
+    console.error('Error loading alert history:', error);
+    return [];
+  }
+};
+
+const getAlerts = (): WidgetAlert[] => {
+  if (!alerts) alerts = loadAlerts();
+  return alerts;
+};
+
+const setAlerts = (next: WidgetAlert[]): void => {
+  alerts = next.slice(0, MAX_ALERTS);
+  try {
+    localStorage.setItem(STORAGE_KEYS.ALERTS, JSON.stringify(alerts));
+  } catch (error) {
+    console.error('Error saving alert history:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Keep the history current when another tab records an alert
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== STORAGE_KEYS.ALERTS) return;
+    alerts = null;
+    listeners.forEach(listener => listener());
+  });
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Whether a moment falls within the quiet hours, which may run past midnight
+ */
+export const isQuietTime = (quietHours: NotificationSettings['quietHours'], date = new Date()): boolean => {
+  if (!quietHours.enabled) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+const isSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+const showToast = (alert: WidgetAlert): void => {
+  const options = { description: alert.body ? `${alert.source}: ${alert.body}` : alert.source };
+  switch (alert.severity) {
+    case 'error':
+      toast.error(alert.title, options);
+      break;
+    case 'warning':
+      toast.warning(alert.title, options);
+      break;
+    case 'success':
+      toast.success(alert.title, options);
+      break;
+    default:
+      toast(alert.title, options);
+  }
+};
+
+const showBrowserNotification = (alert: WidgetAlert): boolean => {
+  if (!settings.browserNotifications || !isSupported() || Notification.permission !== 'granted') return false;
+  try {
+    const notification = new Notification(alert.title, {
+      body: alert.body ? `${alert.source}: ${alert.body}` : alert.source,
+      icon: '/icons/icon-192x192.png',
+      // Another tab showing the same dashboard raises the same alert; the tag keeps it to one
+      tag: `${alert.widgetId ?? alert.source}:${alert.title}`,
+    });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+    return true;
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Could not show browser notification:', error);
+    return false;
+  }
+};
+
+export const notificationService = {
+  /**
+   * Alert history, newest first
+   */
+  getSnapshot: (): WidgetAlert[] => getAlerts(),
+
+  subscribe: (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Apply the notification settings from the app settings
+   */
+  configure: (next: NotificationSettings): void => {
+    settings = next;
+  },
+
+  isMuted: (widgetId: string | undefined): boolean =>
+    !!widgetId && settings.mutedWidgets.some(muted => muted.widgetId === widgetId),
+
+  /**
+   * Raise an alert
+   */
+  notify: (input: AlertInput): void => {
+    // Read the history afresh: another tab may have just recorded this alert
+    alerts = loadAlerts();
+    const now = Date.now();
+    const isDuplicate = alerts.some(alert =>
+      alert.widgetId === input.widgetId &&
+      alert.title === input.title &&
+      now - Date.parse(alert.createdAt) < DUPLICATE_WINDOW_MS
+    );
+    if (isDuplicate) return;
+
+    const { sound, ...details } = input;
+    const silenced = notificationService.isMuted(input.widgetId) || isQuietTime(settings.quietHours);
+    const alert: WidgetAlert = {
+      ...details,
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      severity: input.severity ?? 'info',
+      createdAt: new Date(now).toISOString(),
+      read: false,
+      ...(silenced && { silenced: true }),
+    };
+    setAlerts([alert, ...getAlerts()]);
+
+    if (silenced) return;
+
+    if (sound) {
+      const audio = new Audio('/sounds/bell.mp3');
+      audio.play().catch(() => { /* Audio playback may fail if user hasn't interacted with page */ });
+    }
+
+    const isInFront = document.visibilityState === 'visible' && document.hasFocus();
+    if (isInFront || !showBrowserNotification(alert)) {
+      showToast(alert);
+    }
+  },
+
+  markAllRead: (): void => {
+    const current = getAlerts();
+    if (current.some(alert => !alert.read)) {
+      setAlerts(current.map(alert => (alert.read ? alert : { ...alert, read: true })));
+    }
+  },
+
+  remove: (alertId: string): void => {
+    setAlerts(getAlerts().filter(alert => alert.id !== alertId));
+  },
+
+  clear: (): void => {
+    setAlerts([]);
+  },
+
+  /**
+   * Browser notification permission, or 'unsupported' without the Notification API
+   */
+  getPermission: (): NotificationPermission | 'unsupported' =>
+    isSupported() ? Notification.permission : 'unsupported',
+
+  /**
+   * Ask for permission to show browser notifications. Must be called from a user gesture.
+   */
+  requestPermission: async (): Promise<NotificationPermission | 'unsupported'> => {
+    if (!isSupported()) return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    try {
+      return await Notification.requestPermission();
+    } catch (error) {
+      console.error('Error requesting notification permission:', error);
+      return Notification.permission;
+    }
+  },
+};
@@ -0,0 +1,72 @@
+/**
+ * Boxento fetch proxy client
+ *
+ * Widgets read feeds, calendars and websites that don't allow cross-origin
+ * requests through the proxy bundled with the Boxento server (server/proxy.ts),
+ * which also runs as a Firebase function. All widgets find it through one base
+ * URL, `VITE_PROXY_URL`, defaulting to the same-origin /api/proxy.
+ */
+
+import { HttpError, parseRetryAfter, toHttpError } from './queryCache';
+
+const PROXY_URL = (import.meta.env.VITE_PROXY_URL || '/api/proxy').replace(/\/$/, '');
+
+/** Set on errors raised by the proxy itself rather than passed on from the target */
+const PROXY_ERROR_HEADER = 'X-Boxento-Proxy-Error';
+
+/**
+ * URL fetching the target through the proxy
+ *
+ * @param target - Absolute http(s) URL to fetch
+ * @param credentialId - Vault credential the proxy should authenticate with (see credentialVault)
+ */
+export const proxyUrl = (target: string, credentialId?: string): string =>
+  `${PROXY_URL}?url=${encodeURIComponent(target)}${credentialId ? `&credential=${encodeURIComponent(credentialId)}` : ''}`;
+
+/**
+ * Whether an error response came from the proxy (target refused, unreachable,
+ * too large or rate limited) rather than from the target
+ */
+export const isProxyError = (response: Response): boolean =>
+  response.headers.has(PROXY_ERROR_HEADER);
+
+/**
+ * Thrown when the proxy refuses to fetch a host: not on its allowlist, or on a
+ * private network that isn't opted in
+ */
+export class ProxyHostError extends HttpError {
+  constructor(hostname: string) {
+    super(403, `Host not allowed by proxy: ${hostname}`);
+    this.name = 'ProxyHostError';
+  }
+}
+
+/**
+ * Error for a response the proxy raised itself, with the proxy's reason
+ *
+ * @param response - Error response with the proxy error header
+ * @param target - URL the proxy was asked to fetch
+ */
+export const readProxyError = async (response: Response, target: string): Promise<HttpError> => {
+  if (response.status === 403) return new ProxyHostError(new URL(target).hostname);
+  const body = await response.json().catch(() => null) as { error?: string } | null;
+  return new HttpError(
+    response.status,
+    body?.error || `Proxy error ${response.status}`,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+};
+
+/**
+ * Fetch a target through the proxy, throwing an HttpError for error statuses
+ * like fetchOrThrow. A host the proxy refuses throws a ProxyHostError, so
+ * widgets can say so instead of showing a generic fetch error.
+ *
+ * @param target - Absolute http(s) URL to fetch
+ * @param init - Options for the request to the proxy
+ */
+export const fetchThroughProxy = async (target: string, init?: RequestInit): Promise<Response> => {
+  const response = await fetch(proxyUrl(target), init);
+  if (response.ok) return response;
+  throw isProxyError(response) ? await readProxyError(response, target) : toHttpError(response);
+};
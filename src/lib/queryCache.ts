@@ -0,0 +1,226 @@
+/**
+ * Shared cache for widget data
+ *
+ * Widgets fetch through keyed queries instead of calling `fetch` on their own.
+ * All widgets asking for the same key share one cache entry, so two Weather
+ * widgets for the same city or two RSS widgets with the same feed fetch once:
+ * a request already on its way is joined rather than sent again, and data
+ * younger than the caller's `maxAge` is returned from the cache.
+ *
+ * After a failure the key is not fetched again until a retry delay has passed:
+ * the server's Retry-After when it sends one, otherwise a delay that doubles
+ * with every failure in a row. Data nobody shows anymore is dropped after a while.
+ *
+ * Components use the `useQuery` hook, which adds refreshing on a schedule and
+ * pauses while the tab is hidden.
+ */
+
+import { QUERY } from './constants';
+
+/**
+ * Thrown for a response with an error status. Carries the server's Retry-After, if any.
+ */
+export class HttpError extends Error {
+  status: number;
+  /** How long the server asked to wait before trying again, in ms */
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * HttpError for a response with an error status
+ */
+export const toHttpError = (response: Response): HttpError =>
+  new HttpError(
+    response.status,
+    `Request failed: ${response.status} ${response.statusText}`.trim(),
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+
+/**
+ * `fetch` that throws an HttpError for error statuses, so failures back off
+ * and respect Retry-After
+ */
+export const fetchOrThrow = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+  const response = await fetch(input, init);
+  if (!response.ok) throw toHttpError(response);
+  return response;
+};
+
+export interface QueryState<T = unknown> {
+  data?: T;
+  /** Error of the last attempt; cleared once one succeeds */
+  error?: Error;
+  /** When the data was fetched, in ms since the epoch */
+  updatedAt?: number;
+  isFetching: boolean;
+  /** Failed attempts in a row */
+  failureCount: number;
+  /** No new attempt before this time, in ms since the epoch */
+  retryAt?: number;
+  /** The wait comes from the server's Retry-After, which even a manual refresh respects */
+  isRateLimited?: boolean;
+}
+
+/**
+ * Passed to fetchers, describing the fetch they run
+ */
+export interface QueryContext {
+  /** Cached data is skipped, e.g. for a refresh the user asked for */
+  force: boolean;
+}
+
+/**
+ * Cache mode for a fetcher's requests: a forced fetch asks the service worker
+ * and the browser for a live response rather than a cached one
+ */
+export const getRequestCache = ({ force }: QueryContext): RequestCache => (force ? 'no-cache' : 'default');
+
+export interface FetchQueryOptions {
+  /** Return cached data younger than this (ms) instead of fetching. Default: 0 */
+  maxAge?: number;
+  /** Fetch even while waiting to retry after a failure, unless the server asked to wait */
+  force?: boolean;
+}
+
+interface Entry {
+  state: QueryState;
+  promise: Promise<unknown> | null;
+  listeners: Set<() => void>;
+  removeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const INITIAL_STATE: QueryState = { isFetching: false, failureCount: 0 };
+
+const entries = new Map<string, Entry>();
+
+const getEntry = (key: string): Entry => {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { state: INITIAL_STATE, promise: null, listeners: new Set(), removeTimer: null };
+    entries.set(key, entry);
+  }
+  return entry;
+};
+
+const setState = (entry: Entry, update: Partial<QueryState>): void => {
+  entry.state = { ...entry.state, ...update };
+  entry.listeners.forEach(listener => listener());
+};
+
+const getRetryDelay = (failureCount: number): number =>
+  Math.min(QUERY.RETRY_BASE_DELAY_MS * 2 ** (failureCount - 1), QUERY.RETRY_MAX_DELAY_MS);
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+// Drop an entry a while after its last subscriber left, unless one comes back
+const scheduleRemoval = (key: string, entry: Entry): void => {
+  if (entry.removeTimer) clearTimeout(entry.removeTimer);
+  entry.removeTimer = setTimeout(() => {
+    if (entry.listeners.size === 0 && !entry.promise && entries.get(key) === entry) {
+      entries.delete(key);
+    }
+  }, QUERY.CACHE_TIME_MS);
+};
+
+export const queryCache = {
+  getState: <T>(key: string): QueryState<T> =>
+    (entries.get(key)?.state ?? INITIAL_STATE) as QueryState<T>,
+
+  subscribe: (key: string, listener: () => void): (() => void) => {
+    const entry = getEntry(key);
+    if (entry.removeTimer) {
+      clearTimeout(entry.removeTimer);
+      entry.removeTimer = null;
+    }
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) scheduleRemoval(key, entry);
+    };
+  },
+
+  /**
+   * Fetch a key, joining a request already in flight and using cached data
+   * younger than `maxAge`. While waiting to retry after a failure, resolves
+   * with the cached data, or rejects with the last error when there is none.
+   */
+  fetch: <T>(key: string, fetcher: (context: QueryContext) => Promise<T>, options: FetchQueryOptions = {}): Promise<T> => {
+    const { maxAge = 0, force = false } = options;
+    const entry = getEntry(key);
+    const { state } = entry;
+    const now = Date.now();
+
+    if (entry.promise) return entry.promise as Promise<T>;
+
+    if (!force && state.updatedAt !== undefined && !state.error && now - state.updatedAt < maxAge) {
+      return Promise.resolve(state.data as T);
+    }
+
+    if (state.retryAt !== undefined && now < state.retryAt && (!force || state.isRateLimited)) {
+      return state.updatedAt !== undefined
+        ? Promise.resolve(state.data as T)
+        : Promise.reject(state.error);
+    }
+
+    const promise = fetcher({ force })
+      .then(data => {
+        setState(entry, {
+          data,
+          error: undefined,
+          updatedAt: Date.now(),
+          isFetching: false,
+          failureCount: 0,
+          retryAt: undefined,
+          isRateLimited: false,
+        });
+        return data;
+      })
+      .catch((error: unknown) => {
+        const failureCount = entry.state.failureCount + 1;
+        const retryAfterMs = error instanceof HttpError ? error.retryAfterMs : undefined;
+        setState(entry, {
+          error: toError(error),
+          isFetching: false,
+          failureCount,
+          retryAt: Date.now() + (retryAfterMs ?? getRetryDelay(failureCount)),
+          isRateLimited: retryAfterMs !== undefined,
+        });
+        throw error;
+      })
+      .finally(() => {
+        entry.promise = null;
+        if (entry.listeners.size === 0) scheduleRemoval(key, entry);
+      });
+
+    entry.promise = promise;
+    setState(entry, { isFetching: true });
+    return promise;
+  },
+
+  /**
+   * Drop a key's cached data, e.g. after changing what the server returns for it
+   */
+  invalidate: (key: string): void => {
+    const entry = entries.get(key);
+    if (entry) setState(entry, { updatedAt: undefined, retryAt: undefined, failureCount: 0 });
+  },
+};
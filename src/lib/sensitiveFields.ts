@@ -0,0 +1,73 @@
+/**
+ * Secrets in widget configs
+ *
+ * Widgets declare the config fields that hold secrets in WIDGET_REGISTRY, either
+ * as `sensitiveFields` or as `sensitive` fields of their settings schema. Fields
+ * whose name looks like a credential are treated as secrets too, so widgets that
+ * don't declare them are still covered.
+ *
+ * Used to redact shared dashboards before they are published.
+ */
+
+import { Widget } from '@/types';
+import { getWidgetConfigByType } from '@/components/widgets';
+import { getSensitiveSettingsKeys } from '@/components/widgets/common/settingsSchema';
+// Matches apiKey, apiToken, bearerToken, personalAccessToken, s3SecretAccessKey, password...
+import { SECRET_FIELD_PATTERN } from './configManager';
+
+// A secret found in a widget config
+export interface SecretFinding {
+  widgetId: string;
+  widgetName: string;
+  field: string;
+}
+
+/**
+ * Whether a config field of a widget type holds a secret
+ */
+export const isSensitiveField = (widgetType: string, field: string): boolean => {
+  const registryConfig = getWidgetConfigByType(widgetType);
+  const declared = [
+    ...(registryConfig?.sensitiveFields || []),
+    ...getSensitiveSettingsKeys(registryConfig?.settingsSchema),
+  ];
+  return declared.includes(field) || SECRET_FIELD_PATTERN.test(field);
+};
+
+/**
+ * Config fields of a widget that currently hold a secret
+ *
+ * @returns Field names with a non-empty string value
+ */
+export const getSecretFields = (widgetType: string, config: Record<string, unknown>): string[] =>
+  Object.entries(config)
+    .filter(([field, value]) => typeof value === 'string' && value !== '' && isSensitiveField(widgetType, field))
+    .map(([field]) => field);
+
+/**
+ * List every secret in a set of widgets, e.g. to warn before publishing a dashboard
+ */
+export const findSecrets = (widgets: Widget[]): SecretFinding[] =>
+  widgets.flatMap(widget => {
+    const widgetName = getWidgetConfigByType(widget.type)?.name || widget.type;
+    return getSecretFields(widget.type, widget.config || {}).map(field => ({
+      widgetId: widget.id,
+      widgetName,
+      field,
+    }));
+  });
+
+/**
+ * Remove secrets from a widget config
+ *
+ * @returns The config without secrets, and the names of the removed fields
+ */
+export const redactSecrets = (
+  widgetType: string,
+  config: Record<string, unknown>
+): { config: Record<string, unknown>; redacted: string[] } => {
+  const redacted = getSecretFields(widgetType, config);
+  const clean = { ...config };
+  redacted.forEach(field => delete clean[field]);
+  return { config: clean, redacted };
+};
@@ -0,0 +1,68 @@
+import { TIMING } from './constants';
+
+/**
+ * Service worker registration (public/service-worker.js)
+ *
+ * A new deployment's worker installs in the background, then waits while a tab
+ * still runs the old build. The app is told so it can offer a reload; applying
+ * the update lets the new worker take over and reloads once it controls the page.
+ */
+
+let isRegistered = false;
+
+/**
+ * Register the service worker once per page load
+ *
+ * @param onUpdateAvailable - Called when a new build is ready, with a function that switches to it
+ */
+export const registerServiceWorker = (onUpdateAvailable: (applyUpdate: () => void) => void): void => {
+  if (isRegistered || !('serviceWorker' in navigator)) return;
+  isRegistered = true;
+
+  const offerUpdate = (worker: ServiceWorker) => {
+    onUpdateAvailable(() => {
+      let isReloading = false;
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (isReloading) return;
+        isReloading = true;
+        window.location.reload();
+      });
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  const register = async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/service-worker.js');
+
+      // Installed during an earlier visit and still waiting
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        offerUpdate(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          // Without a controller this is the first install rather than an update
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+            offerUpdate(worker);
+          }
+        });
+      });
+
+      // Dashboards stay open for days, so look for new deployments now and then
+      window.setInterval(() => {
+        registration.update().catch(() => undefined);
+      }, TIMING.SERVICE_WORKER_UPDATE_INTERVAL_MS);
+    } catch (error) {
+      console.error('ServiceWorker registration failed: ', error);
+    }
+  };
+
+  // The page may have finished loading while the local store was opening
+  if (document.readyState === 'complete') {
+    void register();
+  } else {
+    window.addEventListener('load', () => void register(), { once: true });
+  }
+};
@@ -7,7 +7,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
-import { encryptionUtils } from './encryption';
+import { encryptionUtils, EncryptionLockedError } from './encryption';
 
 // Storage key for shared credentials
 const SHARED_CREDENTIALS_KEY = 'boxento-shared-credentials';
@@ -45,6 +45,8 @@ export const sharedCredentialsManager = {
 
       return await encryptionUtils.decrypt(credential);
     } catch (e) {
+      // Still there once passphrase encryption is unlocked
+      if (e instanceof EncryptionLockedError) return null;
       console.error('Error loading shared credential', e);
       // This usually happens when encryption key changed (login/logout)
       // Clear the corrupted credential and notify user
@@ -82,6 +84,30 @@ export const sharedCredentialsManager = {
     }
   },
 
+  /**
+   * Encrypt every shared credential with the current key, after passphrase
+   * encryption is turned on or off or its key is rotated
+   *
+   * @returns Number of credentials that couldn't be decrypted and were left as they were
+   */
+  reencryptAll: async (): Promise<number> => {
+    const stored = localStorage.getItem(SHARED_CREDENTIALS_KEY);
+    const credentials: SharedCredentialsStore = stored ? JSON.parse(stored) : {};
+    let failed = 0;
+
+    for (const credentialType of Object.keys(credentials)) {
+      try {
+        credentials[credentialType] = await encryptionUtils.reencrypt(credentials[credentialType]);
+      } catch (e) {
+        console.error(`Error re-encrypting shared credential ${credentialType}`, e);
+        failed++;
+      }
+    }
+
+    localStorage.setItem(SHARED_CREDENTIALS_KEY, JSON.stringify(credentials));
+    return failed;
+  },
+
   /**
    * Check if a shared credential exists
    *
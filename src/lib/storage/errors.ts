@@ -0,0 +1,22 @@
+/**
+ * Thrown when a storage backend refuses a read or write because the current
+ * user is not signed in or lacks permission - e.g. opening a team dashboard
+ * that was not shared with them
+ */
+export class AccessDeniedError extends Error {
+  constructor(message = 'Access denied') {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * Thrown when a storage backend refuses a write because another device changed
+ * the document since it was read. Read it again, merge and retry.
+ */
+export class RevisionConflictError extends Error {
+  constructor(message = 'The document was changed by another device') {
+    super(message);
+    this.name = 'RevisionConflictError';
+  }
+}
@@ -0,0 +1,291 @@
+import { db, auth, isFirebaseInitialized } from '../firebase';
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  collection,
+  getDocs,
+  deleteDoc,
+  runTransaction,
+  writeBatch,
+  query,
+  where,
+  Firestore
+} from 'firebase/firestore';
+import type { WidgetConfigStore } from '../configManager';
+import { LayoutItem } from '@/types';
+import { StorageBackend, PublicDashboardData, PublicDashboardContent, DashboardSnapshot, DashboardAccessRequest, EncryptionKeyring } from './types';
+import { AccessDeniedError } from './errors';
+
+const checkFirebase = (): Firestore => {
+  if (!isFirebaseInitialized || !db) {
+    throw new Error('Firebase is not initialized');
+  }
+  return db;
+};
+
+const requireUserId = (): string => {
+  const userId = firestoreBackend.getUserId();
+  if (!userId) throw new Error('User not authenticated');
+  return userId;
+};
+
+/**
+ * Firestore storage backend
+ *
+ * Stores user data under users/{uid}/dashboard, snapshots in users/{uid}/snapshots
+ * and shared dashboards in the public-dashboards collection.
+ */
+export const firestoreBackend: StorageBackend = {
+  name: 'firestore',
+
+  isAvailable: () => isFirebaseInitialized && !!db,
+
+  isAuthenticated: () => !!auth?.currentUser,
+
+  getUserId: () => {
+    if (!isFirebaseInitialized || !auth) return null;
+    return auth.currentUser?.uid || null;
+  },
+
+  getUserEmail: () => auth?.currentUser?.email || null,
+
+  onAuthStateChanged: (callback) => {
+    if (!auth) {
+      callback(false);
+      return () => {};
+    }
+    return auth.onAuthStateChanged(user => callback(!!user));
+  },
+
+  loadLayouts: async () => {
+    const userId = firestoreBackend.getUserId();
+    if (!userId) return null;
+
+    const firestore = checkFirebase();
+    const docSnap = await getDoc(doc(firestore, 'users', userId, 'dashboard', 'layouts'));
+    return docSnap.exists() ? docSnap.data() : null;
+  },
+
+  saveLayouts: async (layouts: { [key: string]: LayoutItem[] }) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    // Store layouts directly without wrapping in another object
+    await setDoc(doc(firestore, 'users', userId, 'dashboard', 'layouts'), layouts, { merge: true });
+  },
+
+  updateLayouts: async (update) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    const layoutsRef = doc(firestore, 'users', userId, 'dashboard', 'layouts');
+    // Firestore retries the transaction when the document changes before it commits
+    return runTransaction(firestore, async transaction => {
+      const docSnap = await transaction.get(layoutsRef);
+      const layouts = update(docSnap.exists() ? docSnap.data() : null);
+      transaction.set(layoutsRef, layouts, { merge: true });
+      return layouts;
+    });
+  },
+
+  loadWidgets: async () => {
+    const userId = firestoreBackend.getUserId();
+    if (!userId) return null;
+
+    const firestore = checkFirebase();
+    const docSnap = await getDoc(doc(firestore, 'users', userId, 'dashboard', 'widget-list'));
+    return docSnap.exists() ? docSnap.data()?.widgets || null : null;
+  },
+
+  saveWidgets: async (widgets: Record<string, unknown>[]) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    await setDoc(
+      doc(firestore, 'users', userId, 'dashboard', 'widget-list'),
+      { widgets },
+      { merge: true }
+    );
+  },
+
+  updateWidgets: async (update) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    const widgetsRef = doc(firestore, 'users', userId, 'dashboard', 'widget-list');
+    return runTransaction(firestore, async transaction => {
+      const docSnap = await transaction.get(widgetsRef);
+      const widgets = update(docSnap.exists() ? docSnap.data()?.widgets || null : null);
+      transaction.set(widgetsRef, { widgets }, { merge: true });
+      return widgets;
+    });
+  },
+
+  loadWidgetConfig: async (widgetId: string) => {
+    const userId = firestoreBackend.getUserId();
+    if (!userId) return null;
+
+    const firestore = checkFirebase();
+    const docSnap = await getDoc(doc(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs', widgetId));
+    return docSnap.exists() ? docSnap.data()?.config || null : null;
+  },
+
+  saveWidgetConfig: async (widgetId: string, config: Record<string, unknown>) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    await setDoc(
+      doc(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs', widgetId),
+      { config },
+      { merge: true }
+    );
+  },
+
+  loadAllWidgetConfigs: async () => {
+    const userId = firestoreBackend.getUserId();
+    if (!userId) return null;
+
+    const firestore = checkFirebase();
+    const querySnapshot = await getDocs(
+      collection(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs')
+    );
+
+    const configs: WidgetConfigStore = {};
+    querySnapshot.forEach((docSnap) => {
+      configs[docSnap.id] = docSnap.data()?.config || {};
+    });
+    return configs;
+  },
+
+  saveAllWidgetConfigs: async (configs: WidgetConfigStore) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    // Create a batch of operations for better performance
+    const batch = writeBatch(firestore);
+
+    Object.entries(configs).forEach(([widgetId, config]) => {
+      const docRef = doc(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs', widgetId);
+      batch.set(docRef, { config }, { merge: true });
+    });
+
+    await batch.commit();
+  },
+
+  deleteWidgetConfig: async (widgetId: string) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    await deleteDoc(doc(firestore, 'users', userId, 'dashboard', 'widget-configs', 'configs', widgetId));
+  },
+
+  loadAppSettings: async () => {
+    const userId = firestoreBackend.getUserId();
+    if (!userId) return null;
+
+    const firestore = checkFirebase();
+    const docSnap = await getDoc(doc(firestore, 'users', userId, 'dashboard', 'app-settings'));
+    return docSnap.exists() ? docSnap.data()?.settings || null : null;
+  },
+
+  saveAppSettings: async (settings: Record<string, unknown>) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    await setDoc(
+      doc(firestore, 'users', userId, 'dashboard', 'app-settings'),
+      { settings },
+      { merge: true }
+    );
+  },
+
+  loadKeyring: async () => {
+    const userId = firestoreBackend.getUserId();
+    if (!userId) return null;
+
+    const firestore = checkFirebase();
+    const docSnap = await getDoc(doc(firestore, 'users', userId, 'dashboard', 'keyring'));
+    return docSnap.exists() ? docSnap.data()?.keyring as EncryptionKeyring || null : null;
+  },
+
+  saveKeyring: async (keyring: EncryptionKeyring) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    await setDoc(doc(firestore, 'users', userId, 'dashboard', 'keyring'), { keyring });
+  },
+
+  deleteKeyring: async () => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    await deleteDoc(doc(firestore, 'users', userId, 'dashboard', 'keyring'));
+  },
+
+  loadPublicDashboard: async (dashboardId: string) => {
+    const firestore = checkFirebase();
+    try {
+      const docSnap = await getDoc(doc(firestore, 'public-dashboards', dashboardId));
+      return docSnap.exists() ? docSnap.data() as PublicDashboardData : null;
+    } catch (error) {
+      // The rules deny reads of team dashboards the user isn't shared on
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new AccessDeniedError('You do not have access to this dashboard');
+      }
+      throw error;
+    }
+  },
+
+  savePublicDashboard: async (dashboardId: string, data: PublicDashboardData) => {
+    const firestore = checkFirebase();
+    await setDoc(doc(firestore, 'public-dashboards', dashboardId), data, { merge: true });
+  },
+
+  updatePublicDashboardContent: async (dashboardId: string, content: PublicDashboardContent) => {
+    const firestore = checkFirebase();
+    // updateDoc fails if the dashboard no longer exists instead of recreating it
+    await updateDoc(doc(firestore, 'public-dashboards', dashboardId), content);
+  },
+
+  deletePublicDashboard: async (dashboardId: string) => {
+    const firestore = checkFirebase();
+    await deleteDoc(doc(firestore, 'public-dashboards', dashboardId));
+  },
+
+  requestDashboardAccess: async (dashboardId: string, request: DashboardAccessRequest) => {
+    const firestore = checkFirebase();
+    await setDoc(doc(firestore, 'public-dashboards', dashboardId, 'access-requests', request.userId), request);
+  },
+
+  listAccessRequests: async (dashboardId: string) => {
+    const firestore = checkFirebase();
+    const querySnapshot = await getDocs(collection(firestore, 'public-dashboards', dashboardId, 'access-requests'));
+    return querySnapshot.docs.map(d => d.data() as DashboardAccessRequest);
+  },
+
+  deleteAccessRequest: async (dashboardId: string, userId: string) => {
+    const firestore = checkFirebase();
+    await deleteDoc(doc(firestore, 'public-dashboards', dashboardId, 'access-requests', userId));
+  },
+
+  listSnapshots: async (dashboardId?: string) => {
+    const userId = firestoreBackend.getUserId();
+    if (!userId) return [];
+
+    const firestore = checkFirebase();
+    const snapshotsRef = collection(firestore, 'users', userId, 'snapshots');
+    const querySnapshot = await getDocs(dashboardId
+      ? query(snapshotsRef, where('dashboardId', '==', dashboardId))
+      : snapshotsRef);
+
+    const snapshots: DashboardSnapshot[] = [];
+    querySnapshot.forEach((docSnap) => {
+      snapshots.push(docSnap.data() as DashboardSnapshot);
+    });
+    return snapshots;
+  },
+
+  saveSnapshot: async (snapshot: DashboardSnapshot) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    await setDoc(doc(firestore, 'users', userId, 'snapshots', snapshot.id), snapshot);
+  },
+
+  deleteSnapshot: async (snapshotId: string) => {
+    const userId = requireUserId();
+    const firestore = checkFirebase();
+    await deleteDoc(doc(firestore, 'users', userId, 'snapshots', snapshotId));
+  },
+};
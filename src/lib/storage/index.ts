@@ -0,0 +1,56 @@
+/**
+ * Storage backend selection for Boxento
+ *
+ * The active backend is chosen once at startup:
+ * 1. A per-device override saved in App Settings (localStorage)
+ * 2. The VITE_STORAGE_BACKEND build variable
+ * 3. Firestore by default
+ *
+ * Switching backends requires a reload so every service sees the same backend.
+ */
+
+import { STORAGE_KEYS } from '../constants';
+import { firestoreBackend } from './firestoreBackend';
+import { restBackend } from './restBackend';
+import { StorageBackend, StorageBackendName } from './types';
+
+export * from './types';
+export { AccessDeniedError, RevisionConflictError } from './errors';
+export { getSyncToken, setSyncToken, request as storageApiRequest } from './restBackend';
+
+const BACKENDS: Record<StorageBackendName, StorageBackend> = {
+  firestore: firestoreBackend,
+  rest: restBackend,
+};
+
+const isBackendName = (value: unknown): value is StorageBackendName =>
+  value === 'firestore' || value === 'rest';
+
+/**
+ * Get the name of the configured storage backend
+ */
+export const getConfiguredBackendName = (): StorageBackendName => {
+  if (typeof window !== 'undefined') {
+    const override = localStorage.getItem(STORAGE_KEYS.STORAGE_BACKEND);
+    if (isBackendName(override)) return override;
+  }
+
+  const fromEnv = import.meta.env.VITE_STORAGE_BACKEND;
+  return isBackendName(fromEnv) ? fromEnv : 'firestore';
+};
+
+/**
+ * Persist a per-device storage backend override. Takes effect after reload.
+ *
+ * @param name - Backend to use, or null to fall back to the build default
+ */
+export const setConfiguredBackendName = (name: StorageBackendName | null): void => {
+  if (name) {
+    localStorage.setItem(STORAGE_KEYS.STORAGE_BACKEND, name);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.STORAGE_BACKEND);
+  }
+};
+
+/** The storage backend used by the whole app */
+export const storageBackend: StorageBackend = BACKENDS[getConfiguredBackendName()];
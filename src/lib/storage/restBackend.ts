@@ -0,0 +1,270 @@
+import type { WidgetConfigStore } from '../configManager';
+import { LayoutItem } from '@/types';
+import { STORAGE_KEYS } from '../constants';
+import { setUserKey } from '../encryption';
+import { StorageBackend, PublicDashboardData, PublicDashboardContent, DashboardSnapshot, EncryptionKeyring } from './types';
+import { AccessDeniedError, RevisionConflictError } from './errors';
+
+/**
+ * Base URL of the self-hosted Boxento server storage API.
+ * Defaults to the same origin, where the Docker image proxies /api/storage.
+ */
+const API_URL = (import.meta.env.VITE_STORAGE_API_URL || '/api/storage').replace(/\/$/, '');
+
+// Resolved from the server once the sync token has been verified
+let currentUserId: string | null = null;
+
+/**
+ * Get the sync token for the self-hosted server.
+ * Every device using the same token shares the same dashboards.
+ */
+export const getSyncToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(STORAGE_KEYS.STORAGE_TOKEN) || import.meta.env.VITE_STORAGE_API_TOKEN || null;
+};
+
+/**
+ * Store (or clear) the sync token used to authenticate with the self-hosted server
+ *
+ * @param token - The new sync token, or null to disconnect this device
+ */
+export const setSyncToken = (token: string | null): void => {
+  if (token) {
+    localStorage.setItem(STORAGE_KEYS.STORAGE_TOKEN, token);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.STORAGE_TOKEN);
+  }
+};
+
+/**
+ * Perform an authenticated request against the storage API. Also used by
+ * the credential vault, which lives on the same server.
+ *
+ * @returns Parsed JSON body, or null for 404 / empty responses
+ */
+export const request = async <T,>(path: string, init: RequestInit = {}, requireAuth = true): Promise<T | null> => {
+  const token = getSyncToken();
+  if (requireAuth && !token) throw new Error('User not authenticated');
+
+  const response = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init.headers,
+    },
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    if (response.status === 401 || response.status === 403) {
+      throw new AccessDeniedError(body?.error);
+    }
+    if (response.status === 409) {
+      throw new RevisionConflictError(body?.error);
+    }
+    throw new Error(body?.error || `Storage server error: ${response.status}`);
+  }
+  if (response.status === 204) return null;
+
+  return response.json() as Promise<T>;
+};
+
+const put = async (path: string, body: unknown): Promise<void> => {
+  await request(path, { method: 'PUT', body: JSON.stringify(body) });
+};
+
+/** Attempts of a read-change-write before giving up on a busy document */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Read a document, change it and write it back with the revision it was read
+ * at. The server refuses the write if another device wrote in between, then
+ * it's read and changed again.
+ *
+ * @param path - Document path, e.g. "/layouts"
+ * @param field - Field holding the document in request and response bodies
+ */
+const updateDocument = async <T,>(path: string, field: string, update: (stored: T | null) => T): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const result = await request<Record<string, unknown>>(path);
+    const updated = update((result?.[field] as T | undefined) ?? null);
+    try {
+      // No revision means the document must not exist yet
+      await put(path, { [field]: updated, revision: result?.revision ?? null });
+      return updated;
+    } catch (error) {
+      if (!(error instanceof RevisionConflictError) || attempt >= MAX_UPDATE_ATTEMPTS) throw error;
+    }
+  }
+};
+
+/**
+ * Self-hosted REST storage backend
+ *
+ * Talks to the Bun + SQLite server in /server. Authentication uses a shared
+ * sync token instead of user accounts; the server derives a user ID from it.
+ */
+export const restBackend: StorageBackend = {
+  name: 'rest',
+
+  isAvailable: () => !!API_URL,
+
+  isAuthenticated: () => !!currentUserId && !!getSyncToken(),
+
+  getUserId: () => currentUserId,
+
+  getUserEmail: () => null,
+
+  onAuthStateChanged: (callback) => {
+    let cancelled = false;
+    const token = getSyncToken();
+
+    if (!token) {
+      currentUserId = null;
+      callback(false);
+      return () => { cancelled = true; };
+    }
+
+    request<{ userId: string }>('/me')
+      .then(result => {
+        if (cancelled) return;
+        currentUserId = result?.userId ?? null;
+        // The sync token is secret, unlike a user ID, so it makes a good key source
+        setUserKey(currentUserId ? `sync:${token}` : null);
+        callback(!!currentUserId);
+      })
+      .catch(error => {
+        console.error('Error connecting to storage server:', error);
+        if (cancelled) return;
+        currentUserId = null;
+        callback(false);
+      });
+
+    return () => { cancelled = true; };
+  },
+
+  loadLayouts: async () => {
+    if (!restBackend.isAuthenticated()) return null;
+    const result = await request<{ layouts: Record<string, unknown> }>('/layouts');
+    return result?.layouts ?? null;
+  },
+
+  saveLayouts: async (layouts: { [key: string]: LayoutItem[] }) => {
+    await put('/layouts', { layouts });
+  },
+
+  updateLayouts: (update) => updateDocument('/layouts', 'layouts', update),
+
+  loadWidgets: async () => {
+    if (!restBackend.isAuthenticated()) return null;
+    const result = await request<{ widgets: Record<string, unknown>[] }>('/widgets');
+    return result?.widgets ?? null;
+  },
+
+  saveWidgets: async (widgets: Record<string, unknown>[]) => {
+    await put('/widgets', { widgets });
+  },
+
+  updateWidgets: (update) => updateDocument('/widgets', 'widgets', update),
+
+  loadWidgetConfig: async (widgetId: string) => {
+    if (!restBackend.isAuthenticated()) return null;
+    const result = await request<{ config: Record<string, unknown> }>(
+      `/widget-configs/${encodeURIComponent(widgetId)}`
+    );
+    return result?.config ?? null;
+  },
+
+  saveWidgetConfig: async (widgetId: string, config: Record<string, unknown>) => {
+    await put(`/widget-configs/${encodeURIComponent(widgetId)}`, { config });
+  },
+
+  loadAllWidgetConfigs: async () => {
+    if (!restBackend.isAuthenticated()) return null;
+    const result = await request<{ configs: WidgetConfigStore }>('/widget-configs');
+    return result?.configs ?? {};
+  },
+
+  saveAllWidgetConfigs: async (configs: WidgetConfigStore) => {
+    await put('/widget-configs', { configs });
+  },
+
+  deleteWidgetConfig: async (widgetId: string) => {
+    await request(`/widget-configs/${encodeURIComponent(widgetId)}`, { method: 'DELETE' });
+  },
+
+  loadAppSettings: async () => {
+    if (!restBackend.isAuthenticated()) return null;
+    const result = await request<{ settings: Record<string, unknown> }>('/app-settings');
+    return result?.settings ?? null;
+  },
+
+  saveAppSettings: async (settings: Record<string, unknown>) => {
+    await put('/app-settings', { settings });
+  },
+
+  loadKeyring: async () => {
+    if (!restBackend.isAuthenticated()) return null;
+    const result = await request<{ keyring: EncryptionKeyring }>('/keyring');
+    return result?.keyring ?? null;
+  },
+
+  saveKeyring: async (keyring: EncryptionKeyring) => {
+    await put('/keyring', { keyring });
+  },
+
+  deleteKeyring: async () => {
+    await request('/keyring', { method: 'DELETE' });
+  },
+
+  loadPublicDashboard: async (dashboardId: string) => {
+    const result = await request<{ dashboard: PublicDashboardData }>(
+      `/public-dashboards/${encodeURIComponent(dashboardId)}`,
+      {},
+      false
+    );
+    return result?.dashboard ?? null;
+  },
+
+  savePublicDashboard: async (dashboardId: string, data: PublicDashboardData) => {
+    await put(`/public-dashboards/${encodeURIComponent(dashboardId)}`, { dashboard: data });
+  },
+
+  updatePublicDashboardContent: async (dashboardId: string, content: PublicDashboardContent) => {
+    await request(`/public-dashboards/${encodeURIComponent(dashboardId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ content }),
+    });
+  },
+
+  deletePublicDashboard: async (dashboardId: string) => {
+    await request(`/public-dashboards/${encodeURIComponent(dashboardId)}`, { method: 'DELETE' });
+  },
+
+  // Sync tokens carry no email, so there is nobody to grant access to
+  requestDashboardAccess: async () => {
+    throw new Error('Access requests are not supported by the self-hosted server');
+  },
+
+  listAccessRequests: async () => [],
+
+  deleteAccessRequest: async () => {},
+
+  listSnapshots: async (dashboardId?: string) => {
+    if (!restBackend.isAuthenticated()) return [];
+    const result = await request<{ snapshots: DashboardSnapshot[] }>(
+      dashboardId ? `/snapshots?dashboardId=${encodeURIComponent(dashboardId)}` : '/snapshots'
+    );
+    return result?.snapshots ?? [];
+  },
+
+  saveSnapshot: async (snapshot: DashboardSnapshot) => {
+    await put(`/snapshots/${encodeURIComponent(snapshot.id)}`, { snapshot });
+  },
+
+  deleteSnapshot: async (snapshotId: string) => {
+    await request(`/snapshots/${encodeURIComponent(snapshotId)}`, { method: 'DELETE' });
+  },
+};
@@ -0,0 +1,189 @@
+import { LayoutItem, Widget } from '@/types';
+import type { WidgetConfigStore } from '../configManager';
+import type { DashboardVisibility, SharedUser } from '@/components/dashboard/DashboardSwitcher';
+
+/**
+ * Identifies a storage backend implementation
+ * - 'firestore': Firebase Auth + Cloud Firestore (default)
+ * - 'rest': self-hosted Boxento server (Bun + SQLite)
+ */
+export type StorageBackendName = 'firestore' | 'rest';
+
+// Public dashboard data structure
+export interface PublicDashboardData {
+  id: string;
+  name: string;
+  visibility: DashboardVisibility;
+  sharedWith: SharedUser[];
+  ownerId: string;
+  ownerEmail?: string;
+  /** Lowercased emails of everyone in sharedWith, checked by the security rules */
+  memberEmails?: string[];
+  /** Lowercased emails of users shared with the editor role, checked by the security rules */
+  editorEmails?: string[];
+  createdAt: string;
+  updatedAt: string;
+  /** User ID of whoever saved the dashboard last (owner or an editor) */
+  updatedBy?: string;
+  widgets: Widget[];
+  layouts: { [key: string]: LayoutItem[] };
+  widgetConfigs: WidgetConfigStore;
+  /** Secret config fields removed before publishing, per widget ID */
+  redactedFields?: { [widgetId: string]: string[] };
+}
+
+/**
+ * The part of a shared dashboard that editors may change. Name, visibility
+ * and sharing stay under the owner's control.
+ */
+export type PublicDashboardContent = Pick<
+  PublicDashboardData,
+  'widgets' | 'layouts' | 'widgetConfigs' | 'updatedAt' | 'updatedBy'
+>;
+
+// Someone asking the owner for access to a team dashboard
+export interface DashboardAccessRequest {
+  /** User ID of the requester - one pending request per user */
+  userId: string;
+  email: string;
+  requestedAt: string;
+}
+
+/**
+ * What caused a dashboard snapshot to be taken
+ * - 'auto': periodic snapshot while the dashboard is open
+ * - 'manual': requested by the user
+ * - 'pre-restore': taken automatically before restoring another snapshot
+ */
+export type SnapshotTrigger = 'auto' | 'manual' | 'pre-restore';
+
+// Point-in-time copy of a dashboard
+export interface DashboardSnapshot {
+  id: string;
+  dashboardId: string;
+  dashboardName: string;
+  trigger: SnapshotTrigger;
+  createdAt: string;
+  /** Hash of the snapshot content, used to skip unchanged periodic snapshots */
+  fingerprint: string;
+  widgets: Widget[];
+  layouts: { [key: string]: LayoutItem[] };
+  /** Widget configs as stored - sensitive fields stay encrypted */
+  configs: WidgetConfigStore;
+}
+
+// A key encrypted with another key, base64 encoded
+export interface WrappedKey {
+  iv: string;
+  key: string;
+}
+
+/**
+ * Key material of passphrase encryption (see keyring.ts). The data key is only
+ * stored wrapped, so the keyring is useless without the passphrase or the
+ * recovery key.
+ */
+export interface EncryptionKeyring {
+  version: 1;
+  /** ID of the data key secrets are encrypted with */
+  keyId: string;
+  /** Data key wrapped with a key derived from the passphrase */
+  passphrase: WrappedKey & { salt: string; iterations: number };
+  /** Data key wrapped with the recovery key */
+  recovery: WrappedKey;
+  /** Data keys being rotated out, wrapped with the current data key */
+  retiredKeys?: (WrappedKey & { keyId: string })[];
+  /** Set until all secrets are encrypted with the current data key */
+  reencrypting?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Storage backend interface
+ *
+ * Covers everything Boxento persists remotely: layouts, widget list, widget
+ * configs, app settings, the encryption keyring and public dashboards. Implementations only deal with
+ * raw persistence - sanitizing, validation and merging stay in the services
+ * in firestoreService.ts so every backend behaves the same.
+ *
+ * Methods that read user data return null when no user is authenticated,
+ * methods that write throw.
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+
+  /** Whether the backend is configured and can be used at all */
+  isAvailable: () => boolean;
+  /** Whether there is an authenticated user whose data can be synced */
+  isAuthenticated: () => boolean;
+  /** Stable identifier of the authenticated user, used as dashboard owner ID */
+  getUserId: () => string | null;
+  /** Email of the authenticated user, if the backend knows it */
+  getUserEmail: () => string | null;
+  /**
+   * Subscribe to authentication changes. The callback is invoked once the
+   * initial state is known, then on every change.
+   *
+   * @returns Unsubscribe function
+   */
+  onAuthStateChanged: (callback: (isAuthenticated: boolean) => void) => () => void;
+
+  // Layouts
+  loadLayouts: () => Promise<Record<string, unknown> | null>;
+  saveLayouts: (layouts: { [key: string]: LayoutItem[] }) => Promise<void>;
+  /**
+   * Read the layouts, change them with `update` and write the result back in
+   * one atomic step. `update` runs again with the new stored layouts when
+   * another device wrote in between, so it must not have side effects.
+   *
+   * @returns The layouts as saved
+   */
+  updateLayouts: (
+    update: (stored: Record<string, unknown> | null) => { [key: string]: LayoutItem[] }
+  ) => Promise<{ [key: string]: LayoutItem[] }>;
+
+  // Widget list (metadata only, no configs)
+  loadWidgets: () => Promise<Record<string, unknown>[] | null>;
+  saveWidgets: (widgets: Record<string, unknown>[]) => Promise<void>;
+  /** Atomic read-change-write of the widget list, like updateLayouts */
+  updateWidgets: (
+    update: (stored: Record<string, unknown>[] | null) => Record<string, unknown>[]
+  ) => Promise<Record<string, unknown>[]>;
+
+  // Widget configurations
+  loadWidgetConfig: (widgetId: string) => Promise<Record<string, unknown> | null>;
+  saveWidgetConfig: (widgetId: string, config: Record<string, unknown>) => Promise<void>;
+  loadAllWidgetConfigs: () => Promise<WidgetConfigStore | null>;
+  saveAllWidgetConfigs: (configs: WidgetConfigStore) => Promise<void>;
+  deleteWidgetConfig: (widgetId: string) => Promise<void>;
+
+  // App settings
+  loadAppSettings: () => Promise<Record<string, unknown> | null>;
+  saveAppSettings: (settings: Record<string, unknown>) => Promise<void>;
+
+  // Passphrase encryption keyring
+  loadKeyring: () => Promise<EncryptionKeyring | null>;
+  saveKeyring: (keyring: EncryptionKeyring) => Promise<void>;
+  deleteKeyring: () => Promise<void>;
+
+  // Public/team dashboards
+  /** Throws AccessDeniedError when the user may not read the dashboard */
+  loadPublicDashboard: (dashboardId: string) => Promise<PublicDashboardData | null>;
+  savePublicDashboard: (dashboardId: string, data: PublicDashboardData) => Promise<void>;
+  /** Update only the content of an existing shared dashboard (used by editors) */
+  updatePublicDashboardContent: (dashboardId: string, content: PublicDashboardContent) => Promise<void>;
+  deletePublicDashboard: (dashboardId: string) => Promise<void>;
+
+  // Access requests for team dashboards
+  requestDashboardAccess: (dashboardId: string, request: DashboardAccessRequest) => Promise<void>;
+  /** Pending requests, readable by the dashboard owner only */
+  listAccessRequests: (dashboardId: string) => Promise<DashboardAccessRequest[]>;
+  deleteAccessRequest: (dashboardId: string, userId: string) => Promise<void>;
+
+  // Dashboard snapshots
+  /** Snapshots of one dashboard, or of all of them when no ID is given */
+  listSnapshots: (dashboardId?: string) => Promise<DashboardSnapshot[]>;
+  saveSnapshot: (snapshot: DashboardSnapshot) => Promise<void>;
+  deleteSnapshot: (snapshotId: string) => Promise<void>;
+}
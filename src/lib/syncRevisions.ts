@@ -0,0 +1,301 @@
+/**
+ * Sync revisions for Boxento
+ *
+ * When logged in, every device writes the same widget list, layouts and widget
+ * configs. To keep one device from silently undoing another's changes, each
+ * device remembers what it last synced (the "base") and merges against it:
+ *
+ * - Widget lists and layouts are merged per widget. Widgets added or removed on
+ *   either device are kept added or removed, and a widget's position comes from
+ *   whichever device moved it.
+ * - A widget config changed only on one device is taken from that device. When
+ *   both changed it, the widget is in conflict until the user picks a version.
+ *
+ * Configs carry a revision (when, and from which device) so a device can tell
+ * its own writes apart from everyone else's.
+ */
+
+import { LayoutItem } from '@/types';
+import { STORAGE_KEYS } from './constants';
+import { storageBackend } from './storage';
+import { hashString } from './utils';
+
+/** Config field holding the revision of the last write */
+export const SYNC_REVISION_KEY = 'syncRevision';
+
+export interface SyncRevision {
+  /** ISO timestamp of the write */
+  updatedAt: string;
+  /** Device that wrote it, see getDeviceId */
+  deviceId: string;
+}
+
+// A type rather than an interface so it fits the backends' Record<string, unknown> lists
+export type SyncedWidget = { id: string; type: string };
+
+export type SyncedLayouts = { [breakpoint: string]: LayoutItem[] };
+
+/** What to do with a config changed on another device */
+export type RemoteConfigChange = 'unchanged' | 'apply' | 'conflict';
+
+// Bookkeeping fields that don't count as a change to a widget's settings
+const METADATA_FIELDS = ['id', 'type', 'configVersion', SYNC_REVISION_KEY];
+
+let deviceId: string | null = null;
+
+/**
+ * Random ID of this device, created on first use
+ */
+export const getDeviceId = (): string => {
+  if (deviceId) return deviceId;
+  deviceId = localStorage.getItem(STORAGE_KEYS.DEVICE_ID);
+  if (!deviceId) {
+    deviceId = `device-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+    localStorage.setItem(STORAGE_KEYS.DEVICE_ID, deviceId);
+  }
+  return deviceId;
+};
+
+/**
+ * A revision for a write made now by this device
+ */
+export const createRevision = (): SyncRevision => ({
+  updatedAt: new Date().toISOString(),
+  deviceId: getDeviceId(),
+});
+
+/**
+ * The revision stored with a config, if it has one
+ */
+export const getRevision = (config: Record<string, unknown> | null | undefined): SyncRevision | undefined => {
+  const revision = config?.[SYNC_REVISION_KEY] as SyncRevision | undefined;
+  return revision && typeof revision.deviceId === 'string' && typeof revision.updatedAt === 'string'
+    ? revision
+    : undefined;
+};
+
+/**
+ * The config's settings without bookkeeping fields and callbacks
+ */
+const getComparableConfig = (config: Record<string, unknown>): Record<string, unknown> => {
+  const comparable: Record<string, unknown> = {};
+  Object.entries(config).forEach(([key, value]) => {
+    if (METADATA_FIELDS.includes(key) || typeof value === 'function') return;
+    comparable[key] = value;
+  });
+  return comparable;
+};
+
+/**
+ * JSON with object keys sorted, so equal configs always serialize the same
+ */
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, item: unknown) => {
+    if (item === null || typeof item !== 'object' || Array.isArray(item)) return item;
+    return Object.fromEntries(
+      Object.entries(item as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+    );
+  }) ?? '';
+
+/**
+ * Hash of a decrypted config's settings. Stored configs can't be compared
+ * directly because sensitive fields are encrypted with a fresh IV on every save.
+ */
+export const fingerprintConfig = (config: Record<string, unknown>): string =>
+  hashString(stableStringify(getComparableConfig(config)));
+
+/**
+ * Top-level settings that differ between two decrypted configs
+ */
+export const getChangedConfigFields = (
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>
+): string[] => {
+  const localComparable = getComparableConfig(local);
+  const remoteComparable = getComparableConfig(remote);
+  const fields = new Set([...Object.keys(localComparable), ...Object.keys(remoteComparable)]);
+  return [...fields].filter(
+    field => stableStringify(localComparable[field]) !== stableStringify(remoteComparable[field])
+  );
+};
+
+/**
+ * Decide how to handle a config another device wrote
+ *
+ * @param base - Fingerprint of the config this device last synced, if known
+ * @param local - The config as this device has it now
+ * @param remote - The config the other device wrote
+ */
+export const classifyRemoteConfig = (
+  base: string | undefined,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>
+): RemoteConfigChange => {
+  const remoteFingerprint = fingerprintConfig(remote);
+  if (remoteFingerprint === base || remoteFingerprint === fingerprintConfig(local)) return 'unchanged';
+  if (base === undefined || fingerprintConfig(local) === base) return 'apply';
+  return 'conflict';
+};
+
+interface SyncBaseData {
+  configs: Record<string, string>;
+  widgets?: SyncedWidget[];
+  layouts?: SyncedLayouts;
+}
+
+const getBaseKey = (): string | null => {
+  const userId = storageBackend.getUserId();
+  return userId ? `${STORAGE_KEYS.SYNC_BASE}-${userId}` : null;
+};
+
+const loadBase = (): SyncBaseData => {
+  const key = getBaseKey();
+  if (!key) return { configs: {} };
+  try {
+    const stored = localStorage.getItem(key);
+    const base = stored ? JSON.parse(stored) as SyncBaseData : null;
+    return base && typeof base.configs === 'object' ? base : { configs: {} };
+  } catch (error) {
+    console.error('Error loading sync base from localStorage:', error);
+    return { configs: {} };
+  }
+};
+
+const updateBase = (update: (base: SyncBaseData) => void): void => {
+  const key = getBaseKey();
+  if (!key) return;
+  const base = loadBase();
+  update(base);
+  localStorage.setItem(key, JSON.stringify(base));
+};
+
+/**
+ * What this device last synced for the signed-in user
+ */
+export const syncBase = {
+  /**
+   * Fingerprint of a widget's config as last synced
+   */
+  getConfig: (widgetId: string): string | undefined => loadBase().configs[widgetId],
+
+  /**
+   * Fingerprints of every config as last synced, keyed by widget ID
+   */
+  getConfigs: (): Record<string, string> => loadBase().configs,
+
+  setConfig: (widgetId: string, fingerprint: string): void =>
+    updateBase(base => {
+      base.configs[widgetId] = fingerprint;
+    }),
+
+  /**
+   * Record configs loaded from the storage backend as synced
+   *
+   * @param configs - Decrypted configs keyed by widget ID
+   */
+  setConfigs: (configs: Record<string, Record<string, unknown>>): void =>
+    updateBase(base => {
+      Object.entries(configs).forEach(([widgetId, config]) => {
+        base.configs[widgetId] = fingerprintConfig(config);
+      });
+    }),
+
+  removeConfig: (widgetId: string): void =>
+    updateBase(base => {
+      delete base.configs[widgetId];
+    }),
+
+  getWidgets: (): SyncedWidget[] | undefined => loadBase().widgets,
+
+  setWidgets: (widgets: SyncedWidget[]): void =>
+    updateBase(base => {
+      base.widgets = widgets;
+    }),
+
+  getLayouts: (): SyncedLayouts | undefined => loadBase().layouts,
+
+  setLayouts: (layouts: SyncedLayouts): void =>
+    updateBase(base => {
+      base.layouts = layouts;
+    }),
+};
+
+/**
+ * Three-way merge of widget lists. Keeps this device's order, drops widgets the
+ * other device removed and appends widgets it added.
+ *
+ * @param base - The list as last synced
+ * @param local - The list this device is saving
+ * @param remote - The list currently stored
+ */
+export const mergeWidgetLists = (
+  base: SyncedWidget[],
+  local: SyncedWidget[],
+  remote: SyncedWidget[]
+): SyncedWidget[] => {
+  const baseIds = new Set(base.map(widget => widget.id));
+  const localIds = new Set(local.map(widget => widget.id));
+  const remoteIds = new Set(remote.map(widget => widget.id));
+
+  const merged = local.filter(widget => remoteIds.has(widget.id) || !baseIds.has(widget.id));
+  remote.forEach(widget => {
+    if (!localIds.has(widget.id) && !baseIds.has(widget.id)) {
+      merged.push(widget);
+    }
+  });
+  return merged;
+};
+
+const isSameLayoutItem = (a: LayoutItem, b: LayoutItem): boolean =>
+  a.x === b.x && a.y === b.y && a.w === b.w && a.h === b.h && Boolean(a.static) === Boolean(b.static);
+
+/**
+ * Three-way merge of layouts, per breakpoint and per widget. An item moved or
+ * resized on this device keeps this device's position, any other item takes the
+ * stored one. Overlaps left by the merge are resolved by the grid's compaction.
+ *
+ * @param base - The layouts as last synced
+ * @param local - The layouts this device is saving
+ * @param remote - The layouts currently stored
+ */
+export const mergeLayouts = (
+  base: SyncedLayouts,
+  local: SyncedLayouts,
+  remote: SyncedLayouts
+): SyncedLayouts => {
+  const merged: SyncedLayouts = {};
+  const breakpoints = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  breakpoints.forEach(breakpoint => {
+    if (!local[breakpoint]) {
+      merged[breakpoint] = remote[breakpoint];
+      return;
+    }
+
+    const baseItems = new Map((base[breakpoint] || []).map(item => [item.i, item]));
+    const remoteItems = new Map((remote[breakpoint] || []).map(item => [item.i, item]));
+    const localItems = local[breakpoint];
+    const localIds = new Set(localItems.map(item => item.i));
+
+    const items: LayoutItem[] = [];
+    localItems.forEach(item => {
+      const baseItem = baseItems.get(item.i);
+      const remoteItem = remoteItems.get(item.i);
+      if (!remoteItem) {
+        // Removed on the other device, or added on this one
+        if (!baseItem) items.push(item);
+        return;
+      }
+      items.push(baseItem && isSameLayoutItem(item, baseItem) ? remoteItem : item);
+    });
+    remoteItems.forEach((item, id) => {
+      if (!localIds.has(id) && !baseItems.has(id)) {
+        items.push(item);
+      }
+    });
+
+    merged[breakpoint] = items;
+  });
+
+  return merged;
+};
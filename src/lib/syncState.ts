@@ -0,0 +1,98 @@
+/**
+ * Sync state shared by the storage services and the UI: how many writes are
+ * still on their way to the storage backend or waiting offline, and which
+ * widgets were changed on this device and another one at the same time.
+ */
+
+import type { SyncRevision } from './syncRevisions';
+
+export interface SyncConflict {
+  widgetId: string;
+  widgetType: string;
+  /** This device's version of the config, decrypted */
+  local: Record<string, unknown>;
+  /** The stored version written by the other device, decrypted */
+  remote: Record<string, unknown>;
+  remoteRevision?: SyncRevision;
+  detectedAt: string;
+}
+
+export interface SyncStateSnapshot {
+  pendingWrites: number;
+  /** Writes in the offline write queue */
+  queuedWrites: number;
+  conflicts: SyncConflict[];
+}
+
+/** Receives a widget config another device wrote, still in stored form */
+export type RemoteConfigListener = (widgetId: string, storedConfig: Record<string, unknown>) => void;
+
+let state: SyncStateSnapshot = { pendingWrites: 0, queuedWrites: 0, conflicts: [] };
+const listeners = new Set<() => void>();
+const remoteConfigListeners = new Set<RemoteConfigListener>();
+
+const setState = (update: Partial<SyncStateSnapshot>): void => {
+  state = { ...state, ...update };
+  listeners.forEach(listener => listener());
+};
+
+export const syncState = {
+  getSnapshot: (): SyncStateSnapshot => state,
+
+  subscribe: (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Count a write as pending until it settles
+   */
+  track: async <T>(write: Promise<T>): Promise<T> => {
+    setState({ pendingWrites: state.pendingWrites + 1 });
+    try {
+      return await write;
+    } finally {
+      setState({ pendingWrites: state.pendingWrites - 1 });
+    }
+  },
+
+  setQueuedWrites: (queuedWrites: number): void => {
+    if (queuedWrites !== state.queuedWrites) setState({ queuedWrites });
+  },
+
+  getConflict: (widgetId: string): SyncConflict | undefined =>
+    state.conflicts.find(conflict => conflict.widgetId === widgetId),
+
+  /**
+   * Record a conflict, replacing any earlier one for the same widget
+   */
+  addConflict: (conflict: SyncConflict): void =>
+    setState({
+      conflicts: [...state.conflicts.filter(existing => existing.widgetId !== conflict.widgetId), conflict],
+    }),
+
+  removeConflict: (widgetId: string): void => {
+    if (!state.conflicts.some(conflict => conflict.widgetId === widgetId)) return;
+    setState({ conflicts: state.conflicts.filter(conflict => conflict.widgetId !== widgetId) });
+  },
+
+  clearConflicts: (): void => {
+    if (state.conflicts.length > 0) setState({ conflicts: [] });
+  },
+
+  /**
+   * Hand a config written on another device to whoever shows the widget
+   */
+  publishRemoteConfig: (widgetId: string, storedConfig: Record<string, unknown>): void => {
+    remoteConfigListeners.forEach(listener => listener(widgetId, storedConfig));
+  },
+
+  subscribeRemoteConfigs: (listener: RemoteConfigListener): (() => void) => {
+    remoteConfigListeners.add(listener);
+    return () => {
+      remoteConfigListeners.delete(listener);
+    };
+  },
+};
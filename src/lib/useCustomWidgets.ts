@@ -0,0 +1,23 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useAppSettings } from '@/context/AppSettingsContext';
+import { customWidgetService, CustomWidgetStatus } from './customWidgets';
+
+/**
+ * Hook that loads the custom widget modules listed in app settings.
+ *
+ * Widgets are added to the registry as their modules load, and removed again when
+ * their URL is removed from settings. Components that render widgets should re-render
+ * when the returned statuses change.
+ *
+ * @returns Load state per module URL
+ */
+export function useCustomWidgets(): Record<string, CustomWidgetStatus> {
+  const { settings } = useAppSettings();
+  const sources = settings.customWidgets;
+
+  useEffect(() => {
+    customWidgetService.sync(sources || []);
+  }, [sources]);
+
+  return useSyncExternalStore(customWidgetService.subscribe, customWidgetService.getStatuses);
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { keyring, KeyringSnapshot } from './keyring';
+
+/**
+ * Hook following the passphrase encryption status
+ *
+ * @returns Whether passphrase encryption is off, locked or unlocked on this device
+ */
+export function useKeyring(): KeyringSnapshot {
+  return useSyncExternalStore(keyring.subscribe, keyring.getSnapshot);
+}
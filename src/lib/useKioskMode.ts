@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { toast } from 'sonner';
+import { useAppSettings } from '@/context/AppSettingsContext';
+import { useVisibilityRefresh } from './useVisibilityRefresh';
+import { DEFAULT_KIOSK_SETTINGS, getKioskUrlOverrides, kioskDevice, KioskSettings } from './kioskMode';
+import type { Dashboard } from '@/components/dashboard/DashboardSwitcher';
+
+interface UseKioskModeOptions {
+  dashboards: Dashboard[];
+  currentDashboardId: string;
+  /** Show another dashboard */
+  onSwitchDashboard: (dashboard: Dashboard) => void;
+  /** Reload the dashboard's data */
+  onRefresh: () => void;
+}
+
+/**
+ * Hook that runs kiosk mode (see lib/kioskMode.ts): rotates through the configured
+ * dashboards, reloads data on a schedule and keeps the screen awake. Escape leaves
+ * kiosk mode for the rest of the page load.
+ *
+ * @returns Whether kiosk mode is on
+ */
+export function useKioskMode({
+  dashboards,
+  currentDashboardId,
+  onSwitchDashboard,
+  onRefresh,
+}: UseKioskModeOptions): boolean {
+  const { settings: appSettings } = useAppSettings();
+  const [urlOverrides] = useState(() => getKioskUrlOverrides(window.location.search));
+  const isDeviceKiosk = useSyncExternalStore(kioskDevice.subscribe, kioskDevice.isEnabled);
+  const [hasExited, setHasExited] = useState(false);
+
+  const isKiosk = (urlOverrides.enabled ?? isDeviceKiosk) && !hasExited;
+  const { enabled: _enabled, ...settingOverrides } = urlOverrides;
+  const settings: KioskSettings = { ...DEFAULT_KIOSK_SETTINGS, ...appSettings.kiosk, ...settingOverrides };
+
+  // Dashboards that still exist, in the configured order
+  const rotation = settings.dashboardIds
+    .map(id => dashboards.find(dashboard => dashboard.id === id))
+    .filter((dashboard): dashboard is Dashboard => !!dashboard);
+  const rotationKey = rotation.map(dashboard => dashboard.id).join(',');
+
+  // Keep timers pointed at the latest state without restarting them on every render
+  const stateRef = useRef({ rotation, currentDashboardId, onSwitchDashboard });
+  useEffect(() => {
+    stateRef.current = { rotation, currentDashboardId, onSwitchDashboard };
+  });
+
+  // Start on the first dashboard of the rotation
+  useEffect(() => {
+    if (!isKiosk) return;
+    const { rotation, currentDashboardId, onSwitchDashboard } = stateRef.current;
+    if (rotation.length > 0 && !rotation.some(dashboard => dashboard.id === currentDashboardId)) {
+      onSwitchDashboard(rotation[0]);
+    }
+  }, [isKiosk, rotationKey]);
+
+  useEffect(() => {
+    if (!isKiosk || settings.rotateSeconds <= 0 || rotation.length < 2) return;
+
+    const interval = window.setInterval(() => {
+      const { rotation, currentDashboardId, onSwitchDashboard } = stateRef.current;
+      const index = rotation.findIndex(dashboard => dashboard.id === currentDashboardId);
+      onSwitchDashboard(rotation[(index + 1) % rotation.length]);
+    }, settings.rotateSeconds * 1000);
+
+    return () => window.clearInterval(interval);
+  }, [isKiosk, settings.rotateSeconds, rotation.length, rotationKey]);
+
+  useVisibilityRefresh({
+    onRefresh,
+    refreshInterval: settings.refreshMinutes * 60 * 1000,
+    enabled: isKiosk && settings.refreshMinutes > 0,
+  });
+
+  // Keep the screen on. The browser releases the lock whenever the page is hidden,
+  // so it's requested again each time the page becomes visible.
+  useEffect(() => {
+    if (!isKiosk || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const requestWakeLock = async () => {
+      if (document.hidden || (sentinel && !sentinel.released)) return;
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          void lock.release();
+        } else {
+          sentinel = lock;
+        }
+      } catch (error) {
+        console.warn('Could not keep the screen awake:', error);
+      }
+    };
+
+    void requestWakeLock();
+    document.addEventListener('visibilitychange', requestWakeLock);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', requestWakeLock);
+      void sentinel?.release();
+    };
+  }, [isKiosk]);
+
+  useEffect(() => {
+    if (!isKiosk) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      setHasExited(true);
+      toast('Left kiosk mode', { description: 'Reload the page to return to it.' });
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isKiosk]);
+
+  return isKiosk;
+}
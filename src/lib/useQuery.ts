@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { QUERY } from './constants';
+import { FetchQueryOptions, queryCache, QueryContext, QueryState } from './queryCache';
+
+interface UseQueryOptions {
+  /** Fetch again this often (in ms) while the tab is visible. Default: 0 (never) */
+  refreshInterval?: number;
+  /**
+   * Cached data younger than this (in ms) is used without fetching, e.g. when
+   * another widget just fetched the same key or the tab comes back into view.
+   * Default: QUERY.STALE_TIME_MS
+   */
+  staleTime?: number;
+  /** Whether to fetch at all, e.g. only once the widget is configured. Default: true */
+  enabled?: boolean;
+  /**
+   * Keep refreshing on schedule while the tab is hidden, for widgets that raise
+   * alerts about what they fetch. Default: false
+   */
+  refreshWhileHidden?: boolean;
+}
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  /** No data yet and no failure either: the first fetch is running or about to */
+  isLoading: boolean;
+  /** Fetch now, skipping the cache and any backoff, but not the server's Retry-After */
+  refresh: () => Promise<void>;
+}
+
+const IDLE_STATE: QueryState = { isFetching: false, failureCount: 0 };
+
+const subscribeVisibility = (listener: () => void): (() => void) => {
+  document.addEventListener('visibilitychange', listener);
+  return () => document.removeEventListener('visibilitychange', listener);
+};
+
+const isDocumentHidden = (): boolean => document.hidden;
+
+/**
+ * Hook that loads widget data through the shared query cache.
+ *
+ * Widgets using the same key share the data and the requests. Data is fetched
+ * when the widget mounts or the key changes, and again on `refreshInterval`.
+ * Failed fetches are retried with backoff. Nothing is fetched while the tab is
+ * hidden, unless `refreshWhileHidden` is set; when it comes back, stale data is
+ * refreshed right away.
+ *
+ * The fetcher may change between renders without fetching again; change the
+ * key when the data it returns changes. It gets a QueryContext: pass
+ * `cache: getRequestCache(context)` to its requests, so a refresh isn't
+ * answered from the service worker's or the browser's cache.
+ *
+ * @example
+ * ```tsx
+ * const { data, error, isLoading, updatedAt, refresh } = useQuery(
+ *   username ? `github-contributions:${username}` : null,
+ *   context => fetchOrThrow(`/api/github/${username}`, { cache: getRequestCache(context) }).then(response => response.json()),
+ *   { refreshInterval: 5 * 60 * 1000 }
+ * );
+ * ```
+ *
+ * @param key - Cache key naming the data, or null to fetch nothing
+ * @param fetcher - Loads the data; throw (e.g. via fetchOrThrow) to report a failure
+ * @param options - Refresh and caching options
+ */
+export function useQuery<T>(
+  key: string | null,
+  fetcher: (context: QueryContext) => Promise<T>,
+  {
+    refreshInterval = 0,
+    staleTime = QUERY.STALE_TIME_MS,
+    enabled = true,
+    refreshWhileHidden = false
+  }: UseQueryOptions = {}
+): UseQueryResult<T> {
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => (key ? queryCache.subscribe(key, listener) : () => undefined),
+    [key]
+  );
+  const getSnapshot = useCallback(
+    () => (key ? queryCache.getState<T>(key) : IDLE_STATE as QueryState<T>),
+    [key]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+  const isHidden = useSyncExternalStore(subscribeVisibility, isDocumentHidden);
+  const isPaused = isHidden && !refreshWhileHidden;
+  const isActive = enabled && key !== null;
+
+  const run = useCallback(async (options: FetchQueryOptions) => {
+    if (!key) return;
+    try {
+      await queryCache.fetch(key, context => fetcherRef.current(context), options);
+    } catch {
+      // The error is in the query state
+    }
+  }, [key]);
+
+  // Fetch on mount, for a new key and when the tab comes back, unless the cache is fresh
+  useEffect(() => {
+    if (!isActive || isPaused) return;
+    void run({ maxAge: staleTime });
+  }, [isActive, isPaused, staleTime, run]);
+
+  // Refresh on schedule and retry after failures, while the tab is visible
+  useEffect(() => {
+    if (!isActive || isPaused || state.isFetching) return;
+
+    const dueAt = state.error
+      ? state.retryAt
+      : refreshInterval > 0 && state.updatedAt !== undefined
+        ? state.updatedAt + refreshInterval
+        : undefined;
+    if (dueAt === undefined) return;
+
+    const timeoutId = setTimeout(() => void run({ maxAge: refreshInterval }), Math.max(dueAt - Date.now(), 0));
+    return () => clearTimeout(timeoutId);
+  }, [isActive, isPaused, state.isFetching, state.error, state.retryAt, state.updatedAt, refreshInterval, run]);
+
+  const refresh = useCallback(() => run({ force: true }), [run]);
+
+  return {
+    ...state,
+    isLoading: isActive && state.updatedAt === undefined && !state.error,
+    refresh,
+  };
+}
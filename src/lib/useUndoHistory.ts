@@ -0,0 +1,108 @@
+import { useState, useRef, useCallback } from 'react';
+import { TIMING, HISTORY } from './constants';
+
+/**
+ * A single undoable step: the state before the change, plus a label for toasts
+ */
+export interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+  /** Consecutive entries with the same key are merged into one step */
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+export interface UndoHistory<T> {
+  /** Record the state before a change. Clears the redo stack. */
+  record: (label: string, snapshot: T, coalesceKey?: string) => void;
+  /**
+   * Step back. The current state is moved onto the redo stack.
+   * @returns The entry to restore, or null if there is nothing to undo
+   */
+  undo: (current: T) => HistoryEntry<T> | null;
+  /**
+   * Step forward. The current state is moved onto the undo stack.
+   * @returns The entry to restore, or null if there is nothing to redo
+   */
+  redo: (current: T) => HistoryEntry<T> | null;
+  /** Drop all history, e.g. when switching dashboards */
+  clear: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Hook that keeps an undo/redo stack of state snapshots.
+ *
+ * Callers record a snapshot of the state *before* each change. Undo returns
+ * the previous snapshot and remembers the current one so it can be redone.
+ * Rapid changes sharing a coalesce key (e.g. typing in a widget setting)
+ * collapse into a single step.
+ *
+ * @param maxEntries - Maximum number of undo steps to keep
+ * @returns Undo history controls
+ */
+export function useUndoHistory<T>(maxEntries: number = HISTORY.MAX_ENTRIES): UndoHistory<T> {
+  const undoStack = useRef<HistoryEntry<T>[]>([]);
+  const redoStack = useRef<HistoryEntry<T>[]>([]);
+  const [counts, setCounts] = useState({ undo: 0, redo: 0 });
+
+  const syncCounts = useCallback(() => {
+    setCounts({ undo: undoStack.current.length, redo: redoStack.current.length });
+  }, []);
+
+  const record = useCallback((label: string, snapshot: T, coalesceKey?: string) => {
+    const now = Date.now();
+    const last = undoStack.current[undoStack.current.length - 1];
+
+    if (
+      coalesceKey &&
+      last?.coalesceKey === coalesceKey &&
+      now - last.timestamp < TIMING.HISTORY_COALESCE_MS
+    ) {
+      // Keep the oldest snapshot so one undo reverts the whole burst
+      last.timestamp = now;
+    } else {
+      undoStack.current.push({ label, snapshot, coalesceKey, timestamp: now });
+      if (undoStack.current.length > maxEntries) {
+        undoStack.current.shift();
+      }
+    }
+
+    redoStack.current = [];
+    syncCounts();
+  }, [maxEntries, syncCounts]);
+
+  const undo = useCallback((current: T): HistoryEntry<T> | null => {
+    const entry = undoStack.current.pop();
+    if (!entry) return null;
+
+    redoStack.current.push({ label: entry.label, snapshot: current, timestamp: Date.now() });
+    syncCounts();
+    return entry;
+  }, [syncCounts]);
+
+  const redo = useCallback((current: T): HistoryEntry<T> | null => {
+    const entry = redoStack.current.pop();
+    if (!entry) return null;
+
+    undoStack.current.push({ label: entry.label, snapshot: current, timestamp: Date.now() });
+    syncCounts();
+    return entry;
+  }, [syncCounts]);
+
+  const clear = useCallback(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    syncCounts();
+  }, [syncCounts]);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: counts.undo > 0,
+    canRedo: counts.redo > 0,
+  };
+}
@@ -0,0 +1,19 @@
+import { credentialVault, VAULT_QUERY_KEY, VaultCredential } from './credentialVault';
+import { useQuery } from './useQuery';
+
+/**
+ * Hook listing the credentials in the server-side vault
+ *
+ * @returns The credentials (empty when the vault isn't available on this device),
+ * whether the vault is available, and the query state
+ */
+export function useVaultCredentials() {
+  const isAvailable = credentialVault.isAvailable();
+  const query = useQuery<VaultCredential[]>(isAvailable ? VAULT_QUERY_KEY : null, credentialVault.list);
+
+  return {
+    ...query,
+    credentials: query.data ?? [],
+    isAvailable,
+  };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef, useSyncExternalStore, useCallback } from 'react';
+import { widgetEventBus, WidgetEventMap, WidgetEventName, WidgetEventSubscriber } from './widgetEvents';
+
+/**
+ * Hook that lets a widget receive an event from the widgets linked to it.
+ *
+ * The widget is listed as a link target for the event while it is mounted.
+ * The handler may change between renders without re-subscribing.
+ *
+ * @example
+ * ```tsx
+ * useWidgetEvent('open-url', config?.id, localConfig.title || 'Iframe', ({ url }) => {
+ *   updateUrl(url);
+ * });
+ * ```
+ *
+ * @param event - Event to receive
+ * @param widgetId - ID of the receiving widget; nothing is subscribed without one
+ * @param label - Name shown when other widgets choose a link target
+ * @param handler - Called with the event payload
+ */
+export function useWidgetEvent<E extends WidgetEventName>(
+  event: E,
+  widgetId: string | undefined,
+  label: string,
+  handler: (payload: WidgetEventMap[E]) => void
+): void {
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    if (!widgetId) return;
+    return widgetEventBus.subscribe(event, { widgetId, label }, payload => handlerRef.current(payload));
+  }, [event, widgetId, label]);
+}
+
+/**
+ * Hook that lists the widgets a widget can link to for an event
+ *
+ * @param event - Event the link is for
+ * @param ownWidgetId - The linking widget, which is never its own target
+ * @returns Mounted widgets accepting the event
+ */
+export function useLinkableWidgets(event: WidgetEventName, ownWidgetId?: string): WidgetEventSubscriber[] {
+  const getSnapshot = useCallback(() => widgetEventBus.getSubscribers(event), [event]);
+  const subscribers = useSyncExternalStore(widgetEventBus.onSubscribersChange, getSnapshot);
+  return subscribers.filter(subscriber => subscriber.widgetId !== ownWidgetId);
+}
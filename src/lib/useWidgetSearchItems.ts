@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { widgetSearchIndex, WidgetSearchItem } from './widgetSearch';
+
+/**
+ * Hook that makes content a widget fetches at runtime searchable from the command palette.
+ * Content stored in the widget's config is indexed through `getSearchItems` in the registry instead.
+ *
+ * @example
+ * ```tsx
+ * const searchItems = useMemo(() => items.map(item => ({ text: item.title, detail: item.feedTitle })), [items]);
+ * useWidgetSearchItems(config?.id, searchItems);
+ * ```
+ *
+ * @param widgetId - ID of the widget; nothing is indexed without one
+ * @param items - Current content; memoize it so it is only re-indexed when it changes
+ */
+export function useWidgetSearchItems(widgetId: string | undefined, items: WidgetSearchItem[]): void {
+  useEffect(() => {
+    if (!widgetId) return;
+    widgetSearchIndex.setRuntimeItems(widgetId, items);
+  }, [widgetId, items]);
+}
@@ -0,0 +1,132 @@
+/**
+ * Widget event bus
+ *
+ * Lets linked widgets talk to each other. A widget that can react to an event
+ * subscribes to it while mounted; a widget that sends events keeps the ID of the
+ * widget it is linked to per event in its config (`widgetLinks`), chosen in its
+ * settings. Events are delivered only to that widget, never broadcast.
+ */
+
+/**
+ * Events widgets can send, with their payloads
+ */
+export interface WidgetEventMap {
+  /** Show a web page, e.g. in an Iframe widget */
+  'open-url': { url: string; title?: string };
+  /** Count down to a moment, e.g. a calendar event */
+  'start-countdown': { title: string; targetDate: string };
+  /** Start a focus session on a task */
+  'start-focus': { task: string };
+  /** Switch to a timezone (IANA name) */
+  'select-timezone': { timezone: string; name?: string };
+}
+
+export type WidgetEventName = keyof WidgetEventMap;
+
+/**
+ * Linked widget ID per event, stored in the sending widget's config
+ */
+export type WidgetLinks = Partial<Record<WidgetEventName, string>>;
+
+// A mounted widget that accepts an event
+export interface WidgetEventSubscriber {
+  widgetId: string;
+  /** Shown when choosing a widget to link to, usually the widget's title */
+  label: string;
+}
+
+type Handler<E extends WidgetEventName> = (payload: WidgetEventMap[E]) => void;
+
+interface Subscription extends WidgetEventSubscriber {
+  handler: Handler<WidgetEventName>;
+}
+
+const subscriptions = new Map<WidgetEventName, Map<string, Subscription>>();
+// Cached subscriber lists, replaced on change so they can back useSyncExternalStore
+const subscriberLists = new Map<WidgetEventName, WidgetEventSubscriber[]>();
+const changeListeners = new Set<() => void>();
+
+const EMPTY_SUBSCRIBERS: WidgetEventSubscriber[] = [];
+
+const notifyChange = (event: WidgetEventName) => {
+  const eventSubscriptions = subscriptions.get(event);
+  subscriberLists.set(
+    event,
+    eventSubscriptions
+      ? [...eventSubscriptions.values()].map(({ widgetId, label }) => ({ widgetId, label }))
+      : EMPTY_SUBSCRIBERS
+  );
+  changeListeners.forEach(listener => listener());
+};
+
+export const widgetEventBus = {
+  /**
+   * Accept an event on behalf of a widget. A widget has at most one handler per event.
+   *
+   * @returns Function that removes the subscription
+   */
+  subscribe: <E extends WidgetEventName>(
+    event: E,
+    subscriber: WidgetEventSubscriber,
+    handler: Handler<E>
+  ): (() => void) => {
+    if (!subscriptions.has(event)) subscriptions.set(event, new Map());
+    const eventSubscriptions = subscriptions.get(event)!;
+    const subscription: Subscription = { ...subscriber, handler: handler as Handler<WidgetEventName> };
+    eventSubscriptions.set(subscriber.widgetId, subscription);
+    notifyChange(event);
+
+    return () => {
+      // A newer subscription of the same widget may have replaced this one
+      if (eventSubscriptions.get(subscriber.widgetId) !== subscription) return;
+      eventSubscriptions.delete(subscriber.widgetId);
+      notifyChange(event);
+    };
+  },
+
+  /**
+   * Send an event to one widget
+   *
+   * @returns Whether the widget is mounted and accepts the event
+   */
+  publish: <E extends WidgetEventName>(event: E, targetWidgetId: string, payload: WidgetEventMap[E]): boolean => {
+    const subscription = subscriptions.get(event)?.get(targetWidgetId);
+    if (!subscription) return false;
+    try {
+      subscription.handler(payload);
+    } catch (error) {
+      console.error(`Error handling ${event} in widget ${targetWidgetId}:`, error);
+    }
+    return true;
+  },
+
+  /**
+   * Send an event to the widget linked for it in a config's `widgetLinks`
+   *
+   * @returns Whether a linked widget received it - callers fall back to their default behavior otherwise
+   */
+  publishToLink: <E extends WidgetEventName>(
+    links: WidgetLinks | undefined,
+    event: E,
+    payload: WidgetEventMap[E]
+  ): boolean => {
+    const targetWidgetId = links?.[event];
+    return targetWidgetId ? widgetEventBus.publish(event, targetWidgetId, payload) : false;
+  },
+
+  /**
+   * Mounted widgets accepting an event
+   */
+  getSubscribers: (event: WidgetEventName): WidgetEventSubscriber[] =>
+    subscriberLists.get(event) || EMPTY_SUBSCRIBERS,
+
+  /**
+   * Be notified when widgets subscribe or unsubscribe
+   */
+  onSubscribersChange: (listener: () => void): (() => void) => {
+    changeListeners.add(listener);
+    return () => {
+      changeListeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,50 @@
+/**
+ * Widget content search
+ *
+ * Content a widget keeps in its config (todo items, notes) is read from the
+ * config with the registry's `getSearchItems`, so widgets on other dashboards
+ * are searchable too. Content a widget fetches at runtime (feed items, calendar
+ * events) is reported by the widget while mounted and kept for the session.
+ */
+
+/**
+ * A searchable piece of widget content
+ */
+export interface WidgetSearchItem {
+  /** Text that is matched and shown as the result */
+  text: string;
+  /** Secondary line, e.g. a link's URL or an event's date */
+  detail?: string;
+}
+
+// Runtime content per widget ID
+const runtimeItems = new Map<string, WidgetSearchItem[]>();
+
+export const widgetSearchIndex = {
+  /**
+   * Replace the runtime content of a widget
+   */
+  setRuntimeItems: (widgetId: string, items: WidgetSearchItem[]): void => {
+    runtimeItems.set(widgetId, items);
+  },
+
+  /**
+   * Runtime content of a widget, empty if it hasn't been mounted this session
+   */
+  getRuntimeItems: (widgetId: string): WidgetSearchItem[] => runtimeItems.get(widgetId) || [],
+};
+
+/**
+ * Whether text contains every whitespace-separated term of a query, ignoring case
+ *
+ * @param text - Text to search
+ * @param query - Search query
+ */
+export const matchesQuery = (text: string, query: string): boolean => {
+  const haystack = text.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(term => haystack.includes(term));
+};
@@ -0,0 +1,88 @@
+/**
+ * Widget stacks
+ *
+ * A stack is a container widget that shows several child widgets in one grid
+ * cell, as tabs or a carousel. Children aren't on the dashboard's widget list:
+ * the stack's config lists them, and each child keeps its own config in
+ * configManager under its own widget ID, just like a widget on the grid. That
+ * way a widget keeps its settings when it moves into a stack and back out.
+ */
+
+import type { Widget } from '@/types';
+
+export const STACK_WIDGET_TYPE = 'stack';
+
+/** Event a stack dispatches on document to move a child back onto the grid */
+export const UNSTACK_WIDGET_EVENT = 'boxento:unstackWidget';
+
+export interface StackChild {
+  id: string;
+  type: string;
+}
+
+export interface UnstackWidgetDetail {
+  stackId: string;
+  childId: string;
+}
+
+/**
+ * Where a dragged widget can be dropped into a stack. Rects are taken when the
+ * drag starts: the grid pushes a stack aside once a widget is dragged over it.
+ */
+export interface StackDropTarget {
+  stackId: string;
+  name: string;
+  rect: DOMRect;
+}
+
+const isStackChild = (value: unknown): value is StackChild =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as StackChild).id === 'string' &&
+  typeof (value as StackChild).type === 'string';
+
+/**
+ * Children of a stack, in tab order. Empty for any other widget.
+ *
+ * @param config - A widget's config
+ */
+export const getStackChildren = (config: Record<string, unknown> | undefined): StackChild[] => {
+  const children = config?.children;
+  return Array.isArray(children) ? children.filter(isStackChild) : [];
+};
+
+/**
+ * IDs of the widgets and of every stack child among them. Child configs must be
+ * kept, exported and snapshotted along with the widgets on the grid.
+ *
+ * @param widgets - Widgets on a dashboard
+ * @param configs - Stored configs, used when a widget's config isn't attached
+ */
+export const getWidgetIdsWithChildren = (
+  widgets: Widget[],
+  configs: Record<string, Record<string, unknown>> = {}
+): Set<string> => {
+  const ids = new Set<string>();
+  widgets.forEach(widget => {
+    ids.add(widget.id);
+    if (widget.type !== STACK_WIDGET_TYPE) return;
+    getStackChildren(configs[widget.id] || widget.config).forEach(child => ids.add(child.id));
+  });
+  return ids;
+};
+
+/**
+ * Ask the dashboard to move a stack's child back onto the grid
+ */
+export const requestUnstackWidget = (detail: UnstackWidgetDetail): void => {
+  document.dispatchEvent(new CustomEvent<UnstackWidgetDetail>(UNSTACK_WIDGET_EVENT, { detail }));
+};
+
+/**
+ * The drop target under a pointer position, if any
+ */
+export const getStackDropTargetAt = (
+  targets: StackDropTarget[],
+  x: number,
+  y: number
+): StackDropTarget | undefined =>
+  targets.find(({ rect }) => x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom);
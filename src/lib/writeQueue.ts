@@ -0,0 +1,140 @@
+/**
+ * Offline write queue
+ *
+ * Writes to the storage backend made while offline are kept in the local store
+ * and replayed once the device is back online, in the order widget list,
+ * layouts, configs. Only the latest write per target is kept: a queued layout
+ * save replaces the one before it, and deleting a widget's config replaces a
+ * queued save of it. A queued config save keeps the base it was edited from,
+ * so replaying it can't overwrite changes another device made meanwhile.
+ *
+ * The queue belongs to the signed-in user, so writes never replay into another
+ * account.
+ */
+
+import { LayoutItem } from '@/types';
+import { STORAGE_KEYS } from './constants';
+import { localStore } from './localStore';
+import { storageBackend } from './storage';
+import { syncState } from './syncState';
+
+export type QueuedWrite =
+  | { kind: 'widgets'; widgets: Record<string, unknown>[] }
+  | { kind: 'layouts'; layouts: { [key: string]: LayoutItem[] } }
+  // base: fingerprint of the config as last synced, to spot changes from other devices on replay
+  | { kind: 'config'; widgetId: string; config: Record<string, unknown>; base?: string }
+  | { kind: 'delete-config'; widgetId: string };
+
+export type QueuedEntry = QueuedWrite & { queuedAt: string };
+
+// Replay order: the widget list first, so layouts and configs never refer to unknown widgets
+const KIND_ORDER: QueuedWrite['kind'][] = ['widgets', 'layouts', 'config', 'delete-config'];
+
+const getQueueKey = (): string | null => {
+  const userId = storageBackend.getUserId();
+  return userId ? `${STORAGE_KEYS.WRITE_QUEUE}-${userId}` : null;
+};
+
+/**
+ * What a write replaces in the queue: configs per widget, the rest as a whole
+ */
+const getTarget = (write: QueuedWrite): string =>
+  write.kind === 'config' || write.kind === 'delete-config' ? `config:${write.widgetId}` : write.kind;
+
+const loadQueue = (): QueuedEntry[] => {
+  const key = getQueueKey();
+  if (!key) return [];
+  try {
+    const stored = localStore.getItem(key);
+    return stored ? JSON.parse(stored) as QueuedEntry[] : [];
+  } catch (error) {
+    console.error('Error loading the offline write queue:', error);
+    return [];
+  }
+};
+
+const saveQueue = (queue: QueuedEntry[]): void => {
+  const key = getQueueKey();
+  if (!key) return;
+  if (queue.length === 0) {
+    localStore.removeItem(key);
+  } else {
+    localStore.setItem(key, JSON.stringify(queue));
+  }
+  syncState.setQueuedWrites(queue.length);
+};
+
+// How browsers word the TypeError fetch rejects with when the request never
+// reached the server (Chrome, Firefox, Safari)
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|load failed|network connection was lost/i;
+
+/**
+ * Whether a failed write should wait in the queue rather than fail: the device
+ * is offline, the request never reached the server, or Firestore can't reach it.
+ * Other TypeErrors are bugs and fail like any other error.
+ */
+export const isOfflineError = (error: unknown): boolean =>
+  !navigator.onLine ||
+  (error instanceof TypeError && NETWORK_ERROR_PATTERN.test(error.message)) ||
+  (typeof error === 'object' && error !== null && (error as { code?: string }).code === 'unavailable');
+
+export const writeQueue = {
+  /**
+   * Queue a write, replacing any queued write to the same target
+   */
+  enqueue: (write: QueuedWrite): void => {
+    const target = getTarget(write);
+    const queue = loadQueue().filter(entry => getTarget(entry) !== target);
+    saveQueue([...queue, { ...write, queuedAt: new Date().toISOString() }]);
+  },
+
+  /**
+   * Every queued write, in replay order. They stay queued until removed.
+   */
+  getAll: (): QueuedEntry[] =>
+    [...loadQueue()].sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)),
+
+  /**
+   * Remove a write once it went through. A newer write queued to the same
+   * target in the meantime stays.
+   *
+   * @returns Whether the write was still queued
+   */
+  remove: (entry: QueuedEntry): boolean => {
+    const queue = loadQueue();
+    const remaining = queue.filter(queued =>
+      getTarget(queued) !== getTarget(entry) || queued.queuedAt !== entry.queuedAt
+    );
+    if (remaining.length === queue.length) return false;
+    saveQueue(remaining);
+    return true;
+  },
+
+  /**
+   * Change queued writes, e.g. to re-encrypt the configs they carry. Writes
+   * queued or replayed meanwhile are left as they are.
+   *
+   * @param update - Returns the changed write, or the same entry to keep it
+   */
+  updateAll: async (update: (entry: QueuedEntry) => Promise<QueuedEntry>): Promise<void> => {
+    const updated = new Map<string, QueuedEntry>();
+    for (const entry of loadQueue()) {
+      const next = await update(entry);
+      if (next !== entry) updated.set(`${getTarget(entry)}@${entry.queuedAt}`, next);
+    }
+    if (updated.size === 0) return;
+    saveQueue(loadQueue().map(entry => updated.get(`${getTarget(entry)}@${entry.queuedAt}`) ?? entry));
+  },
+
+  /**
+   * Number of queued writes for the signed-in user
+   */
+  size: (): number => loadQueue().length,
+
+  /**
+   * Publish the queue size for the signed-in user, e.g. after signing in
+   */
+  refresh: (): void => {
+    syncState.setQueuedWrites(loadQueue().length);
+  },
+};
@@ -7,11 +7,13 @@ import { AuthProvider } from './lib/AuthContext'
 import { SafeSyncProvider } from './lib/SyncContext'
 import { AppSettingsProvider } from './context/AppSettingsContext'
 import { SharedDashboardView } from './components/dashboard/SharedDashboardView'
+import { localStore } from './lib/localStore'
 
 const rootElement = document.getElementById('root')
 if (!rootElement) throw new Error('Failed to find the root element')
 
-ReactDOM.createRoot(rootElement).render(
+// Dashboard data is read synchronously while rendering, so the local store must be loaded first
+localStore.init().finally(() => ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
     <BrowserRouter>
       <AuthProvider>
@@ -26,4 +28,4 @@ ReactDOM.createRoot(rootElement).render(
       </AuthProvider>
     </BrowserRouter>
   </React.StrictMode>
-)
+))
@@ -15,6 +15,8 @@ export interface WidgetConfig {
   defaultSize?: { w: number, h: number };
   minSize?: { w: number, h: number };
   maxSize?: { w: number, h: number };
+  /** Config fields holding secrets (API keys, tokens) - never published with shared dashboards */
+  sensitiveFields?: string[];
 }
 
 export interface WidgetProps<T extends Record<string, unknown> = Record<string, unknown>> {
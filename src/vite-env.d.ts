@@ -1,5 +1,16 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  /** Storage backend: 'firestore' (default) or 'rest' for the self-hosted server */
+  readonly VITE_STORAGE_BACKEND?: string;
+  /** Base URL of the self-hosted storage API (default: /api/storage) */
+  readonly VITE_STORAGE_API_URL?: string;
+  /** Optional default sync token for the self-hosted storage API */
+  readonly VITE_STORAGE_API_TOKEN?: string;
+  /** Base URL of the Boxento fetch proxy (default: /api/proxy) */
+  readonly VITE_PROXY_URL?: string;
+}
+
 // Build-time constants injected by Vite
 declare const __BUILD_HASH__: string;
 declare const __BUILD_TIME__: string;
@@ -1,6 +1,8 @@
 import path from "path"
+import fs from "fs"
+import { createHash } from "crypto"
 import tailwindcss from "@tailwindcss/vite"
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import { execSync } from 'child_process'
 
@@ -40,9 +42,57 @@ const getAllowedHosts = () => {
   return defaultHosts
 }
 
+// Fills in the service worker's build version and app shell (public/service-worker.js).
+// The shell is the entry bundle with everything it imports statically; lazy widget
+// chunks are left to the worker's network-first runtime cache.
+const serviceWorkerPlugin = (): Plugin => ({
+  name: 'boxento-service-worker',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const workerPath = path.join(options.dir ?? 'dist', 'service-worker.js')
+    if (!fs.existsSync(workerPath)) return
+
+    const shell = new Set<string>()
+    const addFile = (fileName: string) => {
+      const url = `/${fileName}`
+      if (shell.has(url)) return
+      shell.add(url)
+      const output = bundle[fileName]
+      if (output?.type !== 'chunk') return
+      output.imports.forEach(addFile)
+      output.viteMetadata?.importedCss.forEach(addFile)
+      output.viteMetadata?.importedAssets.forEach(addFile)
+    }
+    Object.values(bundle).forEach(output => {
+      if (output.type === 'chunk' && output.isEntry) addFile(output.fileName)
+    })
+
+    // File names carry content hashes, so the version only changes when the build does
+    const version = createHash('sha256').update(Object.keys(bundle).sort().join('\n')).digest('hex').slice(0, 12)
+    const source = fs.readFileSync(workerPath, 'utf-8')
+      .replace("const BUILD_VERSION = 'dev';", `const BUILD_VERSION = '${version}';`)
+      .replace('const PRECACHE_URLS = [];', `const PRECACHE_URLS = ${JSON.stringify([...shell])};`)
+    fs.writeFileSync(workerPath, source)
+  },
+})
+
+// Bundled Boxento server (server/index.ts), proxied so the app can use same-origin
+// /api/storage and /api/proxy. X-Forwarded-For lets the fetch proxy rate limit per browser.
+const boxentoServerProxy = {
+  '/api/storage': {
+    target: process.env.BOXENTO_SERVER_URL || 'http://localhost:3100',
+    changeOrigin: true,
+  },
+  '/api/proxy': {
+    target: process.env.BOXENTO_SERVER_URL || 'http://localhost:3100',
+    changeOrigin: true,
+    xfwd: true,
+  },
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), serviceWorkerPlugin()],
   define: {
     __BUILD_HASH__: JSON.stringify(getGitHash()),
     __BUILD_TIME__: JSON.stringify(getBuildTime()),
@@ -84,7 +134,7 @@ export default defineConfig({
         rewrite: (path) => path.replace(/^\/api\/docker/, ''),
         secure: false
       },
-
+      ...boxentoServerProxy,
     },
     host: true, // Listen on all network interfaces
     port: 5173,
@@ -93,6 +143,7 @@ export default defineConfig({
     allowedHosts: getAllowedHosts()
   },
   preview: {
+    proxy: boxentoServerProxy,
     port: 5173,
     host: true, // Listen on all network interfaces
     // Use same allowed hosts for preview